@@ -34,6 +34,7 @@ import SuperAdminDashboard from "@/pages/super-admin-dashboard";
 import SuperAdminIFSCAUsers from "@/pages/super-admin-ifsca-users";
 import SuperAdminReportingEntitiesPage from "@/pages/super-admin-reporting-entities";
 import SuperAdminCategoryManagementPage from "@/pages/super-admin-category-management";
+import SuperAdminCodeListsPage from "@/pages/super-admin-code-lists";
 import IFSCADashboard from "@/pages/ifsca-dashboard";
 import ReportingEntityDashboard from "@/pages/reporting-entity-dashboard";
 import SubmissionViewPage from "@/pages/submission-view";
@@ -105,6 +106,13 @@ function Router() {
           </SuperAdminRoute>
         </Layout>
       </Route>
+      <Route path="/super-admin/code-lists">
+        <Layout>
+          <SuperAdminRoute>
+            <SuperAdminCodeListsPage />
+          </SuperAdminRoute>
+        </Layout>
+      </Route>
       <Route path="/ifsca/dashboard">
         <UserDashboardPage />
       </Route>
@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CopyPlus, Plus, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+
+interface CarryForwardSettingsProps {
+  templateId: number;
+  /** templates.carry_forward as stored; null carries nothing forward */
+  storedMapping?: string | null;
+}
+
+interface CarryForwardMapping {
+  source: string;
+  target: string;
+  description?: string;
+}
+
+function parseMapping(stored?: string | null): CarryForwardMapping[] {
+  if (!stored) return [];
+  try {
+    const mappings = JSON.parse(stored);
+    return Array.isArray(mappings) ? mappings : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Cells of an entity's last approved filing that pre-fill its workbook for
+ * the next period, e.g. entity details or closing balances as opening balances
+ */
+export function CarryForwardSettings({ templateId, storedMapping }: CarryForwardSettingsProps) {
+  const { toast } = useToast();
+  const [mappings, setMappings] = useState<CarryForwardMapping[]>(parseMapping(storedMapping));
+
+  useEffect(() => {
+    setMappings(parseMapping(storedMapping));
+  }, [storedMapping]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (carryForward: CarryForwardMapping[]) => {
+      const response = await fetch(`/api/templates/${templateId}/carry-forward`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ carryForward }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.details?.join("; ") || error.error || "Failed to save carry-forward mapping");
+      }
+      return response.json();
+    },
+    onSuccess: (_data, carryForward) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates", templateId] });
+      toast({
+        title: "Success",
+        description: carryForward.length ? "Carry-forward mapping saved" : "Carry-forward mapping cleared",
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const update = (index: number, changes: Partial<CarryForwardMapping>) => {
+    setMappings(mappings.map((mapping, i) => (i === index ? { ...mapping, ...changes } : mapping)));
+  };
+
+  const complete = mappings.filter((mapping) => mapping.source.trim() && mapping.target.trim());
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CopyPlus className="h-5 w-5" />
+          Carry Forward
+          {!storedMapping && <Badge variant="outline">None</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-500">
+          Entities can download a workbook pre-filled from their last approved submission. Each row copies a
+          cell or range of that submission, e.g. <span className="font-mono">'Balance Sheet'!D5:D20</span>, to a
+          cell or range of the same size in the new workbook. A single source cell fills the whole target.
+        </p>
+
+        {mappings.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>From last filing</TableHead>
+                <TableHead>To</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {mappings.map((mapping, i) => (
+                <TableRow key={i}>
+                  <TableCell>
+                    <Input
+                      value={mapping.source}
+                      onChange={(e) => update(i, { source: e.target.value })}
+                      placeholder="'Balance Sheet'!D5:D20"
+                      className="font-mono"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={mapping.target}
+                      onChange={(e) => update(i, { target: e.target.value })}
+                      placeholder="'Balance Sheet'!C5:C20"
+                      className="font-mono"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={mapping.description ?? ""}
+                      onChange={(e) => update(i, { description: e.target.value })}
+                      placeholder="Closing balances become opening balances"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setMappings(mappings.filter((_, j) => j !== i))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setMappings([...mappings, { source: "", target: "", description: "" }])}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Mapping
+          </Button>
+          <Button onClick={() => saveMutation.mutate(complete)} disabled={saveMutation.isPending}>
+            <Save className="h-4 w-4 mr-2" />
+            {saveMutation.isPending ? "Saving..." : "Save Mapping"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,275 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Hash, Save, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import {
+  AMOUNT_SCALES,
+  parseFormattedNumber,
+  resolveNumberFormat,
+  type NumberFormat,
+} from "@shared/numberFormat";
+
+interface NumberFormatSettingsProps {
+  templateId: number;
+  /** templates.number_format as stored; null uses the defaults */
+  storedFormat?: string | null;
+}
+
+const PREVIEW_SAMPLES = ["1,23,456.00", "(1,500)", "12.5%", "₹ 10 lakh"];
+
+function formatScaleWords(scaleWords: Record<string, number>): string {
+  return Object.entries(scaleWords)
+    .map(([word, factor]) => `${word}=${factor}`)
+    .join(", ");
+}
+
+function parseScaleWords(text: string): Record<string, number> {
+  const scaleWords: Record<string, number> = {};
+  text.split(",").forEach((pair) => {
+    const [word, factor] = pair.split("=").map((part) => part.trim());
+    if (word && Number(factor) > 0) scaleWords[word] = Number(factor);
+  });
+  return scaleWords;
+}
+
+/**
+ * How formatted amounts in submissions ("1,23,456.00", "(1,500)", "12.5%")
+ * are read by schema inference, validation rules and XBRL generation
+ */
+export function NumberFormatSettings({ templateId, storedFormat }: NumberFormatSettingsProps) {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<NumberFormat>(resolveNumberFormat(storedFormat));
+  const [currencySymbols, setCurrencySymbols] = useState("");
+  const [scaleWords, setScaleWords] = useState("");
+  const [preview, setPreview] = useState("");
+
+  useEffect(() => {
+    const resolved = resolveNumberFormat(storedFormat);
+    setFormat(resolved);
+    setCurrencySymbols(resolved.currencySymbols.join(", "));
+    setScaleWords(formatScaleWords(resolved.scaleWords));
+  }, [storedFormat]);
+
+  const editedFormat: NumberFormat = {
+    ...format,
+    currencySymbols: currencySymbols.split(",").map((s) => s.trim()).filter(Boolean),
+    scaleWords: parseScaleWords(scaleWords),
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (numberFormat: NumberFormat | null) => {
+      const response = await fetch(`/api/templates/${templateId}/number-format`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ numberFormat }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.details?.join("; ") || error.error || "Failed to save number format");
+      }
+      return response.json();
+    },
+    onSuccess: (_data, numberFormat) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates", templateId] });
+      toast({
+        title: "Success",
+        description: numberFormat ? "Number format saved" : "Number format reset to the defaults",
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const samples = preview.trim() ? [preview] : PREVIEW_SAMPLES;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hash className="h-5 w-5" />
+          Number Format
+          {!storedFormat && <Badge variant="outline">Defaults</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="number-format-enabled">Read formatted amounts as numbers</Label>
+            <p className="text-sm text-gray-500">
+              Text such as "1,23,456.00" or "(1,500)" in submissions is converted before validation,
+              and each conversion is listed in the validation report.
+            </p>
+          </div>
+          <Switch
+            id="number-format-enabled"
+            checked={format.enabled}
+            onCheckedChange={(enabled) => setFormat({ ...format, enabled })}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Digit grouping</Label>
+            <Select
+              value={format.grouping}
+              onValueChange={(grouping: NumberFormat["grouping"]) => setFormat({ ...format, grouping })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Indian or international</SelectItem>
+                <SelectItem value="indian">Indian (1,23,456)</SelectItem>
+                <SelectItem value="international">International (123,456)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Decimal separator</Label>
+            <Select
+              value={format.decimalSeparator}
+              onValueChange={(decimalSeparator: NumberFormat["decimalSeparator"]) =>
+                setFormat({ ...format, decimalSeparator })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value=".">Point (1,234.56)</SelectItem>
+                <SelectItem value=",">Comma (1.234,56)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Percentages</Label>
+            <Select
+              value={format.percentages}
+              onValueChange={(percentages: NumberFormat["percentages"]) => setFormat({ ...format, percentages })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="fraction">As a fraction (12.5% = 0.125)</SelectItem>
+                <SelectItem value="points">As points (12.5% = 12.5)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Switch
+            id="number-format-accounting"
+            checked={format.accountingNegatives}
+            onCheckedChange={(accountingNegatives) => setFormat({ ...format, accountingNegatives })}
+          />
+          <Label htmlFor="number-format-accounting">Read amounts in brackets as negative, e.g. (1,500)</Label>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Amounts reported in</Label>
+          <Select
+            value={String(format.amountScale)}
+            onValueChange={(amountScale) => setFormat({ ...format, amountScale: Number(amountScale) })}
+          >
+            <SelectTrigger className="md:w-1/3">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(AMOUNT_SCALES).map(([unit, factor]) => (
+                <SelectItem key={unit} value={String(factor)}>
+                  {unit.charAt(0).toUpperCase() + unit.slice(1)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-gray-500">
+            Absolute tolerances and variance limits in rules are written in full units and converted to this unit.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="number-format-currency">Currency symbols</Label>
+            <Input
+              id="number-format-currency"
+              value={currencySymbols}
+              onChange={(e) => setCurrencySymbols(e.target.value)}
+              placeholder="₹, Rs., INR, $"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="number-format-scale">Scale words</Label>
+            <Input
+              id="number-format-scale"
+              value={scaleWords}
+              onChange={(e) => setScaleWords(e.target.value)}
+              placeholder="lakh=100000, crore=10000000"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="number-format-preview">Try a value</Label>
+          <Input
+            id="number-format-preview"
+            value={preview}
+            onChange={(e) => setPreview(e.target.value)}
+            placeholder={PREVIEW_SAMPLES.join("   ")}
+          />
+          <div className="border rounded-md divide-y text-sm">
+            {samples.map((sample) => {
+              const parsed = editedFormat.enabled ? parseFormattedNumber(sample, editedFormat) : null;
+              return (
+                <div key={sample} className="flex items-center justify-between px-3 py-2">
+                  <span className="font-mono">{sample}</span>
+                  {parsed ? (
+                    <span>
+                      <span className="font-mono">{parsed.value}</span>
+                      {parsed.coercions.length > 0 && (
+                        <span className="text-gray-500"> ({parsed.coercions.join(", ")})</span>
+                      )}
+                    </span>
+                  ) : (
+                    <span className="text-gray-500">kept as text</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={() => saveMutation.mutate(null)}
+            disabled={saveMutation.isPending || !storedFormat}
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to defaults
+          </Button>
+          <Button onClick={() => saveMutation.mutate(editedFormat)} disabled={saveMutation.isPending}>
+            <Save className="h-4 w-4 mr-2" />
+            {saveMutation.isPending ? "Saving..." : "Save number format"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
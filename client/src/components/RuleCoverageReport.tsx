@@ -0,0 +1,229 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Crosshair, RefreshCw, CheckCircle } from "lucide-react";
+
+interface RuleCoverageReportProps {
+  templateId: number;
+}
+
+interface RuleReference {
+  id?: number;
+  ruleType: string;
+  field: string;
+  condition: string;
+  severity: string;
+}
+
+type CoverageIssueType = "uncovered_field" | "outside_template" | "overlap" | "contradiction";
+
+interface CoverageReport {
+  summary: {
+    totalRules: number;
+    totalFields: number;
+    requiredFields: number;
+    coveredFields: number;
+    uncoveredRequiredFields: number;
+    totalColumns: number;
+    coveredColumns: number;
+    rulesOutsideTemplate: number;
+    overlaps: number;
+    contradictions: number;
+  };
+  fields: Array<{
+    sheetName: string;
+    fieldName: string;
+    dataType?: string;
+    location?: string;
+    required: boolean;
+    rules: RuleReference[];
+  }>;
+  columns: Array<{
+    sheetName: string;
+    column: string;
+    header: string | null;
+    rules: number;
+  }>;
+  issues: Array<{
+    type: CoverageIssueType;
+    sheetName?: string;
+    message: string;
+    rules: RuleReference[];
+  }>;
+}
+
+const issueLabels: Record<CoverageIssueType, { label: string; className: string }> = {
+  uncovered_field: { label: "Not covered", className: "bg-amber-100 text-amber-800" },
+  outside_template: { label: "Outside template", className: "bg-red-100 text-red-800" },
+  overlap: { label: "Overlap", className: "bg-blue-100 text-blue-800" },
+  contradiction: { label: "Contradiction", className: "bg-red-100 text-red-800" },
+};
+
+function describeRule(rule: RuleReference): string {
+  return `${rule.ruleType} ${rule.field}: ${rule.condition}`;
+}
+
+/**
+ * Which extracted schema fields and template columns the validation rules
+ * check, with uncovered required fields and conflicting rules
+ */
+export function RuleCoverageReport({ templateId }: RuleCoverageReportProps) {
+  const { data: report, isLoading, isFetching, refetch } = useQuery<CoverageReport>({
+    queryKey: [`/api/templates/${templateId}/rule-coverage`],
+  });
+
+  const sheetNames = Array.from(new Set(report?.columns.map((column) => column.sheetName) || []));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Crosshair className="h-5 w-5" />
+            Rule Coverage
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !report ? (
+          <p className="text-sm text-gray-500">{isLoading ? "Analyzing rules..." : "Coverage is not available"}</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">{report.summary.totalRules} rules</Badge>
+              <Badge variant="outline">
+                {report.summary.coveredFields}/{report.summary.totalFields} schema fields covered
+              </Badge>
+              <Badge variant="outline">
+                {report.summary.coveredColumns}/{report.summary.totalColumns} columns covered
+              </Badge>
+              {report.summary.uncoveredRequiredFields > 0 && (
+                <Badge className={issueLabels.uncovered_field.className}>
+                  {report.summary.uncoveredRequiredFields} required fields without rules
+                </Badge>
+              )}
+              {report.summary.rulesOutsideTemplate > 0 && (
+                <Badge className={issueLabels.outside_template.className}>
+                  {report.summary.rulesOutsideTemplate} rules outside the template
+                </Badge>
+              )}
+              {report.summary.contradictions > 0 && (
+                <Badge className={issueLabels.contradiction.className}>
+                  {report.summary.contradictions} contradictions
+                </Badge>
+              )}
+              {report.summary.overlaps > 0 && (
+                <Badge className={issueLabels.overlap.className}>{report.summary.overlaps} overlaps</Badge>
+              )}
+            </div>
+
+            {report.issues.length === 0 ? (
+              <div className="flex items-center gap-2 text-sm text-green-700">
+                <CheckCircle className="h-4 w-4" />
+                Every required field has a rule and no rules conflict
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Issue</TableHead>
+                    <TableHead>Sheet</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead>Rules</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.issues.map((issue, i) => (
+                    <TableRow key={i}>
+                      <TableCell>
+                        <Badge className={issueLabels[issue.type].className}>{issueLabels[issue.type].label}</Badge>
+                      </TableCell>
+                      <TableCell>{issue.sheetName || "-"}</TableCell>
+                      <TableCell className="text-sm">{issue.message}</TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {issue.rules.map((rule, j) => (
+                          <div key={j}>{describeRule(rule)}</div>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {report.fields.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Schema fields</h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Sheet</TableHead>
+                      <TableHead>Field</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Rules</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.fields.map((field, i) => (
+                      <TableRow key={i}>
+                        <TableCell>{field.sheetName}</TableCell>
+                        <TableCell>
+                          {field.fieldName}
+                          {field.required && <span className="text-red-500"> *</span>}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{field.location || "not found in template"}</TableCell>
+                        <TableCell>
+                          {field.rules.length > 0 ? (
+                            <span className="text-sm" title={field.rules.map(describeRule).join("\n")}>
+                              {field.rules.map((rule) => rule.ruleType).join(", ")}
+                            </span>
+                          ) : (
+                            <Badge className={issueLabels.uncovered_field.className}>None</Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {sheetNames.map((sheetName) => (
+              <div key={sheetName} className="space-y-2">
+                <h4 className="text-sm font-medium">Columns of {sheetName}</h4>
+                <div className="flex flex-wrap gap-1">
+                  {report.columns
+                    .filter((column) => column.sheetName === sheetName)
+                    .map((column) => (
+                      <span
+                        key={column.column}
+                        title={`${column.header || "No header"}: ${column.rules} rules`}
+                        className={`px-2 py-1 rounded text-xs font-mono ${
+                          column.rules > 0 ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-500"
+                        }`}
+                      >
+                        {column.column}
+                      </span>
+                    ))}
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
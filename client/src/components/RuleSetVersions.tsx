@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download, History } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+
+interface RuleSetVersionsProps {
+  templateId: number;
+}
+
+interface RuleSetVersion {
+  id: number;
+  version: number;
+  effectiveFrom: string | null;
+  fileName: string | null;
+  note: string | null;
+  ruleCount: number;
+  createdAt: string;
+}
+
+/**
+ * Published versions of a template's rules and the periods they apply to
+ */
+export function RuleSetVersions({ templateId }: RuleSetVersionsProps) {
+  const { toast } = useToast();
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+  const [note, setNote] = useState("");
+
+  const { data: versions = [], isLoading } = useQuery<RuleSetVersion[]>({
+    queryKey: [`/api/templates/${templateId}/rule-sets`],
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/templates/${templateId}/rule-sets`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ effectiveFrom: effectiveFrom.trim(), note: note.trim() }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to publish rule set");
+      return data as RuleSetVersion;
+    },
+    onSuccess: (ruleSet) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/templates/${templateId}/rule-sets`] });
+      toast({ title: "Success", description: `Current rules are rule set version ${ruleSet.version}` });
+      setEffectiveFrom("");
+      setNote("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Newest version for each start period is the one in effect
+  const inEffect = new Set(
+    Array.from(
+      versions
+        .reduce((latest, version) => {
+          const key = version.effectiveFrom ?? "";
+          if (!latest.has(key)) latest.set(key, version.id);
+          return latest;
+        }, new Map<string, number>())
+        .values()
+    )
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Rule Set Versions
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-500">
+          Every change to the rules is kept as a version. Submissions are validated against the version in
+          effect for their reporting period and keep it when re-validated.
+        </p>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <Input
+            placeholder="Effective from, e.g. Q1 2025"
+            value={effectiveFrom}
+            onChange={(e) => setEffectiveFrom(e.target.value)}
+            className="w-56"
+          />
+          <Input
+            placeholder="Note (optional)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className="w-64"
+          />
+          <Button
+            variant="outline"
+            onClick={() => publishMutation.mutate()}
+            disabled={publishMutation.isPending}
+          >
+            {publishMutation.isPending ? "Publishing..." : "Publish Current Rules"}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading versions...</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No versions yet. The rules in use are published as version 1 when the first submission is validated.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Effective From</TableHead>
+                <TableHead>Rules</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Published</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {versions.map((version) => (
+                <TableRow key={version.id}>
+                  <TableCell>
+                    v{version.version}
+                    {inEffect.has(version.id) && (
+                      <Badge variant="outline" className="ml-2 text-green-700 border-green-300">
+                        In effect
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{version.effectiveFrom || "All periods"}</TableCell>
+                  <TableCell>{version.ruleCount}</TableCell>
+                  <TableCell className="text-sm">
+                    {version.fileName || "Rules edited in the app"}
+                    {version.note && <div className="text-gray-500">{version.note}</div>}
+                  </TableCell>
+                  <TableCell className="text-sm">{format(new Date(version.createdAt), "dd MMM yyyy HH:mm")}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => window.open(`/api/rule-sets/${version.id}?format=json`, "_blank")}
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
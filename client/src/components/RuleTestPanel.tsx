@@ -0,0 +1,459 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  FlaskConical,
+  Play,
+  Save,
+  ShieldCheck,
+  Trash2,
+  RefreshCw,
+  CheckCircle,
+  XCircle,
+  AlertTriangle,
+  Info,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { NumberCoercionReport } from "@shared/numberFormat";
+import type { ValidationSeverity } from "@shared/schema";
+
+interface RuleTestPanelProps {
+  templateId: number;
+}
+
+interface DryRunCheck {
+  sheetName?: string;
+  cellReference?: string;
+  cellValue?: string;
+  field: string;
+  ruleType: string;
+  condition: string;
+  errorMessage: string;
+  severity: ValidationSeverity;
+  isValid: boolean;
+}
+
+interface DryRunResponse {
+  results: DryRunCheck[];
+  summary: {
+    totalChecks: number;
+    passedChecks: number;
+    failedChecks: number;
+    skippedChecks: number;
+    errorCount: number;
+    warningCount: number;
+    infoCount: number;
+    blockingCount: number;
+    overallStatus: "passed" | "failed" | "warnings";
+  };
+  metadata: {
+    numberCoercions?: NumberCoercionReport;
+  };
+  ruleErrors: string[];
+  rulesSource: "draft" | "published";
+}
+
+interface GoldenSample {
+  id: number;
+  name: string;
+  fileName: string;
+  reportingPeriod: string | null;
+  expectedChecks: number;
+  expectedFailures: number;
+  updatedAt: string;
+}
+
+interface OutcomeDifference {
+  sheetName?: string;
+  cellReference?: string;
+  field: string;
+  ruleType: string;
+  expected: "pass" | "fail" | "missing";
+  actual: "pass" | "fail" | "missing";
+}
+
+interface GoldenSampleCheck extends GoldenSample {
+  matches?: boolean;
+  regressions?: number;
+  differences?: OutcomeDifference[];
+  ruleErrors?: string[];
+  error?: string;
+}
+
+// Rendering thousands of rows makes the panel unusable; the counts cover the rest
+const MAX_ROWS_SHOWN = 500;
+
+/**
+ * Try validation rules on sample workbooks before publishing them, and keep
+ * golden samples whose results must not change unexpectedly
+ */
+export function RuleTestPanel({ templateId }: RuleTestPanelProps) {
+  const { toast } = useToast();
+  const [sampleFile, setSampleFile] = useState<File | null>(null);
+  const [rulesFile, setRulesFile] = useState<File | null>(null);
+  const [reportingPeriod, setReportingPeriod] = useState("");
+  const [sampleName, setSampleName] = useState("");
+  const [showPasses, setShowPasses] = useState(false);
+  const [dryRun, setDryRun] = useState<DryRunResponse | null>(null);
+  const [checks, setChecks] = useState<Record<number, GoldenSampleCheck>>({});
+
+  const goldenSamplesKey = [`/api/templates/${templateId}/golden-samples`];
+  const { data: goldenSamples = [] } = useQuery<GoldenSample[]>({
+    queryKey: goldenSamplesKey,
+  });
+
+  const buildFormData = (includeSample: boolean) => {
+    const formData = new FormData();
+    if (includeSample && sampleFile) formData.append("sample", sampleFile);
+    if (rulesFile) formData.append("rules", rulesFile);
+    if (reportingPeriod) formData.append("reportingPeriod", reportingPeriod);
+    return formData;
+  };
+
+  const postForm = async (url: string, formData: FormData, failure: string) => {
+    const response = await fetch(url, {
+      method: "POST",
+      body: formData,
+      credentials: "include",
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || failure);
+    }
+    return response.json();
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const dryRunMutation = useMutation({
+    mutationFn: () =>
+      postForm(
+        `/api/templates/${templateId}/validation-dry-run`,
+        buildFormData(true),
+        "Failed to run validation dry run"
+      ),
+    onSuccess: (data: DryRunResponse) => setDryRun(data),
+    onError,
+  });
+
+  const saveSampleMutation = useMutation({
+    mutationFn: () => {
+      const formData = buildFormData(true);
+      if (sampleName) formData.append("name", sampleName);
+      return postForm(
+        `/api/templates/${templateId}/golden-samples`,
+        formData,
+        "Failed to save golden sample"
+      );
+    },
+    onSuccess: (sample: GoldenSample) => {
+      queryClient.invalidateQueries({ queryKey: goldenSamplesKey });
+      toast({
+        title: "Golden sample saved",
+        description: `${sample.name}: ${sample.expectedChecks} checks recorded as expected results`,
+      });
+      setSampleName("");
+    },
+    onError,
+  });
+
+  const checkSamplesMutation = useMutation({
+    mutationFn: () =>
+      postForm(
+        `/api/templates/${templateId}/golden-samples/check`,
+        buildFormData(false),
+        "Failed to check golden samples"
+      ),
+    onSuccess: (data: { passed: boolean; samples: GoldenSampleCheck[] }) => {
+      setChecks(Object.fromEntries(data.samples.map((check) => [check.id, check])));
+      toast({
+        title: data.passed ? "Golden samples unchanged" : "Golden samples changed",
+        description: data.passed
+          ? "Every sample produced its expected results"
+          : "Some samples no longer produce their expected results",
+        variant: data.passed ? undefined : "destructive",
+      });
+    },
+    onError,
+  });
+
+  const acceptSampleMutation = useMutation({
+    mutationFn: (id: number) =>
+      postForm(`/api/golden-samples/${id}/accept`, buildFormData(false), "Failed to update golden sample"),
+    onSuccess: (sample: GoldenSample) => {
+      queryClient.invalidateQueries({ queryKey: goldenSamplesKey });
+      setChecks(({ [sample.id]: _, ...rest }) => rest);
+      toast({ title: "Expected results updated", description: sample.name });
+    },
+    onError,
+  });
+
+  const deleteSampleMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await fetch(`/api/golden-samples/${id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to delete golden sample");
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: goldenSamplesKey });
+    },
+    onError,
+  });
+
+  const visibleResults = dryRun
+    ? dryRun.results.filter((result) => showPasses || !result.isValid)
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <FlaskConical className="h-5 w-5 text-purple-600" />
+        <h3 className="font-medium">Test Rules</h3>
+      </div>
+      <p className="text-sm text-gray-600">
+        Run a sample workbook through the published rules, or a draft rules file, without creating a submission.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <Label htmlFor="rule-test-sample">Sample Workbook</Label>
+          <Input
+            id="rule-test-sample"
+            type="file"
+            accept=".xlsx,.xls,.csv"
+            onChange={(e) => setSampleFile(e.target.files?.[0] || null)}
+            className="mt-2"
+          />
+        </div>
+        <div>
+          <Label htmlFor="rule-test-rules">Draft Rules File (optional)</Label>
+          <Input
+            id="rule-test-rules"
+            type="file"
+            accept=".json,.yaml,.yml,.csv,.xlsx,.xls,.txt"
+            onChange={(e) => setRulesFile(e.target.files?.[0] || null)}
+            className="mt-2"
+          />
+        </div>
+        <div>
+          <Label htmlFor="rule-test-period">Reporting Period (optional)</Label>
+          <Input
+            id="rule-test-period"
+            placeholder="e.g. 2024-Q1"
+            value={reportingPeriod}
+            onChange={(e) => setReportingPeriod(e.target.value)}
+            className="mt-2"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <Button
+          onClick={() => dryRunMutation.mutate()}
+          disabled={!sampleFile || dryRunMutation.isPending}
+        >
+          <Play className="h-4 w-4 mr-1" />
+          {dryRunMutation.isPending ? "Running..." : "Run Dry Run"}
+        </Button>
+        <Input
+          placeholder="Golden sample name"
+          value={sampleName}
+          onChange={(e) => setSampleName(e.target.value)}
+          className="w-56"
+        />
+        <Button
+          variant="outline"
+          onClick={() => saveSampleMutation.mutate()}
+          disabled={!sampleFile || saveSampleMutation.isPending}
+        >
+          <Save className="h-4 w-4 mr-1" />
+          Save as Golden Sample
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => checkSamplesMutation.mutate()}
+          disabled={goldenSamples.length === 0 || checkSamplesMutation.isPending}
+        >
+          <ShieldCheck className="h-4 w-4 mr-1" />
+          {checkSamplesMutation.isPending ? "Checking..." : "Check Golden Samples"}
+        </Button>
+      </div>
+
+      {dryRun && (
+        <div className="space-y-3">
+          {dryRun.ruleErrors.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {dryRun.ruleErrors.map((error, i) => (
+                  <div key={i}>{error}</div>
+                ))}
+              </AlertDescription>
+            </Alert>
+          )}
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="outline">
+              {dryRun.rulesSource === "draft" ? "Draft rules" : "Published rules"}
+            </Badge>
+            <Badge variant="outline">{dryRun.summary.totalChecks} checks</Badge>
+            <Badge className="bg-green-100 text-green-800">{dryRun.summary.passedChecks} passed</Badge>
+            <Badge className="bg-red-100 text-red-800">{dryRun.summary.errorCount} errors</Badge>
+            <Badge className="bg-yellow-100 text-yellow-800">{dryRun.summary.warningCount} warnings</Badge>
+            {dryRun.summary.blockingCount > 0 && (
+              <Badge variant="destructive">{dryRun.summary.blockingCount} blocking</Badge>
+            )}
+            {dryRun.summary.infoCount > 0 && (
+              <Badge className="bg-blue-100 text-blue-800">{dryRun.summary.infoCount} info</Badge>
+            )}
+            {dryRun.summary.skippedChecks > 0 && (
+              <Badge variant="secondary">{dryRun.summary.skippedChecks} skipped by when clauses</Badge>
+            )}
+            {dryRun.metadata.numberCoercions && (
+              <Badge
+                variant="secondary"
+                title={dryRun.metadata.numberCoercions.samples
+                  .slice(0, 10)
+                  .map((c) => `${c.sheetName}!${c.cellReference}: "${c.original}" -> ${c.value} (${c.coercions.join(", ")})`)
+                  .join("\n")}
+              >
+                {dryRun.metadata.numberCoercions.count} formatted amounts read as numbers
+              </Badge>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => setShowPasses(!showPasses)}>
+              {showPasses ? "Show failures only" : "Show passing cells"}
+            </Button>
+          </div>
+          <div className="max-h-96 overflow-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Sheet</TableHead>
+                  <TableHead>Cell</TableHead>
+                  <TableHead>Value</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Message</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleResults.slice(0, MAX_ROWS_SHOWN).map((result, i) => (
+                  <TableRow key={i}>
+                    <TableCell>
+                      {result.isValid ? (
+                        <CheckCircle className="h-4 w-4 text-green-600" />
+                      ) : result.severity === "info" ? (
+                        <Info className="h-4 w-4 text-blue-600" />
+                      ) : result.severity === "warning" ? (
+                        <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                      ) : (
+                        <XCircle className="h-4 w-4 text-red-600" />
+                      )}
+                    </TableCell>
+                    <TableCell>{result.sheetName || "-"}</TableCell>
+                    <TableCell className="font-mono">{result.cellReference || "-"}</TableCell>
+                    <TableCell className="max-w-[10rem] truncate">{result.cellValue ?? ""}</TableCell>
+                    <TableCell>{result.ruleType}</TableCell>
+                    <TableCell className="text-sm">{result.isValid ? "" : result.errorMessage}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          {visibleResults.length > MAX_ROWS_SHOWN && (
+            <p className="text-xs text-muted-foreground">
+              Showing the first {MAX_ROWS_SHOWN} of {visibleResults.length} checks
+            </p>
+          )}
+        </div>
+      )}
+
+      {goldenSamples.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Golden Samples</h4>
+          {goldenSamples.map((sample) => {
+            const check = checks[sample.id];
+            return (
+              <div key={sample.id} className="p-3 border rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-sm">{sample.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {sample.fileName}
+                      {sample.reportingPeriod ? ` · ${sample.reportingPeriod}` : ""} · {sample.expectedChecks} checks,{" "}
+                      {sample.expectedFailures} expected failures
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {check?.error && <Badge variant="destructive">{check.error}</Badge>}
+                    {check?.matches === true && (
+                      <Badge className="bg-green-100 text-green-800">Unchanged</Badge>
+                    )}
+                    {check?.matches === false && (
+                      <Badge variant="destructive">
+                        {check.regressions
+                          ? `${check.regressions} regression${check.regressions === 1 ? "" : "s"}`
+                          : `${check.differences?.length} changes`}
+                      </Badge>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Accept the current results as expected"
+                      onClick={() => acceptSampleMutation.mutate(sample.id)}
+                      disabled={acceptSampleMutation.isPending}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Delete golden sample"
+                      onClick={() => deleteSampleMutation.mutate(sample.id)}
+                      disabled={deleteSampleMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {check?.differences && check.differences.length > 0 && (
+                  <div className="text-xs space-y-1 max-h-40 overflow-auto">
+                    {check.differences.slice(0, 50).map((difference, i) => (
+                      <div key={i} className="font-mono">
+                        {difference.sheetName ? `${difference.sheetName}!` : ""}
+                        {difference.cellReference || difference.field} [{difference.ruleType}]: expected{" "}
+                        {difference.expected}, got {difference.actual}
+                      </div>
+                    ))}
+                    {check.differences.length > 50 && (
+                      <div className="text-muted-foreground">
+                        and {check.differences.length - 50} more
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -131,7 +131,10 @@ export function SubmissionCalendar({ userId, category }: SubmissionCalendarProps
 
   // Generate all recurring reminders for the current month
   const reminders: SubmissionReminder[] = templates?.flatMap((template: any) => {
-    const lastSubmission = submissions?.find((s: any) => s.templateId === template.id);
+    // Submissions filed against any version of the template count
+    const lastSubmission = submissions?.find(
+      (s: any) => (s.templateGroupId ?? s.templateId) === (template.templateGroupId ?? template.id)
+    );
     const lastSubmissionDate = lastSubmission ? parseISO(lastSubmission.createdAt) : null;
     const recurringDates = calculateRecurringDates(template.frequency, lastSubmissionDate);
     
@@ -186,6 +186,7 @@ export function SubmissionHistory({
                           submission.templateTitle ||
                           submission.template_id ||
                           submission.templateId}
+                        {submission.templateVersion && ` v${submission.templateVersion}`}
                       </Badge>
                     </TableCell>
                     <TableCell>{submission.reportingPeriod}</TableCell>
@@ -15,6 +15,7 @@ import {
   Database,
   LogOut,
   User,
+  ListChecks,
 } from "lucide-react";
 
 interface SuperAdminLayoutProps {
@@ -72,6 +73,12 @@ export default function SuperAdminLayout({
       icon: Settings,
       current: location === "/super-admin/categories",
     },
+    {
+      name: "Code Lists",
+      href: "/super-admin/code-lists",
+      icon: ListChecks,
+      current: location === "/super-admin/code-lists",
+    },
     // {
     //   name: "System Activity",
     //   href: "/super-admin/activity",
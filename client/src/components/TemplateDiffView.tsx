@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download, GitCompare, CheckCircle } from "lucide-react";
+
+interface TemplateDiffViewProps {
+  templateId: number;
+}
+
+const AREAS = ["sheet", "header", "table", "cell", "formula", "schema", "rule"] as const;
+type ChangeArea = (typeof AREAS)[number];
+type ChangeType = "added" | "removed" | "renamed" | "moved" | "changed";
+
+interface TemplateChange {
+  area: ChangeArea;
+  type: ChangeType;
+  sheetName: string | null;
+  beforeLocation: string | null;
+  before: string | null;
+  afterLocation: string | null;
+  after: string | null;
+  description: string;
+}
+
+interface TemplateDiffReport {
+  from: string;
+  to: string;
+  summary: Record<ChangeArea, number> & { total: number };
+  changes: TemplateChange[];
+}
+
+const typeStyles: Record<ChangeType, string> = {
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+  renamed: "bg-blue-100 text-blue-800",
+  moved: "bg-purple-100 text-purple-800",
+  changed: "bg-amber-100 text-amber-800",
+};
+
+function Side({ location, value, className }: { location: string | null; value: string | null; className: string }) {
+  if (!location && !value) return <span className="text-gray-400">-</span>;
+  return (
+    <div className={`rounded px-2 py-1 ${className}`}>
+      {location && <span className="font-mono text-xs text-gray-500 mr-2">{location}</span>}
+      <span className="text-sm break-all">{value}</span>
+    </div>
+  );
+}
+
+/**
+ * Side-by-side changes from another version (or any template) to this one:
+ * sheets, headers, tables, labels, formulas, schema fields and rules
+ */
+export function TemplateDiffView({ templateId }: TemplateDiffViewProps) {
+  // Empty compares with the previous version
+  const [fromId, setFromId] = useState("");
+  const [area, setArea] = useState<ChangeArea | "all">("all");
+
+  const { data: templates = [] } = useQuery<Array<{ id: number; name: string; version: number }>>({
+    queryKey: ["/api/templates"],
+  });
+
+  const query = fromId ? `?from=${fromId}` : "";
+  const { data: report, isLoading, error } = useQuery<TemplateDiffReport, Error>({
+    queryKey: [`/api/templates/${templateId}/diff`, fromId],
+    queryFn: async () => {
+      const response = await fetch(`/api/templates/${templateId}/diff${query}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to compare templates");
+      return data;
+    },
+    retry: false,
+  });
+
+  const changes = report?.changes.filter((change) => area === "all" || change.area === area) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5" />
+            Changes
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={fromId || "previous"} onValueChange={(value) => setFromId(value === "previous" ? "" : value)}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="previous">Since the previous version</SelectItem>
+                {templates
+                  .filter((template) => template.id !== templateId)
+                  .map((template) => (
+                    <SelectItem key={template.id} value={template.id.toString()}>
+                      Since {template.name} v{template.version}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!report}
+              onClick={() => window.open(`/api/templates/${templateId}/diff${query ? `${query}&` : "?"}format=excel`, "_blank")}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Change Log
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Comparing templates...</p>
+        ) : error || !report ? (
+          <p className="text-sm text-gray-500">{error?.message || "No comparison available"}</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-500">
+              From <span className="font-medium">{report.from}</span> to <span className="font-medium">{report.to}</span>
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Badge
+                variant={area === "all" ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => setArea("all")}
+              >
+                {report.summary.total} changes
+              </Badge>
+              {AREAS.filter((a) => report.summary[a] > 0).map((a) => (
+                <Badge
+                  key={a}
+                  variant={area === a ? "default" : "outline"}
+                  className="cursor-pointer capitalize"
+                  onClick={() => setArea(a)}
+                >
+                  {a}: {report.summary[a]}
+                </Badge>
+              ))}
+            </div>
+
+            {report.changes.length === 0 ? (
+              <div className="flex items-center gap-2 text-sm text-green-700">
+                <CheckCircle className="h-4 w-4" />
+                The templates have the same structure and rules
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Change</TableHead>
+                    <TableHead>Sheet</TableHead>
+                    <TableHead className="w-1/3">Before</TableHead>
+                    <TableHead className="w-1/3">After</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changes.map((change, i) => (
+                    <TableRow key={i}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="capitalize text-sm">{change.area}</span>
+                          <Badge className={typeStyles[change.type]}>{change.type}</Badge>
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">{change.description}</div>
+                      </TableCell>
+                      <TableCell className="text-sm">{change.sheetName || "-"}</TableCell>
+                      <TableCell>
+                        <Side location={change.beforeLocation} value={change.before} className="bg-red-50" />
+                      </TableCell>
+                      <TableCell>
+                        <Side location={change.afterLocation} value={change.after} className="bg-green-50" />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
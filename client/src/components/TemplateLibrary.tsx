@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Plus, Eye, Download, Trash2, FileSpreadsheet, FileText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { TemplateLifecycleBadge } from "@/components/TemplateVersions";
 
 interface TemplateLibraryProps {
   templates: any[];
@@ -181,7 +182,7 @@ export function TemplateLibrary({ templates, onTemplateSelected, onTemplateDelet
                           )}
                         </div>
                         <div className="text-xs text-gray-500">
-                          {template.fileName} • {formatFileSize(template.fileSize)}
+                          v{template.version} • {template.fileName} • {formatFileSize(template.fileSize)}
                         </div>
                       </div>
                     </div>
@@ -196,6 +197,7 @@ export function TemplateLibrary({ templates, onTemplateSelected, onTemplateDelet
                       <Badge className={`text-xs ${getStatusColor(template.status)}`}>
                         {getStatusIcon(template.status)} {template.status}
                       </Badge>
+                      <TemplateLifecycleBadge status={template.lifecycleStatus} />
                       {template.validationRulesPath && (
                         <Badge variant="outline" className="text-xs">
                           ✓ Rules
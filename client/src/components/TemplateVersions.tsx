@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { GitBranch, Upload } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { TemplateLifecycleStatus } from "@/../../shared/schema";
+
+interface TemplateVersionsProps {
+  templateId: number;
+}
+
+interface TemplateVersion {
+  id: number;
+  version: number;
+  lifecycleStatus: TemplateLifecycleStatus;
+  effectiveFrom: string | null;
+  status: string;
+  fileName: string;
+  createdAt: string;
+  publishedAt: string | null;
+  retiredAt: string | null;
+  submissionCount: number;
+}
+
+const LIFECYCLE_STYLES: Record<TemplateLifecycleStatus, string> = {
+  draft: "bg-gray-100 text-gray-800",
+  review: "bg-yellow-100 text-yellow-800",
+  published: "bg-green-100 text-green-800",
+  retired: "bg-red-100 text-red-800",
+};
+
+/**
+ * Lifecycle status of a template version
+ */
+export function TemplateLifecycleBadge({ status }: { status: string }) {
+  return (
+    <Badge className={LIFECYCLE_STYLES[status as TemplateLifecycleStatus] ?? LIFECYCLE_STYLES.draft}>
+      {status.charAt(0).toUpperCase() + status.slice(1)}
+    </Badge>
+  );
+}
+
+/**
+ * Versions of a template, moving them through review and publication,
+ * and starting a new version from an updated file
+ */
+export function TemplateVersions({ templateId }: TemplateVersionsProps) {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+  const [newVersionFile, setNewVersionFile] = useState<File | null>(null);
+
+  const { data: versions = [], isLoading } = useQuery<TemplateVersion[]>({
+    queryKey: [`/api/templates/${templateId}/versions`],
+  });
+
+  const invalidateVersions = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/templates/${templateId}/versions`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+  };
+
+  const lifecycleMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: TemplateLifecycleStatus }) => {
+      const response = await fetch(`/api/templates/${id}/lifecycle`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          status === "published" && effectiveFrom.trim() ? { status, effectiveFrom: effectiveFrom.trim() } : { status }
+        ),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to change template status");
+      return data as TemplateVersion;
+    },
+    onSuccess: (version) => {
+      invalidateVersions();
+      toast({ title: "Success", description: `Version ${version.version} is now ${version.lifecycleStatus}` });
+      setEffectiveFrom("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const newVersionMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("template", file);
+      const response = await fetch(`/api/templates/${templateId}/versions`, {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to create template version");
+      return data as { message: string; templateId: number };
+    },
+    onSuccess: (data) => {
+      invalidateVersions();
+      toast({ title: "Success", description: data.message });
+      setNewVersionFile(null);
+      navigate(`/template/${data.templateId}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const actionsFor = (version: TemplateVersion) => {
+    const move = (status: TemplateLifecycleStatus, label: string) => (
+      <Button
+        key={status}
+        variant="outline"
+        size="sm"
+        onClick={() => lifecycleMutation.mutate({ id: version.id, status })}
+        disabled={lifecycleMutation.isPending}
+      >
+        {label}
+      </Button>
+    );
+
+    switch (version.lifecycleStatus) {
+      case "draft":
+        return [move("review", "Submit for Review")];
+      case "review":
+        return [move("draft", "Back to Draft"), move("published", "Publish")];
+      case "published":
+        return [move("retired", "Retire")];
+      default:
+        return [];
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitBranch className="h-5 w-5" />
+          Template Versions
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-500">
+          Each version has its own file, sheets, schemas and rules. Versions go from draft through review to
+          published; entities file against the published version in effect for their reporting period, and
+          retired versions take no new submissions.
+        </p>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <Input
+            placeholder="Publish effective from, e.g. Q1 2025"
+            value={effectiveFrom}
+            onChange={(e) => setEffectiveFrom(e.target.value)}
+            className="w-64"
+          />
+          <Input
+            type="file"
+            accept=".xlsx,.xls,.csv"
+            onChange={(e) => setNewVersionFile(e.target.files?.[0] ?? null)}
+            className="w-64"
+          />
+          <Button
+            variant="outline"
+            onClick={() => newVersionFile && newVersionMutation.mutate(newVersionFile)}
+            disabled={!newVersionFile || newVersionMutation.isPending}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {newVersionMutation.isPending ? "Uploading..." : "New Version"}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading versions...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Effective From</TableHead>
+                <TableHead>File</TableHead>
+                <TableHead>Submissions</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {versions.map((version) => (
+                <TableRow key={version.id} className={version.id === templateId ? "bg-blue-50" : undefined}>
+                  <TableCell>
+                    <Button variant="link" className="p-0 h-auto" onClick={() => navigate(`/template/${version.id}`)}>
+                      v{version.version}
+                    </Button>
+                  </TableCell>
+                  <TableCell>
+                    <TemplateLifecycleBadge status={version.lifecycleStatus} />
+                    {version.status !== "completed" && (
+                      <div className="text-xs text-gray-500 mt-1">Processing: {version.status}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {version.lifecycleStatus === "draft" || version.lifecycleStatus === "review"
+                      ? "-"
+                      : version.effectiveFrom || "All periods"}
+                  </TableCell>
+                  <TableCell className="text-sm">{version.fileName}</TableCell>
+                  <TableCell>{version.submissionCount}</TableCell>
+                  <TableCell className="text-sm">{format(new Date(version.createdAt), "dd MMM yyyy")}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-2 justify-end">{actionsFor(version)}</div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
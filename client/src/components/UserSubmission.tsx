@@ -10,7 +10,7 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
-import { CloudUpload, Upload, CheckCircle, XCircle, AlertCircle, Download, FileSpreadsheet } from "lucide-react";
+import { CloudUpload, Upload, CheckCircle, XCircle, AlertCircle, Download, FileSpreadsheet, Copy } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 
@@ -107,7 +107,7 @@ export function UserSubmission() {
       setSubmissionId(data.submissionId);
       toast({
         title: "Success",
-        description: "File uploaded successfully. Validation in progress...",
+        description: `File uploaded against template version ${data.templateVersion}. Validation in progress...`,
       });
       
       // Simulate validation time and fetch results
@@ -164,6 +164,51 @@ export function UserSubmission() {
     uploadMutation.mutate(data);
   };
 
+  // The raw template or the fillable workbook, for the version in effect for the reporting period
+  const openTemplateFile = (kind: "download" | "fillable-workbook") => {
+    const templateId = form.watch("templateId");
+    const reportingPeriod = form.watch("reportingPeriod");
+    if (templateId) {
+      const query = reportingPeriod ? `?reportingPeriod=${encodeURIComponent(reportingPeriod)}` : "";
+      window.open(`/api/templates/${templateId}/${kind}${query}`, '_blank');
+    }
+  };
+
+  // The fillable workbook pre-filled from the last approved filing before the reporting period
+  const downloadPrefilledWorkbook = async () => {
+    const templateId = form.watch("templateId");
+    const reportingPeriod = form.watch("reportingPeriod");
+    try {
+      const response = await fetch(
+        `/api/templates/${templateId}/prefilled-workbook?reportingPeriod=${encodeURIComponent(reportingPeriod)}`
+      );
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to download pre-filled workbook");
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = response.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] || "prefilled.xlsx";
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const selectedTemplate = Array.isArray(templates)
+    ? templates.find((template: any) => template.id.toString() === form.watch("templateId"))
+    : undefined;
+
   const getValidationStats = () => {
     const errors = validationResults.filter(r => r.severity === 'error' && r.result === 'failed').length;
     const warnings = validationResults.filter(r => r.severity === 'warning' && r.result === 'failed').length;
@@ -286,23 +331,43 @@ export function UserSubmission() {
                     <div>
                       <h4 className="font-medium text-blue-900">Download Template</h4>
                       <p className="text-sm text-blue-700">
-                        Download the selected template file to fill it out before submitting
+                        Download the version of the template in effect for the reporting period to fill it out
+                        before submitting. The fillable workbook checks values as you type them; the pre-filled one
+                        also carries values forward from your last approved submission.
                       </p>
                     </div>
-                    <Button 
-                      type="button" 
-                      variant="outline" 
-                      size="sm"
-                      onClick={() => {
-                        const templateId = form.watch("templateId");
-                        if (templateId) {
-                          window.open(`/api/templates/${templateId}/download`, '_blank');
-                        }
-                      }}
-                    >
-                      <Download className="mr-2 h-4 w-4" />
-                      Download Template
-                    </Button>
+                    <div className="flex gap-2">
+                      {selectedTemplate?.carryForward && (
+                        <Button 
+                          type="button" 
+                          variant="outline" 
+                          size="sm"
+                          disabled={!form.watch("reportingPeriod")}
+                          onClick={downloadPrefilledWorkbook}
+                        >
+                          <Copy className="mr-2 h-4 w-4" />
+                          Pre-filled Workbook
+                        </Button>
+                      )}
+                      <Button 
+                        type="button" 
+                        variant="outline" 
+                        size="sm"
+                        onClick={() => openTemplateFile("fillable-workbook")}
+                      >
+                        <FileSpreadsheet className="mr-2 h-4 w-4" />
+                        Fillable Workbook
+                      </Button>
+                      <Button 
+                        type="button" 
+                        variant="outline" 
+                        size="sm"
+                        onClick={() => openTemplateFile("download")}
+                      >
+                        <Download className="mr-2 h-4 w-4" />
+                        Download Template
+                      </Button>
+                    </div>
                   </div>
                 </div>
               )}
@@ -24,10 +24,13 @@ import {
   FileJson,
   FileCode,
   FileSpreadsheet,
-  Code
+  Code,
+  AlertCircle,
+  AlertTriangle
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
+import { RuleTestPanel } from "./RuleTestPanel";
 
 interface ValidationRulesManagerProps {
   templateId: number;
@@ -35,16 +38,64 @@ interface ValidationRulesManagerProps {
   sheets?: any[];
 }
 
+/** A problem found in a rules file, located by line or by worksheet and row */
+interface RuleDiagnostic {
+  severity: "error" | "warning";
+  code: string;
+  message: string;
+  suggestion?: string;
+  line?: number;
+  sheet?: string;
+  row?: number;
+}
+
+function formatLocation(diagnostic: RuleDiagnostic): string {
+  if (diagnostic.line !== undefined) return `Line ${diagnostic.line}`;
+  if (diagnostic.sheet) return diagnostic.row !== undefined ? `${diagnostic.sheet} row ${diagnostic.row}` : diagnostic.sheet;
+  return "File";
+}
+
+function RuleDiagnosticsList({ diagnostics }: { diagnostics: RuleDiagnostic[] }) {
+  return (
+    <div className="border rounded-md divide-y max-h-64 overflow-y-auto">
+      {diagnostics.map((diagnostic, i) => (
+        <div key={i} className="flex gap-2 p-2 text-sm">
+          {diagnostic.severity === "error" ? (
+            <AlertCircle className="h-4 w-4 text-red-600 shrink-0 mt-0.5" />
+          ) : (
+            <AlertTriangle className="h-4 w-4 text-amber-600 shrink-0 mt-0.5" />
+          )}
+          <div className="min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{formatLocation(diagnostic)}</span>
+              <Badge variant="outline" className="font-mono text-xs">{diagnostic.code}</Badge>
+            </div>
+            <p className="break-words">{diagnostic.message}</p>
+            {diagnostic.suggestion && <p className="text-muted-foreground break-words">{diagnostic.suggestion}</p>}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export function ValidationRulesManager({ templateId, template }: ValidationRulesManagerProps) {
   const { toast } = useToast();
   const [showValidationUploadDialog, setShowValidationUploadDialog] = useState(false);
   const [validationFile, setValidationFile] = useState<File | null>(null);
+  // First reporting period the uploaded rules apply to; empty for all periods
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+  // Errors that rejected the last upload, shown in the upload dialog
+  const [rejectedDiagnostics, setRejectedDiagnostics] = useState<RuleDiagnostic[]>([]);
+  // Warnings about the uploaded file
+  const [uploadWarnings, setUploadWarnings] = useState<RuleDiagnostic[]>([]);
 
   // Upload validation file mutation
   const uploadValidationFileMutation = useMutation({
     mutationFn: async (file: File) => {
       const formData = new FormData();
       formData.append('validationFile', file);
+      if (effectiveFrom.trim()) formData.append('effectiveFrom', effectiveFrom.trim());
       
       const response = await fetch(`/api/templates/${templateId}/validation-file`, {
         method: "POST",
@@ -52,30 +103,43 @@ export function ValidationRulesManager({ templateId, template }: ValidationRules
       });
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.error || "Failed to upload validation file");
+        throw Object.assign(new Error(error.error || "Failed to upload validation file"), {
+          diagnostics: (error.diagnostics || []) as RuleDiagnostic[],
+        });
       }
       return response.json();
     },
     onSuccess: (data) => {
+      const warnings: RuleDiagnostic[] = data.diagnostics || [];
       queryClient.invalidateQueries({ queryKey: [`/api/templates/${templateId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/templates/${templateId}/rule-coverage`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/templates/${templateId}/rule-sets`] });
       toast({ 
         title: "Success", 
-        description: data.warning || `Validation file uploaded successfully. ${data.rulesCreated} rules created.`
+        description: `Validation file uploaded successfully. ${data.rulesCreated} rules created.` +
+          (data.ruleSet ? ` Published as rule set version ${data.ruleSet.version}.` : "") +
+          (warnings.length > 0 ? ` ${warnings.length} warnings.` : "")
       });
+      setUploadWarnings(warnings);
+      setRejectedDiagnostics([]);
       setShowValidationUploadDialog(false);
       setValidationFile(null);
+      setEffectiveFrom("");
     },
-    onError: (error) => {
+    onError: (error: Error & { diagnostics?: RuleDiagnostic[] }) => {
+      setRejectedDiagnostics(error.diagnostics || []);
       toast({ title: "Error", description: error.message, variant: "destructive" });
     },
   });
 
-  // Download validation file function
-  const downloadValidationFile = async () => {
+  // Download the validation file as uploaded, or converted to another format
+  const downloadValidationFile = async (format?: string) => {
     try {
-      const response = await fetch(`/api/templates/${templateId}/validation-file/download`);
+      const query = format ? `?format=${format}` : '';
+      const response = await fetch(`/api/templates/${templateId}/validation-file/download${query}`);
       if (!response.ok) {
-        throw new Error('Failed to download validation file');
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || 'Failed to download validation file');
       }
       
       const blob = await response.blob();
@@ -84,8 +148,10 @@ export function ValidationRulesManager({ templateId, template }: ValidationRules
       a.style.display = 'none';
       a.href = url;
       
-      // Extract filename from validation rules path
-      const filename = template?.validationRulesPath?.split('/').pop() || 'validation-rules.txt';
+      // Converted files are named by the server; originals keep their uploaded name
+      const disposition = response.headers.get('Content-Disposition');
+      const filename = disposition?.match(/filename="?([^"]+)"?/)?.[1] ||
+        template?.validationRulesPath?.split('/').pop() || 'validation-rules.txt';
       a.download = filename;
       
       document.body.appendChild(a);
@@ -94,8 +160,8 @@ export function ValidationRulesManager({ templateId, template }: ValidationRules
       document.body.removeChild(a);
       
       toast({ title: "Success", description: "Validation file downloaded successfully" });
-    } catch (error) {
-      toast({ title: "Error", description: "Failed to download validation file", variant: "destructive" });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to download validation file", variant: "destructive" });
     }
   };
 
@@ -210,17 +276,55 @@ export function ValidationRulesManager({ templateId, template }: ValidationRules
                 <Badge variant="outline" className="text-green-700 border-green-300">
                   Active Rules
                 </Badge>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={downloadValidationFile}
-                  className="text-green-700 border-green-300 hover:bg-green-50"
-                >
-                  <Download className="h-4 w-4 mr-1" />
-                  Download
-                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-green-700 border-green-300 hover:bg-green-50"
+                    >
+                      <Download className="h-4 w-4 mr-1" />
+                      Download
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent>
+                    <DropdownMenuItem onClick={() => downloadValidationFile()}>
+                      <FileCheck className="h-4 w-4 mr-2" />
+                      Original File
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => downloadValidationFile('json')}>
+                      <FileJson className="h-4 w-4 mr-2" />
+                      As JSON
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => downloadValidationFile('yaml')}>
+                      <FileCode className="h-4 w-4 mr-2" />
+                      As YAML
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => downloadValidationFile('csv')}>
+                      <FileSpreadsheet className="h-4 w-4 mr-2" />
+                      As CSV
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => downloadValidationFile('excel')}>
+                      <FileSpreadsheet className="h-4 w-4 mr-2" />
+                      As Excel
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => downloadValidationFile('txt')}>
+                      <FileText className="h-4 w-4 mr-2" />
+                      As TXT
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
               </div>
             </div>
+
+            {uploadWarnings.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-amber-700">
+                  {uploadWarnings.length} warnings in the uploaded file
+                </p>
+                <RuleDiagnosticsList diagnostics={uploadWarnings} />
+              </div>
+            )}
             
             {/* Upload New File Section */}
             <div className="text-center py-6 border-t border-gray-200">
@@ -287,11 +391,16 @@ export function ValidationRulesManager({ templateId, template }: ValidationRules
             </div>
           </div>
         )}
+
+        {/* Dry runs and golden sample checks */}
+        <div className="mt-6 pt-6 border-t border-gray-200">
+          <RuleTestPanel templateId={templateId} />
+        </div>
       </CardContent>
 
       {/* Validation File Upload Dialog */}
       <Dialog open={showValidationUploadDialog} onOpenChange={setShowValidationUploadDialog}>
-        <DialogContent className="max-w-md">
+        <DialogContent className="max-w-lg">
           <DialogHeader>
             <DialogTitle>Upload Validation File</DialogTitle>
           </DialogHeader>
@@ -305,6 +414,7 @@ export function ValidationRulesManager({ templateId, template }: ValidationRules
                 onChange={(e) => {
                   const file = e.target.files?.[0];
                   if (file) setValidationFile(file);
+                  setRejectedDiagnostics([]);
                 }}
                 className="mt-2"
               />
@@ -312,6 +422,30 @@ export function ValidationRulesManager({ templateId, template }: ValidationRules
                 Upload validation rules in JSON Schema, YAML, CSV, Excel, or TXT format
               </p>
             </div>
+
+            <div>
+              <Label htmlFor="effective-from">Effective From (optional)</Label>
+              <Input
+                id="effective-from"
+                placeholder="e.g. Q1 2025"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+                className="mt-2"
+              />
+              <p className="text-sm text-muted-foreground mt-2">
+                First reporting period these rules apply to. Earlier periods keep their rule set version.
+                Leave empty to replace the current version.
+              </p>
+            </div>
+
+            {rejectedDiagnostics.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-red-700">
+                  The file was not uploaded. Fix the errors below and upload it again.
+                </p>
+                <RuleDiagnosticsList diagnostics={rejectedDiagnostics} />
+              </div>
+            )}
             
             {/* Format Guide */}
             <Tabs defaultValue="json" className="w-full">
@@ -481,6 +615,7 @@ export function ValidationRulesManager({ templateId, template }: ValidationRules
                 onClick={() => {
                   setShowValidationUploadDialog(false);
                   setValidationFile(null);
+                  setRejectedDiagnostics([]);
                 }}
               >
                 Cancel
@@ -10,6 +10,24 @@ interface XBRLReportGeneratorProps {
   onReportGenerated: (reportUrl: string) => void;
 }
 
+const JOB_POLL_INTERVAL_MS = 2000;
+
+async function waitForJob(jobId: number): Promise<any> {
+  while (true) {
+    const response = await fetch(`/api/jobs/${jobId}`);
+    if (!response.ok) {
+      throw new Error('Failed to check report status');
+    }
+
+    const job = await response.json();
+    if (job.status === 'completed') return job.result;
+    if (job.status === 'failed' || job.status === 'cancelled') {
+      throw new Error(job.error || `Report generation ${job.status}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+  }
+}
+
 export function XBRLReportGenerator({ submission, onReportGenerated }: XBRLReportGeneratorProps) {
   const [isGenerating, setIsGenerating] = useState(false);
   const [reportUrl, setReportUrl] = useState<string | null>(null);
@@ -29,7 +47,9 @@ export function XBRLReportGenerator({ submission, onReportGenerated }: XBRLRepor
         throw new Error('Failed to generate XBRL report');
       }
 
-      const result = await response.json();
+      // The report is built by a background job - wait for it to finish
+      const { jobId } = await response.json();
+      const result = await waitForJob(jobId);
       setReportUrl(result.downloadUrl);
       onReportGenerated(result.downloadUrl);
       
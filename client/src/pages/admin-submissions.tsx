@@ -39,6 +39,8 @@ import { useAuth } from "@/contexts/AuthContext";
 interface Submission {
   id: number;
   templateId: number;
+  templateName?: string;
+  templateVersion?: number;
   userId: number;
   userName: string;
   fileName: string;
@@ -193,6 +195,7 @@ export default function AdminSubmissionsPage() {
                   <TableRow>
                     <TableHead>User</TableHead>
                     <TableHead>File Name</TableHead>
+                    <TableHead>Template</TableHead>
                     <TableHead>Reporting Period</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Warnings</TableHead>
@@ -215,6 +218,14 @@ export default function AdminSubmissionsPage() {
                       <TableCell className="font-medium">
                         {submission.fileName}
                       </TableCell>
+                      <TableCell>
+                        {submission.templateName ?? `Template ${submission.templateId}`}
+                        {submission.templateVersion && (
+                          <Badge variant="outline" className="ml-2">
+                            v{submission.templateVersion}
+                          </Badge>
+                        )}
+                      </TableCell>
                       <TableCell>{submission.reportingPeriod}</TableCell>
                       <TableCell>
                         <Badge
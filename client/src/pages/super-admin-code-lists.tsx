@@ -0,0 +1,498 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import SuperAdminLayout from "@/components/SuperAdminLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Upload,
+  Trash2,
+  Eye,
+  CheckCircle,
+  ListChecks,
+  Layers,
+} from "lucide-react";
+
+interface CodeListVersion {
+  id: number;
+  name: string;
+  version: number;
+  description?: string;
+  entryCount: number;
+  isActive: boolean;
+  createdBy?: number;
+  createdAt: string;
+}
+
+interface CodeListEntry {
+  code: string;
+  label?: string;
+}
+
+const emptyForm = {
+  name: "",
+  description: "",
+  activate: true,
+  file: null as File | null,
+};
+
+export default function SuperAdminCodeListsPage() {
+  const [isUploadDialogOpen, setIsUploadDialogOpen] = useState(false);
+  const [viewingListId, setViewingListId] = useState<number | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Fetch all versions of all code lists
+  const { data: versions, isLoading } = useQuery<CodeListVersion[]>({
+    queryKey: ["/api/super-admin/code-lists"],
+    queryFn: async () => {
+      const response = await fetch("/api/super-admin/code-lists");
+      if (!response.ok) {
+        throw new Error("Failed to fetch code lists");
+      }
+      return response.json();
+    },
+  });
+
+  // Entries of the version being viewed
+  const { data: viewingList, isLoading: isLoadingEntries } = useQuery<
+    CodeListVersion & { entries: CodeListEntry[] }
+  >({
+    queryKey: ["/api/super-admin/code-lists", viewingListId],
+    queryFn: async () => {
+      const response = await fetch(`/api/super-admin/code-lists/${viewingListId}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch code list");
+      }
+      return response.json();
+    },
+    enabled: viewingListId !== null,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  // Upload a new version
+  const uploadMutation = useMutation({
+    mutationFn: async (data: typeof emptyForm) => {
+      const body = new FormData();
+      body.append("name", data.name);
+      body.append("description", data.description);
+      body.append("activate", String(data.activate));
+      if (data.file) body.append("file", data.file);
+
+      const response = await fetch("/api/super-admin/code-lists", {
+        method: "POST",
+        body,
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to upload code list");
+      }
+      return response.json();
+    },
+    onSuccess: (list: CodeListVersion & { duplicates: string[] }) => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/super-admin/code-lists"],
+      });
+      setIsUploadDialogOpen(false);
+      setFormData(emptyForm);
+      toast({
+        title: "Success",
+        description:
+          `${list.name} version ${list.version} uploaded with ${list.entryCount} codes` +
+          (list.duplicates.length > 0
+            ? ` (${list.duplicates.length} duplicate codes skipped)`
+            : ""),
+      });
+    },
+    onError,
+  });
+
+  // Make a version the active one
+  const activateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await fetch(`/api/super-admin/code-lists/${id}/activate`, {
+        method: "POST",
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to activate code list");
+      }
+      return response.json();
+    },
+    onSuccess: (list: CodeListVersion) => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/super-admin/code-lists"],
+      });
+      toast({
+        title: "Success",
+        description: `${list.name} version ${list.version} is now active`,
+      });
+    },
+    onError,
+  });
+
+  // Delete a version
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await fetch(`/api/super-admin/code-lists/${id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to delete code list");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/super-admin/code-lists"],
+      });
+      toast({
+        title: "Success",
+        description: "Code list version deleted successfully",
+      });
+    },
+    onError,
+  });
+
+  const openUploadDialog = (name = "", description = "") => {
+    setFormData({ ...emptyForm, name, description });
+    setIsUploadDialogOpen(true);
+  };
+
+  const handleDelete = (list: CodeListVersion) => {
+    if (confirm(`Are you sure you want to delete ${list.name} version ${list.version}?`)) {
+      deleteMutation.mutate(list.id);
+    }
+  };
+
+  const listNames = Array.from(new Set((versions || []).map((v) => v.name)));
+
+  if (isLoading) {
+    return (
+      <SuperAdminLayout
+        title="Code Lists"
+        subtitle="Reference data used by validation rules"
+      >
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600 mx-auto"></div>
+          <p className="text-gray-500 mt-4">Loading code lists...</p>
+        </div>
+      </SuperAdminLayout>
+    );
+  }
+
+  return (
+    <SuperAdminLayout
+      title="Code Lists"
+      subtitle="Reference data used by validation rules"
+      headerActions={
+        <Button onClick={() => openUploadDialog()}>
+          <Upload className="h-4 w-4 mr-2" />
+          Upload Code List
+        </Button>
+      }
+    >
+      <div className="space-y-6">
+        {/* Summary Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card className="border-0 shadow-sm">
+            <CardContent className="p-4">
+              <div className="flex items-center">
+                <div className="p-2 bg-red-100 rounded-lg">
+                  <ListChecks className="h-5 w-5 text-red-600" />
+                </div>
+                <div className="ml-3">
+                  <p className="text-sm font-medium text-gray-500">Code Lists</p>
+                  <p className="text-2xl font-bold text-gray-900">
+                    {listNames.length}
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card className="border-0 shadow-sm">
+            <CardContent className="p-4">
+              <div className="flex items-center">
+                <div className="p-2 bg-blue-100 rounded-lg">
+                  <Layers className="h-5 w-5 text-blue-600" />
+                </div>
+                <div className="ml-3">
+                  <p className="text-sm font-medium text-gray-500">Versions</p>
+                  <p className="text-2xl font-bold text-gray-900">
+                    {versions?.length || 0}
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card className="border-0 shadow-sm">
+            <CardContent className="p-4 text-sm text-gray-600 space-y-1">
+              <p>
+                Reference a list in a format rule with{" "}
+                <code className="bg-gray-100 px-1 rounded">inList:currency</code>
+              </p>
+              <p>
+                LEI and IFSC codes are checked with the{" "}
+                <code className="bg-gray-100 px-1 rounded">lei</code> and{" "}
+                <code className="bg-gray-100 px-1 rounded">ifsc</code> formats
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Versions Table */}
+        <Card className="border-0 shadow-sm">
+          <CardHeader>
+            <CardTitle>Code List Versions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!versions || versions.length === 0 ? (
+              <div className="text-center py-8">
+                <ListChecks className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-500 mb-4">No code lists uploaded yet</p>
+                <p className="text-sm text-gray-400">
+                  Upload a CSV, Excel, JSON or text file of codes
+                </p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Version</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead>Codes</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Uploaded</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {versions.map((list) => (
+                      <TableRow key={list.id}>
+                        <TableCell>
+                          <Badge variant="outline">{list.name}</Badge>
+                        </TableCell>
+                        <TableCell>v{list.version}</TableCell>
+                        <TableCell>
+                          <span className="text-gray-600">
+                            {list.description || "No description"}
+                          </span>
+                        </TableCell>
+                        <TableCell>{list.entryCount}</TableCell>
+                        <TableCell>
+                          {list.isActive ? (
+                            <Badge className="bg-green-100 text-green-800">Active</Badge>
+                          ) : (
+                            <Badge variant="secondary">Inactive</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {new Date(list.createdAt).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex gap-2 justify-end">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="View codes"
+                              onClick={() => setViewingListId(list.id)}
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Upload a new version"
+                              onClick={() =>
+                                openUploadDialog(list.name, list.description || "")
+                              }
+                            >
+                              <Upload className="h-4 w-4" />
+                            </Button>
+                            {!list.isActive && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Activate this version"
+                                onClick={() => activateMutation.mutate(list.id)}
+                                disabled={activateMutation.isPending}
+                              >
+                                <CheckCircle className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Delete this version"
+                              onClick={() => handleDelete(list)}
+                              disabled={deleteMutation.isPending}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Upload Dialog */}
+        <Dialog open={isUploadDialogOpen} onOpenChange={setIsUploadDialogOpen}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Upload Code List</DialogTitle>
+              <DialogDescription>
+                Uploading to an existing name creates its next version.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  placeholder="e.g., instrument_type"
+                  list="code-list-names"
+                  value={formData.name}
+                  onChange={(e) =>
+                    setFormData({ ...formData, name: e.target.value })
+                  }
+                />
+                <datalist id="code-list-names">
+                  {listNames.map((name) => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="description">Description</Label>
+                <Textarea
+                  id="description"
+                  placeholder="Optional description"
+                  value={formData.description}
+                  onChange={(e) =>
+                    setFormData({ ...formData, description: e.target.value })
+                  }
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="file">File</Label>
+                <Input
+                  id="file"
+                  type="file"
+                  accept=".csv,.xlsx,.xls,.json,.txt"
+                  onChange={(e) =>
+                    setFormData({ ...formData, file: e.target.files?.[0] || null })
+                  }
+                />
+                <p className="text-xs text-gray-500">
+                  Codes in the first column, optional labels in the second
+                </p>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="activate">Activate immediately</Label>
+                <Switch
+                  id="activate"
+                  checked={formData.activate}
+                  onCheckedChange={(checked) =>
+                    setFormData({ ...formData, activate: checked })
+                  }
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button
+                type="submit"
+                onClick={() => uploadMutation.mutate(formData)}
+                disabled={
+                  uploadMutation.isPending || !formData.name || !formData.file
+                }
+              >
+                {uploadMutation.isPending ? "Uploading..." : "Upload"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Entries Dialog */}
+        <Dialog
+          open={viewingListId !== null}
+          onOpenChange={(open) => !open && setViewingListId(null)}
+        >
+          <DialogContent className="sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle>
+                {viewingList
+                  ? `${viewingList.name} v${viewingList.version}`
+                  : "Code List"}
+              </DialogTitle>
+              <DialogDescription>
+                {viewingList?.description || "Codes in this version"}
+              </DialogDescription>
+            </DialogHeader>
+            {isLoadingEntries || !viewingList ? (
+              <p className="text-gray-500 py-4">Loading codes...</p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Code</TableHead>
+                      <TableHead>Label</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {viewingList.entries.map((entry) => (
+                      <TableRow key={entry.code}>
+                        <TableCell className="font-mono">{entry.code}</TableCell>
+                        <TableCell className="text-gray-600">
+                          {entry.label || "-"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </SuperAdminLayout>
+  );
+}
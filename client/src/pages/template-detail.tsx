@@ -17,6 +17,12 @@ import { ProcessingStatus } from "@/components/ProcessingStatus";
 import { SchemaDisplay } from "@/components/SchemaDisplay";
 import { ExcelViewer } from "@/components/ExcelViewer";
 import { ValidationRulesManager } from "@/components/ValidationRulesManager";
+import { NumberFormatSettings } from "@/components/NumberFormatSettings";
+import { CarryForwardSettings } from "@/components/CarryForwardSettings";
+import { RuleCoverageReport } from "@/components/RuleCoverageReport";
+import { RuleSetVersions } from "@/components/RuleSetVersions";
+import { TemplateVersions, TemplateLifecycleBadge } from "@/components/TemplateVersions";
+import { TemplateDiffView } from "@/components/TemplateDiffView";
 import type {
   Template,
   TemplateSheet,
@@ -132,6 +138,8 @@ export default function TemplateDetail() {
           </div>
 
           <div className="flex items-center space-x-3">
+            <Badge variant="outline">v{template.version}</Badge>
+            <TemplateLifecycleBadge status={template.lifecycleStatus} />
             {getStatusIcon(template.status)}
             <Badge className={getStatusColor(template.status)}>
               {template.status.charAt(0).toUpperCase() +
@@ -201,6 +209,14 @@ export default function TemplateDetail() {
               </p>
               <p className="text-lg text-gray-900">{schemas?.length || 0}</p>
             </div>
+            <div>
+              <p className="text-sm font-medium text-gray-500">Effective From</p>
+              <p className="text-lg text-gray-900">
+                {template.lifecycleStatus === "published" || template.lifecycleStatus === "retired"
+                  ? template.effectiveFrom || "All periods"
+                  : "Not published"}
+              </p>
+            </div>
             <div>
               <p className="text-sm font-medium text-gray-500">Last Updated</p>
               <p className="text-lg text-gray-900">
@@ -247,6 +263,42 @@ export default function TemplateDetail() {
         />
       </div>
 
+      {/* Template Versions Section */}
+      <div className="mb-8">
+        <TemplateVersions templateId={templateId} />
+      </div>
+
+      {/* Changes Since Another Version Section */}
+      <div className="mb-8">
+        <TemplateDiffView templateId={templateId} />
+      </div>
+
+      {/* Rule Set Versions Section */}
+      <div className="mb-8">
+        <RuleSetVersions templateId={templateId} />
+      </div>
+
+      {/* Rule Coverage Section */}
+      <div className="mb-8">
+        <RuleCoverageReport templateId={templateId} />
+      </div>
+
+      {/* Number Format Section */}
+      <div className="mb-8">
+        <NumberFormatSettings
+          templateId={templateId}
+          storedFormat={template.numberFormat}
+        />
+      </div>
+
+      {/* Carry Forward Section */}
+      <div className="mb-8">
+        <CarryForwardSettings
+          templateId={templateId}
+          storedMapping={template.carryForward}
+        />
+      </div>
+
       {/* No Schemas Message */}
       {template.status === "completed" &&
         (!schemas || schemas.length === 0) && (
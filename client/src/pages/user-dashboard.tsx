@@ -418,7 +418,10 @@ export default function UserDashboardPage() {
                         <div>
                           <p className="font-medium">{submission.fileName}</p>
                           <p className="text-sm text-gray-500">
-                            Template {submission.templateId} •{" "}
+                            {submission.templateName
+                              ? `${submission.templateName} v${submission.templateVersion}`
+                              : `Template ${submission.templateId}`}{" "}
+                            •{" "}
                             {submission.reportingPeriod}
                           </p>
                           <p className="text-xs text-gray-400">
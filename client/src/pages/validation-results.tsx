@@ -1,4 +1,4 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useParams } from "wouter";
 import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -21,6 +21,12 @@ import {
   DialogDescription,
   DialogFooter,
 } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import {
@@ -30,11 +36,41 @@ import {
   ArrowLeft,
   FileText,
   Download,
+  Info,
+  ShieldAlert,
+  ShieldCheck,
+  RefreshCw,
 } from "lucide-react";
 import { format } from "date-fns";
 import { Link } from "wouter";
 import AdminLayout from "@/components/AdminLayout";
 import { CommentSection } from "@/components/CommentSection";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import type { ValidationWaiver } from "@shared/schema";
+import {
+  getWaivedOutcome,
+  isWaivableSeverity,
+  parseValidationTotals,
+} from "@shared/validationOutcome";
+
+const severityStyles: Record<string, string> = {
+  info: "bg-blue-100 text-blue-800",
+  warning: "bg-yellow-100 text-yellow-800",
+  error: "bg-red-100 text-red-800",
+  blocking: "bg-red-200 text-red-900",
+};
+
+const waiverStyles: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  accepted: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+// Entity asks for a waiver, or a reviewer gives a reason for rejecting one
+type WaiverDialog =
+  | { mode: "request"; result: any }
+  | { mode: "reject"; waiver: ValidationWaiver };
 
 export default function ValidationResultsPage() {
   const { id } = useParams<{ id: string }>();
@@ -47,6 +83,11 @@ export default function ValidationResultsPage() {
   );
   const [actionType, setActionType] = useState<"reject" | "return">("reject");
   const [rejectionReason, setRejectionReason] = useState("");
+  const [waiverDialog, setWaiverDialog] = useState<WaiverDialog | null>(null);
+  const [waiverText, setWaiverText] = useState("");
+  const { user, isAdmin } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   // Debug logging for dialog state
   console.log("Dialog state:", {
@@ -73,6 +114,94 @@ export default function ValidationResultsPage() {
     },
   });
 
+  const { data: waivers = [] } = useQuery<ValidationWaiver[]>({
+    queryKey: [`/api/submissions/${submissionId}/waivers`],
+    queryFn: async () => {
+      const response = await fetch(`/api/submissions/${submissionId}/waivers`);
+      if (!response.ok) throw new Error("Failed to fetch waivers");
+      return response.json();
+    },
+  });
+
+  const refreshWaivers = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/submissions/${submissionId}/waivers`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/submissions/${submissionId}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/submissions/${submissionId}/comments`] });
+  };
+
+  const postWaiverAction = async (url: string, body: object) => {
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Waiver action failed");
+      refreshWaivers();
+      return data;
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+      return null;
+    }
+  };
+
+  const requestWaiver = async (resultId: number, justification: string) => {
+    const waiver = await postWaiverAction(`/api/submissions/${submissionId}/waivers`, {
+      resultId,
+      justification,
+    });
+    if (waiver) toast({ title: "Waiver requested", description: "IFSCA will review your justification." });
+    return !!waiver;
+  };
+
+  const reviewWaiver = async (waiverId: number, decision: "accepted" | "rejected", note?: string) => {
+    const review = await postWaiverAction(
+      `/api/submissions/${submissionId}/waivers/${waiverId}/review`,
+      { decision, note }
+    );
+    if (review) {
+      toast({
+        title: `Waiver ${decision}`,
+        description: `Effective outcome: ${review.outcome.status}`,
+      });
+    }
+    return !!review;
+  };
+
+  const handleWaiverDialogConfirm = async () => {
+    if (!waiverDialog || !waiverText.trim()) return;
+    const done =
+      waiverDialog.mode === "request"
+        ? await requestWaiver(waiverDialog.result.id, waiverText.trim())
+        : await reviewWaiver(waiverDialog.waiver.id, "rejected", waiverText.trim());
+    if (done) {
+      setWaiverDialog(null);
+      setWaiverText("");
+    }
+  };
+
+  // Validate again with the submission's rule set version, or the one now effective for its period
+  const revalidate = async (useCurrentRules: boolean) => {
+    try {
+      const response = await fetch(`/api/submissions/${submissionId}/revalidate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ useCurrentRules }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Re-validation failed");
+      toast({
+        title: "Re-validation queued",
+        description: `Checking against rule set version ${data.ruleSet.version}. Results update when it finishes.`,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/submissions/${submissionId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/submissions/${submissionId}/comments`] });
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
   const handleAction = async (action: string, reason?: string) => {
     if (action === "reject" || action === "return") {
       // For reject/return actions, open modal first
@@ -181,6 +310,18 @@ export default function ValidationResultsPage() {
     );
   }
 
+  // "+1,200 (+15.0%)" style change for variance results
+  const formatDelta = (result: any) => {
+    if (result.delta == null) return "-";
+    const sign = result.delta > 0 ? "+" : "";
+    const previous = Number(result.comparisonValue);
+    const percent =
+      previous && !isNaN(previous)
+        ? ` (${sign}${((result.delta / Math.abs(previous)) * 100).toFixed(1)}%)`
+        : "";
+    return `${sign}${result.delta.toLocaleString()}${percent}`;
+  };
+
   // Group results by rule for better visualization
   const groupedResults = Array.isArray(results)
     ? results.reduce((acc: any, result: any) => {
@@ -191,7 +332,7 @@ export default function ValidationResultsPage() {
             ruleType: result.ruleType,
             field: result.field,
             condition: result.condition,
-            errorMessage: result.errorMessage,
+            errorMessage: result.message,
             severity: result.severity,
             results: [],
           };
@@ -206,15 +347,36 @@ export default function ValidationResultsPage() {
     : [];
   const totalChecks = Array.isArray(results) ? results.length : 0;
   const passedChecks = Array.isArray(results)
-    ? results.filter((r: any) => r.passed).length
+    ? results.filter((r: any) => r.isValid).length
     : 0;
   const failedChecks = totalChecks - passedChecks;
-  const errorCount = Array.isArray(results)
-    ? results.filter((r: any) => !r.passed && r.severity === "error").length
-    : 0;
-  const warningCount = Array.isArray(results)
-    ? results.filter((r: any) => !r.passed && r.severity === "warning").length
-    : 0;
+
+  // Accepted waivers take their checks out of the counts
+  const outcome = getWaivedOutcome(
+    Array.isArray(results) ? results : [],
+    waivers,
+    parseValidationTotals(submission?.validationTotals)
+  );
+  const { errorCount, warningCount, infoCount, blockingCount, waivedCount } = outcome;
+  const waiversByResult = new Map<number, ValidationWaiver>();
+  waivers.forEach((w) => {
+    // The latest request for a check is the one that counts
+    if (w.resultId !== null) waiversByResult.set(w.resultId, w);
+  });
+  const resultsById = new Map<number, any>(
+    (Array.isArray(results) ? results : []).map((r: any) => [r.id, r])
+  );
+  const isSubmitter = !!user && user.id === submission.userId;
+  const canRequestWaiver = (result: any) => {
+    const waiver = waiversByResult.get(result.id);
+    return (
+      isSubmitter &&
+      isWaivableSeverity(result.severity) &&
+      submission.status !== "approved" &&
+      submission.status !== "rejected" &&
+      (!waiver || waiver.status === "rejected")
+    );
+  };
 
   return (
     <>
@@ -249,9 +411,30 @@ export default function ValidationResultsPage() {
                   <p className="text-gray-600">
                     Results for {submission.fileName} •{" "}
                     {submission.reportingPeriod}
+                    {submission.templateVersion && <> • {submission.templateName} version {submission.templateVersion}</>}
+                    {submission.ruleSet && <> • Rule set version {submission.ruleSet.version}</>}
                   </p>
                 </div>
                 <div className="flex items-center gap-4">
+                  {isAdmin && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline">
+                          <RefreshCw className="h-4 w-4 mr-2" />
+                          Re-validate
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent>
+                        <DropdownMenuItem onClick={() => revalidate(false)}>
+                          With original rules
+                          {submission.ruleSet && ` (version ${submission.ruleSet.version})`}
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => revalidate(true)}>
+                          With current rules
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
                   <Button
                     variant="outline"
                     onClick={() =>
@@ -338,6 +521,21 @@ export default function ValidationResultsPage() {
                         ? "VALIDATION PASSED"
                         : "VALIDATION FAILED"}
                     </Badge>
+                    {blockingCount > 0 && (
+                      <Badge className={severityStyles.blocking}>
+                        {blockingCount} blocking
+                      </Badge>
+                    )}
+                    {infoCount > 0 && (
+                      <Badge className={severityStyles.info}>
+                        {infoCount} info
+                      </Badge>
+                    )}
+                    {waivedCount > 0 && (
+                      <Badge className={waiverStyles.accepted}>
+                        {waivedCount} waived
+                      </Badge>
+                    )}
                     <span className="text-sm text-gray-600">
                       Submitted on{" "}
                       {format(
@@ -354,8 +552,11 @@ export default function ValidationResultsPage() {
                     </p>
                   ) : (
                     <p className="mt-2 text-red-700">
-                      {errorCount} validation errors found. Please review and
-                      correct the issues before resubmitting.
+                      {errorCount} validation errors found
+                      {blockingCount > 0 &&
+                        `, ${blockingCount} of them blocking and not waivable`}
+                      . Please review and correct the issues before
+                      resubmitting, or request a waiver with a justification.
                     </p>
                   )}
                 </CardContent>
@@ -411,12 +612,16 @@ export default function ValidationResultsPage() {
                   <div className="space-y-6">
                     {ruleGroups.map((group: any, index: number) => {
                       const failedResults = group.results.filter(
-                        (r: any) => !r.passed
+                        (r: any) => !r.isValid
                       );
                       const passedResults = group.results.filter(
-                        (r: any) => r.passed
+                        (r: any) => r.isValid
                       );
                       const hasFailures = failedResults.length > 0;
+                      // Variance checks carry the prior-period value and delta
+                      const hasComparison = failedResults.some(
+                        (r: any) => r.comparisonValue != null || r.delta != null
+                      );
 
                       return (
                         <div
@@ -426,10 +631,12 @@ export default function ValidationResultsPage() {
                           <div className="flex items-center justify-between mb-3">
                             <div className="flex items-center gap-2">
                               {hasFailures ? (
-                                group.severity === "error" ? (
-                                  <XCircle className="h-5 w-5 text-red-500" />
-                                ) : (
+                                group.severity === "info" ? (
+                                  <Info className="h-5 w-5 text-blue-500" />
+                                ) : group.severity === "warning" ? (
                                   <AlertTriangle className="h-5 w-5 text-yellow-500" />
+                                ) : (
+                                  <XCircle className="h-5 w-5 text-red-500" />
                                 )
                               ) : (
                                 <CheckCircle className="h-5 w-5 text-green-500" />
@@ -441,11 +648,17 @@ export default function ValidationResultsPage() {
                                   : "UNKNOWN"}{" "}
                                 validation
                               </h3>
+                              {group.severity && (
+                                <Badge className={severityStyles[group.severity]}>
+                                  {group.severity}
+                                </Badge>
+                              )}
                             </div>
                             <Badge
                               variant={
                                 hasFailures
-                                  ? group.severity === "error"
+                                  ? group.severity === "error" ||
+                                    group.severity === "blocking"
                                     ? "destructive"
                                     : "secondary"
                                   : "outline"
@@ -485,7 +698,14 @@ export default function ValidationResultsPage() {
                                     <TableRow>
                                       <TableHead>Cell</TableHead>
                                       <TableHead>Value</TableHead>
+                                      {hasComparison && (
+                                        <>
+                                          <TableHead>Previous</TableHead>
+                                          <TableHead>Change</TableHead>
+                                        </>
+                                      )}
                                       <TableHead>Issue</TableHead>
+                                      <TableHead>Waiver</TableHead>
                                     </TableRow>
                                   </TableHeader>
                                   <TableBody>
@@ -498,10 +718,42 @@ export default function ValidationResultsPage() {
                                               {result.cellReference}
                                             </TableCell>
                                             <TableCell className="font-mono text-sm">
-                                              {result.actualValue || "(empty)"}
+                                              {result.cellValue || "(empty)"}
                                             </TableCell>
+                                            {hasComparison && (
+                                              <>
+                                                <TableCell className="font-mono text-sm">
+                                                  {result.comparisonValue ?? "-"}
+                                                </TableCell>
+                                                <TableCell className="font-mono text-sm">
+                                                  {formatDelta(result)}
+                                                </TableCell>
+                                              </>
+                                            )}
                                             <TableCell className="text-sm text-red-600">
-                                              {result.errorMessage}
+                                              {result.message}
+                                            </TableCell>
+                                            <TableCell>
+                                              {waiversByResult.get(result.id) && (
+                                                <Badge
+                                                  className={
+                                                    waiverStyles[waiversByResult.get(result.id)!.status]
+                                                  }
+                                                >
+                                                  {waiversByResult.get(result.id)!.status}
+                                                </Badge>
+                                              )}
+                                              {canRequestWaiver(result) && (
+                                                <Button
+                                                  variant="ghost"
+                                                  size="sm"
+                                                  onClick={() =>
+                                                    setWaiverDialog({ mode: "request", result })
+                                                  }
+                                                >
+                                                  Request waiver
+                                                </Button>
+                                              )}
                                             </TableCell>
                                           </TableRow>
                                         )
@@ -524,6 +776,87 @@ export default function ValidationResultsPage() {
                 </CardContent>
               </Card>
 
+              {/* Waiver Requests */}
+              {waivers.length > 0 && (
+                <Card className="mt-8">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <ShieldAlert className="h-5 w-5" />
+                      Waiver Requests
+                    </CardTitle>
+                    <p className="text-sm text-gray-600">
+                      Accepted waivers no longer count against this submission
+                    </p>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Check</TableHead>
+                          <TableHead>Justification</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Review</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {waivers.map((waiver) => {
+                          const result =
+                            waiver.resultId !== null ? resultsById.get(waiver.resultId) : undefined;
+                          return (
+                            <TableRow key={waiver.id}>
+                              <TableCell className="text-sm">
+                                <div className="font-mono">
+                                  {result?.sheetName ? `${result.sheetName}!` : ""}
+                                  {result?.cellReference || result?.field}
+                                </div>
+                                <div className="text-gray-500">
+                                  {waiver.supersededAt
+                                    ? "No longer reported after re-validation"
+                                    : result?.message}
+                                </div>
+                              </TableCell>
+                              <TableCell className="text-sm">
+                                {waiver.justification}
+                              </TableCell>
+                              <TableCell>
+                                <Badge className={waiverStyles[waiver.status]}>
+                                  {waiver.status}
+                                </Badge>
+                              </TableCell>
+                              <TableCell className="text-sm">
+                                {waiver.status === "pending" && isAdmin && !waiver.supersededAt ? (
+                                  <div className="flex gap-2">
+                                    <Button
+                                      size="sm"
+                                      onClick={() => reviewWaiver(waiver.id, "accepted")}
+                                    >
+                                      <ShieldCheck className="h-4 w-4 mr-1" />
+                                      Accept
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() =>
+                                        setWaiverDialog({ mode: "reject", waiver })
+                                      }
+                                    >
+                                      Reject
+                                    </Button>
+                                  </div>
+                                ) : (
+                                  waiver.reviewNote ||
+                                  (waiver.status === "pending" ? "Awaiting IFSCA review" : "-")
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Comments Section */}
               <div className="mt-8">
                 <CommentSection submissionId={submissionId} />
@@ -533,6 +866,55 @@ export default function ValidationResultsPage() {
         </div>
       </AdminLayout>
 
+      {/* Waiver Modal */}
+      <Dialog
+        open={!!waiverDialog}
+        onOpenChange={(open) => {
+          if (!open) {
+            setWaiverDialog(null);
+            setWaiverText("");
+          }
+        }}
+      >
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {waiverDialog?.mode === "request" ? "Request Waiver" : "Reject Waiver"}
+            </DialogTitle>
+            <DialogDescription>
+              {waiverDialog?.mode === "request"
+                ? `Explain why ${waiverDialog.result.cellReference || waiverDialog.result.field} should be accepted as submitted. IFSCA will review the request.`
+                : "Give the reason for rejecting this waiver. It will be visible to the entity."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="waiver-text">
+              {waiverDialog?.mode === "request" ? "Justification *" : "Reason *"}
+            </Label>
+            <Textarea
+              id="waiver-text"
+              value={waiverText}
+              onChange={(e) => setWaiverText(e.target.value)}
+              className="min-h-[100px]"
+            />
+          </div>
+          <DialogFooter className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => {
+                setWaiverDialog(null);
+                setWaiverText("");
+              }}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleWaiverDialogConfirm} disabled={!waiverText.trim()}>
+              {waiverDialog?.mode === "request" ? "Request Waiver" : "Reject Waiver"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Admin Action Modal */}
       <Dialog open={actionDialogOpen} onOpenChange={setActionDialogOpen}>
         <DialogContent className="sm:max-w-md">
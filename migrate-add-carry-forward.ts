@@ -0,0 +1,26 @@
+import { sqlite } from "./server/db";
+
+function addColumnIfMissing(table: string, column: string, definition: string) {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((c) => c.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    console.log(`Added ${table}.${column}`);
+  }
+}
+
+async function addCarryForward() {
+  console.log("Adding carry-forward mapping to templates table...");
+
+  // Cells pre-filled from an entity's last approved filing; NULL carries nothing forward
+  addColumnIfMissing("templates", "carry_forward", "TEXT");
+
+  console.log("Carry-forward mapping added successfully!");
+}
+
+addCarryForward().then(() => {
+  console.log("Carry-forward migration completed");
+  process.exit(0);
+}).catch(error => {
+  console.error("Migration failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,39 @@
+import { sqlite } from "./server/db";
+import { BUILT_IN_CODE_LISTS } from "./validation/CodeLists";
+
+async function addCodeListsTable() {
+  console.log("Creating code_lists table...");
+
+  // One row per version of each reference-data list
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS code_lists (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      description TEXT,
+      entries TEXT NOT NULL,
+      is_active INTEGER DEFAULT 0 NOT NULL,
+      created_by INTEGER REFERENCES users(id),
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
+      UNIQUE(name, version)
+    )
+  `);
+
+  const insert = sqlite.prepare(`
+    INSERT OR IGNORE INTO code_lists (name, version, description, entries, is_active)
+    VALUES (?, 1, ?, ?, 1)
+  `);
+  for (const list of BUILT_IN_CODE_LISTS) {
+    insert.run(list.name, list.description, JSON.stringify(list.entries));
+  }
+
+  console.log("Code lists table created successfully!");
+}
+
+addCodeListsTable().then(() => {
+  console.log("Code lists table migration completed");
+  process.exit(0);
+}).catch(error => {
+  console.error("Migration failed:", error);
+  process.exit(1);
+});
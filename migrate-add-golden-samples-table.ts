@@ -0,0 +1,31 @@
+import { sqlite } from "./server/db";
+
+async function addGoldenSamplesTable() {
+  console.log("Creating golden_samples table...");
+
+  // Known-good sample workbooks and their expected validation outcomes
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS golden_samples (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      template_id INTEGER NOT NULL REFERENCES templates(id),
+      name TEXT NOT NULL,
+      file_name TEXT NOT NULL,
+      file_path TEXT NOT NULL,
+      reporting_period TEXT,
+      expected_results TEXT NOT NULL,
+      created_by INTEGER REFERENCES users(id),
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
+      updated_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL
+    )
+  `);
+
+  console.log("Golden samples table created successfully!");
+}
+
+addGoldenSamplesTable().then(() => {
+  console.log("Golden samples table migration completed");
+  process.exit(0);
+}).catch(error => {
+  console.error("Migration failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,37 @@
+import { sqlite } from "./server/db";
+
+async function addJobsTable() {
+  console.log("Creating jobs table...");
+
+  // Persistent queue for background validation, schema extraction and XBRL jobs
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS jobs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      type TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'queued',
+      payload TEXT NOT NULL,
+      result TEXT,
+      error TEXT,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      max_attempts INTEGER NOT NULL DEFAULT 3,
+      run_after TEXT,
+      resource_type TEXT,
+      resource_id INTEGER,
+      created_by INTEGER REFERENCES users(id),
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
+      started_at TEXT,
+      finished_at TEXT
+    )
+  `);
+  sqlite.exec(`CREATE INDEX IF NOT EXISTS jobs_status_idx ON jobs (status)`);
+
+  console.log("Jobs table created successfully!");
+}
+
+addJobsTable().then(() => {
+  console.log("Jobs table migration completed");
+  process.exit(0);
+}).catch(error => {
+  console.error("Migration failed:", error);
+  process.exit(1);
+});
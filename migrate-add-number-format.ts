@@ -0,0 +1,26 @@
+import { sqlite } from "./server/db";
+
+function addColumnIfMissing(table: string, column: string, definition: string) {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((c) => c.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    console.log(`Added ${table}.${column}`);
+  }
+}
+
+async function addNumberFormat() {
+  console.log("Adding number format to templates table...");
+
+  // How formatted amounts ("1,23,456.00", "(1,500)", "12.5%") are read; NULL uses the defaults
+  addColumnIfMissing("templates", "number_format", "TEXT");
+
+  console.log("Number format added successfully!");
+}
+
+addNumberFormat().then(() => {
+  console.log("Number format migration completed");
+  process.exit(0);
+}).catch(error => {
+  console.error("Migration failed:", error);
+  process.exit(1);
+});
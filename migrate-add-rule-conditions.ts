@@ -0,0 +1,26 @@
+import { sqlite } from "./server/db";
+
+function addColumnIfMissing(table: string, column: string, definition: string) {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((c) => c.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    console.log(`Added ${table}.${column}`);
+  }
+}
+
+async function addRuleConditions() {
+  console.log("Adding when clause to validation_rules table...");
+
+  // Precondition expression limiting the rows a rule applies to
+  addColumnIfMissing("validation_rules", "when_condition", "TEXT");
+
+  console.log("When clause added successfully!");
+}
+
+addRuleConditions().then(() => {
+  console.log("Rule conditions migration completed");
+  process.exit(0);
+}).catch(error => {
+  console.error("Migration failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,42 @@
+import { sqlite } from "./server/db";
+
+function addColumnIfMissing(table: string, column: string, definition: string) {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((c) => c.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    console.log(`Added ${table}.${column}`);
+  }
+}
+
+async function addRuleSets() {
+  console.log("Creating validation_rule_sets table...");
+
+  // Immutable versions of each template's validation rules
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS validation_rule_sets (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      template_id INTEGER NOT NULL REFERENCES templates(id),
+      version INTEGER NOT NULL,
+      effective_from TEXT,
+      rules TEXT NOT NULL,
+      file_name TEXT,
+      file_path TEXT,
+      note TEXT,
+      created_by INTEGER REFERENCES users(id),
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL
+    )
+  `);
+
+  // The version each submission was last validated against
+  addColumnIfMissing("submissions", "rule_set_id", "INTEGER REFERENCES validation_rule_sets(id)");
+
+  console.log("Rule sets added successfully!");
+}
+
+addRuleSets().then(() => {
+  console.log("Rule set migration completed");
+  process.exit(0);
+}).catch(error => {
+  console.error("Migration failed:", error);
+  process.exit(1);
+});
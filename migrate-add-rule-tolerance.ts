@@ -0,0 +1,26 @@
+import { sqlite } from "./server/db";
+
+function addColumnIfMissing(table: string, column: string, definition: string) {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((c) => c.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    console.log(`Added ${table}.${column}`);
+  }
+}
+
+async function addRuleTolerance() {
+  console.log("Adding tolerance to validation_rules table...");
+
+  // Allowed difference on a rule's comparisons, e.g. "0.01" or "0.1%"
+  addColumnIfMissing("validation_rules", "tolerance", "TEXT");
+
+  console.log("Tolerance added successfully!");
+}
+
+addRuleTolerance().then(() => {
+  console.log("Rule tolerance migration completed");
+  process.exit(0);
+}).catch(error => {
+  console.error("Migration failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,32 @@
+import { sqlite } from "./server/db";
+
+function addColumnIfMissing(table: string, column: string, definition: string) {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((c) => c.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    console.log(`Added ${table}.${column}`);
+  }
+}
+
+async function addTemplateVersions() {
+  console.log("Adding versions and lifecycle to templates table...");
+
+  // Later versions point at the first version of their template
+  addColumnIfMissing("templates", "template_group_id", "INTEGER REFERENCES templates(id)");
+  addColumnIfMissing("templates", "version", "INTEGER NOT NULL DEFAULT 1");
+  // Existing templates are already in use, so they start out published
+  addColumnIfMissing("templates", "lifecycle_status", "TEXT NOT NULL DEFAULT 'published'");
+  addColumnIfMissing("templates", "effective_from", "TEXT");
+  addColumnIfMissing("templates", "published_at", "TEXT");
+  addColumnIfMissing("templates", "retired_at", "TEXT");
+
+  console.log("Template versions added successfully!");
+}
+
+addTemplateVersions().then(() => {
+  console.log("Template version migration completed");
+  process.exit(0);
+}).catch(error => {
+  console.error("Migration failed:", error);
+  process.exit(1);
+});
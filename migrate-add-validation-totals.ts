@@ -0,0 +1,27 @@
+import { sqlite } from "./server/db";
+
+function addColumnIfMissing(table: string, column: string, definition: string) {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((c) => c.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    console.log(`Added ${table}.${column}`);
+  }
+}
+
+async function addValidationTotals() {
+  console.log("Adding validation totals to submissions table...");
+
+  // Failure counts of the last run; streamed runs store only their first failures.
+  // NULL (submissions validated before this) counts the stored results instead.
+  addColumnIfMissing("submissions", "validation_totals", "TEXT");
+
+  console.log("Validation totals added successfully!");
+}
+
+addValidationTotals().then(() => {
+  console.log("Validation totals migration completed");
+  process.exit(0);
+}).catch(error => {
+  console.error("Migration failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,31 @@
+import { sqlite } from "./server/db";
+
+async function addValidationWaiversTable() {
+  console.log("Creating validation_waivers table...");
+
+  // Entity requests to waive failed checks, reviewed by IFSCA
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS validation_waivers (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      submission_id INTEGER NOT NULL REFERENCES submissions(id),
+      result_id INTEGER NOT NULL REFERENCES validation_results(id),
+      justification TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      requested_by INTEGER NOT NULL REFERENCES users(id),
+      reviewed_by INTEGER REFERENCES users(id),
+      review_note TEXT,
+      reviewed_at TEXT,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL
+    )
+  `);
+
+  console.log("Validation waivers table created successfully!");
+}
+
+addValidationWaiversTable().then(() => {
+  console.log("Validation waivers table migration completed");
+  process.exit(0);
+}).catch(error => {
+  console.error("Migration failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,27 @@
+import { sqlite } from "./server/db";
+
+function addColumnIfMissing(table: string, column: string, definition: string) {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((c) => c.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    console.log(`Added ${table}.${column}`);
+  }
+}
+
+async function addVarianceFields() {
+  console.log("Adding comparison fields to validation_results table...");
+
+  // Prior-period value and computed change for variance rules
+  addColumnIfMissing("validation_results", "comparison_value", "TEXT");
+  addColumnIfMissing("validation_results", "delta", "REAL");
+
+  console.log("Comparison fields added successfully!");
+}
+
+addVarianceFields().then(() => {
+  console.log("Variance fields migration completed");
+  process.exit(0);
+}).catch(error => {
+  console.error("Migration failed:", error);
+  process.exit(1);
+});
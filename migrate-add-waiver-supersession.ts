@@ -0,0 +1,60 @@
+import { sqlite } from "./server/db";
+
+async function addWaiverSupersession() {
+  console.log("Keeping validation waivers across re-validation...");
+
+  const columns = sqlite.prepare(`PRAGMA table_info(validation_waivers)`).all() as {
+    name: string;
+    notnull: number;
+  }[];
+  if (columns.length === 0) {
+    console.log("validation_waivers table does not exist; run migrate-add-validation-waivers-table.ts first");
+    return;
+  }
+
+  // SQLite can't drop NOT NULL from a column, so the table is rebuilt: a
+  // waiver whose check re-validation no longer reports keeps its row without a result
+  const resultId = columns.find((c) => c.name === "result_id");
+  if (resultId?.notnull) {
+    const supersededAt = columns.some((c) => c.name === "superseded_at") ? "superseded_at" : "NULL";
+    sqlite.pragma("foreign_keys = OFF");
+    sqlite.transaction(() => {
+      sqlite.exec(`
+        CREATE TABLE validation_waivers_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          submission_id INTEGER NOT NULL REFERENCES submissions(id),
+          result_id INTEGER REFERENCES validation_results(id),
+          justification TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          requested_by INTEGER NOT NULL REFERENCES users(id),
+          reviewed_by INTEGER REFERENCES users(id),
+          review_note TEXT,
+          reviewed_at TEXT,
+          superseded_at TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL
+        );
+        INSERT INTO validation_waivers_new
+          (id, submission_id, result_id, justification, status, requested_by, reviewed_by, review_note, reviewed_at, superseded_at, created_at)
+        SELECT id, submission_id, result_id, justification, status, requested_by, reviewed_by, review_note, reviewed_at, ${supersededAt}, created_at
+        FROM validation_waivers;
+        DROP TABLE validation_waivers;
+        ALTER TABLE validation_waivers_new RENAME TO validation_waivers;
+      `);
+    })();
+    sqlite.pragma("foreign_keys = ON");
+    console.log("Rebuilt validation_waivers with an optional result_id");
+  } else if (!columns.some((c) => c.name === "superseded_at")) {
+    sqlite.exec(`ALTER TABLE validation_waivers ADD COLUMN superseded_at TEXT`);
+    console.log("Added validation_waivers.superseded_at");
+  }
+
+  console.log("Waiver supersession added successfully!");
+}
+
+addWaiverSupersession().then(() => {
+  console.log("Waiver supersession migration completed");
+  process.exit(0);
+}).catch(error => {
+  console.error("Migration failed:", error);
+  process.exit(1);
+});
@@ -21,6 +21,9 @@ const sqlite = new Database(dbPath);
 // Enable foreign keys
 sqlite.pragma("foreign_keys = ON");
 
+// Job worker threads open their own connections; wait for locks instead of failing
+sqlite.pragma("busy_timeout = 5000");
+
 // Create the database connection
 export const db = drizzle(sqlite, { schema });
 
@@ -3,6 +3,7 @@ import session from "express-session";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { storage } from "./storage";
+import { JobQueue } from "./jobQueue";
 
 const app = express();
 app.use(express.json({ limit: "50mb" }));
@@ -81,6 +82,11 @@ app.use((req, res, next) => {
   const server = await registerRoutes(app);
   console.log("Routes registered successfully");
 
+  // Resume interrupted jobs and start the worker pool
+  await JobQueue.start().catch((error) => {
+    console.error("Failed to start job queue:", error);
+  });
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
@@ -0,0 +1,354 @@
+/**
+ * Work done by background jobs. Handlers run inside the job worker threads
+ * (see jobQueue.ts); throwing marks the attempt as failed so it can be retried.
+ */
+import path from "path";
+import fs from "fs";
+import { storage } from "./storage";
+import { FileProcessor } from "./services/fileProcessor";
+import { RuleSets } from "./services/ruleSets";
+import { TemplateVersions } from "./services/templateVersions";
+import { ModernValidationEngine } from "../validation/ModernValidationEngine";
+import { xbrlProcessor } from "./xbrl-processor";
+import type { JobType } from "@shared/schema";
+import { resolveNumberFormat } from "@shared/numberFormat";
+import { getWaivedOutcome, type ValidationTotals } from "@shared/validationOutcome";
+
+export interface JobHandler {
+  run(payload: any): Promise<unknown>;
+  /** Runs on the main thread once the last attempt has failed */
+  onFailure?(payload: any, error: string): Promise<void>;
+  /** Runs on the main thread when the job is cancelled */
+  onCancel?(payload: any): Promise<void>;
+  maxAttempts?: number;
+}
+
+export const jobHandlers: Record<JobType, JobHandler> = {
+  validation: {
+    run: ({ submissionId, ruleSetId }) => validateSubmission(submissionId, ruleSetId),
+    onFailure: ({ submissionId }, error) =>
+      failValidation(submissionId, `System error during validation: ${error}`),
+    onCancel: async ({ submissionId }) => {
+      // A re-validation that is cancelled leaves the earlier outcome in place
+      const submission = await storage.getSubmission(submissionId);
+      if (submission?.status === "pending") {
+        await failValidation(submissionId, "Validation was cancelled before it finished");
+      }
+    },
+  },
+  schema_extraction: {
+    run: ({ templateId, schemasOnly, copyRulesFrom }) =>
+      schemasOnly ? generateSchemas(templateId) : processTemplate(templateId, copyRulesFrom),
+    maxAttempts: 2,
+  },
+  xbrl_report: {
+    run: ({ submissionId }) => generateXbrlReport(submissionId),
+  },
+};
+
+// Record a system error result so the submission doesn't stay pending
+async function failValidation(submissionId: number, message: string) {
+  // The system error isn't in the last run's totals, so outcomes count the stored results
+  await storage.updateSubmissionValidationTotals(submissionId, null);
+  await storage.createValidationResults(ModernValidationEngine.toResultRecords([{
+    submissionId,
+    field: 'system',
+    ruleType: 'system',
+    condition: 'processing_error',
+    errorMessage: message,
+    severity: 'error',
+    isValid: false,
+    cellReference: 'N/A',
+    cellValue: 'N/A'
+  }]));
+  await storage.updateSubmissionStatus(submissionId, "failed", undefined, 1, 0);
+}
+
+// Validate a submission and store its results. Rules come from `ruleSetId` when given,
+// otherwise from the version the submission was validated against before, otherwise
+// from the version effective for its reporting period.
+async function validateSubmission(submissionId: number, ruleSetId?: number) {
+  console.log(`Starting validation for submission ${submissionId}`);
+
+  const submission = await storage.getSubmission(submissionId);
+  if (!submission) {
+    throw new Error(`Submission ${submissionId} not found`);
+  }
+
+  // Get template information
+  const template = await storage.getTemplate(submission.templateId);
+  if (!template) {
+    throw new Error(`Template ${submission.templateId} not found for submission ${submissionId}`);
+  }
+
+  const requestedRuleSetId = ruleSetId ?? submission.ruleSetId;
+  const ruleSet = requestedRuleSetId
+    ? await storage.getValidationRuleSet(requestedRuleSetId)
+    : await RuleSets.resolve(template, submission.reportingPeriod);
+  if (!ruleSet) {
+    throw new Error(`Rule set ${requestedRuleSetId} not found for submission ${submissionId}`);
+  }
+  if (submission.ruleSetId !== ruleSet.id) {
+    await storage.updateSubmissionRuleSet(submissionId, ruleSet.id);
+  }
+
+  console.log(`Validating submission ${submissionId} with template ${template.name}`);
+  console.log(`Using rule set version ${ruleSet.version} (effective from ${ruleSet.effectiveFrom ?? "the first period"})`);
+
+  // Every upload path validates through the same engine and result format
+  const validationSummary = await ModernValidationEngine.validateSubmission({
+    filePath: submission.filePath,
+    templateId: submission.templateId,
+    submissionId,
+    rules: RuleSets.getRules(ruleSet),
+    fileName: submission.fileName,
+    userId: submission.userId,
+    reportingPeriod: submission.reportingPeriod,
+    frequency: template.frequency
+  });
+
+  console.log(`Validation completed for submission ${submissionId}`);
+  console.log(`Results: ${validationSummary.summary.totalChecks} total checks, ${validationSummary.summary.skippedChecks} skipped by when clauses`);
+  console.log(`Summary: ${validationSummary.summary.errorCount} errors, ${validationSummary.summary.warningCount} warnings`);
+  if (validationSummary.metadata.numberCoercions) {
+    console.log(`Read ${validationSummary.metadata.numberCoercions.count} formatted amounts as numbers`);
+  }
+
+  // A retried job or re-validation replaces the earlier results; waivers follow their checks
+  const results = await storage.replaceValidationResults(
+    submissionId,
+    ModernValidationEngine.toResultRecords(validationSummary.results)
+  );
+
+  // The run's totals count failures a streamed run didn't store; waiver reviews start from them too
+  const { errorCount: totalErrors, warningCount: totalWarnings, infoCount, blockingCount } = validationSummary.summary;
+  const totals: ValidationTotals = { errorCount: totalErrors, warningCount: totalWarnings, infoCount, blockingCount };
+  await storage.updateSubmissionValidationTotals(submissionId, totals);
+
+  // Checks still covered by an accepted waiver don't count, as when the waiver was reviewed
+  const outcome = getWaivedOutcome(results, await storage.getValidationWaivers(submissionId), totals);
+  const { status: newStatus, errorCount, warningCount } = outcome; // Warnings don't fail the submission
+
+  // Re-validating a reviewed submission refreshes its results but keeps the reviewer's decision
+  if (!["approved", "rejected", "returned"].includes(submission.status)) {
+    await storage.updateSubmissionStatus(
+      submissionId,
+      newStatus,
+      undefined, // updatedById
+      errorCount,
+      warningCount
+    );
+  }
+
+  console.log(`Submission ${submissionId} validation completed with status: ${newStatus}`);
+  return {
+    status: newStatus,
+    errorCount,
+    warningCount,
+    waivedCount: outcome.waivedCount,
+    ruleSetVersion: ruleSet.version,
+    numberCoercions: validationSummary.metadata.numberCoercions,
+  };
+}
+
+// Extract sheets from a template file and generate schemas with AI. A new version
+// of a template gets the rules of the version it was created from (`copyRulesFrom`).
+async function processTemplate(templateId: number, copyRulesFrom?: number) {
+  let currentStep = "extraction";
+
+  try {
+    console.log(`Starting processing for template ${templateId}`);
+
+    const template = await storage.getTemplate(templateId);
+    if (!template) {
+      throw new Error("Template not found");
+    }
+
+    await storage.updateTemplateStatus(templateId, "processing");
+
+    // Sheets stored by an earlier attempt are kept, so a retry resumes at schema generation
+    const existingSheets = await storage.getTemplateSheets(templateId);
+    if (existingSheets.length > 0) {
+      console.log(`Template ${templateId} already has ${existingSheets.length} extracted sheets`);
+    } else {
+      await extractSheets(templateId, template.filePath);
+    }
+
+    const source = copyRulesFrom ? await storage.getTemplate(copyRulesFrom) : undefined;
+    const copiedRules = source ? await TemplateVersions.copyRules(source, template) : undefined;
+
+    // Generate schemas with AI
+    currentStep = "ai_processing";
+    await generateSchemas(templateId);
+    return { sheets: (await storage.getTemplateSheets(templateId)).length, copiedRules };
+  } catch (error) {
+    console.error("Template processing failed:", error);
+    await storage.updateTemplateStatus(templateId, "failed");
+
+    // Update the appropriate step as failed
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    await storage.updateProcessingStatus(
+      templateId,
+      currentStep,
+      "failed",
+      errorMessage
+    );
+
+    // If we haven't started AI processing yet, mark it as pending
+    if (currentStep === "extraction") {
+      await storage.updateProcessingStatus(
+        templateId,
+        "ai_processing",
+        "pending",
+        "Waiting for extraction to complete"
+      );
+      await storage.updateProcessingStatus(
+        templateId,
+        "schema_generation",
+        "pending",
+        "Waiting for AI processing"
+      );
+    }
+    throw error;
+  }
+}
+
+async function extractSheets(templateId: number, filePath: string) {
+  // Update extraction status to in progress
+  await storage.updateProcessingStatus(
+    templateId,
+    "extraction",
+    "in_progress",
+    "Starting sheet extraction",
+    10
+  );
+
+  console.log(`Processing file: ${filePath}`);
+
+  // Process file and extract data
+  const result = await FileProcessor.processFile(filePath, templateId);
+
+  if (!result.success) {
+    console.error(`File processing failed: ${result.error}`);
+    await storage.updateProcessingStatus(
+      templateId,
+      "extraction",
+      "failed",
+      result.error || "Failed to process file"
+    );
+    throw new Error(result.error);
+  }
+
+  console.log(`Extracted ${result.sheets?.length} sheets`);
+
+  // Store extracted sheets
+  if (result.sheets && result.sheets.length > 0) {
+    let sheetProgress = 50;
+    for (let i = 0; i < result.sheets.length; i++) {
+      const sheet = result.sheets[i];
+      await storage.createTemplateSheet({
+        templateId,
+        sheetName: sheet.name,
+        sheetIndex: sheet.index,
+        dataPointCount: sheet.dataPointCount,
+        extractedData: JSON.stringify({
+          data: sheet.data,
+          headers: sheet.headers || [],
+          tabularTemplates: sheet.tabularTemplates || [],
+        }),
+      });
+
+      // Update progress for each sheet stored
+      sheetProgress = 50 + Math.round(((i + 1) / result.sheets.length) * 40);
+      await storage.updateProcessingStatus(
+        templateId,
+        "extraction",
+        "in_progress",
+        `Storing sheet ${i + 1}/${result.sheets.length}: ${sheet.name}`,
+        sheetProgress
+      );
+    }
+  }
+
+  // Update extraction as complete
+  await storage.updateProcessingStatus(
+    templateId,
+    "extraction",
+    "completed",
+    `Successfully extracted ${result.sheets?.length || 0} sheets`,
+    100
+  );
+}
+
+async function generateSchemas(templateId: number) {
+  await storage.updateProcessingStatus(
+    templateId,
+    "ai_processing",
+    "in_progress",
+    "Starting AI schema generation",
+    0
+  );
+
+  try {
+    // Schemas from an earlier attempt are regenerated rather than duplicated
+    await storage.deleteTemplateSchemas(templateId);
+    await FileProcessor.generateSchemas(templateId);
+    await storage.updateTemplateStatus(templateId, "completed");
+    await storage.updateProcessingStatus(
+      templateId,
+      "schema_generation",
+      "completed",
+      "All processing completed successfully",
+      100
+    );
+  } catch (aiError) {
+    console.error("AI processing error:", aiError);
+    await storage.updateProcessingStatus(
+      templateId,
+      "ai_processing",
+      "failed",
+      aiError instanceof Error ? aiError.message : "AI processing failed"
+    );
+    throw aiError;
+  }
+}
+
+// Generate the XBRL report for a submission
+async function generateXbrlReport(submissionId: number) {
+  const submission = await storage.getSubmission(submissionId);
+  if (!submission) {
+    throw new Error(`Submission ${submissionId} not found`);
+  }
+
+  // Parse XBRL instance
+  const xbrlInstance = await xbrlProcessor.parseXBRLInstance(submission.filePath);
+
+  // Generate report output path
+  const reportPath = path.join(
+    'server/uploads/reports',
+    `xbrl-report-${submissionId}-${Date.now()}.xml`
+  );
+
+  // Ensure reports directory exists
+  const reportsDir = path.dirname(reportPath);
+  if (!fs.existsSync(reportsDir)) {
+    fs.mkdirSync(reportsDir, { recursive: true });
+  }
+
+  const template = await storage.getTemplate(submission.templateId);
+  const numberCoercions = await xbrlProcessor.generateXBRLReport(
+    xbrlInstance,
+    reportPath,
+    resolveNumberFormat(template?.numberFormat)
+  );
+  if (numberCoercions.count > 0) {
+    console.log(`Normalized ${numberCoercions.count} formatted numeric facts for submission ${submissionId}`);
+  }
+
+  return {
+    reportPath,
+    downloadUrl: `/api/submissions/${submissionId}/download-xbrl-report`,
+    numberCoercions
+  };
+}
@@ -0,0 +1,313 @@
+/**
+ * Persistent background job queue.
+ *
+ * Jobs are rows in the jobs table, so they survive restarts, and run on a
+ * pool of worker threads so long validations don't block request handling.
+ * Failed attempts are retried with a growing delay; jobs that were running
+ * when the server stopped are queued again on boot.
+ */
+import { Worker } from "worker_threads";
+import os from "os";
+import { storage } from "./storage";
+import { jobHandlers } from "./jobHandlers";
+import type { JobOutcome, JobRequest } from "./jobWorker";
+import type { Job, JobType } from "@shared/schema";
+
+interface PoolWorker {
+  worker: Worker;
+  job: Job | null;
+  /** Set when the running job is cancelled and the worker terminated */
+  cancelled: boolean;
+  /** The worker loaded its modules and reported ready */
+  ready: boolean;
+}
+
+const POLL_INTERVAL_MS = 2000;
+const RETRY_BASE_DELAY_MS = 5000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+// The production build emits dist/jobWorker.js next to dist/index.js
+const RUNNING_FROM_SOURCE = import.meta.url.endsWith(".ts");
+const WORKER_URL = new URL(RUNNING_FROM_SOURCE ? "./jobWorker.ts" : "./jobWorker.js", import.meta.url);
+
+function createWorker(): Worker {
+  if (!RUNNING_FROM_SOURCE) return new Worker(WORKER_URL);
+  // Under tsx the TypeScript loader has to be registered inside the worker too
+  return new Worker(
+    `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(WORKER_URL.href)}); });`,
+    { eval: true }
+  );
+}
+
+export class JobQueue {
+  private static workers: PoolWorker[] = [];
+  private static pollTimer: NodeJS.Timeout | null = null;
+  private static dispatching = false;
+  private static redispatch = false;
+
+  /**
+   * Recover interrupted jobs and start the worker pool. The pool size comes
+   * from JOB_WORKERS, defaulting to one less than the number of CPUs.
+   */
+  static async start(
+    size = parseInt(process.env.JOB_WORKERS || "") || Math.max(1, Math.min(os.cpus().length - 1, 4))
+  ): Promise<void> {
+    if (this.pollTimer) return;
+
+    await this.recoverInterruptedJobs();
+
+    for (let i = 0; i < size; i++) {
+      this.workers.push(this.spawnWorker());
+    }
+
+    // Polling picks up retries whose delay has passed
+    this.pollTimer = setInterval(() => this.dispatch(), POLL_INTERVAL_MS);
+    this.pollTimer.unref();
+    console.log(`Job queue started with ${size} worker${size === 1 ? "" : "s"}`);
+    this.dispatch();
+  }
+
+  /**
+   * Add a job to the queue
+   */
+  static async enqueue(
+    type: JobType,
+    payload: Record<string, unknown>,
+    options: { resourceType?: string; resourceId?: number; createdBy?: number } = {}
+  ): Promise<Job> {
+    const job = await storage.createJob({
+      type,
+      status: "queued",
+      payload: JSON.stringify(payload),
+      maxAttempts: jobHandlers[type].maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      createdAt: new Date().toISOString(),
+      ...options,
+    });
+    console.log(`Queued ${type} job ${job.id}`);
+    this.dispatch();
+    return job;
+  }
+
+  /**
+   * Cancel a queued or running job. Running jobs are stopped by terminating
+   * their worker, which is then replaced.
+   */
+  static async cancel(id: number): Promise<Job | undefined> {
+    const job = await storage.getJob(id);
+    if (!job || (job.status !== "queued" && job.status !== "running")) return job;
+
+    const poolWorker = this.workers.find((w) => w.job?.id === id);
+    if (poolWorker) {
+      poolWorker.cancelled = true;
+      await poolWorker.worker.terminate();
+
+      // The job may have finished before the worker stopped
+      const current = await storage.getJob(id);
+      if (current?.status !== "running") return current;
+    }
+
+    const cancelled = await storage.updateJob(id, {
+      status: "cancelled",
+      finishedAt: new Date().toISOString(),
+    });
+
+    try {
+      await jobHandlers[job.type as JobType]?.onCancel?.(JSON.parse(job.payload));
+    } catch (handlerError) {
+      console.error(`Cancel handler for job ${id} failed:`, handlerError);
+    }
+    return cancelled;
+  }
+
+  /**
+   * Queue a failed or cancelled job again with a fresh set of attempts
+   */
+  static async retry(id: number): Promise<Job | undefined> {
+    const job = await storage.getJob(id);
+    if (!job || (job.status !== "failed" && job.status !== "cancelled")) return job;
+
+    const updated = await storage.updateJob(id, {
+      status: "queued",
+      attempts: 0,
+      error: null,
+      runAfter: null,
+      finishedAt: null,
+    });
+    this.dispatch();
+    return updated;
+  }
+
+  /**
+   * Jobs left running by a previous server process are queued again, or
+   * failed when they have used all their attempts
+   */
+  private static async recoverInterruptedJobs(): Promise<void> {
+    const interrupted = await storage.getJobs({ status: "running" });
+    for (const job of interrupted) {
+      console.log(`Recovering interrupted ${job.type} job ${job.id}`);
+      await this.recordFailure(job, "Interrupted by a server restart");
+    }
+  }
+
+  private static spawnWorker(): PoolWorker {
+    const poolWorker: PoolWorker = {
+      worker: createWorker(),
+      job: null,
+      cancelled: false,
+      ready: false,
+    };
+
+    poolWorker.worker.on("message", (outcome: JobOutcome | { ready: true }) => {
+      if ("ready" in outcome) {
+        poolWorker.ready = true;
+        return;
+      }
+      this.handleOutcome(poolWorker, outcome).catch((error) =>
+        console.error(`Failed to record outcome of job ${outcome.jobId}:`, error)
+      );
+    });
+
+    poolWorker.worker.on("error", (error) => {
+      console.error("Job worker crashed:", error);
+    });
+
+    // Replace workers that exit (crash or cancellation) and fail their job
+    poolWorker.worker.on("exit", (code) => {
+      const job = poolWorker.job;
+      const index = this.workers.indexOf(poolWorker);
+      if (index === -1) return;
+
+      // A worker that never started would fail again straight away, so it isn't replaced
+      if (poolWorker.ready) {
+        this.workers[index] = this.spawnWorker();
+      } else {
+        this.workers.splice(index, 1);
+        console.error(`Job worker failed to start (exit code ${code}); ${this.workers.length} workers left`);
+      }
+
+      if (job && !poolWorker.cancelled) {
+        this.recordFailure(job, `Worker exited with code ${code}`)
+          .catch((error) => console.error(`Failed to record failure of job ${job.id}:`, error))
+          .finally(() => this.dispatch());
+      } else {
+        this.dispatch();
+      }
+    });
+
+    return poolWorker;
+  }
+
+  /**
+   * Hand queued jobs to idle workers
+   */
+  private static async dispatch(): Promise<void> {
+    if (this.dispatching) {
+      this.redispatch = true;
+      return;
+    }
+    this.dispatching = true;
+
+    try {
+      // Every worker failed to start, so nothing would ever pick the queued jobs up
+      if (this.pollTimer && this.workers.length === 0) {
+        await this.failQueuedJobs("No job workers are running");
+        return;
+      }
+
+      let idle = this.workers.find((w) => !w.job);
+      while (idle) {
+        const job = await storage.getNextQueuedJob(new Date().toISOString());
+        if (!job) break;
+
+        const started = await storage.updateJob(job.id, {
+          status: "running",
+          attempts: job.attempts + 1,
+          startedAt: new Date().toISOString(),
+        });
+        idle.job = started;
+        const request: JobRequest = {
+          jobId: started.id,
+          type: started.type as JobType,
+          payload: JSON.parse(started.payload),
+        };
+        idle.worker.postMessage(request);
+        console.log(`Started ${started.type} job ${started.id} (attempt ${started.attempts}/${started.maxAttempts})`);
+
+        idle = this.workers.find((w) => !w.job);
+      }
+    } catch (error) {
+      console.error("Job dispatch error:", error);
+    } finally {
+      this.dispatching = false;
+      if (this.redispatch) {
+        this.redispatch = false;
+        this.dispatch();
+      }
+    }
+  }
+
+  private static async handleOutcome(poolWorker: PoolWorker, outcome: JobOutcome): Promise<void> {
+    const job = poolWorker.job;
+    poolWorker.job = null;
+
+    if (job && job.id === outcome.jobId) {
+      if (outcome.ok) {
+        await storage.updateJob(job.id, {
+          status: "completed",
+          result: JSON.stringify(outcome.result),
+          error: null,
+          finishedAt: new Date().toISOString(),
+        });
+        console.log(`Completed ${job.type} job ${job.id}`);
+      } else {
+        await this.recordFailure(job, outcome.error);
+      }
+    }
+
+    this.dispatch();
+  }
+
+  /**
+   * Schedule another attempt with exponential backoff, or fail the job for good
+   */
+  private static async recordFailure(job: Job, error: string): Promise<void> {
+    console.error(`${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}): ${error}`);
+
+    if (job.attempts < job.maxAttempts) {
+      const delay = RETRY_BASE_DELAY_MS * 2 ** Math.max(job.attempts - 1, 0);
+      await storage.updateJob(job.id, {
+        status: "queued",
+        error,
+        runAfter: new Date(Date.now() + delay).toISOString(),
+      });
+      return;
+    }
+
+    await this.failJob(job, error);
+  }
+
+  /**
+   * Fail every queued job for good, retries included
+   */
+  private static async failQueuedJobs(error: string): Promise<void> {
+    const queued = await storage.getJobs({ status: "queued" });
+    for (const job of queued) {
+      console.error(`${job.type} job ${job.id} failed: ${error}`);
+      await this.failJob(job, error);
+    }
+  }
+
+  private static async failJob(job: Job, error: string): Promise<void> {
+    await storage.updateJob(job.id, {
+      status: "failed",
+      error,
+      finishedAt: new Date().toISOString(),
+    });
+
+    try {
+      await jobHandlers[job.type as JobType]?.onFailure?.(JSON.parse(job.payload), error);
+    } catch (handlerError) {
+      console.error(`Failure handler for job ${job.id} failed:`, handlerError);
+    }
+  }
+}
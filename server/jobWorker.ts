@@ -0,0 +1,33 @@
+/**
+ * Worker thread entry point for the job queue. Receives one job at a time
+ * from jobQueue.ts and reports its result or error back.
+ */
+import { parentPort } from "worker_threads";
+import { jobHandlers } from "./jobHandlers";
+import type { JobType } from "@shared/schema";
+
+export interface JobRequest {
+  jobId: number;
+  type: JobType;
+  payload: unknown;
+}
+
+export type JobOutcome =
+  | { jobId: number; ok: true; result: unknown }
+  | { jobId: number; ok: false; error: string };
+
+parentPort?.on("message", async ({ jobId, type, payload }: JobRequest) => {
+  let outcome: JobOutcome;
+  try {
+    const handler = jobHandlers[type];
+    if (!handler) {
+      throw new Error(`Unknown job type: ${type}`);
+    }
+    outcome = { jobId, ok: true, result: (await handler.run(payload)) ?? null };
+  } catch (error) {
+    outcome = { jobId, ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort?.postMessage(outcome);
+});
+
+parentPort?.postMessage({ ready: true });
@@ -6,11 +6,35 @@ import fs from "fs";
 import csv from "csv-parser";
 import ExcelJS from "exceljs";
 import { storage } from "./storage";
-import { FileProcessor } from "./services/fileProcessor";
 import { ModernValidationRulesParser } from "../validation/ModernValidationRulesParser";
-import { ValidationEngine } from "./services/validationEngine";
-import { ModernValidationEngine } from "../validation/ModernValidationEngine";
 import { xbrlProcessor } from "./xbrl-processor";
+import { JobQueue } from "./jobQueue";
+import { RuleTestHarness, type ExpectedOutcome } from "../validation/RuleTestHarness";
+import { CodeLists, type CodeListEntry } from "../validation/CodeLists";
+import { ExpressionEvaluator } from "../validation/ExpressionEvaluator";
+import { ModernValidationEngine } from "../validation/ModernValidationEngine";
+import { RuleCoverage } from "../validation/RuleCoverage";
+import { RuleFileLinter } from "../validation/RuleFileLinter";
+import { TemplateDiff, type TemplateDiffSide } from "../validation/TemplateDiff";
+import { SubmissionWorkbook } from "../validation/SubmissionWorkbook";
+import { CarryForward, type CarriedValue, type CarryForwardMapping } from "../validation/CarryForward";
+import { RuleSets, RuleSetError, type PublishOptions } from "./services/ruleSets";
+import { TemplateLifecycleError, TemplateVersions } from "./services/templateVersions";
+import {
+  RuleExportError,
+  RuleFileExporter,
+  RULE_FILE_FORMATS,
+  isRuleFileFormat,
+  type RuleFileMetadata,
+} from "../validation/RuleFileExporter";
+import { validateNumberFormat } from "@shared/numberFormat";
+import { parseReportingPeriod } from "@shared/reportingPeriod";
+import {
+  getWaivedOutcome,
+  isWaivableSeverity,
+  parseValidationTotals,
+  toValidationSeverity,
+} from "@shared/validationOutcome";
 import {
   insertTemplateSchema,
   insertTemplateSheetSchema,
@@ -23,6 +47,18 @@ import {
   templateSheets,
   processingStatus,
   templates,
+  jobs,
+  jobTypes,
+  jobStatuses,
+  goldenSamples,
+  type Job,
+  type GoldenSample,
+  type CodeList,
+  validationSeverities,
+  templateLifecycleStatuses,
+  type TemplateLifecycleStatus,
+  type Template,
+  type Submission,
 } from "@shared/schema";
 import { z } from "zod";
 import bcrypt from "bcrypt";
@@ -125,6 +161,49 @@ const validationUpload = multer({
   },
 });
 
+// Sample workbooks and draft rules files uploaded for rule testing
+const ruleTestUpload = multer({
+  storage: uploadStorage,
+  limits: {
+    fileSize: 100 * 1024 * 1024, // 100MB limit
+  },
+  fileFilter: (req: any, file: any, cb: any) => {
+    const allowedTypes =
+      file.fieldname === "rules"
+        ? [".txt", ".xlsx", ".xls", ".csv", ".json", ".yaml", ".yml"]
+        : [".xlsx", ".xls", ".csv"];
+    const ext = path.extname(file.originalname).toLowerCase();
+
+    if (allowedTypes.includes(ext)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`Invalid file type for ${file.fieldname}: ${ext}`));
+    }
+  },
+});
+
+// Reference-data code lists uploaded by super admins
+const codeListUpload = multer({
+  storage: uploadStorage,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+  fileFilter: (req: any, file: any, cb: any) => {
+    const allowedTypes = [".csv", ".xlsx", ".xls", ".json", ".txt"];
+    const ext = path.extname(file.originalname).toLowerCase();
+
+    if (allowedTypes.includes(ext)) {
+      cb(null, true);
+    } else {
+      cb(
+        new Error(
+          "Invalid file type. Only CSV, Excel, JSON, and TXT files are allowed for code lists."
+        )
+      );
+    }
+  },
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Authentication middleware
   app.use((req: AuthenticatedRequest, res, next) => {
@@ -171,6 +250,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
     next();
   }
 
+  // Snapshot a template's rules as a new rule set version after they change
+  async function publishTemplateRules(templateId: number, options: PublishOptions = {}) {
+    const template = await storage.getTemplate(templateId);
+    return template ? await RuleSets.publish(template, options) : undefined;
+  }
+
+  // A template as compared by TemplateDiff, with the rules of its newest rule set
+  async function loadTemplateDiffSide(template: Template): Promise<TemplateDiffSide> {
+    const [ruleSet] = await storage.getValidationRuleSets(template.id);
+    return {
+      label: `${template.name} v${template.version}${ruleSet ? ` (rule set v${ruleSet.version})` : ""}`,
+      sheets: await storage.getTemplateSheets(template.id),
+      schemas: await storage.getTemplateSchemas(template.id),
+      cells: await TemplateDiff.readCells(template.filePath),
+      rules: ruleSet
+        ? RuleSets.getRules(ruleSet)
+        : await ModernValidationEngine.loadRules(template.id, template.validationRulesPath),
+    };
+  }
+
+  // A template version as a fillable workbook for an entity, checked by the rule set
+  // in effect for the reporting period (the newest without one)
+  async function buildFillableWorkbook(
+    template: Template,
+    reportingPeriod: string | null,
+    entity: { id: number; username: string },
+    carried?: { values: CarriedValue[]; from: string }
+  ): Promise<Buffer> {
+    const ruleSet = reportingPeriod
+      ? await RuleSets.resolve(template, reportingPeriod)
+      : (await storage.getValidationRuleSets(template.id))[0];
+    const rules = ruleSet
+      ? RuleSets.getRules(ruleSet)
+      : await ModernValidationEngine.loadRules(template.id, template.validationRulesPath);
+
+    const codeLists = new Map<string, string[]>();
+    for (const list of await storage.getActiveCodeLists(SubmissionWorkbook.referencedCodeLists(rules))) {
+      const entries: CodeListEntry[] = JSON.parse(list.entries);
+      codeLists.set(list.name, entries.map((entry) => entry.code));
+    }
+
+    return await SubmissionWorkbook.build({
+      filePath: template.filePath,
+      rules,
+      sheetNames: new Map((await storage.getTemplateSheets(template.id)).map((sheet) => [sheet.id, sheet.sheetName])),
+      codeLists,
+      values: carried?.values,
+      metadata: {
+        templateId: template.id,
+        templateName: template.name,
+        templateVersion: template.version,
+        ruleSetVersion: ruleSet?.version ?? null,
+        entityId: entity.id,
+        entityName: entity.username,
+        reportingPeriod,
+        carriedForwardFrom: carried?.from ?? null,
+      },
+    });
+  }
+
+  // Add the name and version of the template each submission was filed against
+  async function withTemplateVersions<T extends { templateId: number }>(submissions: T[]) {
+    const templatesById = new Map((await storage.getTemplates()).map((template) => [template.id, template]));
+    return submissions.map((submission) => {
+      const template = templatesById.get(submission.templateId);
+      return {
+        ...submission,
+        templateName: template?.name,
+        templateVersion: template?.version,
+        templateGroupId: template ? TemplateVersions.groupId(template) : undefined,
+      };
+    });
+  }
+
   // Authentication routes
   app.post("/api/auth/login", async (req, res) => {
     try {
@@ -656,6 +809,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       // Super admins see all templates
 
+      // Entities file against published versions; they see each template once
+      if (req.user?.role === "REPORTING_ENTITY") {
+        filteredTemplates = TemplateVersions.currentVersions(filteredTemplates);
+      }
+
       res.json(filteredTemplates);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch templates" });
@@ -687,6 +845,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
         // Super admins see all templates
 
+        // Entities file against published versions; they see each template once
+        if (req.user?.role === "REPORTING_ENTITY") {
+          filteredTemplates = TemplateVersions.currentVersions(filteredTemplates);
+        }
+
         // Get templates that have validation files uploaded
         const templatesWithRules = filteredTemplates
           .filter((template) => template.validationFileUploaded)
@@ -793,6 +956,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           validationRulesPath: validationFile?.path,
           templateType: templateType || "excel", // Default to excel if not specified
           isXBRL: isXBRL === "true" || templateType === "xbrl", // Set XBRL flag
+          lifecycleStatus: "draft", // Entities can file against it once it is published
         };
 
         console.log("Creating template with data:", templateData);
@@ -810,19 +974,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
             if (rules.length > 0) {
               await storage.createValidationRules(rules);
             }
+            await RuleSets.publish(template, {
+              effectiveFrom: req.body.effectiveFrom || undefined,
+              createdBy: req.user?.id,
+              fileName: validationFile.originalname,
+              filePath: validationFile.path,
+            });
           } catch (parseError) {
             console.error("Failed to parse validation rules:", parseError);
             // Continue without validation rules
           }
         }
 
-        // Start processing in the background
-        processTemplateAsync(template.id).catch((error) => {
-          console.error(
-            `Background processing failed for template ${template.id}:`,
-            error
-          );
-        });
+        // Extract sheets and generate schemas in the background
+        await JobQueue.enqueue(
+          "schema_extraction",
+          { templateId: template.id },
+          { resourceType: "template", resourceId: template.id, createdBy: req.user?.id }
+        );
 
         res.json({
           message: "Template uploaded successfully",
@@ -837,6 +1006,110 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
+  // Versions of a template, newest first
+  app.get(
+    "/api/templates/:id/versions",
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const template = await storage.getTemplate(parseInt(req.params.id));
+        if (!template) {
+          return res.status(404).json({ error: "Template not found" });
+        }
+
+        const versions = await TemplateVersions.list(template);
+        res.json(
+          await Promise.all(
+            versions.map(async (version) => ({
+              id: version.id,
+              version: version.version,
+              lifecycleStatus: version.lifecycleStatus,
+              effectiveFrom: version.effectiveFrom,
+              status: version.status,
+              fileName: version.fileName,
+              createdAt: version.createdAt,
+              publishedAt: version.publishedAt,
+              retiredAt: version.retiredAt,
+              submissionCount: (await storage.getSubmissions(undefined, version.id)).length,
+            }))
+          )
+        );
+      } catch (error) {
+        console.error("Get template versions error:", error);
+        res.status(500).json({ error: "Failed to fetch template versions" });
+      }
+    }
+  );
+
+  // Start a new draft version of a template from an updated template file
+  app.post(
+    "/api/templates/:id/versions",
+    requireAdmin,
+    upload.single("template"),
+    async (req: MulterRequest, res) => {
+      try {
+        if (!req.file) {
+          return res.status(400).json({ error: "No template file uploaded" });
+        }
+
+        const source = await storage.getTemplate(parseInt(req.params.id));
+        if (!source) {
+          return res.status(404).json({ error: "Template not found" });
+        }
+
+        const template = await TemplateVersions.createVersion(source, req.file, req.user!.id);
+
+        // Extract the new file's sheets and copy the source version's rules onto them
+        await JobQueue.enqueue(
+          "schema_extraction",
+          { templateId: template.id, copyRulesFrom: source.id },
+          { resourceType: "template", resourceId: template.id, createdBy: req.user?.id }
+        );
+
+        res.json({
+          message: `Version ${template.version} created as a draft`,
+          templateId: template.id,
+          template,
+        });
+      } catch (error) {
+        console.error("Create template version error:", error);
+        res.status(500).json({ error: "Failed to create template version" });
+      }
+    }
+  );
+
+  // Move a template version through draft, review, published and retired
+  app.post(
+    "/api/templates/:id/lifecycle",
+    requireAuth,
+    requireAdmin,
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const { status, effectiveFrom } = req.body;
+        if (!templateLifecycleStatuses.includes(status)) {
+          return res.status(400).json({
+            error: `Status must be one of: ${templateLifecycleStatuses.join(", ")}`,
+          });
+        }
+
+        const template = await storage.getTemplate(parseInt(req.params.id));
+        if (!template) {
+          return res.status(404).json({ error: "Template not found" });
+        }
+
+        const updated = await TemplateVersions.transition(template, status as TemplateLifecycleStatus, {
+          effectiveFrom: typeof effectiveFrom === "string" ? effectiveFrom.trim() : undefined,
+        });
+        res.json(updated);
+      } catch (error) {
+        if (error instanceof TemplateLifecycleError) {
+          return res.status(400).json({ error: error.message });
+        }
+        console.error("Template lifecycle error:", error);
+        res.status(500).json({ error: "Failed to change template status" });
+      }
+    }
+  );
+
   // Upload validation file for existing template
   app.post(
     "/api/templates/:id/validation-file",
@@ -855,67 +1128,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ error: "Template not found" });
         }
 
-        const validationFile = req.file;
-        const filePath = validationFile.path;
-
-        try {
-          // Update template with validation file path and mark as uploaded
-          await storage.updateTemplateValidationRulesPath(templateId, filePath);
-          await storage.updateValidationFileUploaded(templateId, true);
-
-          // Parse and store validation rules
-          const fileExtension = path
-            .extname(validationFile.originalname)
-            .toLowerCase();
-          let rules: any[] = [];
-
-          if (fileExtension === ".txt" || fileExtension === ".json" || fileExtension === ".yaml" || fileExtension === ".yml" || fileExtension === ".csv") {
-            // Parse validation rules using modern parser
-            const parsed = await ModernValidationRulesParser.parseValidationFile(
-              filePath,
-              templateId
-            );
-            rules = parsed.rules;
-          } else if (fileExtension === ".xlsx" || fileExtension === ".xls") {
-            // Parse Excel file rules using modern parser
-            const parsed = await ModernValidationRulesParser.parseValidationFile(
-              filePath,
-              templateId
-            );
-            rules = parsed.rules;
-
-
-          }
-
-          // Save rules to database if any were parsed
-          if (rules.length > 0) {
-            await storage.createValidationRules(rules);
-          }
+        const filePath = req.file.path;
+        const effectiveFrom = req.body.effectiveFrom || undefined;
+        if (effectiveFrom && !parseReportingPeriod(effectiveFrom, template.frequency)) {
+          fs.unlinkSync(filePath);
+          return res.status(400).json({ error: `"${effectiveFrom}" is not a reporting period` });
+        }
 
-          res.json({
-            message: "Validation file uploaded successfully",
-            templateId,
-            filePath,
-            rulesCreated: rules.length,
-            validationFileUploaded: true,
+        // Files with errors are rejected; warnings are returned with the upload
+        const lint = await RuleFileLinter.lint(filePath, templateId);
+        if (!lint.valid) {
+          fs.unlinkSync(filePath);
+          return res.status(400).json({
+            error: `The validation file has ${lint.errorCount} error${lint.errorCount === 1 ? "" : "s"}`,
+            diagnostics: lint.diagnostics,
           });
-        } catch (parseError) {
-          console.error("Failed to parse validation file:", parseError);
+        }
 
-          // Still mark file as uploaded but with warning
-          await storage.updateTemplateValidationRulesPath(templateId, filePath);
-          await storage.updateValidationFileUploaded(templateId, true);
+        await storage.updateTemplateValidationRulesPath(templateId, filePath);
+        await storage.updateValidationFileUploaded(templateId, true);
 
-          res.json({
-            message: "Validation file uploaded but parsing failed",
-            templateId,
-            filePath,
-            rulesCreated: 0,
-            validationFileUploaded: true,
-            warning:
-              "File uploaded but could not parse validation rules. Please check file format.",
-          });
+        if (lint.rules.length > 0) {
+          await storage.createValidationRules(lint.rules.map(({ source, ...rule }) => rule));
         }
+
+        // The file is kept as the source of a new rule set version; earlier versions stay as they were
+        const ruleSet = await publishTemplateRules(templateId, {
+          effectiveFrom,
+          createdBy: req.user?.id,
+          fileName: req.file.originalname,
+          filePath,
+        });
+
+        res.json({
+          message: "Validation file uploaded successfully",
+          templateId,
+          filePath,
+          rulesCreated: lint.rules.length,
+          validationFileUploaded: true,
+          diagnostics: lint.diagnostics,
+          ruleSet,
+        });
       } catch (error) {
         console.error("Validation file upload error:", error);
         res.status(500).json({ error: "Failed to upload validation file" });
@@ -923,12 +1176,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
-  // Download validation file for a template
+  // Download validation file for a template, as uploaded or converted with ?format=
   app.get(
     "/api/templates/:id/validation-file/download",
     async (req: AuthenticatedRequest, res) => {
       try {
         const templateId = parseInt(req.params.id);
+        const format = req.query.format ? String(req.query.format) : undefined;
 
         // Check if template exists
         const template = await storage.getTemplate(templateId);
@@ -936,6 +1190,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ error: "Template not found" });
         }
 
+        if (format) {
+          if (!isRuleFileFormat(format)) {
+            return res.status(400).json({ error: "Unsupported format. Use json, yaml, csv, excel, or txt." });
+          }
+
+          // Rules from the uploaded file, or those stored for the template
+          const hasFile = !!template.validationRulesPath && fs.existsSync(template.validationRulesPath);
+          const { rules, metadata } = hasFile
+            ? await ModernValidationRulesParser.parseValidationFile(template.validationRulesPath!, templateId)
+            : { rules: await ModernValidationEngine.loadRules(templateId), metadata: {} as RuleFileMetadata };
+          if (rules.length === 0) {
+            return res.status(404).json({ error: "No validation rules found for this template" });
+          }
+
+          const content = await RuleFileExporter.export(rules, { templateName: template.name, ...metadata }, format);
+          res.setHeader(
+            "Content-Disposition",
+            `attachment; filename="${template.name}-validation-rules${RULE_FILE_FORMATS[format].extension}"`
+          );
+          res.setHeader("Content-Type", RULE_FILE_FORMATS[format].contentType);
+          return res.send(content);
+        }
+
         // Check if validation file exists
         if (!template.validationRulesPath || !template.validationFileUploaded) {
           return res
@@ -964,12 +1241,371 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const fileStream = fs.createReadStream(template.validationRulesPath);
         fileStream.pipe(res);
       } catch (error) {
+        if (error instanceof RuleExportError) {
+          return res.status(422).json({ error: error.message, differences: error.differences });
+        }
         console.error("Validation file download error:", error);
         res.status(500).json({ error: "Failed to download validation file" });
       }
     }
   );
 
+  // Rule set versions of a template, newest first
+  app.get(
+    "/api/templates/:id/rule-sets",
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const templateId = parseInt(req.params.id);
+        const template = await storage.getTemplate(templateId);
+        if (!template) {
+          return res.status(404).json({ error: "Template not found" });
+        }
+
+        const versions = await storage.getValidationRuleSets(templateId);
+        res.json(
+          versions.map(({ rules, ...version }) => ({
+            ...version,
+            ruleCount: JSON.parse(rules).length,
+          }))
+        );
+      } catch (error) {
+        console.error("Get rule sets error:", error);
+        res.status(500).json({ error: "Failed to fetch rule sets" });
+      }
+    }
+  );
+
+  // Publish the template's current rules as a new version from a reporting period
+  app.post(
+    "/api/templates/:id/rule-sets",
+    requireAuth,
+    requireAdmin,
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const templateId = parseInt(req.params.id);
+        const { effectiveFrom, note } = req.body;
+
+        const template = await storage.getTemplate(templateId);
+        if (!template) {
+          return res.status(404).json({ error: "Template not found" });
+        }
+
+        const ruleSet = await RuleSets.publish(template, {
+          effectiveFrom: effectiveFrom || undefined,
+          note: note || undefined,
+          createdBy: req.user!.id,
+        });
+        res.json(ruleSet);
+      } catch (error) {
+        if (error instanceof RuleSetError) {
+          return res.status(400).json({ error: error.message });
+        }
+        console.error("Publish rule set error:", error);
+        res.status(500).json({ error: "Failed to publish rule set" });
+      }
+    }
+  );
+
+  // One rule set version with its rules, or as a rules file with ?format=
+  app.get(
+    "/api/rule-sets/:id",
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const ruleSet = await storage.getValidationRuleSet(parseInt(req.params.id));
+        if (!ruleSet) {
+          return res.status(404).json({ error: "Rule set not found" });
+        }
+
+        const rules = RuleSets.getRules(ruleSet);
+        const format = req.query.format ? String(req.query.format) : undefined;
+        if (!format) {
+          return res.json({ ...ruleSet, rules });
+        }
+        if (!isRuleFileFormat(format)) {
+          return res.status(400).json({ error: "Unsupported format. Use json, yaml, csv, excel, or txt." });
+        }
+
+        const template = await storage.getTemplate(ruleSet.templateId);
+        const content = await RuleFileExporter.export(rules, {
+          templateName: template?.name,
+          version: String(ruleSet.version),
+          createdDate: ruleSet.createdAt.slice(0, 10),
+          description: ruleSet.note ?? undefined,
+        }, format);
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${template?.name ?? "template"}-rules-v${ruleSet.version}${RULE_FILE_FORMATS[format].extension}"`
+        );
+        res.setHeader("Content-Type", RULE_FILE_FORMATS[format].contentType);
+        res.send(content);
+      } catch (error) {
+        if (error instanceof RuleExportError) {
+          return res.status(422).json({ error: error.message, differences: error.differences });
+        }
+        console.error("Get rule set error:", error);
+        res.status(500).json({ error: "Failed to fetch rule set" });
+      }
+    }
+  );
+
+  // Rule testing: dry runs and golden samples
+  const getRuleTestFile = (req: MulterRequest, field: string): { path: string; originalname: string } | undefined =>
+    req.files?.[field]?.[0];
+
+  const removeFile = (filePath?: string) => {
+    if (filePath && fs.existsSync(filePath)) fs.unlinkSync(filePath);
+  };
+
+  // Rules a sample is checked with: the draft file when one is uploaded, otherwise the
+  // rule set a submission for the period is validated against (see jobHandlers.validateSubmission)
+  const getRuleTestRules = async (
+    template: Template,
+    rulesFile: { path: string } | undefined,
+    reportingPeriod?: string | null
+  ) =>
+    rulesFile
+      ? { rulesPath: rulesFile.path }
+      : { rules: RuleSets.getRules(await RuleSets.resolve(template, reportingPeriod || "")) };
+
+  const formatGoldenSample = (sample: GoldenSample) => {
+    const { expectedResults, ...rest } = sample;
+    const expected: ExpectedOutcome[] = JSON.parse(expectedResults);
+    return {
+      ...rest,
+      expectedChecks: expected.length,
+      expectedFailures: expected.filter((outcome) => !outcome.isValid).length,
+    };
+  };
+
+  // Run a sample workbook against a draft rules file (or the published rules) without creating a submission
+  app.post(
+    "/api/templates/:id/validation-dry-run",
+    requireAdmin,
+    ruleTestUpload.fields([
+      { name: "sample", maxCount: 1 },
+      { name: "rules", maxCount: 1 },
+    ]),
+    async (req: MulterRequest, res) => {
+      const sampleFile = getRuleTestFile(req, "sample");
+      const rulesFile = getRuleTestFile(req, "rules");
+
+      try {
+        const templateId = parseInt(req.params.id);
+        if (!sampleFile) {
+          return res.status(400).json({ error: "No sample workbook uploaded" });
+        }
+
+        const template = await storage.getTemplate(templateId);
+        if (!template) {
+          return res.status(404).json({ error: "Template not found" });
+        }
+
+        const result = await RuleTestHarness.dryRun({
+          filePath: sampleFile.path,
+          fileName: sampleFile.originalname,
+          templateId,
+          ...(await getRuleTestRules(template, rulesFile, req.body.reportingPeriod)),
+          reportingPeriod: req.body.reportingPeriod || undefined,
+          frequency: template.frequency,
+        });
+
+        res.json({ ...result, rulesSource: rulesFile ? "draft" : "published" });
+      } catch (error) {
+        console.error("Validation dry run error:", error);
+        res.status(500).json({ error: "Failed to run validation dry run" });
+      } finally {
+        removeFile(sampleFile?.path);
+        removeFile(rulesFile?.path);
+      }
+    }
+  );
+
+  app.get(
+    "/api/templates/:id/golden-samples",
+    requireAdmin,
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const samples = await storage.getGoldenSamples(parseInt(req.params.id));
+        res.json(samples.map(formatGoldenSample));
+      } catch (error) {
+        console.error("Get golden samples error:", error);
+        res.status(500).json({ error: "Failed to fetch golden samples" });
+      }
+    }
+  );
+
+  // Save a known-good sample; its current results (with the draft rules, if given) become the expected results
+  app.post(
+    "/api/templates/:id/golden-samples",
+    requireAdmin,
+    ruleTestUpload.fields([
+      { name: "sample", maxCount: 1 },
+      { name: "rules", maxCount: 1 },
+    ]),
+    async (req: MulterRequest, res) => {
+      const sampleFile = getRuleTestFile(req, "sample");
+      const rulesFile = getRuleTestFile(req, "rules");
+      let saved = false;
+
+      try {
+        const templateId = parseInt(req.params.id);
+        if (!sampleFile) {
+          return res.status(400).json({ error: "No sample workbook uploaded" });
+        }
+
+        const template = await storage.getTemplate(templateId);
+        if (!template) {
+          return res.status(404).json({ error: "Template not found" });
+        }
+
+        const reportingPeriod = req.body.reportingPeriod || null;
+        const result = await RuleTestHarness.dryRun({
+          filePath: sampleFile.path,
+          fileName: sampleFile.originalname,
+          templateId,
+          ...(await getRuleTestRules(template, rulesFile, reportingPeriod)),
+          reportingPeriod: reportingPeriod || undefined,
+          frequency: template.frequency,
+        });
+
+        const now = new Date().toISOString();
+        const sample = await storage.createGoldenSample({
+          templateId,
+          name: req.body.name?.trim() || sampleFile.originalname,
+          fileName: sampleFile.originalname,
+          filePath: sampleFile.path,
+          reportingPeriod,
+          expectedResults: JSON.stringify(RuleTestHarness.toExpectedOutcomes(result.results)),
+          createdBy: req.user!.id,
+          createdAt: now,
+          updatedAt: now,
+        });
+        saved = true;
+
+        res.json(formatGoldenSample(sample));
+      } catch (error) {
+        console.error("Create golden sample error:", error);
+        res.status(500).json({ error: "Failed to save golden sample" });
+      } finally {
+        if (!saved) removeFile(sampleFile?.path);
+        removeFile(rulesFile?.path);
+      }
+    }
+  );
+
+  // Re-run every golden sample against a draft rules file (or the published rules) and report differences
+  app.post(
+    "/api/templates/:id/golden-samples/check",
+    requireAdmin,
+    ruleTestUpload.fields([{ name: "rules", maxCount: 1 }]),
+    async (req: MulterRequest, res) => {
+      const rulesFile = getRuleTestFile(req, "rules");
+
+      try {
+        const templateId = parseInt(req.params.id);
+        const template = await storage.getTemplate(templateId);
+        if (!template) {
+          return res.status(404).json({ error: "Template not found" });
+        }
+
+        const samples = await storage.getGoldenSamples(templateId);
+        const checks = [];
+        for (const sample of samples) {
+          if (!fs.existsSync(sample.filePath)) {
+            checks.push({ ...formatGoldenSample(sample), error: "Sample file not found on disk" });
+            continue;
+          }
+
+          const result = await RuleTestHarness.dryRun({
+            filePath: sample.filePath,
+            fileName: sample.fileName,
+            templateId,
+            ...(await getRuleTestRules(template, rulesFile, sample.reportingPeriod)),
+            reportingPeriod: sample.reportingPeriod || undefined,
+            frequency: template.frequency,
+          });
+          checks.push({
+            ...formatGoldenSample(sample),
+            ...RuleTestHarness.compare(JSON.parse(sample.expectedResults), result.results),
+            ruleErrors: result.ruleErrors,
+          });
+        }
+
+        res.json({
+          rulesSource: rulesFile ? "draft" : "published",
+          passed: checks.every((check) => "matches" in check && check.matches),
+          samples: checks,
+        });
+      } catch (error) {
+        console.error("Golden sample check error:", error);
+        res.status(500).json({ error: "Failed to check golden samples" });
+      } finally {
+        removeFile(rulesFile?.path);
+      }
+    }
+  );
+
+  // Accept a sample's current results (with the draft rules, if given) as its new expected results
+  app.post(
+    "/api/golden-samples/:id/accept",
+    requireAdmin,
+    ruleTestUpload.fields([{ name: "rules", maxCount: 1 }]),
+    async (req: MulterRequest, res) => {
+      const rulesFile = getRuleTestFile(req, "rules");
+
+      try {
+        const sample = await storage.getGoldenSample(parseInt(req.params.id));
+        if (!sample) {
+          return res.status(404).json({ error: "Golden sample not found" });
+        }
+        const template = await storage.getTemplate(sample.templateId);
+        if (!template) {
+          return res.status(404).json({ error: "Template not found" });
+        }
+
+        const result = await RuleTestHarness.dryRun({
+          filePath: sample.filePath,
+          fileName: sample.fileName,
+          templateId: sample.templateId,
+          ...(await getRuleTestRules(template, rulesFile, sample.reportingPeriod)),
+          reportingPeriod: sample.reportingPeriod || undefined,
+          frequency: template.frequency,
+        });
+
+        const updated = await storage.updateGoldenSample(sample.id, {
+          expectedResults: JSON.stringify(RuleTestHarness.toExpectedOutcomes(result.results)),
+          updatedAt: new Date().toISOString(),
+        });
+        res.json(formatGoldenSample(updated));
+      } catch (error) {
+        console.error("Accept golden sample error:", error);
+        res.status(500).json({ error: "Failed to update golden sample" });
+      } finally {
+        removeFile(rulesFile?.path);
+      }
+    }
+  );
+
+  app.delete(
+    "/api/golden-samples/:id",
+    requireAdmin,
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const sample = await storage.getGoldenSample(parseInt(req.params.id));
+        if (!sample) {
+          return res.status(404).json({ error: "Golden sample not found" });
+        }
+
+        await storage.deleteGoldenSample(sample.id);
+        removeFile(sample.filePath);
+        res.json({ message: "Golden sample deleted" });
+      } catch (error) {
+        console.error("Delete golden sample error:", error);
+        res.status(500).json({ error: "Failed to delete golden sample" });
+      }
+    }
+  );
+
   // Get processing status
   app.get(
     "/api/templates/:id/status",
@@ -1004,32 +1640,177 @@ export async function registerRoutes(app: Express): Promise<Server> {
     async (req: AuthenticatedRequest, res) => {
       try {
         const id = parseInt(req.params.id);
-        const schemas = await storage.getTemplateSchemas(id);
-        res.json(schemas);
+        const schemas = await storage.getTemplateSchemas(id);
+        res.json(schemas);
+      } catch (error) {
+        res.status(500).json({ error: "Failed to fetch template schemas" });
+      }
+    }
+  );
+
+  // Get specific schema
+  app.get(
+    "/api/templates/:id/schemas/:sheetId?",
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const sheetId = req.params.sheetId
+          ? parseInt(req.params.sheetId)
+          : undefined;
+        const schema = await storage.getTemplateSchema(id, sheetId);
+
+        if (!schema) {
+          return res.status(404).json({ error: "Schema not found" });
+        }
+
+        res.json(schema);
+      } catch (error) {
+        res.status(500).json({ error: "Failed to fetch schema" });
+      }
+    }
+  );
+
+  // Which schema fields and template columns the template's rules cover, and rules that conflict
+  app.get(
+    "/api/templates/:id/rule-coverage",
+    requireAdmin,
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const template = await storage.getTemplate(id);
+        if (!template) {
+          return res.status(404).json({ error: "Template not found" });
+        }
+
+        const rules = await ModernValidationEngine.loadRules(id, template.validationRulesPath);
+        const sheets = await storage.getTemplateSheets(id);
+        const schemas = await storage.getTemplateSchemas(id);
+        res.json(RuleCoverage.analyze({ rules, sheets, schemas }));
+      } catch (error) {
+        console.error("Rule coverage error:", error);
+        res.status(500).json({ error: "Failed to analyze rule coverage" });
+      }
+    }
+  );
+
+  // What changed from another template or version (?from=, by default the previous version),
+  // as JSON or with ?format=excel as a change log workbook
+  app.get(
+    "/api/templates/:id/diff",
+    requireAuth,
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const template = await storage.getTemplate(parseInt(req.params.id));
+        if (!template) {
+          return res.status(404).json({ error: "Template not found" });
+        }
+
+        const from = req.query.from
+          ? await storage.getTemplate(parseInt(String(req.query.from)))
+          : (await TemplateVersions.list(template)).find((version) => version.version < template.version);
+        if (!from) {
+          return res.status(req.query.from ? 404 : 400).json({
+            error: req.query.from ? "Template to compare with not found" : "This is the first version; choose a template to compare with",
+          });
+        }
+
+        // Entities only see versions that were published
+        if (
+          req.user!.role === "REPORTING_ENTITY" &&
+          [template, from].some((t) => t.lifecycleStatus !== "published" && t.lifecycleStatus !== "retired")
+        ) {
+          return res.status(403).json({ error: "Only published versions can be compared" });
+        }
+
+        const report = TemplateDiff.compare(await loadTemplateDiffSide(from), await loadTemplateDiffSide(template));
+        if (req.query.format === "excel") {
+          res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+          res.setHeader(
+            "Content-Disposition",
+            `attachment; filename="${template.name}-changes-v${from.version}-to-v${template.version}.xlsx"`
+          );
+          return res.send(await TemplateDiff.toWorkbook(report));
+        }
+        res.json({ ...report, fromTemplateId: from.id, toTemplateId: template.id });
+      } catch (error) {
+        console.error("Template diff error:", error);
+        res.status(500).json({ error: "Failed to compare templates" });
+      }
+    }
+  );
+
+  // Set how formatted amounts in this template's submissions are read; null restores the defaults
+  app.put(
+    "/api/templates/:id/number-format",
+    requireAdmin,
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const { numberFormat } = req.body;
+
+        if (numberFormat !== null && (typeof numberFormat !== "object" || Array.isArray(numberFormat))) {
+          return res.status(400).json({ error: "numberFormat must be an object or null" });
+        }
+        const errors = numberFormat ? validateNumberFormat(numberFormat) : [];
+        if (errors.length > 0) {
+          return res.status(400).json({ error: "Invalid number format", details: errors });
+        }
+
+        const template = await storage.getTemplate(id);
+        if (!template) {
+          return res.status(404).json({ error: "Template not found" });
+        }
+        TemplateVersions.assertEditable(template);
+
+        const updated = await storage.updateTemplate(id, {
+          numberFormat: numberFormat ? JSON.stringify(numberFormat) : null,
+        });
+        res.json(updated);
       } catch (error) {
-        res.status(500).json({ error: "Failed to fetch template schemas" });
+        if (error instanceof TemplateLifecycleError) {
+          return res.status(409).json({ error: error.message });
+        }
+        console.error("Update number format error:", error);
+        res.status(500).json({ error: "Failed to update number format" });
       }
     }
   );
 
-  // Get specific schema
-  app.get(
-    "/api/templates/:id/schemas/:sheetId?",
+  // Set which cells of the last approved filing pre-fill this version's workbooks; null or [] clears them.
+  // Published versions can be changed too, since the mapping doesn't affect what was filed
+  app.put(
+    "/api/templates/:id/carry-forward",
+    requireAdmin,
     async (req: AuthenticatedRequest, res) => {
       try {
         const id = parseInt(req.params.id);
-        const sheetId = req.params.sheetId
-          ? parseInt(req.params.sheetId)
-          : undefined;
-        const schema = await storage.getTemplateSchema(id, sheetId);
+        const { carryForward } = req.body;
 
-        if (!schema) {
-          return res.status(404).json({ error: "Schema not found" });
+        const errors = carryForward === null ? [] : CarryForward.validate(carryForward);
+        if (errors.length > 0) {
+          return res.status(400).json({ error: "Invalid carry-forward mapping", details: errors });
         }
 
-        res.json(schema);
+        const template = await storage.getTemplate(id);
+        if (!template) {
+          return res.status(404).json({ error: "Template not found" });
+        }
+
+        const updated = await storage.updateTemplate(id, {
+          carryForward: carryForward?.length
+            ? JSON.stringify(
+                carryForward.map(({ source, target, description }: CarryForwardMapping) => ({
+                  source: source.trim(),
+                  target: target.trim(),
+                  ...(description?.trim() ? { description: description.trim() } : {}),
+                }))
+              )
+            : null,
+        });
+        res.json(updated);
       } catch (error) {
-        res.status(500).json({ error: "Failed to fetch schema" });
+        console.error("Update carry-forward mapping error:", error);
+        res.status(500).json({ error: "Failed to update carry-forward mapping" });
       }
     }
   );
@@ -1038,9 +1819,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/templates/:id", async (req: AuthenticatedRequest, res) => {
     try {
       const id = parseInt(req.params.id);
+      const template = await storage.getTemplate(id);
+      if (template) {
+        // Entities have filed against published and retired versions; retire them instead
+        TemplateVersions.assertEditable(template);
+        if (!template.templateGroupId && (await TemplateVersions.list(template)).length > 1) {
+          return res.status(409).json({ error: "Delete the later versions of this template first" });
+        }
+      }
       await storage.deleteTemplate(id);
       res.json({ message: "Template deleted successfully" });
     } catch (error) {
+      if (error instanceof TemplateLifecycleError) {
+        return res.status(409).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to delete template" });
     }
   });
@@ -1057,20 +1849,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (!template) {
           return res.status(404).json({ error: "Template not found" });
         }
+        if (template.status === "completed") {
+          TemplateVersions.assertEditable(template);
+        }
 
         // Start processing in background
-        processTemplateAsync(id).catch((error) => {
-          console.error(
-            `Background processing failed for template ${id}:`,
-            error
-          );
-        });
+        const job = await JobQueue.enqueue(
+          "schema_extraction",
+          { templateId: id },
+          { resourceType: "template", resourceId: id, createdBy: req.user?.id }
+        );
 
         res.json({
           message: "Processing started",
           templateId: id,
+          jobId: job.id,
         });
       } catch (error) {
+        if (error instanceof TemplateLifecycleError) {
+          return res.status(409).json({ error: error.message });
+        }
         res.status(500).json({ error: "Failed to start processing" });
       }
     }
@@ -1088,14 +1886,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (!template) {
           return res.status(404).json({ error: "Template not found" });
         }
+        if (template.status === "completed") {
+          TemplateVersions.assertEditable(template);
+        }
 
         // Start schema generation in background
-        FileProcessor.generateSchemas(id).catch((error) => {
-          console.error(`Schema generation failed for template ${id}:`, error);
-        });
+        const job = await JobQueue.enqueue(
+          "schema_extraction",
+          { templateId: id, schemasOnly: true },
+          { resourceType: "template", resourceId: id, createdBy: req.user?.id }
+        );
 
-        res.json({ message: "Schema generation started" });
+        res.json({ message: "Schema generation started", jobId: job.id });
       } catch (error) {
+        if (error instanceof TemplateLifecycleError) {
+          return res.status(409).json({ error: error.message });
+        }
         console.error("Generate schemas error:", error);
         res.status(500).json({ error: "Failed to start schema generation" });
       }
@@ -1173,12 +1979,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     async (req: AuthenticatedRequest, res) => {
       try {
         const id = parseInt(req.params.id);
-        const template = await storage.getTemplate(id);
+        const { reportingPeriod } = req.query;
+        let template = await storage.getTemplate(id);
 
         if (!template) {
           return res.status(404).json({ error: "Template not found" });
         }
 
+        // The version to fill in for a reporting period
+        if (reportingPeriod) {
+          template = await TemplateVersions.resolve(template, String(reportingPeriod));
+          if (!template) {
+            return res.status(404).json({ error: `No published version applies to ${reportingPeriod}` });
+          }
+        }
+
         res.download(template.filePath, template.fileName);
       } catch (error) {
         res.status(500).json({ error: "Failed to download template" });
@@ -1186,6 +2001,107 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
+  // The template as a fillable workbook, with its rules as Excel data validation
+  // and locked header and formula cells; ?reportingPeriod= picks the version and rule set
+  app.get(
+    "/api/templates/:id/fillable-workbook",
+    requireAuth,
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const { reportingPeriod } = req.query;
+        let template = await storage.getTemplate(parseInt(req.params.id));
+        if (!template) {
+          return res.status(404).json({ error: "Template not found" });
+        }
+
+        if (reportingPeriod) {
+          template = await TemplateVersions.resolve(template, String(reportingPeriod));
+          if (!template) {
+            return res.status(404).json({ error: `No published version applies to ${reportingPeriod}` });
+          }
+        } else if (req.user!.role === "REPORTING_ENTITY" && template.lifecycleStatus !== "published") {
+          return res.status(403).json({ error: "Only published versions can be downloaded" });
+        }
+
+        const workbook = await buildFillableWorkbook(template, reportingPeriod ? String(reportingPeriod) : null, req.user!);
+
+        res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${template.name}-v${template.version}${reportingPeriod ? `-${reportingPeriod}` : ""}.xlsx"`
+        );
+        res.send(workbook);
+      } catch (error) {
+        console.error("Fillable workbook error:", error);
+        res.status(500).json({ error: "Failed to generate fillable workbook" });
+      }
+    }
+  );
+
+  // The fillable workbook for a reporting period, pre-filled through the template's
+  // carry-forward mapping from the entity's last approved filing before it.
+  // Entities get their own; admins name the entity with ?userId=
+  app.get(
+    "/api/templates/:id/prefilled-workbook",
+    requireAuth,
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const reportingPeriod = req.query.reportingPeriod ? String(req.query.reportingPeriod) : "";
+        if (!reportingPeriod) {
+          return res.status(400).json({ error: "reportingPeriod is required" });
+        }
+
+        const requested = await storage.getTemplate(parseInt(req.params.id));
+        if (!requested) {
+          return res.status(404).json({ error: "Template not found" });
+        }
+        const template = await TemplateVersions.resolve(requested, reportingPeriod);
+        if (!template) {
+          return res.status(404).json({ error: `No published version applies to ${reportingPeriod}` });
+        }
+
+        const mappings = CarryForward.parse(template.carryForward);
+        if (mappings.length === 0) {
+          return res.status(400).json({ error: `Version ${template.version} of ${template.name} carries nothing forward` });
+        }
+
+        let entity: { id: number; username: string } | undefined = req.user!;
+        if (req.user!.role !== "REPORTING_ENTITY") {
+          if (!req.query.userId) {
+            return res.status(400).json({ error: "userId is required" });
+          }
+          entity = await storage.getUser(parseInt(String(req.query.userId)));
+          if (!entity) {
+            return res.status(404).json({ error: "User not found" });
+          }
+        }
+
+        const previous = await storage.getPreviousApprovedSubmission(entity.id, template.id, reportingPeriod);
+        if (!previous) {
+          return res.status(404).json({ error: `No approved submission before ${reportingPeriod} to carry forward from` });
+        }
+        if (!fs.existsSync(previous.filePath)) {
+          return res.status(404).json({ error: `The file of the ${previous.reportingPeriod} submission is missing` });
+        }
+
+        const workbook = await buildFillableWorkbook(template, reportingPeriod, entity, {
+          values: await CarryForward.readValues(previous.filePath, mappings),
+          from: `${previous.reportingPeriod} (submission ${previous.id})`,
+        });
+
+        res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${template.name}-v${template.version}-${reportingPeriod}-prefilled.xlsx"`
+        );
+        res.send(workbook);
+      } catch (error) {
+        console.error("Pre-filled workbook error:", error);
+        res.status(500).json({ error: "Failed to generate pre-filled workbook" });
+      }
+    }
+  );
+
   // Get validation rules for a template (with optional sheet filtering)
   app.get(
     "/api/templates/:id/validation-rules",
@@ -1216,7 +2132,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     async (req: AuthenticatedRequest, res) => {
       try {
         const templateId = parseInt(req.params.id);
-        const { sheetId, ruleType, field, condition, errorMessage, severity } =
+        const { sheetId, ruleType, field, condition, errorMessage, severity, when, tolerance } =
           req.body;
 
         // Validate required fields
@@ -1231,11 +2147,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Validate severity
-        const validSeverities = ["error", "warning"];
-        if (severity && !validSeverities.includes(severity)) {
+        if (severity && !(validationSeverities as readonly string[]).includes(severity)) {
           return res.status(400).json({ error: "Invalid severity" });
         }
 
+        // Validate tolerance ("0.01" or "0.1%")
+        if (tolerance) {
+          try {
+            ExpressionEvaluator.parseTolerance(tolerance);
+          } catch (error) {
+            return res.status(400).json({ error: (error as Error).message });
+          }
+        }
+
         const rule = await storage.createValidationRule({
           templateId,
           sheetId: sheetId || null,
@@ -1244,7 +2168,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           condition,
           errorMessage,
           severity: severity || "error",
+          when: when || null,
+          tolerance: tolerance || null,
         });
+        await publishTemplateRules(templateId, { createdBy: req.user?.id });
 
         res.json(rule);
       } catch (error) {
@@ -1261,7 +2188,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       try {
         const templateId = parseInt(req.params.id);
         const ruleId = parseInt(req.params.ruleId);
-        const { ruleType, field, condition, errorMessage, severity } = req.body;
+        const { ruleType, field, condition, errorMessage, severity, when, tolerance } = req.body;
 
         // Validate required fields
         if (!ruleType || !field || !condition || !errorMessage) {
@@ -1289,6 +2216,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             condition: r.condition,
             errorMessage: r.errorMessage,
             severity: r.severity,
+            when: r.when,
+            tolerance: r.tolerance,
           })),
           {
             templateId,
@@ -1297,11 +2226,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
             field,
             condition,
             errorMessage,
-            severity: severity || "error",
+            severity: toValidationSeverity(severity),
+            when: when || null,
+            tolerance: tolerance || null,
           },
         ];
 
         await storage.createValidationRules(updatedRules);
+        await publishTemplateRules(templateId, { createdBy: req.user?.id });
         res.json({ message: "Validation rule updated successfully" });
       } catch (error) {
         console.error("Update validation rule error:", error);
@@ -1338,11 +2270,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
             condition: r.condition,
             errorMessage: r.errorMessage,
             severity: r.severity,
+            when: r.when,
+            tolerance: r.tolerance,
           }));
 
         if (rulesToKeep.length > 0) {
           await storage.createValidationRules(rulesToKeep);
         }
+        await publishTemplateRules(templateId, { createdBy: req.user?.id });
 
         res.json({ message: "Validation rule deleted successfully" });
       } catch (error) {
@@ -1379,11 +2314,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
             condition: r.condition,
             errorMessage: r.errorMessage,
             severity: r.severity,
+            when: r.when,
+            tolerance: r.tolerance,
           }));
 
         if (rulesToKeep.length > 0) {
           await storage.createValidationRules(rulesToKeep);
         }
+        await publishTemplateRules(templateId, { createdBy: req.user?.id });
 
         res.json({ message: `${ruleIds.length} rules deleted successfully` });
       } catch (error) {
@@ -1394,12 +2332,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   );
 
   // Import validation rules from text
-  // Export validation rules to Excel
+  // Export validation rules: { rules, metadata, format } as a rules file, or { headers, rows } as an Excel table
   app.post(
     "/api/export/validation-rules",
     async (req: AuthenticatedRequest, res) => {
       try {
-        const { headers, rows } = req.body;
+        const { headers, rows, rules, metadata, format = "excel" } = req.body;
+
+        if (Array.isArray(rules)) {
+          if (!isRuleFileFormat(format)) {
+            return res.status(400).json({ error: "Unsupported format. Use json, yaml, csv, excel, or txt." });
+          }
+          const content = await RuleFileExporter.export(rules, metadata || {}, format);
+          res.setHeader("Content-Type", RULE_FILE_FORMATS[format].contentType);
+          res.setHeader(
+            "Content-Disposition",
+            `attachment; filename=validation-rules${RULE_FILE_FORMATS[format].extension}`
+          );
+          return res.send(content);
+        }
 
         if (!headers || !rows) {
           return res.status(400).json({ error: "Invalid export data" });
@@ -1445,6 +2396,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         );
         res.send(buffer);
       } catch (error: any) {
+        if (error instanceof RuleExportError) {
+          return res.status(422).json({ error: error.message, differences: error.differences });
+        }
         console.error("Error exporting validation rules:", error);
         res.status(500).json({
           error: error.message || "Failed to export validation rules",
@@ -1534,19 +2488,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         // Validate rule types and severity
         const validRuleTypes = ["required", "format", "range", "custom"];
-        const validSeverities = ["error", "warning"];
 
         for (const rule of rules) {
           if (!validRuleTypes.includes(rule.ruleType)) {
             rule.ruleType = "required";
           }
-          if (!validSeverities.includes(rule.severity)) {
-            rule.severity = "error";
-          }
+          rule.severity = toValidationSeverity(rule.severity);
         }
 
         // Insert rules
         const insertedRules = await storage.createValidationRules(rules);
+        await publishTemplateRules(templateId, { createdBy: req.user?.id });
 
         // Clean up uploaded file
         fs.unlinkSync(file.path);
@@ -1599,6 +2551,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }));
 
         await storage.createValidationRules(rules);
+        await publishTemplateRules(templateId, { createdBy: req.user?.id });
 
         res.json({
           message: "Rules imported successfully",
@@ -1730,7 +2683,7 @@ For each rule, provide:
 - ruleType: One of the types above
 - condition: The validation condition (e.g., "not_empty", "^\\d{10}$" for phone, "min:0,max:100")
 - errorMessage: A clear error message
-- severity: "error" or "warning"
+- severity: "info", "warning", "error" or "blocking"
 
 Return the response as a JSON array of validation rules.
 Only return the JSON array, no additional text.
@@ -1826,6 +2779,7 @@ Only return the JSON array, no additional text.
             }));
 
             await storage.createValidationRules(rulesToCreate);
+            await publishTemplateRules(templateId, { createdBy: req.user?.id });
 
             // Update progress to completed
             generationProgress.set(sessionId, {
@@ -1882,9 +2836,21 @@ Only return the JSON array, no additional text.
             .json({ error: "Reporting period is required" });
         }
 
+        // File against the published version of the template for the period
+        const template = await storage.getTemplate(parseInt(templateId));
+        if (!template) {
+          return res.status(404).json({ error: "Template not found" });
+        }
+        const version = await TemplateVersions.resolve(template, reportingPeriod);
+        if (!version) {
+          return res.status(400).json({
+            error: `No published version of "${template.name}" applies to ${reportingPeriod}`,
+          });
+        }
+
         // Create submission record
         const submission = await storage.createSubmission({
-          templateId: parseInt(templateId),
+          templateId: version.id,
           userId,
           category:
             typeof userCategory === "string"
@@ -1897,12 +2863,17 @@ Only return the JSON array, no additional text.
         });
 
         // Validate submission in background
-        validateSubmissionAsync(submission.id);
+        await JobQueue.enqueue(
+          "validation",
+          { submissionId: submission.id },
+          { resourceType: "submission", resourceId: submission.id, createdBy: req.user?.id }
+        );
 
         res.json({
           message: "Submission uploaded successfully",
           submissionId: submission.id,
           submission,
+          templateVersion: version.version,
         });
       } catch (error) {
         // Enhanced error logging and return real error message for debugging
@@ -1957,7 +2928,7 @@ Only return the JSON array, no additional text.
         }
       }
 
-      res.json(submissions);
+      res.json(await withTemplateVersions(submissions));
     } catch (error) {
       console.error("Submissions API error:", error);
       res.status(500).json({
@@ -1990,7 +2961,7 @@ Only return the JSON array, no additional text.
         });
       }
 
-      res.json(submissionsWithUsers);
+      res.json(await withTemplateVersions(submissionsWithUsers));
     } catch (error) {
       console.error("Error fetching admin submissions:", error);
       res.status(500).json({ error: JSON.stringify(error) });
@@ -2007,12 +2978,28 @@ Only return the JSON array, no additional text.
         return res.status(404).json({ error: "Submission not found" });
       }
 
-      res.json(submission);
+      // The template and rule set versions the submission was validated against
+      const ruleSet = submission.ruleSetId ? await storage.getValidationRuleSet(submission.ruleSetId) : undefined;
+      const [withTemplate] = await withTemplateVersions([submission]);
+      res.json({
+        ...withTemplate,
+        ruleSet: ruleSet && { id: ruleSet.id, version: ruleSet.version, effectiveFrom: ruleSet.effectiveFrom },
+      });
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch submission" });
     }
   });
 
+  // Outcome of a submission's last run once accepted waivers are taken out
+  const getSubmissionOutcome = async (submission: Submission) => {
+    const results = await storage.getValidationResults(submission.id);
+    const waivers = await storage.getValidationWaivers(submission.id);
+    return getWaivedOutcome(results, waivers, parseValidationTotals(submission.validationTotals));
+  };
+
+  const describeResult = (result: { cellReference: string | null; sheetName: string | null; field: string; ruleType: string | null }) =>
+    `${result.sheetName ? `${result.sheetName}!` : ""}${result.cellReference || result.field} (${result.ruleType || "rule"})`;
+
   // Approve submission (Admin only)
   app.post(
     "/api/submissions/:id/approve",
@@ -2027,6 +3014,14 @@ Only return the JSON array, no additional text.
           return res.status(404).json({ error: "Submission not found" });
         }
 
+        // Blocking failures can't be waived, so the submission can't be accepted
+        const outcome = await getSubmissionOutcome(submission);
+        if (outcome.blockingCount > 0) {
+          return res.status(400).json({
+            error: `Submission has ${outcome.blockingCount} blocking validation failures and cannot be approved`,
+          });
+        }
+
         // Update submission status
         await storage.updateSubmissionStatus(id, "approved", req.user?.id);
 
@@ -2198,37 +3193,242 @@ Only return the JSON array, no additional text.
           systemGenerated: true,
         });
 
-        // Start validation if template has rules
-        if (template.validationFileUploaded) {
-          // Update submission status to validating
-          await storage.updateSubmissionStatus(newSubmission.id, "pending");
+        // Validate exactly like a first upload - the engine falls back to
+        // database rules when the template has no validation file
+        await JobQueue.enqueue(
+          "validation",
+          { submissionId: newSubmission.id },
+          { resourceType: "submission", resourceId: newSubmission.id, createdBy: req.user?.id }
+        );
+
+        res.json({
+          message: "File re-uploaded successfully",
+          submissionId: newSubmission.id,
+          hasValidationRules: template.validationFileUploaded,
+        });
+      } catch (error) {
+        console.error("Re-upload error:", error);
+        res.status(500).json({ error: "Failed to re-upload file" });
+      }
+    }
+  );
+
+  // Validate a submission again. It keeps the rule set version it was validated
+  // against unless the reviewer asks for the version now effective for its period.
+  app.post(
+    "/api/submissions/:id/revalidate",
+    requireAuth,
+    requireAdmin,
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const submissionId = parseInt(req.params.id);
+        const { useCurrentRules } = req.body;
+
+        const submission = await storage.getSubmission(submissionId);
+        if (!submission) {
+          return res.status(404).json({ error: "Submission not found" });
+        }
+        const template = await storage.getTemplate(submission.templateId);
+        if (!template) {
+          return res.status(404).json({ error: "Template not found" });
+        }
+
+        const ruleSet = useCurrentRules || !submission.ruleSetId
+          ? await RuleSets.resolve(template, submission.reportingPeriod)
+          : await storage.getValidationRuleSet(submission.ruleSetId);
+        if (!ruleSet) {
+          return res.status(404).json({ error: "Rule set not found" });
+        }
+
+        await storage.createComment({
+          submissionId,
+          userId: req.user!.id,
+          text: `Re-validated against rule set version ${ruleSet.version}${useCurrentRules ? " (current rules)" : ""}`,
+          systemGenerated: true,
+        });
+
+        const job = await JobQueue.enqueue(
+          "validation",
+          { submissionId, ruleSetId: ruleSet.id },
+          { resourceType: "submission", resourceId: submissionId, createdBy: req.user?.id }
+        );
+
+        res.json({ jobId: job.id, ruleSet: { id: ruleSet.id, version: ruleSet.version } });
+      } catch (error) {
+        console.error("Re-validate submission error:", error);
+        res.status(500).json({ error: "Failed to re-validate submission" });
+      }
+    }
+  );
+
+  // Get validation results for a submission
+  app.get(
+    "/api/submissions/:id/results",
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const results = await storage.getValidationResults(id);
+        res.json(results);
+      } catch (error) {
+        res.status(500).json({ error: "Failed to fetch validation results" });
+      }
+    }
+  );
+
+  // Waivers requested for a submission's failed checks
+  app.get(
+    "/api/submissions/:id/waivers",
+    requireAuth,
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const submissionId = parseInt(req.params.id);
+        const submission = await storage.getSubmission(submissionId);
+        if (!submission) {
+          return res.status(404).json({ error: "Submission not found" });
+        }
+        // IFSCA reviewers see every submission's waivers, entities only their own
+        const isIfsca = req.user!.role === "IFSCA" || req.user!.role === "IFSCA_USER";
+        if (!isIfsca && submission.userId !== req.user!.id) {
+          return res.status(403).json({ error: "Only the submitting entity can view these waivers" });
+        }
+
+        const waivers = await storage.getValidationWaivers(submissionId);
+        res.json(waivers);
+      } catch (error) {
+        console.error("Get waivers error:", error);
+        res.status(500).json({ error: "Failed to fetch waivers" });
+      }
+    }
+  );
+
+  // Reporting entity asks IFSCA to waive one failed check, with a justification
+  app.post(
+    "/api/submissions/:id/waivers",
+    requireAuth,
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const submissionId = parseInt(req.params.id);
+        const { resultId, justification } = req.body;
+
+        if (!justification || typeof justification !== "string" || justification.trim().length === 0) {
+          return res.status(400).json({ error: "A justification is required" });
+        }
+
+        const submission = await storage.getSubmission(submissionId);
+        if (!submission) {
+          return res.status(404).json({ error: "Submission not found" });
+        }
+        if (submission.userId !== req.user!.id) {
+          return res.status(403).json({ error: "Only the submitting entity can request waivers" });
+        }
+        if (submission.status === "approved" || submission.status === "rejected") {
+          return res.status(400).json({ error: `Cannot request waivers for a ${submission.status} submission` });
+        }
+
+        const results = await storage.getValidationResults(submissionId);
+        const result = results.find((r) => r.id === parseInt(resultId));
+        if (!result) {
+          return res.status(404).json({ error: "Validation result not found for this submission" });
+        }
+        if (result.isValid) {
+          return res.status(400).json({ error: "Only failed checks can be waived" });
+        }
+        if (!isWaivableSeverity(result.severity)) {
+          return res.status(400).json({ error: `${result.severity} failures cannot be waived` });
+        }
+
+        const existing = await storage.getValidationWaivers(submissionId);
+        if (existing.some((w) => w.resultId === result.id && w.status !== "rejected")) {
+          return res.status(409).json({ error: "A waiver is already pending or accepted for this check" });
+        }
+
+        const waiver = await storage.createValidationWaiver({
+          submissionId,
+          resultId: result.id,
+          justification: justification.trim(),
+          requestedBy: req.user!.id,
+        });
+
+        await storage.createComment({
+          submissionId,
+          userId: req.user!.id,
+          text: `Waiver requested for ${describeResult(result)} - Justification: ${justification.trim()}`,
+        });
+
+        res.json(waiver);
+      } catch (error) {
+        console.error("Request waiver error:", error);
+        res.status(500).json({ error: "Failed to request waiver" });
+      }
+    }
+  );
+
+  // IFSCA accepts or rejects a waiver; accepted waivers change the submission's outcome
+  app.post(
+    "/api/submissions/:id/waivers/:waiverId/review",
+    requireAuth,
+    requireAdmin,
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const submissionId = parseInt(req.params.id);
+        const { decision, note } = req.body;
+
+        if (decision !== "accepted" && decision !== "rejected") {
+          return res.status(400).json({ error: 'decision must be "accepted" or "rejected"' });
+        }
+        if (decision === "rejected" && (!note || typeof note !== "string" || note.trim().length === 0)) {
+          return res.status(400).json({ error: "A reason is required to reject a waiver" });
+        }
+
+        const waiver = await storage.getValidationWaiver(parseInt(req.params.waiverId));
+        if (!waiver || waiver.submissionId !== submissionId) {
+          return res.status(404).json({ error: "Waiver not found" });
+        }
+        if (waiver.status !== "pending") {
+          return res.status(400).json({ error: `Waiver has already been ${waiver.status}` });
+        }
+        if (waiver.resultId === null) {
+          return res.status(400).json({ error: "The waived check is no longer reported after re-validation" });
+        }
+
+        const submission = await storage.getSubmission(submissionId);
+        if (!submission) {
+          return res.status(404).json({ error: "Submission not found" });
+        }
+
+        const updated = await storage.updateValidationWaiver(waiver.id, {
+          status: decision,
+          reviewedBy: req.user!.id,
+          reviewNote: note?.trim() || null,
+          reviewedAt: new Date().toISOString(),
+        });
 
-          // Start async validation
-          validateSubmissionAsync(newSubmission.id);
+        // Submissions awaiting review take the outcome the waivers leave
+        const outcome = await getSubmissionOutcome(submission);
+        if (submission.status === "passed" || submission.status === "failed") {
+          await storage.updateSubmissionStatus(
+            submissionId,
+            outcome.status,
+            req.user?.id,
+            outcome.errorCount,
+            outcome.warningCount
+          );
         }
 
-        res.json({
-          message: "File re-uploaded successfully",
-          submissionId: newSubmission.id,
-          hasValidationRules: template.validationFileUploaded,
+        const result = (await storage.getValidationResults(submissionId)).find((r) => r.id === waiver.resultId);
+        await storage.createComment({
+          submissionId,
+          userId: req.user!.id,
+          text:
+            `Waiver ${decision} for ${result ? describeResult(result) : `result #${waiver.resultId}`}` +
+            (note?.trim() ? ` - Note: ${note.trim()}` : "") +
+            ` - Effective outcome: ${outcome.status} (${outcome.errorCount} errors, ${outcome.waivedCount} waived)`,
         });
-      } catch (error) {
-        console.error("Re-upload error:", error);
-        res.status(500).json({ error: "Failed to re-upload file" });
-      }
-    }
-  );
 
-  // Get validation results for a submission
-  app.get(
-    "/api/submissions/:id/results",
-    async (req: AuthenticatedRequest, res) => {
-      try {
-        const id = parseInt(req.params.id);
-        const results = await storage.getValidationResults(id);
-        res.json(results);
+        res.json({ waiver: updated, outcome });
       } catch (error) {
-        res.status(500).json({ error: "Failed to fetch validation results" });
+        console.error("Review waiver error:", error);
+        res.status(500).json({ error: "Failed to review waiver" });
       }
     }
   );
@@ -2281,7 +3481,8 @@ Only return the JSON array, no additional text.
         fs.unlinkSync(submission.filePath);
       }
 
-      // Delete validation results first (foreign key constraint)
+      // Delete waivers and validation results first (foreign key constraint)
+      await storage.deleteValidationWaivers(id);
       await storage.deleteValidationResults(id);
 
       // Delete submission record
@@ -2329,7 +3530,10 @@ Only return the JSON array, no additional text.
   app.get("/api/templates/:id/validation-template", async (req: AuthenticatedRequest, res) => {
     try {
       const templateId = parseInt(req.params.id);
-      const format = req.query.format || 'json';
+      const format = String(req.query.format || 'json');
+      if (!isRuleFileFormat(format)) {
+        return res.status(400).json({ error: "Unsupported format. Use json, yaml, csv, excel, or txt." });
+      }
       
       const template = await storage.getTemplate(templateId);
       if (!template) {
@@ -2338,295 +3542,31 @@ Only return the JSON array, no additional text.
 
       const sheets = await storage.getTemplateSheets(templateId);
       const schemas = await storage.getTemplateSchemas(templateId);
-      
-      if (format === 'json') {
-        const jsonTemplate = {
-          metadata: {
-            templateName: template.name,
-            version: "1.0",
-            createdBy: "IFSCA Team",
-            createdDate: new Date().toISOString().split('T')[0],
-            description: `Validation rules for ${template.name}`
-          },
-          sheetValidations: {}
-        };
-
-        // Add each sheet with its columns
-        for (const sheet of sheets) {
-          const sheetSchemas = schemas.filter(s => s.sheetId === sheet.id);
-          jsonTemplate.sheetValidations[sheet.sheetName] = {
-            columnValidations: {}
-          };
-
-          // Add column validations for each field
-          for (const schema of sheetSchemas) {
-            let columnLetter = 'A';
-            if (schema.columnName) {
-              columnLetter = schema.columnName;
-            } else if (schema.fieldName && typeof schema.fieldName === 'string' && schema.fieldName.length > 0) {
-              columnLetter = schema.fieldName.charAt(0);
-            }
-            
-            jsonTemplate.sheetValidations[sheet.sheetName].columnValidations[columnLetter] = {
-              dataType: "string", // Default, user can change
-              required: true,
-              description: schema.fieldName || 'Field'
-            };
-          }
-        }
-
-        res.setHeader('Content-Type', 'application/json');
-        res.setHeader('Content-Disposition', `attachment; filename="${template.name}-validation-rules.json"`);
-        res.send(JSON.stringify(jsonTemplate, null, 2));
-      } 
-      else if (format === 'yaml') {
-        let yamlContent = `metadata:
-  templateName: "${template.name}"
-  version: "1.0"
-  createdBy: "IFSCA Team"
-  createdDate: "${new Date().toISOString().split('T')[0]}"
-  description: "Validation rules for ${template.name}"
-
-sheetValidations:
-`;
-
-        for (const sheet of sheets) {
-          const sheetSchemas = schemas.filter(s => s.sheetId === sheet.id);
-          yamlContent += `  "${sheet.sheetName}":
-    columnValidations:
-`;
-          
-          for (const schema of sheetSchemas) {
-            let columnLetter = 'A';
-            if (schema.columnName) {
-              columnLetter = schema.columnName;
-            } else if (schema.fieldName && typeof schema.fieldName === 'string' && schema.fieldName.length > 0) {
-              columnLetter = schema.fieldName.charAt(0);
-            }
-            
-            yamlContent += `      ${columnLetter}:
-        dataType: string
-        required: true
-        description: "${schema.fieldName || 'Field'}"
-      
-`;
-          }
-        }
-
-        res.setHeader('Content-Type', 'text/yaml');
-        res.setHeader('Content-Disposition', `attachment; filename="${template.name}-validation-rules.yaml"`);
-        res.send(yamlContent);
-      }
-      else if (format === 'csv') {
-        let csvContent = 'RuleType,SheetName,Column,Row,Field,Required,DataType,MinLength,MaxLength,Minimum,Maximum,Pattern,EnumValues,Expression,Description,Severity,RowRange,ColumnRange,CellRange,ApplyToAllRows\n';
-        
-        // Add header validation examples first
-        for (const sheet of sheets) {
-          const sheetSchemas = schemas.filter(s => s.sheetId === sheet.id);
-          for (let i = 0; i < sheetSchemas.length; i++) {
-            const schema = sheetSchemas[i];
-            let columnLetter = String.fromCharCode(65 + i); // A, B, C, etc.
-            if (schema.columnName) {
-              columnLetter = schema.columnName;
-            }
-            
-            // Header cell validation
-            csvContent += `cell,${sheet.sheetName},${columnLetter},1,Header_${schema.fieldName || 'Field'},true,string,,,,,,,,"Cell ${columnLetter}1 must contain '${schema.fieldName || 'Field'}' header",error,1,${columnLetter},${columnLetter}1,false\n`;
-          }
-        }
-        
-        // Add data validation examples
-        for (const sheet of sheets) {
-          const sheetSchemas = schemas.filter(s => s.sheetId === sheet.id);
-          for (let i = 0; i < sheetSchemas.length; i++) {
-            const schema = sheetSchemas[i];
-            let columnLetter = String.fromCharCode(65 + i); // A, B, C, etc.
-            if (schema.columnName) {
-              columnLetter = schema.columnName;
-            }
-            
-            // Column data validation
-            csvContent += `column,${sheet.sheetName},${columnLetter},,${schema.fieldName || 'Field'},true,string,,,,,,,,"Column ${columnLetter} validation for ${schema.fieldName || 'Field'}",error,2-*,${columnLetter},${columnLetter}2:${columnLetter}1000,true\n`;
-            
-            // First data cell validation
-            csvContent += `cell,${sheet.sheetName},${columnLetter},2,First_${schema.fieldName || 'Field'},true,string,,,,,,,,"Cell ${columnLetter}2 must contain first ${schema.fieldName || 'Field'}",error,2,${columnLetter},${columnLetter}2,false\n`;
-          }
-        }
-
-        res.setHeader('Content-Type', 'text/csv');
-        res.setHeader('Content-Disposition', `attachment; filename="${template.name}-validation-rules.csv"`);
-        res.send(csvContent);
-      }
-      else if (format === 'excel') {
-        const workbook = new ExcelJS.Workbook();
-        const worksheet = workbook.addWorksheet('Validation Rules');
-
-        // Add headers including Row and cell-based validation fields
-        worksheet.columns = [
-          { header: 'RuleType', key: 'ruleType', width: 15 },
-          { header: 'SheetName', key: 'sheetName', width: 20 },
-          { header: 'Column', key: 'column', width: 10 },
-          { header: 'Row', key: 'row', width: 8 },
-          { header: 'Field', key: 'field', width: 20 },
-          { header: 'Required', key: 'required', width: 10 },
-          { header: 'DataType', key: 'dataType', width: 15 },
-          { header: 'MinLength', key: 'minLength', width: 12 },
-          { header: 'MaxLength', key: 'maxLength', width: 12 },
-          { header: 'Minimum', key: 'minimum', width: 10 },
-          { header: 'Maximum', key: 'maximum', width: 10 },
-          { header: 'Pattern', key: 'pattern', width: 20 },
-          { header: 'EnumValues', key: 'enumValues', width: 20 },
-          { header: 'Expression', key: 'expression', width: 30 },
-          { header: 'Description', key: 'description', width: 40 },
-          { header: 'Severity', key: 'severity', width: 10 },
-          { header: 'RowRange', key: 'rowRange', width: 12 },
-          { header: 'ColumnRange', key: 'columnRange', width: 15 },
-          { header: 'CellRange', key: 'cellRange', width: 15 },
-          { header: 'ApplyToAllRows', key: 'applyToAllRows', width: 15 }
-        ];
 
-        // Add data rows with cell-based validation examples
-        for (const sheet of sheets) {
-          const sheetSchemas = schemas.filter(s => s.sheetId === sheet.id);
-          
-          // Add header validation rows
-          for (let i = 0; i < sheetSchemas.length; i++) {
-            const schema = sheetSchemas[i];
-            let columnLetter = String.fromCharCode(65 + i); // A, B, C, etc.
-            if (schema.columnName) {
-              columnLetter = schema.columnName;
-            }
-            
-            worksheet.addRow({
-              ruleType: 'cell',
-              sheetName: sheet.sheetName,
-              column: columnLetter,
-              row: '1',
-              field: `Header_${schema.fieldName || 'Field'}`,
-              required: 'true',
-              dataType: 'string',
-              minLength: '',
-              maxLength: '',
-              minimum: '',
-              maximum: '',
-              pattern: '',
-              enumValues: '',
-              expression: '',
-              description: `Cell ${columnLetter}1 must contain '${schema.fieldName || 'Field'}' header`,
-              severity: 'error',
-              rowRange: '1',
-              columnRange: columnLetter,
-              cellRange: `${columnLetter}1`,
-              applyToAllRows: 'false'
-            });
-          }
-          
-          // Add column validation rows
-          for (let i = 0; i < sheetSchemas.length; i++) {
-            const schema = sheetSchemas[i];
-            let columnLetter = String.fromCharCode(65 + i); // A, B, C, etc.
-            if (schema.columnName) {
-              columnLetter = schema.columnName;
-            }
-            
-            worksheet.addRow({
-              ruleType: 'column',
-              sheetName: sheet.sheetName,
-              column: columnLetter,
-              row: '',
-              field: schema.fieldName || 'Field',
-              required: 'true',
-              dataType: 'string',
-              minLength: '',
-              maxLength: '',
-              minimum: '',
-              maximum: '',
-              pattern: '',
-              enumValues: '',
-              expression: '',
-              description: `Column ${columnLetter} validation for ${schema.fieldName || 'Field'}`,
-              severity: 'error',
-              rowRange: '2-*',
-              columnRange: columnLetter,
-              cellRange: `${columnLetter}2:${columnLetter}1000`,
-              applyToAllRows: 'true'
-            });
-            
-            // Add first data cell validation
-            worksheet.addRow({
-              ruleType: 'cell',
+      // A required rule for each column of the extracted schema, as a starting point
+      const rules = sheets.flatMap(sheet =>
+        schemas
+          .filter(s => s.sheetId === sheet.id)
+          .flatMap((schema, i) =>
+            ModernValidationRulesParser.createColumnValidationRules(templateId, {
               sheetName: sheet.sheetName,
-              column: columnLetter,
-              row: '2',
-              field: `First_${schema.fieldName || 'Field'}`,
-              required: 'true',
-              dataType: 'string',
-              minLength: '',
-              maxLength: '',
-              minimum: '',
-              maximum: '',
-              pattern: '',
-              enumValues: '',
-              expression: '',
-              description: `Cell ${columnLetter}2 must contain first ${schema.fieldName || 'Field'}`,
-              severity: 'error',
-              rowRange: '2',
-              columnRange: columnLetter,
-              cellRange: `${columnLetter}2`,
-              applyToAllRows: 'false'
-            });
-          }
-        }
-
-        res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
-        res.setHeader('Content-Disposition', `attachment; filename="${template.name}-validation-rules.xlsx"`);
-        
-        await workbook.xlsx.write(res);
-        res.end();
-      }
-      else if (format === 'txt') {
-        let txtContent = `# Validation Rules for ${template.name}
-# Generated on ${new Date().toISOString().split('T')[0]}
-# 
-# Format: RULE_TYPE:SHEET_NAME:FIELD:CONDITION:ERROR_MESSAGE:SEVERITY
-# 
-# Available rule types:
-# - required: Field must have a value
-# - format: Field must match a specific format
-# - range: Field must be within a numeric range
-# - custom: Custom validation expression
-#
-# Examples:
-# required:Sheet1:A:*:Field A is required:error
-# format:Sheet1:B:email:Invalid email format:error
-# range:Sheet1:C:1-100:Value must be between 1 and 100:warning
-#
-
-`;
-
-        for (const sheet of sheets) {
-          const sheetSchemas = schemas.filter(s => s.sheetId === sheet.id);
-          txtContent += `\n# ${sheet.sheetName} validation rules\n`;
-          
-          for (const schema of sheetSchemas) {
-            let columnLetter = 'A';
-            if (schema.columnName) {
-              columnLetter = schema.columnName;
-            } else if (schema.fieldName && typeof schema.fieldName === 'string' && schema.fieldName.length > 0) {
-              columnLetter = schema.fieldName.charAt(0);
-            }
-            
-            txtContent += `required:${sheet.sheetName}:${columnLetter}:*:${schema.fieldName || 'Field'} is required:error\n`;
-          }
-        }
+              column: schema.columnName || String.fromCharCode(65 + i),
+              required: true
+            })
+          )
+      );
 
-        res.setHeader('Content-Type', 'text/plain');
-        res.setHeader('Content-Disposition', `attachment; filename="${template.name}-validation-rules.txt"`);
-        res.send(txtContent);
-      }
-      else {
-        res.status(400).json({ error: "Unsupported format. Use json, yaml, csv, excel, or txt." });
-      }
+      const content = await RuleFileExporter.export(rules, {
+        templateName: template.name,
+        version: "1.0",
+        createdBy: "IFSCA Team",
+        createdDate: new Date().toISOString().split('T')[0],
+        description: `Validation rules for ${template.name}`
+      }, format);
+
+      res.setHeader('Content-Type', RULE_FILE_FORMATS[format].contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${template.name}-validation-rules${RULE_FILE_FORMATS[format].extension}"`);
+      res.send(content);
     } catch (error) {
       console.error("Error generating validation template:", error);
       res.status(500).json({ error: "Failed to generate validation template" });
@@ -3409,6 +4349,150 @@ sheetValidations:
     }
   );
 
+  // Code List Management Endpoints (IFSCA only)
+
+  const formatCodeList = (list: CodeList) => {
+    const { entries, ...rest } = list;
+    return { ...rest, entryCount: (JSON.parse(entries) as CodeListEntry[]).length };
+  };
+
+  // Get all versions of all code lists
+  app.get(
+    "/api/super-admin/code-lists",
+    requireAuth,
+    requireSuperAdmin,
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const lists = await storage.getCodeLists();
+        res.json(lists.map(formatCodeList));
+      } catch (error) {
+        console.error("Get code lists error:", error);
+        res.status(500).json({ error: "Failed to fetch code lists" });
+      }
+    }
+  );
+
+  // Get one version with its entries
+  app.get(
+    "/api/super-admin/code-lists/:id",
+    requireAuth,
+    requireSuperAdmin,
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const list = await storage.getCodeList(parseInt(req.params.id));
+        if (!list) {
+          return res.status(404).json({ error: "Code list not found" });
+        }
+        res.json({ ...list, entries: JSON.parse(list.entries) });
+      } catch (error) {
+        console.error("Get code list error:", error);
+        res.status(500).json({ error: "Failed to fetch code list" });
+      }
+    }
+  );
+
+  // Upload a new version of a code list (a new list when the name is unused)
+  app.post(
+    "/api/super-admin/code-lists",
+    requireAuth,
+    requireSuperAdmin,
+    codeListUpload.single("file"),
+    async (req: MulterRequest, res) => {
+      try {
+        const { name, description, activate } = req.body;
+
+        if (!name || !req.file) {
+          return res.status(400).json({
+            error: "Name and code list file are required",
+          });
+        }
+
+        const { entries, duplicates } = await CodeLists.parseFile(
+          req.file.path,
+          req.file.originalname
+        );
+        if (entries.length === 0) {
+          return res.status(400).json({ error: "The code list file has no codes" });
+        }
+
+        const listName = CodeLists.normalizeName(name);
+        const [latest] = await storage.getCodeListVersions(listName);
+
+        let list = await storage.createCodeList({
+          name: listName,
+          version: (latest?.version ?? 0) + 1,
+          description: description || latest?.description || null,
+          entries: JSON.stringify(entries),
+          isActive: false,
+          createdBy: req.user!.id,
+          createdAt: new Date().toISOString(),
+        });
+
+        // New versions take effect straight away unless staged
+        if (activate !== "false") {
+          list = await storage.activateCodeList(list.id);
+        }
+
+        res.status(201).json({ ...formatCodeList(list), duplicates });
+      } catch (error) {
+        console.error("Upload code list error:", error);
+        res.status(500).json({ error: "Failed to upload code list" });
+      } finally {
+        if (req.file?.path && fs.existsSync(req.file.path)) {
+          fs.unlinkSync(req.file.path);
+        }
+      }
+    }
+  );
+
+  // Make a version the one rules validate against
+  app.post(
+    "/api/super-admin/code-lists/:id/activate",
+    requireAuth,
+    requireSuperAdmin,
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const list = await storage.getCodeList(parseInt(req.params.id));
+        if (!list) {
+          return res.status(404).json({ error: "Code list not found" });
+        }
+
+        const activated = await storage.activateCodeList(list.id);
+        res.json(formatCodeList(activated));
+      } catch (error) {
+        console.error("Activate code list error:", error);
+        res.status(500).json({ error: "Failed to activate code list" });
+      }
+    }
+  );
+
+  // Delete a version; the active one only goes when it is the last, removing the list
+  app.delete(
+    "/api/super-admin/code-lists/:id",
+    requireAuth,
+    requireSuperAdmin,
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const list = await storage.getCodeList(parseInt(req.params.id));
+        if (!list) {
+          return res.status(404).json({ error: "Code list not found" });
+        }
+        const versions = await storage.getCodeListVersions(list.name);
+        if (list.isActive && versions.length > 1) {
+          return res.status(400).json({
+            error: "The active version cannot be deleted; activate another version first",
+          });
+        }
+
+        await storage.deleteCodeList(list.id);
+        res.json({ message: "Code list version deleted successfully" });
+      } catch (error) {
+        console.error("Delete code list error:", error);
+        res.status(500).json({ error: "Failed to delete code list" });
+      }
+    }
+  );
+
   // Super Admin Analytics - comprehensive system analytics
   app.get(
     "/api/super-admin/analytics",
@@ -3621,6 +4705,14 @@ sheetValidations:
         await db.delete(processingStatus).execute();
         console.log("✓ Deleted all processing status records");
 
+        // Delete background jobs
+        await db.delete(jobs).execute();
+        console.log("✓ Deleted all background jobs");
+
+        // Delete golden samples
+        await db.delete(goldenSamples).execute();
+        console.log("✓ Deleted all golden samples");
+
         // Delete templates
         await db.delete(templates).execute();
         console.log("✓ Deleted all templates");
@@ -3640,6 +4732,7 @@ sheetValidations:
             "template_schemas",
             "template_sheets",
             "processing_status",
+            "jobs",
             "templates",
           ],
         });
@@ -3793,28 +4886,17 @@ sheetValidations:
           return res.status(400).json({ error: "Submission is not for XBRL template" });
         }
 
-        // Parse XBRL instance
-        const xbrlInstance = await xbrlProcessor.parseXBRLInstance(submission.filePath);
-        
-        // Generate report output path
-        const reportPath = path.join(
-          'server/uploads/reports',
-          `xbrl-report-${submissionId}-${Date.now()}.xml`
+        // Reports are generated by a background job; poll /api/jobs/:id for the download URL
+        const job = await JobQueue.enqueue(
+          "xbrl_report",
+          { submissionId },
+          { resourceType: "submission", resourceId: submissionId, createdBy: req.user?.id }
         );
 
-        // Ensure reports directory exists
-        const reportsDir = path.dirname(reportPath);
-        if (!fs.existsSync(reportsDir)) {
-          fs.mkdirSync(reportsDir, { recursive: true });
-        }
-
-        // Generate XBRL report
-        await xbrlProcessor.generateXBRLReport(xbrlInstance, reportPath);
-
-        res.json({
-          message: "XBRL report generated successfully",
-          reportPath: reportPath,
-          downloadUrl: `/api/submissions/${submissionId}/download-xbrl-report`
+        res.status(202).json({
+          message: "XBRL report generation started",
+          jobId: job.id,
+          statusUrl: `/api/jobs/${job.id}`
         });
       } catch (error) {
         console.error("XBRL report generation error:", error);
@@ -3894,245 +4976,92 @@ sheetValidations:
     }
   );
 
-  const server = createServer(app);
-  return server;
-}
-
-// Background validation function
-async function validateSubmissionAsync(submissionId: number) {
-  try {
-    console.log(`Starting validation for submission ${submissionId}`);
-    
-    const submission = await storage.getSubmission(submissionId);
-    if (!submission) {
-      console.error(`Submission ${submissionId} not found`);
-      return;
-    }
+  // Background jobs - IFSCA users see every job, others only the jobs they started
+  const canAccessJob = (req: AuthenticatedRequest, job: Job) =>
+    req.user!.role === "IFSCA" || req.user!.role === "IFSCA_USER" || job.createdBy === req.user!.id;
 
-    // Get template information
-    const template = await storage.getTemplate(submission.templateId);
-    if (!template) {
-      console.error(
-        `Template ${submission.templateId} not found for submission ${submissionId}`
-      );
-      return;
-    }
+  const formatJob = (job: Job) => ({
+    ...job,
+    payload: JSON.parse(job.payload),
+    result: job.result ? JSON.parse(job.result) : null,
+  });
 
-    console.log(`Validating submission ${submissionId} with template ${template.name}`);
-    console.log(`Template has validation file: ${template.validationFileUploaded}`);
-    console.log(`Validation file path: ${template.validationRulesPath}`);
-
-    // Use ModernValidationEngine for comprehensive validation
-    const validationSummary = await ModernValidationEngine.validateSubmission({
-      filePath: submission.filePath,
-      templateId: submission.templateId,
-      submissionId,
-      validationRulesPath: template.validationRulesPath,
-      fileName: submission.fileName
-    });
+  app.get("/api/jobs", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { status, type, resourceType, resourceId } = req.query;
+      if (status && !jobStatuses.includes(status as any)) {
+        return res.status(400).json({ error: `Unknown job status: ${status}` });
+      }
+      if (type && !jobTypes.includes(type as any)) {
+        return res.status(400).json({ error: `Unknown job type: ${type}` });
+      }
 
-    console.log(`Validation completed for submission ${submissionId}`);
-    console.log(`Results: ${validationSummary.results.length} total checks`);
-    console.log(`Summary: ${validationSummary.summary.errorCount} errors, ${validationSummary.summary.warningCount} warnings`);
-
-    // Store validation results with enhanced data
-    const resultsWithMetadata = validationSummary.results.map(result => ({
-      submissionId: result.submissionId,
-      ruleId: result.ruleId,
-      field: result.field,
-      ruleType: result.ruleType,
-      condition: result.condition,
-      cellReference: result.cellReference,
-      cellValue: result.cellValue,
-      message: result.errorMessage,
-      severity: result.severity,
-      isValid: result.isValid,
-      sheetName: result.sheetName,
-      rowNumber: result.rowNumber,
-      columnNumber: result.rowNumber, // Map to columnNumber for compatibility
-      columnName: result.columnName
-    }));
-
-    await storage.createValidationResults(resultsWithMetadata);
-
-    // Update submission status with detailed counts
-    const { errorCount, warningCount } = validationSummary.summary;
-    let newStatus: 'passed' | 'failed' | 'warnings' = 'passed';
-    
-    if (errorCount > 0) {
-      newStatus = 'failed';
-    } else if (warningCount > 0) {
-      newStatus = 'passed'; // Warnings don't fail the submission
+      const isIfsca = req.user!.role === "IFSCA" || req.user!.role === "IFSCA_USER";
+      const jobList = await storage.getJobs({
+        status: status as string | undefined,
+        type: type as string | undefined,
+        resourceType: resourceType as string | undefined,
+        resourceId: resourceId ? parseInt(resourceId as string) : undefined,
+        createdBy: isIfsca ? undefined : req.user!.id,
+      });
+      res.json(jobList.map(formatJob));
+    } catch (error) {
+      console.error("Get jobs error:", error);
+      res.status(500).json({ error: "Failed to fetch jobs" });
     }
+  });
 
-    await storage.updateSubmissionStatus(
-      submissionId,
-      newStatus,
-      undefined, // updatedById
-      errorCount,
-      warningCount
-    );
-
-    console.log(`Submission ${submissionId} validation completed with status: ${newStatus}`);
-    
-  } catch (error) {
-    console.error(`Error validating submission ${submissionId}:`, error);
-    
-    // Create a system error validation result
-    await storage.createValidationResults([{
-      submissionId,
-      field: 'system',
-      ruleType: 'system',
-      condition: 'processing_error',
-      errorMessage: `System error during validation: ${error.message}`,
-      severity: 'error',
-      isValid: false,
-      cellReference: 'N/A',
-      cellValue: 'N/A'
-    }]);
-    
-    await storage.updateSubmissionStatus(submissionId, "failed", undefined, 1, 0);
-  }
-}
-
-// Background processing function
-async function processTemplateAsync(templateId: number) {
-  let currentStep = "extraction";
-
-  try {
-    console.log(`Starting processing for template ${templateId}`);
-
-    const template = await storage.getTemplate(templateId);
-    if (!template) {
-      throw new Error("Template not found");
+  app.get("/api/jobs/:id", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const job = await storage.getJob(parseInt(req.params.id));
+      if (!job || !canAccessJob(req, job)) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.json(formatJob(job));
+    } catch (error) {
+      console.error("Get job error:", error);
+      res.status(500).json({ error: "Failed to fetch job" });
     }
+  });
 
-    // Update extraction status to in progress
-    await storage.updateProcessingStatus(
-      templateId,
-      "extraction",
-      "in_progress",
-      "Starting sheet extraction",
-      10
-    );
-    await storage.updateTemplateStatus(templateId, "processing");
-
-    console.log(`Processing file: ${template.filePath}`);
-
-    // Process file and extract data
-    const result = await FileProcessor.processFile(
-      template.filePath,
-      templateId
-    );
+  app.post("/api/jobs/:id/cancel", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const job = await storage.getJob(id);
+      if (!job || !canAccessJob(req, job)) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      if (job.status !== "queued" && job.status !== "running") {
+        return res.status(409).json({ error: `Job is already ${job.status}` });
+      }
 
-    if (!result.success) {
-      console.error(`File processing failed: ${result.error}`);
-      await storage.updateProcessingStatus(
-        templateId,
-        "extraction",
-        "failed",
-        result.error || "Failed to process file"
-      );
-      throw new Error(result.error);
+      const cancelled = await JobQueue.cancel(id);
+      res.json(formatJob(cancelled!));
+    } catch (error) {
+      console.error("Cancel job error:", error);
+      res.status(500).json({ error: "Failed to cancel job" });
     }
+  });
 
-    console.log(`Extracted ${result.sheets?.length} sheets`);
-
-    // Store extracted sheets
-    if (result.sheets && result.sheets.length > 0) {
-      let sheetProgress = 50;
-      for (let i = 0; i < result.sheets.length; i++) {
-        const sheet = result.sheets[i];
-        await storage.createTemplateSheet({
-          templateId,
-          sheetName: sheet.name,
-          sheetIndex: sheet.index,
-          dataPointCount: sheet.dataPointCount,
-          extractedData: {
-            data: sheet.data,
-            tabularTemplates: sheet.tabularTemplates || [],
-          },
-        });
-
-        // Update progress for each sheet stored
-        sheetProgress = 50 + Math.round(((i + 1) / result.sheets.length) * 40);
-        await storage.updateProcessingStatus(
-          templateId,
-          "extraction",
-          "in_progress",
-          `Storing sheet ${i + 1}/${result.sheets.length}: ${sheet.name}`,
-          sheetProgress
-        );
+  app.post("/api/jobs/:id/retry", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const job = await storage.getJob(id);
+      if (!job || !canAccessJob(req, job)) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      if (job.status !== "failed" && job.status !== "cancelled") {
+        return res.status(409).json({ error: `Only failed or cancelled jobs can be retried (job is ${job.status})` });
       }
-    }
-
-    // Update extraction as complete
-    await storage.updateProcessingStatus(
-      templateId,
-      "extraction",
-      "completed",
-      `Successfully extracted ${result.sheets?.length || 0} sheets`,
-      100
-    );
-
-    // Generate schemas with AI
-    currentStep = "ai_processing";
-    await storage.updateProcessingStatus(
-      templateId,
-      "ai_processing",
-      "in_progress",
-      "Starting AI schema generation",
-      0
-    );
 
-    try {
-      await FileProcessor.generateSchemas(templateId);
-      await storage.updateTemplateStatus(templateId, "completed");
-      await storage.updateProcessingStatus(
-        templateId,
-        "schema_generation",
-        "completed",
-        "All processing completed successfully",
-        100
-      );
-    } catch (aiError) {
-      console.error("AI processing error:", aiError);
-      await storage.updateProcessingStatus(
-        templateId,
-        "ai_processing",
-        "failed",
-        aiError instanceof Error ? aiError.message : "AI processing failed"
-      );
-      throw aiError;
+      const retried = await JobQueue.retry(id);
+      res.json(formatJob(retried!));
+    } catch (error) {
+      console.error("Retry job error:", error);
+      res.status(500).json({ error: "Failed to retry job" });
     }
-  } catch (error) {
-    console.error("Template processing failed:", error);
-    await storage.updateTemplateStatus(templateId, "failed");
-
-    // Update the appropriate step as failed
-    const errorMessage =
-      error instanceof Error ? error.message : "Unknown error occurred";
-    await storage.updateProcessingStatus(
-      templateId,
-      currentStep,
-      "failed",
-      errorMessage
-    );
+  });
 
-    // If we haven't started AI processing yet, mark it as pending
-    if (currentStep === "extraction") {
-      await storage.updateProcessingStatus(
-        templateId,
-        "ai_processing",
-        "pending",
-        "Waiting for extraction to complete"
-      );
-      await storage.updateProcessingStatus(
-        templateId,
-        "schema_generation",
-        "pending",
-        "Waiting for AI processing"
-      );
-    }
-  }
+  const server = createServer(app);
+  return server;
 }
@@ -5,12 +5,24 @@ import csvParser from "csv-parser";
 import { storage } from "../storage";
 import { extractSchemaWithAI, enhanceSchemaWithAI } from "./gemini";
 import type { InsertTemplateSheet, InsertTemplateSchema } from "@shared/schema";
+import { parseExtractedData } from "../../validation/TemplateStructure";
+import {
+  coerceFormattedNumber,
+  createCoercionReport,
+  parseFormattedNumber,
+  recordCoercion,
+  resolveNumberFormat,
+  type NumberCoercionReport,
+  type NumberFormat,
+} from "@shared/numberFormat";
 
 export interface ProcessedSheet {
   name: string;
   index: number;
   data: any[];
   dataPointCount: number;
+  /** Row 1 headers by column; checked against submissions for header drift */
+  headers?: Array<string | null>;
   tabularTemplates?: TabularTemplate[];
 }
 
@@ -84,16 +96,19 @@ export class FileProcessor {
   private static async processCsvFile(filePath: string, templateId: number): Promise<ProcessedSheet[]> {
     return new Promise((resolve, reject) => {
       const results: any[] = [];
+      let headers: string[] = [];
       
       fs.createReadStream(filePath)
         .pipe(csvParser())
+        .on('headers', (names: string[]) => { headers = names; })
         .on('data', (data) => results.push(data))
         .on('end', () => {
           const sheet: ProcessedSheet = {
             name: 'CSV Data',
             index: 0,
             data: results,
-            dataPointCount: results.length
+            dataPointCount: results.length,
+            headers
           };
           resolve([sheet]);
         })
@@ -134,6 +149,7 @@ export class FileProcessor {
       index: sheetIndex,
       data,
       dataPointCount: data.length,
+      headers: Array.from(headers, header => header ?? null),
       tabularTemplates // Include detected tabular structures
     } as ProcessedSheet;
   }
@@ -319,6 +335,7 @@ export class FileProcessor {
 
       const schemas: any[] = [];
       const totalSheets = sheets.length;
+      const numberFormat = resolveNumberFormat(template.numberFormat);
 
       for (let i = 0; i < totalSheets; i++) {
         const sheet = sheets[i];
@@ -334,8 +351,9 @@ export class FileProcessor {
 
         try {
           // Extract data and tabular templates from the sheet
-          const sheetData = sheet.extractedData?.data || sheet.extractedData || [];
-          const tabularTemplates = sheet.extractedData?.tabularTemplates || [];
+          const extracted = parseExtractedData(sheet.extractedData);
+          const sheetData = extracted?.data || [];
+          const tabularTemplates = extracted?.tabularTemplates || [];
           
           console.log(`Processing sheet ${sheet.sheetName} with ${sheet.dataPointCount} data points and ${tabularTemplates.length} tabular templates`);
           console.log(`Sheet data sample:`, JSON.stringify(sheetData.slice(0, 3), null, 2));
@@ -366,7 +384,10 @@ export class FileProcessor {
 
           // Process data in chunks for AI
           const chunks = this.chunkDataForAI(sheetData);
-          const consolidatedData = this.consolidateChunks(chunks);
+          const consolidatedData = this.consolidateChunks(chunks, numberFormat);
+          if (consolidatedData.numberCoercions?.count > 0) {
+            console.log(`Read ${consolidatedData.numberCoercions.count} formatted amounts in ${sheet.sheetName} as numbers`);
+          }
 
           // Include tabular templates in the AI processing
           const schemaInput = {
@@ -460,22 +481,28 @@ export class FileProcessor {
     return chunks;
   }
 
-  private static consolidateChunks(chunks: any[][]): any {
+  private static consolidateChunks(chunks: any[][], numberFormat: NumberFormat): any {
     if (chunks.length === 0) return {};
     
     // Take first chunk as base and add summary statistics
     const baseChunk = chunks[0];
     const totalRows = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const numberCoercions = createCoercionReport();
     
     return {
       sampleData: baseChunk,
       totalRows,
       chunkCount: chunks.length,
-      dataTypes: this.analyzeDataTypes(baseChunk)
+      dataTypes: this.analyzeDataTypes(baseChunk, numberFormat, numberCoercions),
+      numberCoercions
     };
   }
 
-  private static analyzeDataTypes(data: any[]): Record<string, string> {
+  private static analyzeDataTypes(
+    data: any[],
+    numberFormat: NumberFormat,
+    report: NumberCoercionReport
+  ): Record<string, string> {
     const types: Record<string, string> = {};
     
     if (data.length === 0) return types;
@@ -484,21 +511,37 @@ export class FileProcessor {
     Object.keys(firstRow).forEach(key => {
       const values = data.map(row => row[key]).filter(v => v !== null && v !== undefined);
       if (values.length > 0) {
-        types[key] = this.inferDataType(values);
+        types[key] = this.inferDataType(values, numberFormat);
+        values.forEach(value => {
+          const parsed = coerceFormattedNumber(value, numberFormat);
+          if (parsed) {
+            recordCoercion(report, { cellReference: key, original: value, value: parsed.value, coercions: parsed.coercions });
+          }
+        });
       }
     });
     
     return types;
   }
 
-  private static inferDataType(values: any[]): string {
+  /**
+   * Amounts are read with the template's number format before dates, so
+   * "1,500" isn't taken for a date
+   */
+  private static inferDataType(values: any[], numberFormat: NumberFormat): string {
     const sample = values.slice(0, 10); // Sample first 10 values
     
     if (sample.every(v => typeof v === 'number')) return 'number';
     if (sample.every(v => typeof v === 'boolean')) return 'boolean';
+    
+    const amounts = numberFormat.enabled ? sample.map(v => parseFormattedNumber(v, numberFormat)) : [];
+    if (amounts.length > 0 && amounts.every(amount => amount !== null)) {
+      if (amounts.every(amount => amount!.kind === 'percentage')) return 'percentage';
+      if (amounts.some(amount => amount!.kind === 'currency')) return 'currency';
+      return 'number';
+    }
+    
     if (sample.every(v => this.isDate(v))) return 'date';
-    if (sample.every(v => this.isCurrency(v))) return 'currency';
-    if (sample.every(v => this.isPercentage(v))) return 'percentage';
     
     return 'text';
   }
@@ -506,12 +549,4 @@ export class FileProcessor {
   private static isDate(value: any): boolean {
     return value instanceof Date || (typeof value === 'string' && !isNaN(Date.parse(value)));
   }
-
-  private static isCurrency(value: any): boolean {
-    return typeof value === 'string' && /^\$?\d+(\.\d{2})?$/.test(value);
-  }
-
-  private static isPercentage(value: any): boolean {
-    return typeof value === 'string' && /^\d+(\.\d+)?%$/.test(value);
-  }
 }
@@ -0,0 +1,105 @@
+import { storage } from "../storage";
+import { ModernValidationEngine, type ValidationRule } from "../../validation/ModernValidationEngine";
+import { RuleFileExporter } from "../../validation/RuleFileExporter";
+import { compareEffectiveFrom, findEffectiveVersion, parseReportingPeriod } from "@shared/reportingPeriod";
+import type { Template, ValidationRuleSet } from "@shared/schema";
+
+/**
+ * Thrown when a rule set can't be published as asked
+ */
+export class RuleSetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RuleSetError";
+  }
+}
+
+export interface PublishOptions {
+  /** First reporting period the version applies to; defaults to that of the version it replaces */
+  effectiveFrom?: string | null;
+  createdBy?: number;
+  note?: string;
+  /** Uploaded rules file the rules were read from */
+  fileName?: string;
+  filePath?: string;
+}
+
+/**
+ * Versions of a template's validation rules. Publishing snapshots the rules
+ * the template uses now (its validation file, or its database rules) as a new
+ * immutable version; submissions are validated against the version effective
+ * for their reporting period and keep a reference to it.
+ */
+export class RuleSets {
+  /**
+   * Snapshot the template's current rules as a new version. Returns the
+   * existing version instead when it already holds the same rules from the
+   * same period.
+   */
+  static async publish(template: Template, options: PublishOptions = {}): Promise<ValidationRuleSet> {
+    const versions = await storage.getValidationRuleSets(template.id);
+    const effectiveFrom = options.effectiveFrom === undefined
+      ? versions[0]?.effectiveFrom ?? null
+      : options.effectiveFrom || null;
+    if (effectiveFrom && !parseReportingPeriod(effectiveFrom, template.frequency)) {
+      throw new RuleSetError(`"${effectiveFrom}" is not a reporting period`);
+    }
+
+    const rules = this.toSnapshot(await ModernValidationEngine.loadRules(template.id, template.validationRulesPath));
+    const current = versions.find((version) => version.effectiveFrom === effectiveFrom);
+    if (current && RuleFileExporter.compareRuleSets(this.getRules(current), rules).length === 0) {
+      return current;
+    }
+
+    return await storage.createValidationRuleSet({
+      templateId: template.id,
+      version: (versions[0]?.version ?? 0) + 1,
+      effectiveFrom,
+      rules: JSON.stringify(rules),
+      fileName: options.fileName ?? null,
+      filePath: options.filePath ?? null,
+      note: options.note ?? null,
+      createdBy: options.createdBy ?? null,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * The version in effect for a reporting period: the latest-starting version
+   * that starts by the start of the period, newest first when several start together.
+   * Periods before every version use the earliest one. A template that has
+   * never been published gets its current rules as version 1.
+   */
+  static async resolve(template: Template, reportingPeriod: string): Promise<ValidationRuleSet> {
+    const versions = await storage.getValidationRuleSets(template.id);
+    if (versions.length === 0) {
+      return await this.publish(template, { effectiveFrom: null, note: "Rules in use when versioning started" });
+    }
+
+    return (
+      findEffectiveVersion(versions, reportingPeriod, template.frequency) ??
+      versions.reduce((earliest, version) =>
+        compareEffectiveFrom(version.effectiveFrom, earliest.effectiveFrom, template.frequency) <= 0 ? version : earliest
+      )
+    );
+  }
+
+  /**
+   * Rules of a version, ready for the validation engine
+   */
+  static getRules(ruleSet: ValidationRuleSet): ValidationRule[] {
+    const rules = JSON.parse(ruleSet.rules) as Array<Omit<ValidationRule, "templateId">>;
+    return rules.map((rule) => ({ ...rule, templateId: ruleSet.templateId }));
+  }
+
+  /**
+   * Rules as stored in a version. Database ids are dropped since the rows
+   * they point to can be edited or deleted after publishing.
+   */
+  private static toSnapshot(rules: ValidationRule[]): Array<Omit<ValidationRule, "templateId">> {
+    return rules.map((rule) => {
+      const { id, templateId, source, ...snapshot } = rule as ValidationRule & { source?: unknown };
+      return snapshot;
+    });
+  }
+}
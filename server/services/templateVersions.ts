@@ -0,0 +1,197 @@
+import { storage } from "../storage";
+import { RuleSets } from "./ruleSets";
+import { findEffectiveVersion, parseReportingPeriod } from "@shared/reportingPeriod";
+import type { Template, TemplateLifecycleStatus } from "@shared/schema";
+
+/**
+ * Thrown when a template version can't be changed or moved as asked
+ */
+export class TemplateLifecycleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateLifecycleError";
+  }
+}
+
+// Statuses each status can move to
+const TRANSITIONS: Record<TemplateLifecycleStatus, TemplateLifecycleStatus[]> = {
+  draft: ["review"],
+  review: ["draft", "published"],
+  published: ["retired"],
+  retired: [],
+};
+
+export interface TransitionOptions {
+  /** First reporting period a published version applies to; defaults to the one already set */
+  effectiveFrom?: string | null;
+}
+
+export interface NewVersionFile {
+  originalname: string;
+  path: string;
+  size: number;
+}
+
+/**
+ * Versions of a template and their lifecycle. Every version is its own
+ * template row with its own file, sheets, schemas and rules; later versions
+ * point at the first one through templateGroupId. Versions start as drafts,
+ * go through review and are published from a reporting period on. Entities
+ * file against the published version in effect for their period, and
+ * retired versions take no new submissions.
+ */
+export class TemplateVersions {
+  /**
+   * ID shared by every version of the template (that of its first version)
+   */
+  static groupId(template: Template): number {
+    return template.templateGroupId ?? template.id;
+  }
+
+  /**
+   * All versions of the template, newest first
+   */
+  static async list(template: Template): Promise<Template[]> {
+    return await storage.getTemplateVersions(this.groupId(template));
+  }
+
+  /**
+   * The published version entities file against for a reporting period, if any applies
+   */
+  static async resolve(template: Template, reportingPeriod: string): Promise<Template | undefined> {
+    const published = (await this.list(template)).filter((version) => version.lifecycleStatus === "published");
+    return findEffectiveVersion(published, reportingPeriod, template.frequency);
+  }
+
+  /**
+   * One entry per template for entities choosing what to file: its newest
+   * published version. Templates with no published version are left out.
+   */
+  static currentVersions(templates: Template[]): Template[] {
+    const current = new Map<number, Template>();
+    for (const template of templates) {
+      if (template.lifecycleStatus !== "published") continue;
+      const shown = current.get(this.groupId(template));
+      if (!shown || template.version > shown.version) {
+        current.set(this.groupId(template), template);
+      }
+    }
+    return templates.filter((template) => current.get(this.groupId(template)) === template);
+  }
+
+  /**
+   * Start a new draft version from an uploaded template file. Settings and
+   * the rules file carry over from the source version; its database rules
+   * are copied once the new file's sheets are extracted (see copyRules).
+   */
+  static async createVersion(source: Template, file: NewVersionFile, createdBy: number): Promise<Template> {
+    const [latest] = await this.list(source);
+    return await storage.createTemplate({
+      name: source.name,
+      templateType: source.templateType,
+      category: source.category,
+      frequency: source.frequency,
+      lastSubmissionDate: source.lastSubmissionDate,
+      fileName: file.originalname,
+      filePath: file.path,
+      fileSize: file.size,
+      validationRulesPath: source.validationRulesPath,
+      validationFileUploaded: source.validationFileUploaded,
+      isXBRL: source.isXBRL,
+      xbrlTaxonomyPath: source.xbrlTaxonomyPath,
+      xbrlSchemaRef: source.xbrlSchemaRef,
+      xbrlNamespace: source.xbrlNamespace,
+      xbrlVersion: source.xbrlVersion,
+      numberFormat: source.numberFormat,
+      carryForward: source.carryForward,
+      templateGroupId: this.groupId(source),
+      version: (latest?.version ?? source.version) + 1,
+      lifecycleStatus: "draft",
+      createdBy,
+    });
+  }
+
+  /**
+   * Copy the database rules of one version to another that has none yet.
+   * Sheet-specific rules follow their sheet by name; rules for sheets the
+   * new version doesn't have are left behind.
+   */
+  static async copyRules(from: Template, to: Template): Promise<{ copied: number; skipped: number }> {
+    if ((await storage.getValidationRules(to.id)).length > 0) {
+      return { copied: 0, skipped: 0 };
+    }
+
+    const fromSheets = new Map((await storage.getTemplateSheets(from.id)).map((s) => [s.id, s.sheetName]));
+    const toSheets = new Map((await storage.getTemplateSheets(to.id)).map((s) => [s.sheetName, s.id]));
+    const rules = await storage.getValidationRules(from.id);
+
+    const copies = [];
+    for (const { id, createdAt, ...rule } of rules) {
+      const sheetName = rule.sheetId ? fromSheets.get(rule.sheetId) : undefined;
+      const sheetId = sheetName ? toSheets.get(sheetName) : undefined;
+      if (rule.sheetId && !sheetId) continue;
+      copies.push({ ...rule, templateId: to.id, sheetId: sheetId ?? null });
+    }
+    if (copies.length > 0) {
+      await storage.createValidationRules(copies);
+    }
+
+    await RuleSets.publish(to, { effectiveFrom: null, note: `Rules copied from template version ${from.version}` });
+    return { copied: copies.length, skipped: rules.length - copies.length };
+  }
+
+  /**
+   * Move a version to another lifecycle status. Publishing a version retires
+   * older published versions that start from the same period, since it
+   * replaces them for every period they cover.
+   */
+  static async transition(
+    template: Template,
+    status: TemplateLifecycleStatus,
+    options: TransitionOptions = {}
+  ): Promise<Template> {
+    const current = template.lifecycleStatus as TemplateLifecycleStatus;
+    if (!TRANSITIONS[current]?.includes(status)) {
+      throw new TemplateLifecycleError(`A ${current} version can't be moved to ${status}`);
+    }
+
+    const now = new Date().toISOString();
+    if (status === "published") {
+      if (template.status !== "completed") {
+        throw new TemplateLifecycleError("The template file must finish processing before it can be published");
+      }
+      const effectiveFrom = options.effectiveFrom === undefined ? template.effectiveFrom : options.effectiveFrom || null;
+      if (effectiveFrom && !parseReportingPeriod(effectiveFrom, template.frequency)) {
+        throw new TemplateLifecycleError(`"${effectiveFrom}" is not a reporting period`);
+      }
+
+      for (const version of await this.list(template)) {
+        if (
+          version.lifecycleStatus === "published" &&
+          version.version < template.version &&
+          (version.effectiveFrom ?? null) === effectiveFrom
+        ) {
+          await storage.updateTemplate(version.id, { lifecycleStatus: "retired", retiredAt: now });
+        }
+      }
+      return await storage.updateTemplate(template.id, { lifecycleStatus: status, effectiveFrom, publishedAt: now });
+    }
+
+    if (status === "retired") {
+      return await storage.updateTemplate(template.id, { lifecycleStatus: status, retiredAt: now });
+    }
+    return await storage.updateTemplate(template.id, { lifecycleStatus: status });
+  }
+
+  /**
+   * Published and retired versions are what entities filed against, so
+   * their file, sheets, schemas and settings stay as they are
+   */
+  static assertEditable(template: Template): void {
+    if (template.lifecycleStatus === "published" || template.lifecycleStatus === "retired") {
+      throw new TemplateLifecycleError(
+        `Version ${template.version} is ${template.lifecycleStatus} and can't be changed; create a new version instead`
+      );
+    }
+  }
+}
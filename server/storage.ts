@@ -9,6 +9,11 @@ import {
   validationResults,
   comments,
   categoryTable,
+  jobs,
+  goldenSamples,
+  codeLists,
+  validationWaivers,
+  validationRuleSets,
   type User,
   type InsertUser,
   type Template,
@@ -29,9 +34,24 @@ import {
   type InsertComment,
   type Category,
   type InsertCategory,
+  type Job,
+  type InsertJob,
+  type GoldenSample,
+  type InsertGoldenSample,
+  type CodeList,
+  type InsertCodeList,
+  type ValidationWaiver,
+  type InsertValidationWaiver,
+  type ValidationRuleSet,
+  type InsertValidationRuleSet,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, inArray, and, desc } from "drizzle-orm";
+import { eq, inArray, and, desc, or, isNull, lte, asc } from "drizzle-orm";
+import { compareReportingPeriods } from "@shared/reportingPeriod";
+import type { ValidationTotals } from "@shared/validationOutcome";
+
+// Rows per insert; SQLite allows 32766 bound parameters per statement
+const INSERT_BATCH_SIZE = 500;
 
 export interface IStorage {
   // User methods
@@ -46,6 +66,7 @@ export interface IStorage {
   createTemplate(template: InsertTemplate): Promise<Template>;
   getTemplate(id: number): Promise<Template | undefined>;
   getTemplates(): Promise<Template[]>;
+  getTemplateVersions(templateGroupId: number): Promise<Template[]>;
   updateTemplate(id: number, data: Partial<InsertTemplate>): Promise<Template>;
   updateTemplateStatus(id: number, status: string): Promise<void>;
   updateTemplateValidationRulesPath(id: number, path: string): Promise<void>;
@@ -63,6 +84,7 @@ export interface IStorage {
     templateId: number,
     sheetId?: number
   ): Promise<TemplateSchema | undefined>;
+  deleteTemplateSchemas(templateId: number): Promise<void>;
 
   // Processing status methods
   createProcessingStatus(
@@ -85,10 +107,20 @@ export interface IStorage {
   getValidationRules(templateId: number): Promise<ValidationRule[]>;
   deleteValidationRules(templateId: number): Promise<void>;
 
+  // Rule set version methods (versions are never changed once created)
+  getValidationRuleSets(templateId: number): Promise<ValidationRuleSet[]>;
+  getValidationRuleSet(id: number): Promise<ValidationRuleSet | undefined>;
+  createValidationRuleSet(ruleSet: InsertValidationRuleSet): Promise<ValidationRuleSet>;
+
   // Submission methods
   createSubmission(submission: InsertSubmission): Promise<Submission>;
   getSubmission(id: number): Promise<Submission | undefined>;
   getSubmissions(userId?: number, templateId?: number, category?: number): Promise<Submission[]>;
+  getPreviousApprovedSubmission(
+    userId: number,
+    templateId: number,
+    reportingPeriod: string
+  ): Promise<Submission | undefined>;
   updateSubmissionStatus(
     submissionId: number,
     status:
@@ -102,6 +134,8 @@ export interface IStorage {
     errors?: number,
     warnings?: number
   ): Promise<void>;
+  updateSubmissionRuleSet(submissionId: number, ruleSetId: number): Promise<void>;
+  updateSubmissionValidationTotals(submissionId: number, totals: ValidationTotals | null): Promise<void>;
   deleteSubmission(id: number): Promise<void>;
 
   // Validation result methods
@@ -112,6 +146,10 @@ export interface IStorage {
     results: InsertValidationResult[]
   ): Promise<ValidationResult[]>;
   getValidationResults(submissionId: number): Promise<ValidationResult[]>;
+  replaceValidationResults(
+    submissionId: number,
+    results: InsertValidationResult[]
+  ): Promise<ValidationResult[]>;
   deleteValidationResults(submissionId: number): Promise<void>;
 
   // Comment methods
@@ -133,6 +171,42 @@ export interface IStorage {
   updateCategory(id: number, data: Partial<InsertCategory>): Promise<Category>;
   deleteCategory(id: number): Promise<void>;
   getCategoryByName(name: string): Promise<Category | undefined>;
+
+  // Background job methods
+  createJob(job: InsertJob): Promise<Job>;
+  getJob(id: number): Promise<Job | undefined>;
+  getJobs(filters?: {
+    status?: string;
+    type?: string;
+    resourceType?: string;
+    resourceId?: number;
+    createdBy?: number;
+  }): Promise<Job[]>;
+  getNextQueuedJob(now: string): Promise<Job | undefined>;
+  updateJob(id: number, data: Partial<InsertJob>): Promise<Job>;
+
+  // Golden sample methods
+  createGoldenSample(sample: InsertGoldenSample): Promise<GoldenSample>;
+  getGoldenSample(id: number): Promise<GoldenSample | undefined>;
+  getGoldenSamples(templateId: number): Promise<GoldenSample[]>;
+  updateGoldenSample(id: number, data: Partial<InsertGoldenSample>): Promise<GoldenSample>;
+  deleteGoldenSample(id: number): Promise<void>;
+
+  // Code list methods
+  getCodeLists(): Promise<CodeList[]>;
+  getCodeList(id: number): Promise<CodeList | undefined>;
+  getCodeListVersions(name: string): Promise<CodeList[]>;
+  getActiveCodeLists(names: string[]): Promise<CodeList[]>;
+  createCodeList(list: InsertCodeList): Promise<CodeList>;
+  activateCodeList(id: number): Promise<CodeList>;
+  deleteCodeList(id: number): Promise<void>;
+
+  // Validation waiver methods
+  getValidationWaivers(submissionId: number): Promise<ValidationWaiver[]>;
+  deleteValidationWaivers(submissionId: number): Promise<void>;
+  getValidationWaiver(id: number): Promise<ValidationWaiver | undefined>;
+  createValidationWaiver(waiver: InsertValidationWaiver): Promise<ValidationWaiver>;
+  updateValidationWaiver(id: number, data: Partial<InsertValidationWaiver>): Promise<ValidationWaiver>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -191,6 +265,15 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(templates).orderBy(templates.createdAt);
   }
 
+  // All versions of a template, newest first
+  async getTemplateVersions(templateGroupId: number): Promise<Template[]> {
+    return await db
+      .select()
+      .from(templates)
+      .where(or(eq(templates.id, templateGroupId), eq(templates.templateGroupId, templateGroupId)))
+      .orderBy(desc(templates.version));
+  }
+
   async updateTemplate(id: number, data: Partial<InsertTemplate>): Promise<Template> {
     const [template] = await db
       .update(templates)
@@ -232,7 +315,9 @@ export class DatabaseStorage implements IStorage {
     await db.delete(templateSchemas).where(eq(templateSchemas.templateId, id));
     await db.delete(templateSheets).where(eq(templateSheets.templateId, id));
     await db.delete(validationRules).where(eq(validationRules.templateId, id));
+    await db.delete(goldenSamples).where(eq(goldenSamples.templateId, id));
     await db.delete(submissions).where(eq(submissions.templateId, id));
+    await db.delete(validationRuleSets).where(eq(validationRuleSets.templateId, id));
     await db.delete(templates).where(eq(templates.id, id));
   }
 
@@ -271,6 +356,10 @@ export class DatabaseStorage implements IStorage {
       .where(eq(templateSchemas.templateId, templateId));
   }
 
+  async deleteTemplateSchemas(templateId: number): Promise<void> {
+    await db.delete(templateSchemas).where(eq(templateSchemas.templateId, templateId));
+  }
+
   async getTemplateSchema(
     templateId: number,
     sheetId?: number
@@ -372,6 +461,25 @@ export class DatabaseStorage implements IStorage {
       .where(eq(validationRules.templateId, templateId));
   }
 
+  // Newest version first
+  async getValidationRuleSets(templateId: number): Promise<ValidationRuleSet[]> {
+    return await db
+      .select()
+      .from(validationRuleSets)
+      .where(eq(validationRuleSets.templateId, templateId))
+      .orderBy(desc(validationRuleSets.version));
+  }
+
+  async getValidationRuleSet(id: number): Promise<ValidationRuleSet | undefined> {
+    const [ruleSet] = await db.select().from(validationRuleSets).where(eq(validationRuleSets.id, id));
+    return ruleSet || undefined;
+  }
+
+  async createValidationRuleSet(insertRuleSet: InsertValidationRuleSet): Promise<ValidationRuleSet> {
+    const [ruleSet] = await db.insert(validationRuleSets).values(insertRuleSet).returning();
+    return ruleSet;
+  }
+
   // Submission methods
   async createSubmission(submission: InsertSubmission): Promise<Submission> {
     const [newSubmission] = await db
@@ -413,6 +521,36 @@ export class DatabaseStorage implements IStorage {
     return await query.orderBy(desc(submissions.createdAt));
   }
 
+  // Latest approved submission for the same entity and template, filed against any
+  // version of it, from an earlier reporting period
+  async getPreviousApprovedSubmission(
+    userId: number,
+    templateId: number,
+    reportingPeriod: string
+  ): Promise<Submission | undefined> {
+    const template = await this.getTemplate(templateId);
+    const versionIds = template
+      ? (await this.getTemplateVersions(template.templateGroupId ?? template.id)).map((t) => t.id)
+      : [templateId];
+    const approved = await db
+      .select()
+      .from(submissions)
+      .where(
+        and(
+          eq(submissions.userId, userId),
+          inArray(submissions.templateId, versionIds),
+          eq(submissions.status, "approved")
+        )
+      )
+      .orderBy(desc(submissions.createdAt));
+
+    // Periods given as dates, e.g. "2024-03-31", are read as periods of the template's frequency
+    const frequency = template?.frequency;
+    return approved
+      .filter((s) => compareReportingPeriods(s.reportingPeriod, reportingPeriod, frequency) < 0)
+      .sort((a, b) => compareReportingPeriods(b.reportingPeriod, a.reportingPeriod, frequency))[0];
+  }
+
   // Update submission status
   async updateSubmissionStatus(
     submissionId: number,
@@ -461,7 +599,16 @@ export class DatabaseStorage implements IStorage {
     results: InsertValidationResult[]
   ): Promise<ValidationResult[]> {
     if (results.length === 0) return [];
-    return await db.insert(validationResults).values(results).returning();
+    // Streamed runs store tens of thousands of failures: batches, saved all or nothing
+    return db.transaction((tx) => {
+      const created: ValidationResult[] = [];
+      for (let i = 0; i < results.length; i += INSERT_BATCH_SIZE) {
+        created.push(
+          ...tx.insert(validationResults).values(results.slice(i, i + INSERT_BATCH_SIZE)).returning().all()
+        );
+      }
+      return created;
+    });
   }
 
   async getValidationResults(
@@ -474,12 +621,71 @@ export class DatabaseStorage implements IStorage {
       .orderBy(validationResults.createdAt);
   }
 
+  // Replace a submission's results, as a retried job or re-validation does. Waivers
+  // are kept: each moves to the new result for the same rule and cell, and waivers
+  // whose check is no longer reported are marked superseded.
+  async replaceValidationResults(
+    submissionId: number,
+    results: InsertValidationResult[]
+  ): Promise<ValidationResult[]> {
+    const previous = await this.getValidationResults(submissionId);
+    const previousById = new Map(previous.map((result) => [result.id, result]));
+    const created = await this.createValidationResults(results);
+
+    const checkKey = (result: Pick<ValidationResult, "ruleId" | "ruleType" | "field" | "condition" | "sheetName" | "cellReference">) =>
+      JSON.stringify([result.ruleId ?? null, result.ruleType, result.field, result.condition, result.sheetName, result.cellReference]);
+    const byCheck = new Map<string, ValidationResult>();
+    for (const result of created) {
+      // A failure is what a waiver was asked for, so it wins over a pass for the same cell
+      const key = checkKey(result);
+      if (!byCheck.has(key) || !result.isValid) byCheck.set(key, result);
+    }
+
+    const supersededAt = new Date().toISOString();
+    for (const waiver of await this.getValidationWaivers(submissionId)) {
+      if (waiver.resultId === null) continue;
+      const waived = previousById.get(waiver.resultId);
+      const match = waived ? byCheck.get(checkKey(waived)) : undefined;
+      await this.updateValidationWaiver(
+        waiver.id,
+        match ? { resultId: match.id } : { resultId: null, supersededAt }
+      );
+    }
+
+    // New results get higher ids than the ones they replace
+    if (previous.length > 0) {
+      await db
+        .delete(validationResults)
+        .where(
+          and(
+            eq(validationResults.submissionId, submissionId),
+            lte(validationResults.id, Math.max(...previous.map((result) => result.id)))
+          )
+        );
+    }
+    return created;
+  }
+
   async deleteValidationResults(submissionId: number): Promise<void> {
     await db
       .delete(validationResults)
       .where(eq(validationResults.submissionId, submissionId));
   }
 
+  async updateSubmissionRuleSet(submissionId: number, ruleSetId: number): Promise<void> {
+    await db
+      .update(submissions)
+      .set({ ruleSetId })
+      .where(eq(submissions.id, submissionId));
+  }
+
+  async updateSubmissionValidationTotals(submissionId: number, totals: ValidationTotals | null): Promise<void> {
+    await db
+      .update(submissions)
+      .set({ validationTotals: totals ? JSON.stringify(totals) : null })
+      .where(eq(submissions.id, submissionId));
+  }
+
   async deleteSubmission(id: number): Promise<void> {
     await db.delete(submissions).where(eq(submissions.id, id));
   }
@@ -573,6 +779,177 @@ export class DatabaseStorage implements IStorage {
       .limit(1);
     return category;
   }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [job] = await db.insert(jobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job || undefined;
+  }
+
+  async getJobs(filters: {
+    status?: string;
+    type?: string;
+    resourceType?: string;
+    resourceId?: number;
+    createdBy?: number;
+  } = {}): Promise<Job[]> {
+    const conditions = [];
+    if (filters.status) conditions.push(eq(jobs.status, filters.status));
+    if (filters.type) conditions.push(eq(jobs.type, filters.type));
+    if (filters.resourceType) conditions.push(eq(jobs.resourceType, filters.resourceType));
+    if (filters.resourceId !== undefined) conditions.push(eq(jobs.resourceId, filters.resourceId));
+    if (filters.createdBy !== undefined) conditions.push(eq(jobs.createdBy, filters.createdBy));
+
+    return await db
+      .select()
+      .from(jobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(jobs.id))
+      .limit(200);
+  }
+
+  // Oldest queued job whose retry delay has passed
+  async getNextQueuedJob(now: string): Promise<Job | undefined> {
+    const [job] = await db
+      .select()
+      .from(jobs)
+      .where(
+        and(
+          eq(jobs.status, "queued"),
+          or(isNull(jobs.runAfter), lte(jobs.runAfter, now))
+        )
+      )
+      .orderBy(asc(jobs.id))
+      .limit(1);
+    return job || undefined;
+  }
+
+  async updateJob(id: number, data: Partial<InsertJob>): Promise<Job> {
+    const [job] = await db
+      .update(jobs)
+      .set(data)
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async createGoldenSample(insertSample: InsertGoldenSample): Promise<GoldenSample> {
+    const [sample] = await db.insert(goldenSamples).values(insertSample).returning();
+    return sample;
+  }
+
+  async getGoldenSample(id: number): Promise<GoldenSample | undefined> {
+    const [sample] = await db.select().from(goldenSamples).where(eq(goldenSamples.id, id));
+    return sample || undefined;
+  }
+
+  async getGoldenSamples(templateId: number): Promise<GoldenSample[]> {
+    return await db
+      .select()
+      .from(goldenSamples)
+      .where(eq(goldenSamples.templateId, templateId))
+      .orderBy(asc(goldenSamples.id));
+  }
+
+  async updateGoldenSample(id: number, data: Partial<InsertGoldenSample>): Promise<GoldenSample> {
+    const [sample] = await db
+      .update(goldenSamples)
+      .set(data)
+      .where(eq(goldenSamples.id, id))
+      .returning();
+    return sample;
+  }
+
+  async deleteGoldenSample(id: number): Promise<void> {
+    await db.delete(goldenSamples).where(eq(goldenSamples.id, id));
+  }
+
+  async getCodeLists(): Promise<CodeList[]> {
+    return await db
+      .select()
+      .from(codeLists)
+      .orderBy(asc(codeLists.name), desc(codeLists.version));
+  }
+
+  async getCodeList(id: number): Promise<CodeList | undefined> {
+    const [list] = await db.select().from(codeLists).where(eq(codeLists.id, id));
+    return list || undefined;
+  }
+
+  async getCodeListVersions(name: string): Promise<CodeList[]> {
+    return await db
+      .select()
+      .from(codeLists)
+      .where(eq(codeLists.name, name))
+      .orderBy(desc(codeLists.version));
+  }
+
+  async getActiveCodeLists(names: string[]): Promise<CodeList[]> {
+    if (names.length === 0) return [];
+    return await db
+      .select()
+      .from(codeLists)
+      .where(and(inArray(codeLists.name, names), eq(codeLists.isActive, true)));
+  }
+
+  async createCodeList(insertList: InsertCodeList): Promise<CodeList> {
+    const [list] = await db.insert(codeLists).values(insertList).returning();
+    return list;
+  }
+
+  // Only one version of a list is active at a time
+  async activateCodeList(id: number): Promise<CodeList> {
+    const [list] = await db.select().from(codeLists).where(eq(codeLists.id, id));
+    await db
+      .update(codeLists)
+      .set({ isActive: false })
+      .where(eq(codeLists.name, list.name));
+    const [activated] = await db
+      .update(codeLists)
+      .set({ isActive: true })
+      .where(eq(codeLists.id, id))
+      .returning();
+    return activated;
+  }
+
+  async deleteCodeList(id: number): Promise<void> {
+    await db.delete(codeLists).where(eq(codeLists.id, id));
+  }
+
+  async getValidationWaivers(submissionId: number): Promise<ValidationWaiver[]> {
+    return await db
+      .select()
+      .from(validationWaivers)
+      .where(eq(validationWaivers.submissionId, submissionId))
+      .orderBy(asc(validationWaivers.id));
+  }
+
+  async deleteValidationWaivers(submissionId: number): Promise<void> {
+    await db.delete(validationWaivers).where(eq(validationWaivers.submissionId, submissionId));
+  }
+
+  async getValidationWaiver(id: number): Promise<ValidationWaiver | undefined> {
+    const [waiver] = await db.select().from(validationWaivers).where(eq(validationWaivers.id, id));
+    return waiver || undefined;
+  }
+
+  async createValidationWaiver(insertWaiver: InsertValidationWaiver): Promise<ValidationWaiver> {
+    const [waiver] = await db.insert(validationWaivers).values(insertWaiver).returning();
+    return waiver;
+  }
+
+  async updateValidationWaiver(id: number, data: Partial<InsertValidationWaiver>): Promise<ValidationWaiver> {
+    const [waiver] = await db
+      .update(validationWaivers)
+      .set(data)
+      .where(eq(validationWaivers.id, id))
+      .returning();
+    return waiver;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -4,6 +4,15 @@ import * as xml2js from 'xml2js';
 import { create } from 'xmlbuilder2';
 import { DOMParser } from 'xmldom';
 import * as xpath from 'xpath';
+import {
+  DEFAULT_NUMBER_FORMAT,
+  coerceFormattedNumber,
+  createCoercionReport,
+  parseFormattedNumber,
+  recordCoercion,
+  type NumberCoercionReport,
+  type NumberFormat
+} from '../shared/numberFormat';
 
 export interface XBRLConcept {
   name: string;
@@ -230,9 +239,17 @@ export class XBRLProcessor {
   }
 
   /**
-   * Generate XBRL report from validated data
+   * Generate XBRL report from validated data. Numeric facts (those with a
+   * unit) written as formatted text are output as plain numbers; the report
+   * lists each one converted.
    */
-  async generateXBRLReport(instanceData: XBRLInstance, outputPath: string): Promise<void> {
+  async generateXBRLReport(
+    instanceData: XBRLInstance,
+    outputPath: string,
+    numberFormat: NumberFormat = DEFAULT_NUMBER_FORMAT
+  ): Promise<NumberCoercionReport> {
+    const coercions = createCoercionReport();
+
     const root = create({ version: '1.0', encoding: 'UTF-8' })
       .ele('xbrli:xbrl')
       .att('xmlns:xbrli', 'http://www.xbrl.org/2003/instance')
@@ -273,9 +290,19 @@ export class XBRLProcessor {
 
     // Add facts
     for (const fact of instanceData.facts) {
+      const parsed = fact.unit ? coerceFormattedNumber(fact.value, numberFormat) : null;
+      if (parsed) {
+        recordCoercion(coercions, {
+          cellReference: fact.name,
+          original: String(fact.value),
+          value: parsed.value,
+          coercions: parsed.coercions
+        });
+      }
+
       const factElem = root.ele(fact.name)
         .att('contextRef', fact.context || 'default')
-        .txt(fact.value.toString());
+        .txt(parsed ? parsed.value.toString() : fact.value.toString());
 
       if (fact.unit) {
         factElem.att('unitRef', fact.unit);
@@ -288,6 +315,7 @@ export class XBRLProcessor {
     // Write to file
     const xmlString = root.end({ prettyPrint: true });
     fs.writeFileSync(outputPath, xmlString);
+    return coercions;
   }
 
   /**
@@ -428,10 +456,10 @@ export class XBRLProcessor {
   private validateFact(fact: XBRLConcept, rule: { concept: string; rule: string; message: string }): { isValid: boolean; message: string } {
     switch (rule.rule) {
       case 'numeric':
-        const numValue = parseFloat(fact.value.toString());
+        const isNumber = parseFormattedNumber(typeof fact.value === 'number' ? fact.value : fact.value.toString()) !== null;
         return {
-          isValid: !isNaN(numValue),
-          message: isNaN(numValue) ? `${fact.name} must be a valid number` : ''
+          isValid: isNumber,
+          message: isNumber ? '' : `${fact.name} must be a valid number`
         };
       case 'required':
         return {
@@ -9,8 +9,10 @@ import {
   templateSchemas, 
   processingStatus, 
   submissions, 
-  comments 
+  comments,
+  codeLists
 } from "@shared/schema";
+import { BUILT_IN_CODE_LISTS } from "./validation/CodeLists";
 import bcrypt from "bcrypt";
 
 async function setupDatabase() {
@@ -71,6 +73,14 @@ async function setupDatabase() {
         xbrl_schema_ref TEXT,
         xbrl_namespace TEXT,
         xbrl_version TEXT DEFAULT '2.1',
+        number_format TEXT,
+        carry_forward TEXT,
+        template_group_id INTEGER REFERENCES templates(id),
+        version INTEGER NOT NULL DEFAULT 1,
+        lifecycle_status TEXT NOT NULL DEFAULT 'published',
+        effective_from TEXT,
+        published_at TEXT,
+        retired_at TEXT,
         created_by INTEGER NOT NULL REFERENCES users(id),
         created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
         updated_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL
@@ -105,6 +115,24 @@ async function setupDatabase() {
         column_range TEXT,
         cell_range TEXT,
         apply_to_all_rows INTEGER DEFAULT 0,
+        when_condition TEXT,
+        tolerance TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL
+      )
+    `);
+
+    // Validation rule set versions table
+    sqlite.exec(`
+      CREATE TABLE IF NOT EXISTS validation_rule_sets (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        template_id INTEGER NOT NULL REFERENCES templates(id),
+        version INTEGER NOT NULL,
+        effective_from TEXT,
+        rules TEXT NOT NULL,
+        file_name TEXT,
+        file_path TEXT,
+        note TEXT,
+        created_by INTEGER REFERENCES users(id),
         created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL
       )
     `);
@@ -123,6 +151,8 @@ async function setupDatabase() {
         file_path TEXT NOT NULL,
         file_size INTEGER NOT NULL,
         reporting_period TEXT NOT NULL,
+        rule_set_id INTEGER REFERENCES validation_rule_sets(id),
+        validation_totals TEXT,
         created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL
       )
     `);
@@ -145,6 +175,8 @@ async function setupDatabase() {
         row_number INTEGER,
         column_number INTEGER,
         column_name TEXT,
+        comparison_value TEXT,
+        delta REAL,
         created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL
       )
     `);
@@ -188,6 +220,75 @@ async function setupDatabase() {
       )
     `);
 
+    // Background jobs table
+    sqlite.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        type TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'queued',
+        payload TEXT NOT NULL,
+        result TEXT,
+        error TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL DEFAULT 3,
+        run_after TEXT,
+        resource_type TEXT,
+        resource_id INTEGER,
+        created_by INTEGER REFERENCES users(id),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        started_at TEXT,
+        finished_at TEXT
+      )
+    `);
+    sqlite.exec(`CREATE INDEX IF NOT EXISTS jobs_status_idx ON jobs (status)`);
+
+    // Golden sample workbooks for validation rule regression checks
+    sqlite.exec(`
+      CREATE TABLE IF NOT EXISTS golden_samples (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        template_id INTEGER NOT NULL REFERENCES templates(id),
+        name TEXT NOT NULL,
+        file_name TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        reporting_period TEXT,
+        expected_results TEXT NOT NULL,
+        created_by INTEGER REFERENCES users(id),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL
+      )
+    `);
+
+    sqlite.exec(`
+      CREATE TABLE IF NOT EXISTS code_lists (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        description TEXT,
+        entries TEXT NOT NULL,
+        is_active INTEGER DEFAULT 0 NOT NULL,
+        created_by INTEGER REFERENCES users(id),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        UNIQUE(name, version)
+      )
+    `);
+
+    // Entity requests to waive failed checks, reviewed by IFSCA
+    sqlite.exec(`
+      CREATE TABLE IF NOT EXISTS validation_waivers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        submission_id INTEGER NOT NULL REFERENCES submissions(id),
+        result_id INTEGER REFERENCES validation_results(id),
+        justification TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        requested_by INTEGER NOT NULL REFERENCES users(id),
+        reviewed_by INTEGER REFERENCES users(id),
+        review_note TEXT,
+        reviewed_at TEXT,
+        superseded_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL
+      )
+    `);
+
     console.log("Tables created successfully!");
     
     // Insert default categories
@@ -222,6 +323,18 @@ async function setupDatabase() {
       },
     ]).onConflictDoNothing();
 
+    // Insert built-in code lists
+    console.log("Inserting built-in code lists...");
+    await db.insert(codeLists).values(
+      BUILT_IN_CODE_LISTS.map((list) => ({
+        name: list.name,
+        version: 1,
+        description: list.description,
+        entries: JSON.stringify(list.entries),
+        isActive: true,
+      }))
+    ).onConflictDoNothing();
+
     // Create default users
     console.log("Creating default users...");
     const hashedPassword = await bcrypt.hash("password123", 10);
@@ -0,0 +1,127 @@
+/**
+ * Reading formatted amounts as numbers.
+ * Run with `npm test`.
+ */
+
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_NUMBER_FORMAT,
+  coerceFormattedNumber,
+  parseAmountScale,
+  parseFormattedNumber,
+  resolveNumberFormat,
+  validateNumberFormat,
+} from "./numberFormat";
+
+const enabled = resolveNumberFormat({ enabled: true });
+
+function value(input: unknown, format = enabled) {
+  return parseFormattedNumber(input, format)?.value ?? null;
+}
+
+describe("parseFormattedNumber", () => {
+  test("reads Indian and international digit grouping", () => {
+    assert.equal(value("1,23,456.00"), 123456);
+    assert.equal(value("1,234,567"), 1234567);
+    assert.equal(value("12,34,567", resolveNumberFormat({ enabled: true, grouping: "international" })), null);
+    assert.equal(value("1,234,567", resolveNumberFormat({ enabled: true, grouping: "indian" })), null);
+    assert.equal(value("1,2,3"), null);
+  });
+
+  test("reads accounting negatives, signs and currency symbols", () => {
+    assert.equal(value("(1,500)"), -1500);
+    assert.equal(value("₹ 1,500"), 1500);
+    assert.equal(value("-₹5"), -5);
+    assert.equal(value("₹ -5"), -5);
+    assert.equal(value("Rs. 10"), 10);
+    assert.equal(value("10 USD"), 10);
+    assert.equal(value("(-5)"), null);
+    assert.equal(value("(1,500)", resolveNumberFormat({ enabled: true, accountingNegatives: false })), null);
+  });
+
+  test("reads percentages as fractions or points", () => {
+    assert.equal(value("12.5%"), 0.125);
+    assert.equal(value("12.5%", resolveNumberFormat({ enabled: true, percentages: "points" })), 12.5);
+    assert.equal(parseFormattedNumber("12.5%", enabled)?.kind, "percentage");
+  });
+
+  test("multiplies by scale words", () => {
+    assert.equal(value("₹ 10 lakh"), 1000000);
+    assert.equal(value("2.5 crore"), 25000000);
+    assert.equal(value("3 Mn"), 3000000);
+  });
+
+  test("reads a decimal comma when the format uses one", () => {
+    const format = resolveNumberFormat({ enabled: true, decimalSeparator: "," });
+    assert.equal(value("1.234,56", format), 1234.56);
+    assert.deepEqual(parseFormattedNumber("12.345.678,9", format)?.coercions, ["decimal comma", "international digit grouping"]);
+  });
+
+  test("passes numbers through and rejects text that isn't an amount", () => {
+    assert.deepEqual(parseFormattedNumber(42, enabled), { value: 42, kind: "number", coercions: [] });
+    assert.equal(value(NaN), null);
+    assert.equal(value("abc"), null);
+    assert.equal(value(""), null);
+    assert.equal(value("1.2.3"), null);
+  });
+});
+
+describe("coerceFormattedNumber", () => {
+  test("converts nothing until a template enables the format", () => {
+    assert.equal(DEFAULT_NUMBER_FORMAT.enabled, false);
+    assert.equal(resolveNumberFormat(null).enabled, false);
+    assert.equal(coerceFormattedNumber("1,23,456", resolveNumberFormat(null)), null);
+    assert.equal(coerceFormattedNumber("1,23,456", enabled)?.value, 123456);
+  });
+
+  test("leaves plain digit text and numbers alone", () => {
+    assert.equal(coerceFormattedNumber("00123", enabled), null);
+    assert.equal(coerceFormattedNumber(1500, enabled), null);
+  });
+});
+
+describe("resolveNumberFormat", () => {
+  test("applies stored overrides over the defaults", () => {
+    const format = resolveNumberFormat('{"enabled":true,"amountScale":100000}');
+    assert.equal(format.enabled, true);
+    assert.equal(format.amountScale, 100000);
+    assert.equal(format.grouping, DEFAULT_NUMBER_FORMAT.grouping);
+  });
+
+  test("falls back to the defaults for unreadable values", () => {
+    assert.deepEqual(resolveNumberFormat("{not json"), DEFAULT_NUMBER_FORMAT);
+    assert.deepEqual(resolveNumberFormat(""), DEFAULT_NUMBER_FORMAT);
+  });
+});
+
+describe("validateNumberFormat", () => {
+  test("accepts a valid format and lists every problem with an invalid one", () => {
+    assert.deepEqual(validateNumberFormat(DEFAULT_NUMBER_FORMAT), []);
+    assert.equal(
+      validateNumberFormat({
+        grouping: "swiss" as any,
+        decimalSeparator: ";" as any,
+        scaleWords: { lakh: -1 },
+        amountScale: 0,
+      }).length,
+      4
+    );
+  });
+});
+
+describe("parseAmountScale", () => {
+  test("reads unit names and factors", () => {
+    assert.equal(parseAmountScale("lakhs"), 100000);
+    assert.equal(parseAmountScale("in crores"), 10000000);
+    assert.equal(parseAmountScale("Amounts in thousand"), 1000);
+    assert.equal(parseAmountScale("1,00,000"), 100000);
+    assert.equal(parseAmountScale(1000), 1000);
+  });
+
+  test("rejects anything else", () => {
+    assert.equal(parseAmountScale("dozens"), null);
+    assert.equal(parseAmountScale(0), null);
+    assert.equal(parseAmountScale(""), null);
+  });
+});
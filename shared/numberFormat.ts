@@ -0,0 +1,296 @@
+/**
+ * Number normalization shared by the server and client.
+ *
+ * Filings arrive with amounts typed as text in many styles: Indian digit
+ * grouping ("1,23,456.00"), accounting negatives ("(1,500)"), percentages
+ * ("12.5%"), currency symbols and scale words ("₹ 10 lakh"). Schema
+ * inference, validation rules and XBRL fact generation all read amounts
+ * through parseFormattedNumber so they agree on what a value means. A
+ * template turns conversion on, and adjusts the format, in templates.number_format.
+ */
+
+export interface NumberFormat {
+  /** Convert formatted text to numbers; off leaves text cells untouched */
+  enabled: boolean;
+  /** Digit grouping accepted in amounts */
+  grouping: "indian" | "international" | "any";
+  /** "," for amounts written like "1.234,56" */
+  decimalSeparator: "." | ",";
+  /** Read "(1,500)" as -1500 */
+  accountingNegatives: boolean;
+  /** "12.5%" becomes 0.125 ("fraction", as Excel stores it) or 12.5 ("points") */
+  percentages: "fraction" | "points";
+  /** Symbols and codes allowed before or after an amount */
+  currencySymbols: string[];
+  /** Words after an amount that multiply it, e.g. { lakh: 100000 } */
+  scaleWords: Record<string, number>;
+  /**
+   * Unit the template's amounts are reported in, e.g. 100000 for "amounts in
+   * lakhs". Absolute tolerances and variance limits in rules are written in
+   * full units and divided by it before they are compared with cells.
+   */
+  amountScale: number;
+}
+
+export interface ParsedNumber {
+  value: number;
+  kind: "number" | "currency" | "percentage";
+  /** What was done to the text to read it, e.g. "Indian digit grouping"; empty for plain numbers */
+  coercions: string[];
+}
+
+/**
+ * A formatted text value that was converted to a number
+ */
+export interface NumberCoercion {
+  sheetName?: string;
+  cellReference?: string;
+  original: string;
+  value: number;
+  coercions: string[];
+}
+
+export interface NumberCoercionReport {
+  count: number;
+  /** The first MAX_COERCION_SAMPLES coercions */
+  samples: NumberCoercion[];
+}
+
+export const MAX_COERCION_SAMPLES = 100;
+
+// Conversion is off until a template opts in; the other defaults apply once it does
+export const DEFAULT_NUMBER_FORMAT: NumberFormat = {
+  enabled: false,
+  grouping: "any",
+  decimalSeparator: ".",
+  accountingNegatives: true,
+  percentages: "fraction",
+  currencySymbols: ["₹", "Rs.", "Rs", "INR", "$", "US$", "USD", "€", "EUR", "£", "GBP"],
+  scaleWords: {
+    thousand: 1e3,
+    lakh: 1e5,
+    lakhs: 1e5,
+    lac: 1e5,
+    lacs: 1e5,
+    million: 1e6,
+    mn: 1e6,
+    crore: 1e7,
+    crores: 1e7,
+    cr: 1e7,
+    billion: 1e9,
+    bn: 1e9,
+  },
+  amountScale: 1,
+};
+
+/**
+ * Named units for "amounts in ..." declarations
+ */
+export const AMOUNT_SCALES: Record<string, number> = {
+  units: 1,
+  thousands: 1e3,
+  lakhs: 1e5,
+  millions: 1e6,
+  crores: 1e7,
+  billions: 1e9,
+};
+
+/**
+ * Read an amount scale written as a unit name ("lakhs", "in crores") or a
+ * factor (100000). Returns null when it is neither.
+ */
+export function parseAmountScale(value: unknown): number | null {
+  if (typeof value === "number") return value > 0 ? value : null;
+  const text = String(value ?? "").trim().toLowerCase().replace(/^(amounts\s+)?in\s+/, "");
+  if (text === "") return null;
+  const unit = Object.keys(AMOUNT_SCALES).find(name => name === text || name === `${text}s`);
+  if (unit) return AMOUNT_SCALES[unit];
+  const factor = Number(text.replace(/,/g, ""));
+  return factor > 0 ? factor : null;
+}
+
+/**
+ * The template's format over the defaults. Accepts the stored JSON text;
+ * unreadable values fall back to the defaults.
+ */
+export function resolveNumberFormat(stored?: string | Partial<NumberFormat> | null): NumberFormat {
+  let overrides: Partial<NumberFormat> = {};
+  if (typeof stored === "string" && stored.trim() !== "") {
+    try {
+      overrides = JSON.parse(stored);
+    } catch {
+      overrides = {};
+    }
+  } else if (stored && typeof stored === "object") {
+    overrides = stored;
+  }
+  return { ...DEFAULT_NUMBER_FORMAT, ...overrides };
+}
+
+/**
+ * Problems with a number format submitted by an admin
+ */
+export function validateNumberFormat(format: Partial<NumberFormat>): string[] {
+  const errors: string[] = [];
+  if (format.grouping !== undefined && !["indian", "international", "any"].includes(format.grouping)) {
+    errors.push('grouping must be "indian", "international" or "any"');
+  }
+  if (format.decimalSeparator !== undefined && ![".", ","].includes(format.decimalSeparator)) {
+    errors.push('decimalSeparator must be "." or ","');
+  }
+  if (format.percentages !== undefined && !["fraction", "points"].includes(format.percentages)) {
+    errors.push('percentages must be "fraction" or "points"');
+  }
+  if (format.currencySymbols !== undefined &&
+      (!Array.isArray(format.currencySymbols) || format.currencySymbols.some(s => typeof s !== "string" || s.trim() === ""))) {
+    errors.push("currencySymbols must be a list of non-empty strings");
+  }
+  if (format.scaleWords !== undefined &&
+      (typeof format.scaleWords !== "object" || format.scaleWords === null ||
+       Object.values(format.scaleWords).some(factor => typeof factor !== "number" || !(factor > 0)))) {
+    errors.push("scaleWords must map words to positive numbers");
+  }
+  if (format.amountScale !== undefined && !(typeof format.amountScale === "number" && format.amountScale > 0)) {
+    errors.push("amountScale must be a positive number");
+  }
+  return errors;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Longest first so "Rs." wins over "Rs" and "US$" over "$"
+function byLength(items: string[]): string[] {
+  return [...items].sort((a, b) => b.length - a.length);
+}
+
+function stripCurrency(text: string, symbols: string[]): { text: string; symbol: string | null } {
+  const lower = text.toLowerCase();
+  for (const symbol of byLength(symbols)) {
+    const candidate = symbol.toLowerCase();
+    if (lower.startsWith(candidate)) {
+      return { text: text.slice(symbol.length).trim(), symbol };
+    }
+    if (lower.endsWith(candidate)) {
+      return { text: text.slice(0, text.length - symbol.length).trim(), symbol };
+    }
+  }
+  return { text, symbol: null };
+}
+
+function stripSign(text: string): { text: string; negative: boolean } {
+  if (/^[-−]/.test(text)) return { text: text.slice(1).trim(), negative: true };
+  if (text.startsWith("+")) return { text: text.slice(1).trim(), negative: false };
+  return { text, negative: false };
+}
+
+/**
+ * Read a number written as text in the given format. Returns null when the
+ * value is not a number in that format. Numbers pass through unchanged.
+ */
+export function parseFormattedNumber(
+  input: unknown,
+  format: NumberFormat = DEFAULT_NUMBER_FORMAT
+): ParsedNumber | null {
+  if (typeof input === "number") {
+    return isNaN(input) ? null : { value: input, kind: "number", coercions: [] };
+  }
+  if (typeof input !== "string") return null;
+
+  // Non-breaking and thin spaces are common in copied amounts
+  let text = input.replace(/[\u00a0\u2009\u202f]/g, " ").trim();
+  if (text === "") return null;
+
+  const coercions: string[] = [];
+  let negative = false;
+  let kind: ParsedNumber["kind"] = "number";
+
+  if (format.accountingNegatives && /^\(.*\)$/.test(text)) {
+    text = text.slice(1, -1).trim();
+    negative = true;
+    coercions.push("accounting negative");
+  }
+
+  // The sign may sit either side of the currency symbol: "-₹5" or "₹ -5"
+  let sign = stripSign(text);
+  text = sign.text;
+  const currency = stripCurrency(text, format.currencySymbols);
+  if (currency.symbol) {
+    text = currency.text;
+    kind = "currency";
+    coercions.push(`currency symbol "${currency.symbol}"`);
+    if (!sign.negative) {
+      sign = stripSign(text);
+      text = sign.text;
+    }
+  }
+  if (sign.negative) {
+    if (negative) return null;
+    negative = true;
+  }
+
+  let factor = 1;
+  if (text.endsWith("%")) {
+    text = text.slice(0, -1).trim();
+    kind = "percentage";
+    if (format.percentages === "fraction") factor = 0.01;
+    coercions.push("percentage");
+  } else {
+    const words = byLength(Object.keys(format.scaleWords)).map(escapeRegExp).join("|");
+    const scaled = words ? text.match(new RegExp(`^(.*?\\d)\\s*(${words})\\.?$`, "i")) : null;
+    if (scaled) {
+      const word = Object.keys(format.scaleWords).find(w => w.toLowerCase() === scaled[2].toLowerCase())!;
+      factor = format.scaleWords[word];
+      text = scaled[1];
+      coercions.push(`scale "${word}" (x${factor})`);
+    }
+  }
+
+  const decimal = format.decimalSeparator;
+  const group = decimal === "." ? "," : ".";
+  const [integerPart, fractionPart, extra] = text.split(decimal);
+  if (extra !== undefined || (fractionPart !== undefined && !/^\d+$/.test(fractionPart))) return null;
+  if (fractionPart !== undefined && decimal === ",") coercions.push("decimal comma");
+
+  let digits: string;
+  if (/^\d*$/.test(integerPart)) {
+    if (integerPart === "" && fractionPart === undefined) return null;
+    digits = integerPart || "0";
+  } else {
+    const g = escapeRegExp(group);
+    const indian = new RegExp(`^\\d{1,2}(${g}\\d{2})*${g}\\d{3}$`).test(integerPart);
+    const international = new RegExp(`^\\d{1,3}(${g}\\d{3})+$`).test(integerPart);
+    const accepted = format.grouping === "indian" ? indian
+      : format.grouping === "international" ? international
+      : indian || international;
+    if (!accepted) return null;
+    coercions.push(indian && international ? "digit grouping" : indian ? "Indian digit grouping" : "international digit grouping");
+    digits = integerPart.split(group).join("");
+  }
+
+  const number = Number(`${digits}.${fractionPart ?? "0"}`) * factor * (negative ? -1 : 1);
+  if (!isFinite(number)) return null;
+
+  // Scaling by 0.01 or a lakh can leave binary noise (12.5 * 0.01 = 0.125000...01)
+  return { value: Number(number.toPrecision(15)), kind, coercions };
+}
+
+/**
+ * The coercion applied to a text value, or null when the format is off, the
+ * value is not formatted text (plain "123" stays text), or it isn't a number
+ */
+export function coerceFormattedNumber(input: unknown, format: NumberFormat): ParsedNumber | null {
+  if (!format.enabled || typeof input !== "string") return null;
+  const parsed = parseFormattedNumber(input, format);
+  return parsed && parsed.coercions.length > 0 ? parsed : null;
+}
+
+export function createCoercionReport(): NumberCoercionReport {
+  return { count: 0, samples: [] };
+}
+
+export function recordCoercion(report: NumberCoercionReport, coercion: NumberCoercion): void {
+  report.count++;
+  if (report.samples.length < MAX_COERCION_SAMPLES) report.samples.push(coercion);
+}
@@ -0,0 +1,102 @@
+/**
+ * Reading and ordering reporting period labels.
+ * Run with `npm test`.
+ */
+
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  compareEffectiveFrom,
+  compareReportingPeriods,
+  findEffectiveVersion,
+  parseReportingPeriod,
+} from "./reportingPeriod";
+
+function range(period: string, frequency?: string) {
+  const parsed = parseReportingPeriod(period, frequency);
+  return parsed && [parsed.start.toISOString().slice(0, 10), parsed.end.toISOString().slice(0, 10)];
+}
+
+describe("parseReportingPeriod", () => {
+  test("reads calendar and financial quarters", () => {
+    assert.deepEqual(range("Q1 2024"), ["2024-01-01", "2024-03-31"]);
+    assert.deepEqual(range("2024-Q4"), ["2024-10-01", "2024-12-31"]);
+    assert.deepEqual(range("Q1 FY 2024-25"), ["2024-04-01", "2024-06-30"]);
+    assert.deepEqual(range("Q4 FY 2024-25"), ["2025-01-01", "2025-03-31"]);
+  });
+
+  test("reads halves, financial years, months and years", () => {
+    assert.deepEqual(range("H2 FY 2024-25"), ["2024-10-01", "2025-03-31"]);
+    assert.deepEqual(range("FY 2023-24"), ["2023-04-01", "2024-03-31"]);
+    assert.deepEqual(range("2024-03"), ["2024-03-01", "2024-03-31"]);
+    assert.deepEqual(range("03/2024"), ["2024-03-01", "2024-03-31"]);
+    assert.deepEqual(range("March 2024"), ["2024-03-01", "2024-03-31"]);
+    assert.deepEqual(range("2024"), ["2024-01-01", "2024-12-31"]);
+  });
+
+  test("reads a date as the period of the template's frequency that contains it", () => {
+    assert.deepEqual(range("2024-05-15"), ["2024-05-01", "2024-05-31"]);
+    assert.deepEqual(range("2024-05-15", "quarterly"), ["2024-04-01", "2024-06-30"]);
+    assert.deepEqual(range("15/05/2024", "half_yearly"), ["2024-01-01", "2024-06-30"]);
+    assert.deepEqual(range("2024-02-15", "yearly"), ["2023-04-01", "2024-03-31"]);
+    assert.deepEqual(range("2024-05-15", "weekly"), ["2024-05-13", "2024-05-19"]);
+  });
+
+  test("rejects labels it doesn't recognise", () => {
+    assert.equal(parseReportingPeriod("H3 2024"), null);
+    assert.equal(parseReportingPeriod("FY 2023-26"), null);
+    assert.equal(parseReportingPeriod("sometime"), null);
+    assert.equal(parseReportingPeriod(""), null);
+  });
+});
+
+describe("compareReportingPeriods", () => {
+  test("orders periods by end date, then start date", () => {
+    assert.ok(compareReportingPeriods("Q1 2024", "Q2 2024") < 0);
+    // Same last day; the longer period starts earlier
+    assert.ok(compareReportingPeriods("FY 2023-24", "Q1 2024") < 0);
+    assert.ok(compareReportingPeriods("2024", "Q4 2024") < 0);
+    assert.equal(compareReportingPeriods("Q1 FY 2024-25", "Q2 2024"), 0);
+  });
+
+  test("compares dates as periods of the template's frequency", () => {
+    // Without the frequency the dates are months, and February is earlier
+    assert.ok(compareReportingPeriods("2024-02-15", "2024-03-31") < 0);
+    // For a quarterly template both dates are Q1 2024
+    assert.equal(compareReportingPeriods("2024-02-15", "2024-03-31", "quarterly"), 0);
+    assert.ok(compareReportingPeriods("2023-12-31", "2024-03-31", "quarterly") < 0);
+  });
+
+  test("sorts unrecognised labels first, in text order", () => {
+    assert.ok(compareReportingPeriods("draft", "Q1 2024") < 0);
+    assert.ok(compareReportingPeriods("Q1 2024", "draft") > 0);
+    assert.ok(compareReportingPeriods("alpha", "beta") < 0);
+  });
+});
+
+describe("findEffectiveVersion", () => {
+  const versions = [
+    { version: 1, effectiveFrom: null },
+    { version: 2, effectiveFrom: "Q1 2025" },
+    { version: 3, effectiveFrom: "Q3 2025" },
+    { version: 4, effectiveFrom: "Q3 2025" },
+  ];
+
+  test("picks the version starting latest by the start of the period", () => {
+    assert.equal(findEffectiveVersion(versions, "Q4 2024")?.version, 1);
+    assert.equal(findEffectiveVersion(versions, "Q2 2025")?.version, 2);
+  });
+
+  test("picks the highest version when several start together", () => {
+    assert.equal(findEffectiveVersion(versions, "Q3 2025")?.version, 4);
+  });
+
+  test("finds nothing when every version starts later", () => {
+    assert.equal(findEffectiveVersion(versions.slice(1), "Q4 2024"), undefined);
+  });
+
+  test("a missing start sorts first", () => {
+    assert.ok(compareEffectiveFrom(null, "Q1 2025") < 0);
+    assert.equal(compareEffectiveFrom(null, undefined), 0);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Reporting period helpers shared by the server and client.
+ *
+ * Submissions store their period as free text chosen from the submission form
+ * ("Q1 2024", "FY 2023-24", ...). These helpers turn that text into a date
+ * range so periods can be ordered, compared and used in validation rules.
+ */
+
+export interface ReportingPeriodRange {
+  start: Date;
+  end: Date;
+}
+
+// Values of templates.frequency
+export type ReportingFrequency =
+  | "daily"
+  | "weekly"
+  | "monthly"
+  | "quarterly"
+  | "half_yearly"
+  | "yearly";
+
+const MONTHS = [
+  "jan", "feb", "mar", "apr", "may", "jun",
+  "jul", "aug", "sep", "oct", "nov", "dec",
+];
+
+// Indian financial year: April to March
+const FY_START_MONTH = 3;
+
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+function monthRange(year: number, startMonth: number, months: number): ReportingPeriodRange {
+  return {
+    start: utcDate(year, startMonth, 1),
+    end: utcDate(year, startMonth + months, 0),
+  };
+}
+
+/**
+ * "2023-24", "2023-2024" or "2023" -> 2023 (the calendar year the FY starts in)
+ */
+function fiscalStartYear(first: string, second?: string): number | null {
+  const startYear = parseInt(first);
+  if (!second) return startYear;
+  const endYear = second.length === 2 ? Math.floor(startYear / 100) * 100 + parseInt(second) : parseInt(second);
+  return endYear === startYear + 1 || (second.length === 2 && parseInt(second) === (startYear + 1) % 100)
+    ? startYear
+    : null;
+}
+
+/**
+ * Period containing a given day, sized by the template frequency.
+ * Quarters and halves follow the calendar; years follow the financial year.
+ */
+function periodContaining(date: Date, frequency?: string): ReportingPeriodRange {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  switch (frequency) {
+    case "daily":
+      return { start: utcDate(year, month, date.getUTCDate()), end: utcDate(year, month, date.getUTCDate()) };
+    case "weekly": {
+      // Monday to Sunday week
+      const offset = (date.getUTCDay() + 6) % 7;
+      return {
+        start: utcDate(year, month, date.getUTCDate() - offset),
+        end: utcDate(year, month, date.getUTCDate() - offset + 6),
+      };
+    }
+    case "quarterly":
+      return monthRange(year, Math.floor(month / 3) * 3, 3);
+    case "half_yearly":
+      return monthRange(year, Math.floor(month / 6) * 6, 6);
+    case "yearly":
+      return monthRange(month >= FY_START_MONTH ? year : year - 1, FY_START_MONTH, 12);
+    default:
+      return monthRange(year, month, 1);
+  }
+}
+
+/**
+ * Parse a reporting period label into its first and last day (UTC).
+ *
+ * Supported labels:
+ * - Quarters: "Q1 2024" / "2024-Q1" (calendar, Q1 = Jan-Mar) and
+ *   "Q1 FY 2024-25" (financial, Q1 = Apr-Jun)
+ * - Halves: "H1 2024" (Jan-Jun) and "H1 FY 2024-25" (Apr-Sep)
+ * - Financial years: "FY 2023-24", "FY 2023-2024", "FY 2024", and "2023-24"
+ *   for yearly templates (April to March)
+ * - Months: "2024-03", "03/2024", "Mar 2024", "March 2024"
+ * - Calendar years: "2024"
+ * - A date ("2024-03-31", "31/03/2024"): the period of the template's
+ *   frequency that contains it
+ *
+ * Returns null when the label is not recognised.
+ */
+export function parseReportingPeriod(
+  period: string | null | undefined,
+  frequency?: string | null
+): ReportingPeriodRange | null {
+  if (!period) return null;
+  const label = period.trim().toLowerCase().replace(/\s+/g, " ");
+  const freq = frequency || undefined;
+
+  // Financial quarter / half: "Q1 FY 2024-25", "H2 FY2024"
+  let match = label.match(/^([qh])([1-4])[\s\-\/]*fy\s*(\d{4})(?:\s*[-\/]\s*(\d{2}|\d{4}))?$/);
+  if (match) {
+    const startYear = fiscalStartYear(match[3], match[4]);
+    const index = parseInt(match[2]) - 1;
+    if (startYear === null || (match[1] === "h" && index > 1)) return null;
+    const size = match[1] === "q" ? 3 : 6;
+    return monthRange(startYear, FY_START_MONTH + index * size, size);
+  }
+
+  // Calendar quarter / half: "Q1 2024", "2024-Q1", "H1 2024"
+  match = label.match(/^([qh])([1-4])[\s\-\/]*(\d{4})$/) || label.match(/^(\d{4})[\s\-\/]*([qh])([1-4])$/);
+  if (match) {
+    const [kind, index, year] = /^\d/.test(match[1])
+      ? [match[2], parseInt(match[3]) - 1, parseInt(match[1])]
+      : [match[1], parseInt(match[2]) - 1, parseInt(match[3])];
+    if (kind === "h" && index > 1) return null;
+    const size = kind === "q" ? 3 : 6;
+    return monthRange(year, index * size, size);
+  }
+
+  // Financial year: "FY 2023-24", "FY2024"
+  match = label.match(/^fy\s*(\d{4})(?:\s*[-\/]\s*(\d{2}|\d{4}))?$/);
+  if (match) {
+    const startYear = fiscalStartYear(match[1], match[2]);
+    return startYear === null ? null : monthRange(startYear, FY_START_MONTH, 12);
+  }
+
+  // Full dates: "2024-03-31", "31/03/2024", "31-03-2024"
+  match = label.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) {
+    return periodContaining(utcDate(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])), freq);
+  }
+  match = label.match(/^(\d{1,2})[\/\-\.](\d{1,2})[\/\-\.](\d{4})$/);
+  if (match) {
+    return periodContaining(utcDate(parseInt(match[3]), parseInt(match[2]) - 1, parseInt(match[1])), freq);
+  }
+
+  // "2024-03" is a month, "2023-24" a financial year
+  match = label.match(/^(\d{4})[-\/](\d{2}|\d{4})$/);
+  if (match) {
+    const month = parseInt(match[2]);
+    if (match[2].length === 2 && month >= 1 && month <= 12 && freq !== "yearly") {
+      return monthRange(parseInt(match[1]), month - 1, 1);
+    }
+    const startYear = fiscalStartYear(match[1], match[2]);
+    return startYear === null ? null : monthRange(startYear, FY_START_MONTH, 12);
+  }
+
+  // "03/2024"
+  match = label.match(/^(\d{1,2})[\/\-](\d{4})$/);
+  if (match) {
+    const month = parseInt(match[1]) - 1;
+    if (month >= 0 && month < 12) return monthRange(parseInt(match[2]), month, 1);
+  }
+
+  // "Mar 2024", "March-2024"
+  match = label.match(/^([a-z]+)\.?[\s\-]*(\d{4})$/);
+  if (match) {
+    const month = MONTHS.indexOf(match[1].slice(0, 3));
+    if (month !== -1) return monthRange(parseInt(match[2]), month, 1);
+  }
+
+  match = label.match(/^(\d{4})$/);
+  if (match) {
+    return monthRange(parseInt(match[1]), 0, 12);
+  }
+
+  return null;
+}
+
+/**
+ * Order two reporting periods by their end date, then start date.
+ * Unrecognised labels sort before recognised ones and fall back to text order.
+ */
+export function compareReportingPeriods(a: string, b: string, frequency?: string | null): number {
+  const rangeA = parseReportingPeriod(a, frequency);
+  const rangeB = parseReportingPeriod(b, frequency);
+
+  if (rangeA && rangeB) {
+    return (
+      rangeA.end.getTime() - rangeB.end.getTime() ||
+      rangeA.start.getTime() - rangeB.start.getTime()
+    );
+  }
+  if (rangeA) return 1;
+  if (rangeB) return -1;
+  return a.localeCompare(b);
+}
+
+/**
+ * Order two "effective from" periods by their first day. A missing start
+ * means "from the first period" and sorts first.
+ */
+export function compareEffectiveFrom(
+  a: string | null | undefined,
+  b: string | null | undefined,
+  frequency?: string | null
+): number {
+  if (!a || !b) return (a ? 1 : 0) - (b ? 1 : 0);
+  const rangeA = parseReportingPeriod(a, frequency);
+  const rangeB = parseReportingPeriod(b, frequency);
+  return rangeA && rangeB
+    ? rangeA.start.getTime() - rangeB.start.getTime()
+    : compareReportingPeriods(a, b, frequency);
+}
+
+/**
+ * The version in effect for a reporting period: of the versions starting by
+ * the start of the period, the one starting latest, the highest version when
+ * several start together. Undefined when every version starts later.
+ */
+export function findEffectiveVersion<T extends { version: number; effectiveFrom: string | null }>(
+  versions: T[],
+  reportingPeriod: string,
+  frequency?: string | null
+): T | undefined {
+  return [...versions]
+    .sort((a, b) => compareEffectiveFrom(b.effectiveFrom, a.effectiveFrom, frequency) || b.version - a.version)
+    .find((version) => compareEffectiveFrom(version.effectiveFrom, reportingPeriod, frequency) <= 0);
+}
@@ -2,6 +2,7 @@ import {
   sqliteTable,
   text,
   integer,
+  real,
   blob,
 } from "drizzle-orm/sqlite-core";
 import { createInsertSchema } from "drizzle-zod";
@@ -66,6 +67,15 @@ export const templates = sqliteTable("templates", {
   xbrlSchemaRef: text("xbrl_schema_ref"), // Reference to XBRL schema
   xbrlNamespace: text("xbrl_namespace"), // XBRL namespace for this template
   xbrlVersion: text("xbrl_version").default("2.1"), // XBRL version
+  numberFormat: text("number_format"), // JSON overrides of DEFAULT_NUMBER_FORMAT (shared/numberFormat.ts)
+  carryForward: text("carry_forward"), // JSON cell mappings copied from the last approved filing (validation/CarryForward.ts)
+  // Versioning: every version of a template is its own row
+  templateGroupId: integer("template_group_id"), // ID of the first version; null on the first version itself
+  version: integer("version").notNull().default(1),
+  lifecycleStatus: text("lifecycle_status").notNull().default("published"), // draft, review, published, retired
+  effectiveFrom: text("effective_from"), // First reporting period the version applies to; null = all periods
+  publishedAt: text("published_at"),
+  retiredAt: text("retired_at"),
   createdBy: integer("created_by")
     .references(() => users.id)
     .notNull(), // ID of IFSCA user who created this template
@@ -96,11 +106,30 @@ export const validationRules = sqliteTable("validation_rules", {
   field: text("field").notNull(), // Field name or cell reference
   condition: text("condition").notNull(), // Validation condition
   errorMessage: text("error_message").notNull(),
-  severity: text("severity").notNull().default("error"), // error, warning
+  severity: text("severity").notNull().default("error"), // info, warning, error, blocking
   rowRange: text("row_range"), // e.g., "2-100", "5", "10-*" for row-specific validation
   columnRange: text("column_range"), // e.g., "A-Z", "B", "C-E" for column-specific validation
   cellRange: text("cell_range"), // e.g., "A2:Z100", "B5", "C1:C50" for exact cell range validation
   applyToAllRows: integer("apply_to_all_rows", { mode: 'boolean' }).default(false), // If true, applies to all rows in the range
+  when: text("when_condition"), // Precondition expression; the rule only applies to rows where it holds
+  tolerance: text("tolerance"), // Allowed difference on the rule's comparisons, e.g. "0.01" or "0.1%"
+  createdAt: text("created_at").default("CURRENT_TIMESTAMP").notNull(),
+});
+
+// Immutable versions of a template's validation rules. A submission is checked
+// against the version effective for its reporting period and records it.
+export const validationRuleSets = sqliteTable("validation_rule_sets", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  templateId: integer("template_id")
+    .references(() => templates.id)
+    .notNull(),
+  version: integer("version").notNull(),
+  effectiveFrom: text("effective_from"), // First reporting period the version applies to; null for all periods
+  rules: text("rules").notNull(), // JSON as text in SQLite
+  fileName: text("file_name"), // Uploaded rules file the version was published from
+  filePath: text("file_path"),
+  note: text("note"),
+  createdBy: integer("created_by").references(() => users.id),
   createdAt: text("created_at").default("CURRENT_TIMESTAMP").notNull(),
 });
 
@@ -117,12 +146,14 @@ export const validationResults = sqliteTable("validation_results", {
   cellReference: text("cell_reference"),
   cellValue: text("cell_value"),
   message: text("message").notNull(),
-  severity: text("severity").notNull().default("error"), // error, warning
+  severity: text("severity").notNull().default("error"), // info, warning, error, blocking
   isValid: integer("is_valid", { mode: 'boolean' }).notNull().default(false),
   sheetName: text("sheet_name"),
   rowNumber: integer("row_number"),
   columnNumber: integer("column_number"),
   columnName: text("column_name"),
+  comparisonValue: text("comparison_value"), // Value the cell was compared against (e.g. prior period)
+  delta: real("delta"), // Computed change between cellValue and comparisonValue
   createdAt: text("created_at").default("CURRENT_TIMESTAMP").notNull(),
 });
 
@@ -170,6 +201,78 @@ export const submissions = sqliteTable("submissions", {
   filePath: text("file_path").notNull(),
   fileSize: integer("file_size").notNull(),
   reportingPeriod: text("reporting_period").notNull(),
+  ruleSetId: integer("rule_set_id").references(() => validationRuleSets.id), // Rule set version last validated against
+  validationTotals: text("validation_totals"), // JSON failure counts of the last run, failures not stored included
+  createdAt: text("created_at").default("CURRENT_TIMESTAMP").notNull(),
+});
+
+// Background jobs (validation, schema extraction, XBRL reports) run by the worker pool
+export const jobs = sqliteTable("jobs", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  type: text("type").notNull(), // validation, schema_extraction, xbrl_report
+  status: text("status").notNull().default("queued"), // queued, running, completed, failed, cancelled
+  payload: text("payload").notNull(), // JSON as text in SQLite
+  result: text("result"), // JSON as text in SQLite
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAfter: text("run_after"), // Retries wait until this time
+  resourceType: text("resource_type"), // submission, template
+  resourceId: integer("resource_id"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: text("created_at").default("CURRENT_TIMESTAMP").notNull(),
+  startedAt: text("started_at"),
+  finishedAt: text("finished_at"),
+});
+
+// Known-good sample workbooks per template with the validation outcomes they
+// are expected to produce, re-checked whenever the rules change
+export const goldenSamples = sqliteTable("golden_samples", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  templateId: integer("template_id")
+    .references(() => templates.id)
+    .notNull(),
+  name: text("name").notNull(),
+  fileName: text("file_name").notNull(),
+  filePath: text("file_path").notNull(),
+  reportingPeriod: text("reporting_period"),
+  expectedResults: text("expected_results").notNull(), // JSON as text in SQLite
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: text("created_at").default("CURRENT_TIMESTAMP").notNull(),
+  updatedAt: text("updated_at").default("CURRENT_TIMESTAMP").notNull(),
+});
+
+// Versioned reference-data code lists (currencies, countries, instrument
+// types) that format rules check values against with "inList:<name>"
+export const codeLists = sqliteTable("code_lists", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(), // currency, country, instrument_type, etc.
+  version: integer("version").notNull(),
+  description: text("description"),
+  entries: text("entries").notNull(), // JSON as text in SQLite
+  isActive: integer("is_active", { mode: 'boolean' }).notNull().default(false), // One active version per name
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: text("created_at").default("CURRENT_TIMESTAMP").notNull(),
+});
+
+// Entity requests to waive a failed check, accepted or rejected by IFSCA.
+// Accepted waivers no longer count against the submission's outcome.
+export const validationWaivers = sqliteTable("validation_waivers", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  submissionId: integer("submission_id")
+    .references(() => submissions.id)
+    .notNull(),
+  // The check waived; null once re-validation no longer reports it (see supersededAt)
+  resultId: integer("result_id").references(() => validationResults.id),
+  justification: text("justification").notNull(),
+  status: text("status").notNull().default("pending"), // pending, accepted, rejected
+  requestedBy: integer("requested_by")
+    .references(() => users.id)
+    .notNull(),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewNote: text("review_note"),
+  reviewedAt: text("reviewed_at"),
+  supersededAt: text("superseded_at"), // When re-validation stopped reporting the waived check
   createdAt: text("created_at").default("CURRENT_TIMESTAMP").notNull(),
 });
 
@@ -192,6 +295,9 @@ export type InsertProcessingStatus = typeof processingStatus.$inferInsert;
 export type ValidationRule = typeof validationRules.$inferSelect;
 export type InsertValidationRule = typeof validationRules.$inferInsert;
 
+export type ValidationRuleSet = typeof validationRuleSets.$inferSelect;
+export type InsertValidationRuleSet = typeof validationRuleSets.$inferInsert;
+
 export type Submission = typeof submissions.$inferSelect;
 export type InsertSubmission = typeof submissions.$inferInsert;
 
@@ -204,6 +310,18 @@ export type InsertComment = typeof comments.$inferInsert;
 export type Category = typeof categoryTable.$inferSelect;
 export type InsertCategory = typeof categoryTable.$inferInsert;
 
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = typeof jobs.$inferInsert;
+
+export type GoldenSample = typeof goldenSamples.$inferSelect;
+export type InsertGoldenSample = typeof goldenSamples.$inferInsert;
+
+export type CodeList = typeof codeLists.$inferSelect;
+export type InsertCodeList = typeof codeLists.$inferInsert;
+
+export type ValidationWaiver = typeof validationWaivers.$inferSelect;
+export type InsertValidationWaiver = typeof validationWaivers.$inferInsert;
+
 // User role constants
 export const userRoles = [
   "super_admin",
@@ -211,6 +329,23 @@ export const userRoles = [
   "reporting_entity",
 ] as const;
 
+// Background job types and states
+export const jobTypes = ["validation", "schema_extraction", "xbrl_report"] as const;
+export type JobType = (typeof jobTypes)[number];
+export const jobStatuses = ["queued", "running", "completed", "failed", "cancelled"] as const;
+export type JobStatus = (typeof jobStatuses)[number];
+
+// Validation rule severities, least to most serious
+export const validationSeverities = ["info", "warning", "error", "blocking"] as const;
+export type ValidationSeverity = (typeof validationSeverities)[number];
+
+export const waiverStatuses = ["pending", "accepted", "rejected"] as const;
+export type WaiverStatus = (typeof waiverStatuses)[number];
+
+// Template version lifecycle, in order
+export const templateLifecycleStatuses = ["draft", "review", "published", "retired"] as const;
+export type TemplateLifecycleStatus = (typeof templateLifecycleStatuses)[number];
+
 // Category constants
 export const categories = ["banking", "nbfc", "stock_exchange"] as const;
 
@@ -0,0 +1,128 @@
+/**
+ * Submission outcomes once accepted waivers are taken out.
+ * Run with `npm test`.
+ */
+
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  getValidationOutcome,
+  getWaivedOutcome,
+  getWaivedResultIds,
+  isFailingSeverity,
+  isWaivableSeverity,
+  parseValidationTotals,
+  toValidationSeverity,
+} from "./validationOutcome";
+
+const results = [
+  { id: 1, isValid: false, severity: "error" },
+  { id: 2, isValid: false, severity: "warning" },
+  { id: 3, isValid: false, severity: "blocking" },
+  { id: 4, isValid: false, severity: "info" },
+  { id: 5, isValid: true, severity: "error" },
+];
+
+describe("severities", () => {
+  test("reads severity names in any case, with a fallback", () => {
+    assert.equal(toValidationSeverity(" Blocking "), "blocking");
+    assert.equal(toValidationSeverity("fatal"), "error");
+    assert.equal(toValidationSeverity(undefined, "warning"), "warning");
+  });
+
+  test("only errors and blocking failures fail a submission", () => {
+    assert.deepEqual(["info", "warning", "error", "blocking"].map(isFailingSeverity), [false, false, true, true]);
+  });
+
+  test("blocking failures can't be waived", () => {
+    assert.deepEqual(["info", "warning", "error", "blocking"].map(isWaivableSeverity), [false, true, true, false]);
+  });
+});
+
+describe("getWaivedResultIds", () => {
+  test("takes accepted waivers that still point at a result", () => {
+    const waivers = [
+      { resultId: 1, status: "accepted" },
+      { resultId: 2, status: "pending" },
+      { resultId: 3, status: "rejected" },
+      // Superseded: re-validation no longer reports the check
+      { resultId: null, status: "accepted" },
+    ];
+    assert.deepEqual(getWaivedResultIds(waivers), [1]);
+  });
+});
+
+describe("getValidationOutcome", () => {
+  test("counts failures by severity", () => {
+    assert.deepEqual(getValidationOutcome(results), {
+      status: "failed",
+      errorCount: 2,
+      warningCount: 1,
+      infoCount: 1,
+      blockingCount: 1,
+      waivedCount: 0,
+    });
+  });
+
+  test("waived errors and warnings don't count", () => {
+    const outcome = getValidationOutcome(results.filter((r) => r.id !== 3), [1, 2]);
+    assert.equal(outcome.status, "passed");
+    assert.equal(outcome.errorCount, 0);
+    assert.equal(outcome.warningCount, 0);
+    assert.equal(outcome.waivedCount, 2);
+  });
+
+  test("a waiver of a blocking failure is ignored", () => {
+    const outcome = getValidationOutcome(results, [1, 3]);
+    assert.equal(outcome.status, "failed");
+    assert.equal(outcome.errorCount, 1);
+    assert.equal(outcome.blockingCount, 1);
+    assert.equal(outcome.waivedCount, 1);
+  });
+});
+
+describe("getWaivedOutcome", () => {
+  const waivers = [{ resultId: 1, status: "accepted" }];
+
+  test("counts the stored results when the run's totals aren't known", () => {
+    const outcome = getWaivedOutcome(results.slice(0, 2), waivers);
+    assert.equal(outcome.status, "passed");
+    assert.equal(outcome.errorCount, 0);
+    assert.equal(outcome.warningCount, 1);
+  });
+
+  test("takes waived checks off totals that include failures not stored", () => {
+    // A streamed run stored results 1 and 2 of 60,000 errors and 3 warnings
+    const outcome = getWaivedOutcome(results.slice(0, 2), waivers, {
+      errorCount: 60000,
+      warningCount: 3,
+      infoCount: 0,
+      blockingCount: 0,
+    });
+    assert.equal(outcome.status, "failed");
+    assert.equal(outcome.errorCount, 59999);
+    assert.equal(outcome.warningCount, 3);
+    assert.equal(outcome.waivedCount, 1);
+  });
+
+  test("passes once every error in the totals is waived", () => {
+    const outcome = getWaivedOutcome(results.slice(0, 2), waivers, {
+      errorCount: 1,
+      warningCount: 1,
+      infoCount: 0,
+      blockingCount: 0,
+    });
+    assert.equal(outcome.status, "passed");
+    assert.equal(outcome.errorCount, 0);
+  });
+});
+
+describe("parseValidationTotals", () => {
+  test("reads stored totals and rejects incomplete or unreadable ones", () => {
+    const totals = { errorCount: 1, warningCount: 2, infoCount: 0, blockingCount: 0 };
+    assert.deepEqual(parseValidationTotals(JSON.stringify(totals)), totals);
+    assert.equal(parseValidationTotals('{"errorCount":1}'), null);
+    assert.equal(parseValidationTotals("not json"), null);
+    assert.equal(parseValidationTotals(null), null);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Severity levels and submission outcomes shared by the server and client.
+ *
+ * - info: reported for the entity's attention only
+ * - warning: reported; does not fail the submission
+ * - error: fails the submission unless IFSCA accepts a waiver for it
+ * - blocking: fails the submission and cannot be waived
+ */
+
+import { validationSeverities, type ValidationSeverity } from "./schema";
+
+/**
+ * Severity named in a rule file or request, or the fallback when it isn't one
+ */
+export function toValidationSeverity(
+  value: unknown,
+  fallback: ValidationSeverity = "error"
+): ValidationSeverity {
+  const severity = String(value ?? "").trim().toLowerCase();
+  return (validationSeverities as readonly string[]).includes(severity)
+    ? (severity as ValidationSeverity)
+    : fallback;
+}
+
+/**
+ * Failed checks of these severities fail the submission
+ */
+export function isFailingSeverity(severity: string): boolean {
+  return severity === "error" || severity === "blocking";
+}
+
+/**
+ * Failed checks of these severities can be waived
+ */
+export function isWaivableSeverity(severity: string): boolean {
+  return severity === "warning" || severity === "error";
+}
+
+export interface ValidationOutcome {
+  status: "passed" | "failed";
+  /** Failures that fail the submission, blocking ones included */
+  errorCount: number;
+  warningCount: number;
+  infoCount: number;
+  blockingCount: number;
+  /** Failures not counted because a waiver was accepted */
+  waivedCount: number;
+}
+
+/**
+ * Failure counts of a whole validation run, as stored in submissions.validation_totals
+ */
+export type ValidationTotals = Pick<ValidationOutcome, "errorCount" | "warningCount" | "infoCount" | "blockingCount">;
+
+/**
+ * Results taken out of the counts by accepted waivers. A superseded waiver
+ * (its check no longer reported after re-validation) waives nothing.
+ */
+export function getWaivedResultIds(
+  waivers: Array<{ resultId: number | null; status: string }>
+): number[] {
+  return waivers
+    .filter((waiver) => waiver.status === "accepted" && waiver.resultId !== null)
+    .map((waiver) => waiver.resultId as number);
+}
+
+/**
+ * Outcome of a submission's stored results once accepted waivers are taken out
+ */
+export function getValidationOutcome(
+  results: Array<{ id?: number; isValid: boolean; severity: string }>,
+  waivedResultIds: Iterable<number> = []
+): ValidationOutcome {
+  const waived = new Set(waivedResultIds);
+  const outcome: ValidationOutcome = {
+    status: "passed",
+    errorCount: 0,
+    warningCount: 0,
+    infoCount: 0,
+    blockingCount: 0,
+    waivedCount: 0,
+  };
+
+  for (const result of results) {
+    if (result.isValid) continue;
+    if (result.id !== undefined && waived.has(result.id) && isWaivableSeverity(result.severity)) {
+      outcome.waivedCount++;
+      continue;
+    }
+
+    if (result.severity === "info") outcome.infoCount++;
+    else if (result.severity === "warning") outcome.warningCount++;
+    else {
+      outcome.errorCount++;
+      if (result.severity === "blocking") outcome.blockingCount++;
+    }
+  }
+
+  outcome.status = outcome.errorCount > 0 ? "failed" : "passed";
+  return outcome;
+}
+
+/**
+ * Outcome of a validation run once accepted waivers are taken out. Streamed runs
+ * store only their first failures, so when the run's totals are known the waived
+ * checks come off those rather than off a count of the stored results.
+ */
+export function getWaivedOutcome(
+  results: Array<{ id?: number; isValid: boolean; severity: string }>,
+  waivers: Array<{ resultId: number | null; status: string }>,
+  totals?: ValidationTotals | null
+): ValidationOutcome {
+  const outcome = getValidationOutcome(results, getWaivedResultIds(waivers));
+  if (!totals) return outcome;
+
+  const unwaived = getValidationOutcome(results);
+  const adjusted: ValidationOutcome = {
+    ...outcome,
+    errorCount: totals.errorCount - (unwaived.errorCount - outcome.errorCount),
+    warningCount: totals.warningCount - (unwaived.warningCount - outcome.warningCount),
+    infoCount: totals.infoCount - (unwaived.infoCount - outcome.infoCount),
+    blockingCount: totals.blockingCount - (unwaived.blockingCount - outcome.blockingCount),
+  };
+  adjusted.status = adjusted.errorCount > 0 ? "failed" : "passed";
+  return adjusted;
+}
+
+/**
+ * Totals stored with a submission; null when unreadable or not recorded
+ */
+export function parseValidationTotals(stored?: string | null): ValidationTotals | null {
+  if (!stored) return null;
+  try {
+    const totals = JSON.parse(stored);
+    return ["errorCount", "warningCount", "infoCount", "blockingCount"].every((key) => typeof totals?.[key] === "number")
+      ? totals
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Carrying values of the last approved filing into a new workbook.
+ * Run with `npm test`.
+ */
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ExcelJS from 'exceljs';
+import { CarryForward } from './CarryForward';
+
+let tmpDir: string;
+let previousFiling: string;
+
+before(async () => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'carry-forward-'));
+
+  const workbook = new ExcelJS.Workbook();
+  const details = workbook.addWorksheet('Details');
+  details.getCell('B2').value = 'Acme Bank';
+  details.getCell('B3').value = { richText: [{ text: 'Mumbai ' }, { text: 'Branch' }] };
+  details.getCell('B4').value = new Date(Date.UTC(2024, 2, 31));
+  const balances = workbook.addWorksheet('Balance Sheet');
+  balances.getCell('D5').value = 100;
+  balances.getCell('D6').value = { formula: 'D5*2', result: 200 } as ExcelJS.CellFormulaValue;
+  balances.getCell('D8').value = { error: '#DIV/0!' } as ExcelJS.CellErrorValue;
+  previousFiling = path.join(tmpDir, 'previous.xlsx');
+  await workbook.xlsx.writeFile(previousFiling);
+});
+
+after(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('CarryForward.parse', () => {
+  test('reads stored mappings and ignores anything unreadable', () => {
+    assert.deepEqual(CarryForward.parse('[{"source":"B2","target":"B2"}]'), [{ source: 'B2', target: 'B2' }]);
+    assert.deepEqual(CarryForward.parse('{"source":"B2"}'), []);
+    assert.deepEqual(CarryForward.parse('not json'), []);
+    assert.deepEqual(CarryForward.parse(null), []);
+  });
+});
+
+describe('CarryForward.validate', () => {
+  test('accepts cells, ranges of the same size, and one cell filling a range', () => {
+    assert.deepEqual(CarryForward.validate([
+      { source: 'B2', target: 'C2', description: 'Entity name' },
+      { source: "'Balance Sheet'!D5:D20", target: "'Balance Sheet'!C5:C20" },
+      { source: 'b2', target: 'A1:A3' },
+      { source: 'D20:D5', target: 'C5:C20' }
+    ]), []);
+  });
+
+  test('reports ranges of different sizes', () => {
+    assert.deepEqual(CarryForward.validate([{ source: 'D5:D20', target: 'C5:D20' }]), [
+      'Mapping 1: source is 16x1 cells but target is 16x2'
+    ]);
+  });
+
+  test('reports missing and unreadable references', () => {
+    assert.deepEqual(CarryForward.validate({ source: 'B2', target: 'B2' }), [
+      'carryForward must be a list of { source, target } mappings'
+    ]);
+    assert.deepEqual(CarryForward.validate([{ source: 'B2' }, null]), [
+      'Mapping 1: source and target are required',
+      'Mapping 2: source and target are required'
+    ]);
+    const errors = CarryForward.validate([{ source: 'B:B', target: 'B2', description: 5 }]);
+    assert.equal(errors.length, 2);
+    assert.match(errors[0], /description must be text/);
+    assert.match(errors[1], /source "B:B" is not a cell or range/);
+  });
+});
+
+describe('CarryForward.readValues', () => {
+  test('copies cells into their targets, unwrapping rich text and formula results', async () => {
+    const values = await CarryForward.readValues(previousFiling, [
+      { source: "'Details'!B2:B4", target: 'C2:C4' },
+      { source: "'balance sheet'!D5:D6", target: "'Opening Balances'!E10:E11" }
+    ]);
+    assert.deepEqual(values, [
+      { sheetName: undefined, address: 'C2', value: 'Acme Bank' },
+      { sheetName: undefined, address: 'C3', value: 'Mumbai Branch' },
+      { sheetName: undefined, address: 'C4', value: new Date(Date.UTC(2024, 2, 31)) },
+      { sheetName: 'Opening Balances', address: 'E10', value: 100 },
+      { sheetName: 'Opening Balances', address: 'E11', value: 200 }
+    ]);
+  });
+
+  test('repeats a single source cell across the target range', async () => {
+    const values = await CarryForward.readValues(previousFiling, [{ source: 'B2', target: 'A1:B1' }]);
+    assert.deepEqual(values.map(v => [v.address, v.value]), [['A1', 'Acme Bank'], ['B1', 'Acme Bank']]);
+  });
+
+  test('leaves out empty cells, errors and sheets the filing lacks', async () => {
+    const values = await CarryForward.readValues(previousFiling, [
+      { source: "'Balance Sheet'!D7:D8", target: 'A1:A2' },
+      { source: "'Cash Flow'!B2", target: 'B2' }
+    ]);
+    assert.deepEqual(values, []);
+  });
+
+  test('reads a CSV filing as one sheet, whatever the source names', async () => {
+    const csvFiling = path.join(tmpDir, 'previous.csv');
+    fs.writeFileSync(csvFiling, 'Entity,Acme Bank\nCapital,5000\n');
+    const values = await CarryForward.readValues(csvFiling, [{ source: "'Details'!B1:B2", target: 'B1:B2' }]);
+    assert.deepEqual(values.map(v => v.value), ['Acme Bank', 5000]);
+  });
+});
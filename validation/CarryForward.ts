@@ -0,0 +1,173 @@
+/**
+ * Carry-forward: pre-filling a return from the entity's last approved filing.
+ *
+ * Each template can list cell mappings in templates.carry_forward - static
+ * entity details that repeat every period, or closing balances that become
+ * this period's opening balances. A mapping copies a cell or range of the
+ * previous submission file into a cell or range of the new workbook.
+ */
+
+import * as path from 'path';
+import ExcelJS from 'exceljs';
+import { columnToNumber, numberToColumn, parseRangeAddress, splitSheetAddress } from './CellAddress';
+
+export interface CarryForwardMapping {
+  /** Cell or range of the previous filing, e.g. "'Balance Sheet'!D5:D20"; the first sheet without a prefix */
+  source: string;
+  /** Cell or range to fill: the same size as the source, or any size when the source is one cell */
+  target: string;
+  description?: string;
+}
+
+/** A value to write into a new workbook */
+export interface CarriedValue {
+  /** Undefined for the first sheet */
+  sheetName?: string;
+  address: string;
+  value: string | number | boolean | Date;
+}
+
+interface CellBlock {
+  sheetName?: string;
+  startColumn: number;
+  startRow: number;
+  endColumn: number;
+  endRow: number;
+}
+
+export class CarryForward {
+  /**
+   * Mappings stored in templates.carry_forward; none when unset or unreadable
+   */
+  static parse(stored: string | null | undefined): CarryForwardMapping[] {
+    if (!stored) return [];
+    try {
+      const mappings = JSON.parse(stored);
+      return Array.isArray(mappings) ? mappings : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Problems with mappings sent to be saved; empty when they are usable
+   */
+  static validate(mappings: unknown): string[] {
+    if (!Array.isArray(mappings)) return ['carryForward must be a list of { source, target } mappings'];
+
+    const errors: string[] = [];
+    mappings.forEach((mapping, i) => {
+      const label = `Mapping ${i + 1}`;
+      if (typeof mapping !== 'object' || mapping === null ||
+          typeof mapping.source !== 'string' || typeof mapping.target !== 'string') {
+        errors.push(`${label}: source and target are required`);
+        return;
+      }
+      if (mapping.description !== undefined && typeof mapping.description !== 'string') {
+        errors.push(`${label}: description must be text`);
+      }
+
+      const source = this.toBlock(mapping.source);
+      const target = this.toBlock(mapping.target);
+      if (!source) errors.push(`${label}: source "${mapping.source}" is not a cell or range such as B5 or 'Balance Sheet'!B5:D20`);
+      if (!target) errors.push(`${label}: target "${mapping.target}" is not a cell or range such as B5 or 'Balance Sheet'!B5:D20`);
+      if (!source || !target || this.isSingleCell(source)) return;
+
+      const [sourceRows, sourceColumns] = this.size(source);
+      const [targetRows, targetColumns] = this.size(target);
+      if (sourceRows !== targetRows || sourceColumns !== targetColumns) {
+        errors.push(
+          `${label}: source is ${sourceRows}x${sourceColumns} cells but target is ${targetRows}x${targetColumns}`
+        );
+      }
+    });
+    return errors;
+  }
+
+  /**
+   * Values of a previous submission file to write into the new workbook.
+   * Empty source cells are left out, and so are mappings whose source sheet
+   * the file doesn't have. Formulas give the values they last calculated.
+   */
+  static async readValues(filePath: string, mappings: CarryForwardMapping[]): Promise<CarriedValue[]> {
+    const workbook = new ExcelJS.Workbook();
+    const isCsv = path.extname(filePath).toLowerCase() === '.csv';
+    if (isCsv) {
+      await workbook.csv.readFile(filePath);
+    } else {
+      await workbook.xlsx.readFile(filePath);
+    }
+
+    const values: CarriedValue[] = [];
+    for (const mapping of mappings) {
+      const source = this.toBlock(mapping.source);
+      const target = this.toBlock(mapping.target);
+      if (!source || !target) continue;
+
+      // A CSV file has one unnamed sheet
+      const worksheet = source.sheetName && !isCsv
+        ? workbook.worksheets.find(ws => ws.name.toLowerCase() === source.sheetName!.toLowerCase())
+        : workbook.worksheets[0];
+      if (!worksheet) continue;
+
+      const single = this.isSingleCell(source);
+      for (let row = target.startRow; row <= target.endRow; row++) {
+        for (let col = target.startColumn; col <= target.endColumn; col++) {
+          const sourceRow = single ? source.startRow : source.startRow + row - target.startRow;
+          const sourceColumn = single ? source.startColumn : source.startColumn + col - target.startColumn;
+          const value = this.cellValue(worksheet.getCell(sourceRow, sourceColumn).value);
+          if (value !== null) {
+            values.push({ sheetName: target.sheetName, address: `${numberToColumn(col)}${row}`, value });
+          }
+        }
+      }
+    }
+    return values;
+  }
+
+  /**
+   * A cell or range with rows, e.g. "B5" or "'Balance Sheet'!B5:D20"
+   */
+  private static toBlock(reference: string): CellBlock | null {
+    const { sheetName, address } = splitSheetAddress(reference.trim());
+    const range = parseRangeAddress(address);
+    if (!range || range.startRow === undefined || range.endRow === undefined) return null;
+
+    const startColumn = columnToNumber(range.startColumn);
+    const endColumn = columnToNumber(range.endColumn);
+    return {
+      sheetName,
+      startColumn: Math.min(startColumn, endColumn),
+      startRow: Math.min(range.startRow, range.endRow),
+      endColumn: Math.max(startColumn, endColumn),
+      endRow: Math.max(range.startRow, range.endRow)
+    };
+  }
+
+  private static isSingleCell(block: CellBlock): boolean {
+    return block.startRow === block.endRow && block.startColumn === block.endColumn;
+  }
+
+  private static size(block: CellBlock): [number, number] {
+    return [block.endRow - block.startRow + 1, block.endColumn - block.startColumn + 1];
+  }
+
+  /**
+   * What a cell holds, unwrapping formula results, rich text and hyperlinks;
+   * null for empty cells and errors
+   */
+  private static cellValue(value: unknown): CarriedValue['value'] | null {
+    if (value === null || value === undefined || value === '') return null;
+    if (value instanceof Date || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      return value;
+    }
+    if (typeof value === 'object') {
+      if ('result' in value) return this.cellValue((value as { result: unknown }).result);
+      if ('richText' in value) {
+        return this.cellValue((value as ExcelJS.CellRichTextValue).richText.map(part => part.text).join(''));
+      }
+      if ('text' in value) return this.cellValue((value as { text: unknown }).text);
+    }
+    return null;
+  }
+}
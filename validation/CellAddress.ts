@@ -0,0 +1,258 @@
+/**
+ * Cell addressing shared by the validation engine, its rule handlers, the
+ * expression evaluator and the rules parser.
+ *
+ * Addresses use Excel A1 notation with 1-based rows. Sheets are held as
+ * `data[row - 1][column - 1]`, so row 1 is the header row of tabular sheets.
+ */
+
+export interface SheetData {
+  name: string;
+  index: number;
+  data: any[][];
+  rowCount: number;
+  columnCount: number;
+  /**
+   * Set when the sheet is a window of a streamed file: only rows firstRow to
+   * data.length (plus the header row) are loaded, and cells are read from them only
+   */
+  firstRow?: number;
+}
+
+export interface SheetCell {
+  reference: string;
+  value: any;
+  row: number;
+  column: string;
+}
+
+export interface RangeAddress {
+  startColumn: string;
+  startRow?: number;
+  endColumn: string;
+  endRow?: number;
+}
+
+/** Rule fields that select cells (a subset of validationRules columns) */
+export interface CellSelector {
+  field: string;
+  rowRange?: string | null; // e.g., "2-100", "5", "10-*"
+  columnRange?: string | null; // e.g., "A-Z", "B", "C-E"
+  cellRange?: string | null; // e.g., "A2:Z100", "B5", "C1:C50"
+}
+
+const CELL_PATTERN = /^([A-Z]{1,3})(\d+)$/;
+const COLUMN_PATTERN = /^[A-Z]{1,3}$/;
+const PLAIN_SHEET_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Convert column letter to number (A=1, B=2, etc.)
+ */
+export function columnToNumber(col: string): number {
+  let result = 0;
+  for (let i = 0; i < col.length; i++) {
+    result = result * 26 + (col.charCodeAt(i) - 64);
+  }
+  return result;
+}
+
+/**
+ * Convert number to column letter (1=A, 2=B, etc.)
+ */
+export function numberToColumn(num: number): string {
+  let result = '';
+  while (num > 0) {
+    num--;
+    result = String.fromCharCode(65 + (num % 26)) + result;
+    num = Math.floor(num / 26);
+  }
+  return result;
+}
+
+/**
+ * Parse a single cell address such as "B5"
+ */
+export function parseCellAddress(address: string): { column: string; row: number } | null {
+  const match = address?.trim().toUpperCase().match(CELL_PATTERN);
+  return match ? { column: match[1], row: parseInt(match[2]) } : null;
+}
+
+/**
+ * Parse "A2:C10", "C:C", "B5:B" or a single cell "B5"
+ */
+export function parseRangeAddress(address: string): RangeAddress | null {
+  const [start, end = start] = address.trim().toUpperCase().split(':');
+  const startMatch = start.match(/^([A-Z]{1,3})(\d+)?$/);
+  const endMatch = end.match(/^([A-Z]{1,3})(\d+)?$/);
+  if (!startMatch || !endMatch) return null;
+  return {
+    startColumn: startMatch[1],
+    startRow: startMatch[2] ? parseInt(startMatch[2]) : undefined,
+    endColumn: endMatch[1],
+    endRow: endMatch[2] ? parseInt(endMatch[2]) : undefined
+  };
+}
+
+/**
+ * Split an optional sheet prefix from an address ("'Balance Sheet'!B12" -> sheet + "B12")
+ */
+export function splitSheetAddress(field: string): { sheetName?: string; address: string } {
+  const match = field.match(/^(?:'([^']+)'|([^!]+))!(.+)$/);
+  if (!match) return { address: field };
+  return { sheetName: (match[1] || match[2]).trim(), address: match[3].trim() };
+}
+
+/**
+ * Format a sheet-qualified reference, quoting sheet names that need it
+ */
+export function formatSheetReference(sheetName: string | undefined, address: string): string {
+  if (!sheetName) return address;
+  return PLAIN_SHEET_NAME.test(sheetName) ? `${sheetName}!${address}` : `'${sheetName}'!${address}`;
+}
+
+/**
+ * Parse a sheet-qualified column list such as "Holdings!B,C" or "'Annexure 1'!A"
+ */
+export function parseSheetColumns(spec: string): { sheet?: string; columns: string[] } | null {
+  const match = spec?.trim().match(/^(?:'([^']+)'!|([^!]+)!)?\s*([A-Za-z]{1,3}(?:\s*[,+]\s*[A-Za-z]{1,3})*)$/);
+  if (!match) return null;
+  return {
+    sheet: (match[1] || match[2])?.trim(),
+    columns: match[3].split(/[,+]/).map(col => col.trim().toUpperCase())
+  };
+}
+
+/**
+ * Sheet named by a rule field: "Sheet!B5", "'Annexure 1'!B5" or the
+ * parser's "Annexure 1.Column" form. Only names of existing sheets count, so
+ * headers containing dots or "!" are left alone.
+ */
+export function getFieldSheetName(field: string, sheetNames: string[]): string | undefined {
+  const { sheetName } = splitSheetAddress(field);
+  const lowered = field.toLowerCase();
+  const candidates = sheetName ? [sheetName] : [];
+  candidates.push(...sheetNames.filter(name => lowered.startsWith(`${name.toLowerCase()}.`)));
+  return candidates.find(name => sheetNames.some(s => s.toLowerCase() === name.toLowerCase()));
+}
+
+/**
+ * Remove the sheet prefix from a field when it names the given sheet
+ */
+export function stripSheetPrefix(field: string, sheetName: string): string {
+  const { sheetName: prefix, address } = splitSheetAddress(field);
+  if (prefix && prefix.toLowerCase() === sheetName.toLowerCase()) return address;
+  if (field.toLowerCase().startsWith(`${sheetName.toLowerCase()}.`)) return field.slice(sheetName.length + 1).trim();
+  return field;
+}
+
+/**
+ * Raw value of a cell
+ */
+export function getCellValue(sheet: SheetData, column: string, row: number): any {
+  return sheet.data[row - 1]?.[columnToNumber(column) - 1];
+}
+
+/**
+ * First and last data row for a rule - row 1 is the header unless the
+ * rule's row range says otherwise
+ */
+export function getDataRowBounds(selector: Pick<CellSelector, 'rowRange'>, sheet: SheetData): [number, number] {
+  let startRow = 2;
+  let endRow = sheet.data.length;
+  if (selector.rowRange) {
+    const [start, end] = String(selector.rowRange).split('-');
+    startRow = parseInt(start) || startRow;
+    endRow = end === undefined ? startRow : end === '*' ? endRow : parseInt(end) || endRow;
+  }
+  if (sheet.firstRow !== undefined) {
+    return [Math.max(startRow, sheet.firstRow), Math.min(endRow, sheet.data.length)];
+  }
+  return [startRow, endRow];
+}
+
+/**
+ * Column number of a header in row 1 (case-insensitive), or 0 when absent
+ */
+export function findHeaderColumn(sheet: SheetData, header: string): number {
+  const target = header.trim().toLowerCase();
+  const headerRow = sheet.data[0] || [];
+  for (let col = 0; col < headerRow.length; col++) {
+    if (String(headerRow[col] ?? '').trim().toLowerCase() === target) return col + 1;
+  }
+  return 0;
+}
+
+/**
+ * Cells selected by a rule on a sheet. In order of precedence:
+ * - cellRange: "A2:C10" or "B5"
+ * - rowRange / columnRange: rows default to the data rows, columns to the header width
+ * - field: a cell ("B5"), a range ("A2:A100", "C:C"), a header name or a
+ *   column letter, optionally prefixed with the sheet name
+ *
+ * Single cells are always returned, even beyond the data, so required checks
+ * can report them; ranges stop at the sheet's last row. Streamed windows
+ * only return cells inside the window.
+ */
+export function resolveCells(selector: CellSelector, sheet: SheetData): SheetCell[] {
+  if (selector.cellRange) {
+    const range = parseRangeAddress(stripSheetPrefix(selector.cellRange, sheet.name));
+    return range ? collectRange(sheet, range) : [];
+  }
+
+  if (selector.rowRange || selector.columnRange) {
+    const [startRow, endRow] = getDataRowBounds(selector, sheet);
+    let startColumn = 'A';
+    let endColumn = numberToColumn(Math.max(sheet.data[0]?.length || 1, 1));
+    if (selector.columnRange) {
+      const [start, end = start] = String(selector.columnRange).toUpperCase().split('-');
+      startColumn = start.trim();
+      endColumn = end.trim();
+    }
+    return collectRange(sheet, { startColumn, startRow, endColumn, endRow });
+  }
+
+  const field = stripSheetPrefix(selector.field || '', sheet.name).trim();
+
+  if (field.includes(':') || CELL_PATTERN.test(field.toUpperCase())) {
+    const range = parseRangeAddress(field);
+    if (range) return collectRange(sheet, range);
+  }
+
+  // Header name first - a header may itself look like a column letter
+  let column = findHeaderColumn(sheet, field);
+  if (!column && COLUMN_PATTERN.test(field.toUpperCase())) {
+    column = columnToNumber(field.toUpperCase());
+  }
+  if (!column) return [];
+
+  const letter = numberToColumn(column);
+  return collectRange(sheet, { startColumn: letter, startRow: 2, endColumn: letter, endRow: sheet.data.length });
+}
+
+function collectRange(sheet: SheetData, range: RangeAddress): SheetCell[] {
+  const cells: SheetCell[] = [];
+  const isSingleCell = range.startRow !== undefined && range.startColumn === range.endColumn && range.startRow === range.endRow;
+
+  let startRow = range.startRow ?? 2;
+  let endRow = isSingleCell ? startRow : Math.min(range.endRow ?? sheet.data.length, sheet.data.length);
+  if (sheet.firstRow !== undefined) {
+    startRow = Math.max(startRow, sheet.firstRow);
+    endRow = Math.min(endRow, sheet.data.length);
+  }
+  const startCol = columnToNumber(range.startColumn);
+  const endCol = columnToNumber(range.endColumn);
+
+  for (let row = startRow; row <= endRow; row++) {
+    for (let col = Math.min(startCol, endCol); col <= Math.max(startCol, endCol); col++) {
+      const column = numberToColumn(col);
+      cells.push({
+        reference: `${column}${row}`,
+        value: sheet.data[row - 1]?.[col - 1],
+        row,
+        column
+      });
+    }
+  }
+
+  return cells;
+}
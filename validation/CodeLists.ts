@@ -0,0 +1,201 @@
+/**
+ * Reference-data code lists used by format rules.
+ *
+ * Lists are versioned in the code_lists table and referenced from rules as
+ * "inList:<name>" (e.g. "inList:currency"). Identifiers with a defined
+ * structure - LEIs and IFSC codes - are checked by algorithm instead.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import csv from 'csv-parser';
+import ExcelJS from 'exceljs';
+
+export interface CodeListEntry {
+  code: string;
+  label?: string;
+}
+
+export interface ParsedCodeList {
+  entries: CodeListEntry[];
+  /** Codes listed more than once; only the first is kept */
+  duplicates: string[];
+}
+
+// ISO 4217 currency codes, including funds and precious-metal codes
+const ISO_4217 = (
+  'AED AFN ALL AMD AOA ARS AUD AWG AZN BAM BBD BDT BHD BIF BMD BND BOB BOV BRL BSD BTN BWP ' +
+  'BYN BZD CAD CDF CHE CHF CHW CLF CLP CNY COP COU CRC CUP CVE CZK DJF DKK DOP DZD EGP ERN ' +
+  'ETB EUR FJD FKP GBP GEL GHS GIP GMD GNF GTQ GYD HKD HNL HTG HUF IDR ILS INR IQD IRR ISK ' +
+  'JMD JOD JPY KES KGS KHR KMF KPW KRW KWD KYD KZT LAK LBP LKR LRD LSL LYD MAD MDL MGA MKD ' +
+  'MMK MNT MOP MRU MUR MVR MWK MXN MXV MYR MZN NAD NGN NIO NOK NPR NZD OMR PAB PEN PGK PHP ' +
+  'PKR PLN PYG QAR RON RSD RUB RWF SAR SBD SCR SDG SEK SGD SHP SLE SOS SRD SSP STN SVC SYP ' +
+  'SZL THB TJS TMT TND TOP TRY TTD TWD TZS UAH UGX USD USN UYI UYU UYW UZS VED VES VND VUV ' +
+  'WST XAF XAG XAU XBA XBB XBC XBD XCD XCG XDR XOF XPD XPF XPT XSU XTS XUA XXX YER ZAR ZMW ZWG'
+).split(' ');
+
+// ISO 3166-1 alpha-2 country codes
+const ISO_3166 = (
+  'AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ ' +
+  'BR BS BT BV BW BY BZ CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM ' +
+  'DO DZ EC EE EG EH ER ES ET FI FJ FK FM FO FR GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS ' +
+  'GT GU GW GY HK HM HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN ' +
+  'KP KR KW KY KZ LA LB LC LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ ' +
+  'MR MS MT MU MV MW MX MY MZ NA NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM ' +
+  'PN PR PS PT PW PY QA RE RO RS RU RW SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV ' +
+  'SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO TR TT TV TW TZ UA UG UM US UY UZ VA VC VE VG VI ' +
+  'VN VU WF WS YE YT ZA ZM ZW'
+).split(' ');
+
+/**
+ * Lists created by database setup as version 1. Super admins upload newer
+ * versions as the standards change.
+ */
+export const BUILT_IN_CODE_LISTS: Array<{ name: string; description: string; entries: CodeListEntry[] }> = [
+  {
+    name: 'currency',
+    description: 'ISO 4217 currency codes',
+    entries: ISO_4217.map(code => ({ code }))
+  },
+  {
+    name: 'country',
+    description: 'ISO 3166-1 alpha-2 country codes',
+    entries: ISO_3166.map(code => ({ code }))
+  }
+];
+
+/**
+ * Identifier formats checked by algorithm, usable as format conditions
+ */
+export const CODE_FORMATS: Record<string, (value: string) => boolean> = {
+  lei: value => CodeLists.isValidLei(value),
+  ifsc: value => /^[A-Z]{4}0[A-Z0-9]{6}$/.test(value.toUpperCase())
+};
+
+export class CodeLists {
+  /**
+   * List name referenced by an "inList:<name>" condition, if it is one
+   */
+  static getReferencedList(condition: string): string | null {
+    const match = condition.trim().match(/^inList:\s*(.+)$/i);
+    return match ? this.normalizeName(match[1]) : null;
+  }
+
+  /**
+   * List names are stored lower-case with underscores, like category names
+   */
+  static normalizeName(name: string): string {
+    return name.trim().toLowerCase().replace(/\s+/g, '_');
+  }
+
+  /**
+   * Codes are matched without regard to case or surrounding spaces
+   */
+  static normalizeCode(code: unknown): string {
+    return String(code ?? '').trim().toUpperCase();
+  }
+
+  /**
+   * ISO 17442 LEI: 18 alphanumeric characters and two check digits, valid
+   * when the code read as a base-36 number is 1 modulo 97
+   */
+  static isValidLei(value: string): boolean {
+    const lei = value.trim().toUpperCase();
+    if (!/^[A-Z0-9]{18}[0-9]{2}$/.test(lei)) return false;
+
+    let remainder = 0;
+    for (const char of lei) {
+      const digits = parseInt(char, 36).toString();
+      for (const digit of digits) {
+        remainder = (remainder * 10 + Number(digit)) % 97;
+      }
+    }
+    return remainder === 1;
+  }
+
+  /**
+   * Read an uploaded list. CSV and Excel files have the code in the first
+   * column and an optional label in the second, with an optional "code"
+   * header; JSON files hold an array of codes or { code, label } objects;
+   * text files have one code per line.
+   */
+  static async parseFile(filePath: string, fileName: string = filePath): Promise<ParsedCodeList> {
+    const extension = path.extname(fileName).toLowerCase();
+    let rows: Array<[unknown, unknown?]>;
+
+    switch (extension) {
+      case '.csv':
+        rows = await this.readCsvRows(filePath);
+        break;
+      case '.xlsx':
+      case '.xls':
+        rows = await this.readExcelRows(filePath);
+        break;
+      case '.json': {
+        const content = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        const items = Array.isArray(content) ? content : content?.entries;
+        if (!Array.isArray(items)) {
+          throw new Error('JSON code lists must be an array of codes or { code, label } objects');
+        }
+        rows = items.map(item => typeof item === 'object' && item !== null ? [item.code, item.label] : [item]);
+        break;
+      }
+      case '.txt':
+        rows = fs.readFileSync(filePath, 'utf8').split(/\r?\n/).map(line => [line]);
+        break;
+      default:
+        throw new Error(`Unsupported code list format: ${extension}`);
+    }
+
+    return this.toEntries(rows);
+  }
+
+  private static toEntries(rows: Array<[unknown, unknown?]>): ParsedCodeList {
+    if (rows.length > 0 && String(rows[0][0] ?? '').trim().toLowerCase() === 'code') {
+      rows = rows.slice(1);
+    }
+
+    const seen = new Set<string>();
+    const duplicates = new Set<string>();
+    const entries: CodeListEntry[] = [];
+
+    for (const [rawCode, rawLabel] of rows) {
+      const code = String(rawCode ?? '').trim();
+      if (code === '') continue;
+
+      const key = this.normalizeCode(code);
+      if (seen.has(key)) {
+        duplicates.add(code);
+        continue;
+      }
+      seen.add(key);
+
+      const label = String(rawLabel ?? '').trim();
+      entries.push(label ? { code, label } : { code });
+    }
+
+    return { entries, duplicates: Array.from(duplicates) };
+  }
+
+  private static readCsvRows(filePath: string): Promise<Array<[unknown, unknown?]>> {
+    return new Promise((resolve, reject) => {
+      const rows: Array<[unknown, unknown?]> = [];
+      fs.createReadStream(filePath)
+        .pipe(csv({ headers: false }))
+        .on('data', (row: Record<string, string>) => rows.push([row['0'], row['1']]))
+        .on('end', () => resolve(rows))
+        .on('error', reject);
+    });
+  }
+
+  private static async readExcelRows(filePath: string): Promise<Array<[unknown, unknown?]>> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(filePath);
+
+    const rows: Array<[unknown, unknown?]> = [];
+    workbook.worksheets[0]?.eachRow(row => {
+      rows.push([row.getCell(1).text, row.getCell(2).text]);
+    });
+    return rows;
+  }
+}
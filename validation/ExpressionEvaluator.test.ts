@@ -0,0 +1,150 @@
+/**
+ * Parsing and evaluating rule expressions against workbook cells.
+ * Run with `npm test`.
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ExpressionError, ExpressionEvaluator, ExpressionScope } from './ExpressionEvaluator';
+
+// Cells by address, "Sheet!B5" for other sheets
+function scope(cells: Record<string, any>, options: Partial<ExpressionScope> = {}): ExpressionScope {
+  return {
+    getCell: (sheet, column, row) => cells[sheet ? `${sheet}!${column}${row}` : `${column}${row}`],
+    getRowCount: () => 10,
+    ...options
+  };
+}
+
+function value(expression: string, cells: Record<string, any> = {}, options: Partial<ExpressionScope> = {}): any {
+  return ExpressionEvaluator.evaluate(expression, scope(cells, options)).value;
+}
+
+function passes(expression: string, cells: Record<string, any> = {}, options: Partial<ExpressionScope> = {}): boolean {
+  return ExpressionEvaluator.test(expression, scope(cells, options)).passed;
+}
+
+const column = { A1: 1, A2: 2, A3: 3, A10: 4, B5: 10, B6: 20, B7: 30 };
+
+describe('ExpressionEvaluator.evaluate', () => {
+  test('follows operator precedence and logic keywords', () => {
+    assert.equal(value('1 + 2 * 3'), 7);
+    assert.equal(value('(1 + 2) * 3'), 9);
+    assert.equal(value('-2 * 3 + 10 % 4'), -4);
+    assert.equal(passes('1 < 2 AND NOT (2 <> 2) OR FALSE'), true);
+    assert.equal(passes('1 = 1 && !(1 != 1)'), true);
+  });
+
+  test('reads cells, ranges and other sheets', () => {
+    assert.equal(passes('B5 + B6 = B7', column), true);
+    assert.equal(value('SUM(A1:A10)', column), 10);
+    assert.equal(value('COUNT(A:A)', column), 4);
+    assert.equal(value("'Annexure 1'!C2 * 2", { 'Annexure 1!C2': 21 }), 42);
+  });
+
+  test('reads cell references in any case', () => {
+    assert.equal(value('sum(a1:a10)', column), 10);
+    assert.equal(passes('b5 + b6 = b7', column), true);
+    assert.equal(value('Sum(A1:a3)', column), 6);
+  });
+
+  test('resolves bare columns against the current row, in upper case only', () => {
+    assert.equal(value('B * 2', column, { currentRow: 6 }), 40);
+    assert.throws(() => value('B * 2', column), /needs a row/);
+    assert.throws(() => value('b * 2', column, { currentRow: 6 }), /Unknown identifier "b"/);
+  });
+
+  test('reads variables by name in any case', () => {
+    assert.equal(value('VALUE + 1', {}, { variables: { value: 41 } }), 42);
+  });
+
+  test('refuses ranges larger than a full worksheet column', () => {
+    assert.equal(value('COUNT(A1:A1048576)', column), 4);
+    assert.throws(
+      () => value('SUM(A1:B1048576)', column),
+      (error: unknown) => error instanceof ExpressionError &&
+        error.message === 'Range A1:B1048576 has 2097152 cells; ranges can have at most 1048576'
+    );
+    assert.throws(() => value('sum(a1:xfd1048576)', column), /ranges can have at most 1048576/);
+  });
+
+  test('lists the cells an expression read for error messages', () => {
+    const { cells } = ExpressionEvaluator.evaluate('B5 + B5 > SUM(A1:A3)', scope(column));
+    assert.equal(ExpressionEvaluator.describeCells(cells), 'B5=10, A1:A3');
+  });
+
+  test('compares dates by calendar day and shifts them by days', () => {
+    const cells = { B2: new Date(Date.UTC(2024, 2, 31)) };
+    assert.equal(passes('B2 = "2024-03-31"', cells), true);
+    assert.equal(passes('B2 + 1 = DATE(2024, 4, 1)', cells), true);
+    assert.equal(value('DATE(2024, 4, 30) - B2', cells), 30);
+    assert.equal(value('YEAR(B2) * 100 + MONTH(B2)', cells), 202403);
+  });
+
+  test('reports syntax errors', () => {
+    assert.equal(ExpressionEvaluator.validateSyntax('SUM(A1:A3) > 0'), null);
+    assert.notEqual(ExpressionEvaluator.validateSyntax('SUM(A1:A3 > 0'), null);
+    assert.notEqual(ExpressionEvaluator.validateSyntax('B5 +'), null);
+  });
+});
+
+describe('tolerance', () => {
+  test('reads absolute amounts and percentages', () => {
+    assert.deepEqual(ExpressionEvaluator.parseTolerance('0.01'), { absolute: 0.01 });
+    assert.deepEqual(ExpressionEvaluator.parseTolerance(' 0.5% '), { relative: 0.005 });
+    assert.throws(() => ExpressionEvaluator.parseTolerance('-1'), ExpressionError);
+    assert.throws(() => ExpressionEvaluator.parseTolerance('1 unit'), ExpressionError);
+  });
+
+  test('numbers within the tolerance compare as equal', () => {
+    const cells = { B5: 100.004, B6: 100 };
+    assert.equal(passes('B5 = B6', cells), false);
+    assert.equal(passes('B5 = B6', cells, { tolerance: { absolute: 0.01 } }), true);
+    assert.equal(passes('B5 > B6', cells, { tolerance: { absolute: 0.01 } }), false);
+    assert.equal(passes('B5 = B6', { B5: 1010, B6: 1000 }, { tolerance: { relative: 0.01 } }), true);
+    assert.equal(passes('B5 = B6', { B5: 1011, B6: 1000 }, { tolerance: { relative: 0.01 } }), false);
+  });
+
+  test('allows for binary rounding, but only when a tolerance is set', () => {
+    assert.equal(passes('0.1 + 0.2 = 0.3', {}, { tolerance: { absolute: 0 } }), true);
+    assert.equal(passes('0.1 + 0.2 = 0.3'), false);
+  });
+});
+
+describe('ExpressionEvaluator.getReferences', () => {
+  test('lists columns, cells and ranges in order of appearance', () => {
+    assert.deepEqual(ExpressionEvaluator.getReferences("D = SUM('Loans'!c2:c9) + b5"), [
+      { kind: 'column', startColumn: 'D', endColumn: 'D' },
+      { kind: 'range', sheet: 'Loans', startColumn: 'C', endColumn: 'C', startRow: 2, endRow: 9 },
+      { kind: 'cell', sheet: undefined, startColumn: 'B', endColumn: 'B', startRow: 5, endRow: 5 }
+    ]);
+  });
+
+  test('leaves out variables named like columns', () => {
+    assert.deepEqual(ExpressionEvaluator.getRowColumns('D + E > MAX', ['max']), ['D', 'E']);
+  });
+});
+
+describe('parse cache', () => {
+  const cache = (ExpressionEvaluator as any).cache as Map<string, unknown>;
+
+  test('keeps the most recently used expressions', () => {
+    cache.clear();
+    ExpressionEvaluator.validateSyntax('B5 > 0');
+    for (let i = 1; i <= 1500; i++) {
+      ExpressionEvaluator.validateSyntax(`A${i} > 0`);
+      // Used again throughout, so it is never the oldest entry
+      if (i % 100 === 0) ExpressionEvaluator.validateSyntax('B5 > 0');
+    }
+    assert.equal(cache.size, 1000);
+    assert.ok(cache.has('B5 > 0'));
+    assert.ok(cache.has('A1500 > 0'));
+    assert.ok(!cache.has('A1 > 0'));
+  });
+
+  test('does not keep expressions that fail to parse', () => {
+    cache.clear();
+    ExpressionEvaluator.validateSyntax('B5 +');
+    assert.equal(cache.size, 0);
+  });
+});
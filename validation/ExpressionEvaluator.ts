@@ -0,0 +1,1012 @@
+/**
+ * Sandboxed expression language for custom, crossField and global validation rules.
+ *
+ * Expressions are tokenized and parsed into a small AST and then interpreted
+ * directly - nothing is ever handed to eval/new Function, so rule files cannot
+ * execute arbitrary code on the server.
+ *
+ * Supported syntax:
+ *   - numbers, "strings", TRUE/FALSE
+ *   - arithmetic: + - * / % and unary minus
+ *   - comparison: = == != <> < <= > >=
+ *   - logic: AND OR NOT (also && || !)
+ *   - cell references: B5, Sheet1!B5, 'Annexure 1'!B5 (any case, so b5 too)
+ *   - ranges: C2:C50, C:C, Sheet1!C2:C50, up to MAX_RANGE_CELLS cells
+ *   - bare column letters (D, E) resolved against the row being validated
+ *   - variables supplied by the caller (e.g. value, PERIOD_START, PERIOD_END)
+ *   - functions: SUM, SUMIF, AVG/AVERAGE, COUNT, MIN, MAX, IF, ROUND, ABS, LEN
+ *   - date functions: DATE, YEAR, MONTH, DAY, DAYS
+ *
+ * Dates compare by calendar day. Text such as "2024-03-31" or "31/03/2024" is
+ * read as a date when compared with a date, date + n / date - n shift by days
+ * and date - date gives the number of days between them.
+ *
+ * A rule's tolerance (scope.tolerance) makes numbers that differ by no more
+ * than it compare as equal, so totals that are off by rounding still match.
+ */
+
+import { columnToNumber, formatSheetReference, numberToColumn } from './CellAddress';
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+export interface ExpressionScope {
+  /** Read the raw value of a cell; sheet is undefined for unqualified references */
+  getCell(sheet: string | undefined, column: string, row: number): any;
+  /** Last row of a sheet, used to bound open ranges such as C:C */
+  getRowCount?(sheet: string | undefined): number;
+  /** Named values available to the expression (e.g. value) */
+  variables?: Record<string, any>;
+  /** Row used to resolve bare column references such as D or E */
+  currentRow?: number;
+  /** Numbers this close together compare as equal */
+  tolerance?: Tolerance;
+}
+
+/**
+ * Allowed difference between compared numbers: an absolute amount, or a
+ * fraction of the larger of the two
+ */
+export interface Tolerance {
+  absolute?: number;
+  relative?: number;
+}
+
+export interface ReferencedCell {
+  reference: string;
+  value: any;
+  isRange?: boolean;
+}
+
+/**
+ * Something an expression reads: a bare column (resolved per row), a cell or a range
+ */
+export interface ExpressionReference {
+  kind: 'column' | 'cell' | 'range';
+  sheet?: string;
+  startColumn: string;
+  endColumn: string;
+  startRow?: number;
+  endRow?: number;
+}
+
+export interface EvaluationResult {
+  value: any;
+  cells: ReferencedCell[];
+}
+
+type ExpressionNode =
+  | { type: 'literal'; value: any }
+  | { type: 'identifier'; name: string }
+  | { type: 'cell'; sheet?: string; column: string; row: number }
+  | { type: 'range'; sheet?: string; startColumn: string; startRow?: number; endColumn: string; endRow?: number }
+  | { type: 'unary'; operator: string; operand: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+interface Token {
+  type: 'number' | 'string' | 'sheet' | 'identifier' | 'operator' | 'paren' | 'comma' | 'colon';
+  value: string;
+  position: number;
+}
+
+const CELL_PATTERN = /^([A-Z]{1,3})(\d+)$/i;
+const COLUMN_PATTERN = /^[A-Z]{1,3}$/;
+
+const FUNCTIONS = new Set([
+  'SUM', 'SUMIF', 'AVG', 'AVERAGE', 'COUNT', 'MIN', 'MAX', 'IF', 'ROUND', 'ABS', 'LEN', 'LENGTH',
+  'DATE', 'YEAR', 'MONTH', 'DAY', 'DAYS'
+]);
+
+// One full worksheet column; larger ranges are refused rather than read into memory
+const MAX_RANGE_CELLS = 1048576;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Parsed expressions kept; the least recently used one is dropped beyond this
+const MAX_CACHED_EXPRESSIONS = 1000;
+
+export class ExpressionEvaluator {
+  // In least recently used order, oldest first
+  private static cache = new Map<string, ExpressionNode>();
+
+  /**
+   * Evaluate an expression against the given scope
+   */
+  static evaluate(expression: string, scope: ExpressionScope): EvaluationResult {
+    const ast = this.parse(expression);
+    const cells: ReferencedCell[] = [];
+    const value = this.evaluateNode(ast, scope, cells);
+    return { value, cells };
+  }
+
+  /**
+   * Evaluate an expression and coerce the result to a pass/fail boolean
+   */
+  static test(expression: string, scope: ExpressionScope): { passed: boolean; cells: ReferencedCell[] } {
+    const { value, cells } = this.evaluate(expression, scope);
+    return { passed: this.toBoolean(value), cells };
+  }
+
+  /**
+   * Read a rule tolerance: an absolute amount ("0.01") or a percentage ("0.1%")
+   */
+  static parseTolerance(text: string): Tolerance {
+    const match = String(text).trim().match(/^\+?(\d+(?:\.\d+)?|\.\d+)\s*(%)?$/);
+    if (!match) throw new ExpressionError(`Invalid tolerance "${text}" - expected e.g. "0.01" or "0.1%"`);
+    const amount = parseFloat(match[1]);
+    return match[2] ? { relative: amount / 100 } : { absolute: amount };
+  }
+
+  /**
+   * Bare column letters used by an expression (e.g. "D = E" -> ["D", "E"]).
+   * Rules that use them are evaluated once per data row.
+   */
+  static getRowColumns(expression: string, variables: string[] = []): string[] {
+    const columns = this.getReferences(expression, variables)
+      .filter(ref => ref.kind === 'column')
+      .map(ref => ref.startColumn);
+    return Array.from(new Set(columns));
+  }
+
+  /**
+   * Cells, ranges and bare columns an expression reads, in order of appearance
+   */
+  static getReferences(expression: string, variables: string[] = []): ExpressionReference[] {
+    const references: ExpressionReference[] = [];
+    const known = new Set(variables.map(v => v.toLowerCase()));
+
+    const walk = (node: ExpressionNode) => {
+      switch (node.type) {
+        case 'identifier':
+          if (COLUMN_PATTERN.test(node.name) && !known.has(node.name.toLowerCase())) {
+            references.push({ kind: 'column', startColumn: node.name, endColumn: node.name });
+          }
+          break;
+        case 'cell':
+          references.push({
+            kind: 'cell',
+            sheet: node.sheet,
+            startColumn: node.column,
+            endColumn: node.column,
+            startRow: node.row,
+            endRow: node.row
+          });
+          break;
+        case 'range':
+          references.push({
+            kind: 'range',
+            sheet: node.sheet,
+            startColumn: node.startColumn,
+            endColumn: node.endColumn,
+            startRow: node.startRow,
+            endRow: node.endRow
+          });
+          break;
+        case 'unary':
+          walk(node.operand);
+          break;
+        case 'binary':
+          walk(node.left);
+          walk(node.right);
+          break;
+        case 'call':
+          node.args.forEach(walk);
+          break;
+      }
+    };
+
+    walk(this.parse(expression));
+    return references;
+  }
+
+  /**
+   * Check an expression for syntax errors without evaluating it
+   */
+  static validateSyntax(expression: string): string | null {
+    try {
+      this.parse(expression);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * Unwrap ExcelJS cell values (formulas, rich text, hyperlinks) to primitives
+   */
+  static unwrapCellValue(value: any): any {
+    if (value === null || value === undefined) return value;
+    if (value instanceof Date) return value;
+    if (typeof value === 'object') {
+      if ('formula' in value || 'sharedFormula' in value || 'result' in value) {
+        return this.unwrapCellValue(value.result ?? null);
+      }
+      if (Array.isArray(value.richText)) {
+        return value.richText.map((part: any) => part.text).join('');
+      }
+      if ('text' in value) return value.text;
+      if ('error' in value) return value.error;
+    }
+    return value;
+  }
+
+  /**
+   * Format referenced cells for error reporting (e.g. "D5=1200, E5=1100")
+   */
+  static describeCells(cells: ReferencedCell[]): string {
+    return cells
+      .map(cell => cell.isRange ? cell.reference : `${cell.reference}=${this.formatValue(cell.value)}`)
+      .join(', ');
+  }
+
+  private static parse(expression: string): ExpressionNode {
+    const cached = this.cache.get(expression);
+    if (cached) {
+      this.cache.delete(expression);
+      this.cache.set(expression, cached);
+      return cached;
+    }
+
+    const tokens = this.tokenize(expression);
+    const parser = new ExpressionParser(tokens, expression);
+    const ast = parser.parseExpression();
+    parser.expectEnd();
+
+    this.cache.set(expression, ast);
+    if (this.cache.size > MAX_CACHED_EXPRESSIONS) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    return ast;
+  }
+
+  private static tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < expression.length) {
+      const char = expression[i];
+
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      if (/[0-9.]/.test(char)) {
+        const match = expression.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+        if (!match) throw new ExpressionError(`Invalid number at position ${i + 1}`);
+        tokens.push({ type: 'number', value: match[0], position: i });
+        i += match[0].length;
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        let end = i + 1;
+        let text = '';
+        while (end < expression.length && expression[end] !== char) {
+          if (expression[end] === '\\' && end + 1 < expression.length) {
+            end++;
+          }
+          text += expression[end];
+          end++;
+        }
+        if (end >= expression.length) {
+          throw new ExpressionError(`Unterminated string starting at position ${i + 1}`);
+        }
+        // 'Sheet name'!A1 - a quoted token directly followed by ! names a sheet
+        const isSheet = expression[end + 1] === '!' && expression[end + 2] !== '=';
+        tokens.push({ type: isSheet ? 'sheet' : 'string', value: text, position: i });
+        i = isSheet ? end + 2 : end + 1;
+        continue;
+      }
+
+      if (/[A-Za-z_]/.test(char)) {
+        const match = expression.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+        const word = match[0];
+        const next = i + word.length;
+        if (expression[next] === '!' && expression[next + 1] !== '=') {
+          tokens.push({ type: 'sheet', value: word, position: i });
+          i = next + 1;
+        } else {
+          tokens.push({ type: 'identifier', value: word, position: i });
+          i = next;
+        }
+        continue;
+      }
+
+      const twoChar = expression.slice(i, i + 2);
+      if (['<=', '>=', '!=', '<>', '==', '&&', '||'].includes(twoChar)) {
+        tokens.push({ type: 'operator', value: twoChar, position: i });
+        i += 2;
+        continue;
+      }
+
+      if ('+-*/%<>=!'.includes(char)) {
+        tokens.push({ type: 'operator', value: char, position: i });
+        i++;
+        continue;
+      }
+
+      if (char === '(' || char === ')') {
+        tokens.push({ type: 'paren', value: char, position: i });
+        i++;
+        continue;
+      }
+
+      if (char === ',') {
+        tokens.push({ type: 'comma', value: char, position: i });
+        i++;
+        continue;
+      }
+
+      if (char === ':') {
+        tokens.push({ type: 'colon', value: char, position: i });
+        i++;
+        continue;
+      }
+
+      throw new ExpressionError(`Unexpected character "${char}" at position ${i + 1}`);
+    }
+
+    return tokens;
+  }
+
+  private static evaluateNode(node: ExpressionNode, scope: ExpressionScope, cells: ReferencedCell[]): any {
+    switch (node.type) {
+      case 'literal':
+        return node.value;
+
+      case 'identifier':
+        return this.resolveIdentifier(node.name, scope, cells);
+
+      case 'cell':
+        return this.readCell(node.sheet, node.column, node.row, scope, cells);
+
+      case 'range':
+        return this.readRange(node, scope, cells);
+
+      case 'unary': {
+        const operand = this.evaluateNode(node.operand, scope, cells);
+        if (node.operator === '-') return -this.toNumber(operand);
+        if (node.operator === '+') return this.toNumber(operand);
+        return !this.toBoolean(operand);
+      }
+
+      case 'binary':
+        return this.evaluateBinary(node, scope, cells);
+
+      case 'call':
+        return this.callFunction(node.name, node.args, scope, cells);
+    }
+  }
+
+  private static resolveIdentifier(name: string, scope: ExpressionScope, cells: ReferencedCell[]): any {
+    const variables = scope.variables || {};
+    const variable = Object.keys(variables).find(key => key.toLowerCase() === name.toLowerCase());
+    if (variable !== undefined) {
+      return this.unwrapCellValue(variables[variable]);
+    }
+
+    if (COLUMN_PATTERN.test(name)) {
+      if (scope.currentRow === undefined) {
+        throw new ExpressionError(`Column reference "${name}" needs a row; use a cell reference such as ${name}2`);
+      }
+      return this.readCell(undefined, name, scope.currentRow, scope, cells);
+    }
+
+    throw new ExpressionError(`Unknown identifier "${name}"`);
+  }
+
+  private static readCell(
+    sheet: string | undefined,
+    column: string,
+    row: number,
+    scope: ExpressionScope,
+    cells: ReferencedCell[]
+  ): any {
+    const value = this.unwrapCellValue(scope.getCell(sheet, column, row));
+    const reference = formatSheetReference(sheet, `${column}${row}`);
+    if (!cells.some(cell => cell.reference === reference)) {
+      cells.push({ reference, value });
+    }
+    return value;
+  }
+
+  private static readRange(
+    node: Extract<ExpressionNode, { type: 'range' }>,
+    scope: ExpressionScope,
+    cells: ReferencedCell[]
+  ): any[] {
+    const lastRow = scope.getRowCount ? scope.getRowCount(node.sheet) : 0;
+    const startRow = node.startRow ?? 1;
+    const endRow = node.endRow ?? Math.max(lastRow, startRow);
+    const startCol = columnToNumber(node.startColumn);
+    const endCol = columnToNumber(node.endColumn);
+    const reference = formatSheetReference(
+      node.sheet,
+      `${node.startColumn}${node.startRow ?? ''}:${node.endColumn}${node.endRow ?? ''}`
+    );
+
+    const cellCount = (Math.abs(endRow - startRow) + 1) * (Math.abs(endCol - startCol) + 1);
+    if (cellCount > MAX_RANGE_CELLS) {
+      throw new ExpressionError(
+        `Range ${reference} has ${cellCount} cells; ranges can have at most ${MAX_RANGE_CELLS}`
+      );
+    }
+
+    const values: any[] = [];
+    for (let row = Math.min(startRow, endRow); row <= Math.max(startRow, endRow); row++) {
+      for (let col = Math.min(startCol, endCol); col <= Math.max(startCol, endCol); col++) {
+        values.push(this.unwrapCellValue(scope.getCell(node.sheet, numberToColumn(col), row)));
+      }
+    }
+
+    if (!cells.some(cell => cell.reference === reference)) {
+      cells.push({ reference, value: values, isRange: true });
+    }
+    return values;
+  }
+
+  private static evaluateBinary(
+    node: Extract<ExpressionNode, { type: 'binary' }>,
+    scope: ExpressionScope,
+    cells: ReferencedCell[]
+  ): any {
+    const operator = node.operator.toUpperCase();
+
+    // Short-circuit logic
+    if (operator === 'AND' || operator === '&&') {
+      return this.toBoolean(this.evaluateNode(node.left, scope, cells)) &&
+        this.toBoolean(this.evaluateNode(node.right, scope, cells));
+    }
+    if (operator === 'OR' || operator === '||') {
+      return this.toBoolean(this.evaluateNode(node.left, scope, cells)) ||
+        this.toBoolean(this.evaluateNode(node.right, scope, cells));
+    }
+
+    const left = this.evaluateNode(node.left, scope, cells);
+    const right = this.evaluateNode(node.right, scope, cells);
+
+    switch (operator) {
+      case '+':
+        if (left instanceof Date) return this.addDays(left, this.toNumber(right));
+        if (right instanceof Date) return this.addDays(right, this.toNumber(left));
+        return this.toNumber(left) + this.toNumber(right);
+      case '-':
+        if (left instanceof Date && !(right instanceof Date) && this.parseDate(right) === null) {
+          return this.addDays(left, -this.toNumber(right));
+        }
+        if (left instanceof Date || right instanceof Date) {
+          return this.toNumber(this.toDate(left)) - this.toNumber(this.toDate(right));
+        }
+        return this.toNumber(left) - this.toNumber(right);
+      case '*':
+        return this.toNumber(left) * this.toNumber(right);
+      case '/': {
+        const divisor = this.toNumber(right);
+        if (divisor === 0) throw new ExpressionError('Division by zero');
+        return this.toNumber(left) / divisor;
+      }
+      case '%': {
+        const divisor = this.toNumber(right);
+        if (divisor === 0) throw new ExpressionError('Division by zero');
+        return this.toNumber(left) % divisor;
+      }
+      case '=':
+      case '==':
+        return this.compare(left, right, scope.tolerance) === 0;
+      case '!=':
+      case '<>':
+        return this.compare(left, right, scope.tolerance) !== 0;
+      case '<':
+        return this.compare(left, right, scope.tolerance) < 0;
+      case '<=':
+        return this.compare(left, right, scope.tolerance) <= 0;
+      case '>':
+        return this.compare(left, right, scope.tolerance) > 0;
+      case '>=':
+        return this.compare(left, right, scope.tolerance) >= 0;
+      default:
+        throw new ExpressionError(`Unsupported operator "${node.operator}"`);
+    }
+  }
+
+  private static callFunction(
+    name: string,
+    argNodes: ExpressionNode[],
+    scope: ExpressionScope,
+    cells: ReferencedCell[]
+  ): any {
+    const fn = name.toUpperCase();
+
+    // IF evaluates only the branch it needs
+    if (fn === 'IF') {
+      if (argNodes.length < 2 || argNodes.length > 3) {
+        throw new ExpressionError('IF expects 2 or 3 arguments');
+      }
+      const condition = this.toBoolean(this.evaluateNode(argNodes[0], scope, cells));
+      if (condition) return this.evaluateNode(argNodes[1], scope, cells);
+      return argNodes[2] ? this.evaluateNode(argNodes[2], scope, cells) : false;
+    }
+
+    const args = argNodes.map(arg => this.evaluateNode(arg, scope, cells));
+    const values = args.flat();
+
+    switch (fn) {
+      case 'SUM':
+        return this.sum(values);
+      case 'SUMIF': {
+        // SUMIF(criteria range, criterion, [sum range]) like Excel, e.g. SUMIF(A2:A50, ">0", C2:C50)
+        if (args.length < 2 || args.length > 3) throw new ExpressionError('SUMIF expects 2 or 3 arguments');
+        if (Array.isArray(args[1])) throw new ExpressionError('SUMIF criterion must be a single value');
+        const criteria = [args[0]].flat();
+        const summed = args.length > 2 ? [args[2]].flat() : criteria;
+        return this.sum(summed.filter((_, i) => i < criteria.length && this.matchesCriterion(criteria[i], args[1])));
+      }
+      case 'AVG':
+      case 'AVERAGE': {
+        const numbers = this.numericValues(values);
+        if (numbers.length === 0) throw new ExpressionError(`${fn} of an empty range`);
+        return this.sum(numbers) / numbers.length;
+      }
+      case 'COUNT':
+        return values.filter(v => !this.isBlank(v)).length;
+      case 'MIN': {
+        const numbers = this.numericValues(values);
+        return numbers.length ? Math.min(...numbers) : 0;
+      }
+      case 'MAX': {
+        const numbers = this.numericValues(values);
+        return numbers.length ? Math.max(...numbers) : 0;
+      }
+      case 'ROUND': {
+        this.expectArgs(fn, args, 1, 2);
+        const digits = args.length > 1 ? this.toNumber(args[1]) : 0;
+        const factor = Math.pow(10, digits);
+        return Math.round(this.toNumber(args[0]) * factor) / factor;
+      }
+      case 'ABS':
+        this.expectArgs(fn, args, 1, 1);
+        return Math.abs(this.toNumber(args[0]));
+      case 'LEN':
+      case 'LENGTH':
+        this.expectArgs(fn, args, 1, 1);
+        return this.isBlank(args[0]) ? 0 : String(args[0]).length;
+      case 'DATE':
+        // DATE(2024, 3, 31) or DATE("2024-03-31")
+        this.expectArgs(fn, args, 1, 3);
+        if (args.length === 1) return this.toDate(args[0]);
+        if (args.length !== 3) throw new ExpressionError('DATE expects a date text or year, month, day');
+        return new Date(Date.UTC(this.toNumber(args[0]), this.toNumber(args[1]) - 1, this.toNumber(args[2])));
+      case 'YEAR':
+        this.expectArgs(fn, args, 1, 1);
+        return this.toDate(args[0]).getUTCFullYear();
+      case 'MONTH':
+        this.expectArgs(fn, args, 1, 1);
+        return this.toDate(args[0]).getUTCMonth() + 1;
+      case 'DAY':
+        this.expectArgs(fn, args, 1, 1);
+        return this.toDate(args[0]).getUTCDate();
+      case 'DAYS':
+        // DAYS(end, start) like Excel
+        this.expectArgs(fn, args, 2, 2);
+        return this.toNumber(this.toDate(args[0])) - this.toNumber(this.toDate(args[1]));
+      default:
+        throw new ExpressionError(`Unknown function "${name}"`);
+    }
+  }
+
+  private static expectArgs(fn: string, args: any[], min: number, max: number): void {
+    if (args.length < min || args.length > max) {
+      const expected = min === max ? `${min}` : `${min} to ${max}`;
+      throw new ExpressionError(`${fn} expects ${expected} argument(s), got ${args.length}`);
+    }
+    if (args.some(Array.isArray)) {
+      throw new ExpressionError(`${fn} does not accept a range`);
+    }
+  }
+
+  private static sum(values: any[]): number {
+    return this.numericValues(values).reduce((total, v) => total + v, 0);
+  }
+
+  /**
+   * Numeric values of a range; blanks and text are ignored like in Excel
+   */
+  private static numericValues(values: any[]): number[] {
+    return values
+      .filter(v => !this.isBlank(v))
+      .map(v => this.tryNumber(v))
+      .filter((v): v is number => v !== null);
+  }
+
+  private static isBlank(value: any): boolean {
+    return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+  }
+
+  private static tryNumber(value: any): number | null {
+    if (typeof value === 'number') return isNaN(value) ? null : value;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (value instanceof Date) return Math.floor(value.getTime() / MS_PER_DAY);
+    if (typeof value === 'string') {
+      const cleaned = value.trim().replace(/,/g, '');
+      if (cleaned === '') return null;
+      const num = Number(cleaned);
+      return isNaN(num) ? null : num;
+    }
+    return null;
+  }
+
+  private static toNumber(value: any): number {
+    if (Array.isArray(value)) {
+      throw new ExpressionError('A range cannot be used as a single value; wrap it in SUM, COUNT, etc.');
+    }
+    if (this.isBlank(value)) return 0;
+    const num = this.tryNumber(value);
+    if (num === null) {
+      throw new ExpressionError(`"${value}" is not a number`);
+    }
+    return num;
+  }
+
+  /**
+   * Read date text: ISO "2024-03-31", day-first "31/03/2024" or "31-Mar-2024"
+   */
+  private static parseDate(value: any): Date | null {
+    if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+    if (typeof value !== 'string') return null;
+    const text = value.trim();
+
+    let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ][\d:.]+Z?)?$/);
+    if (match) return this.utcDate(+match[1], +match[2], +match[3]);
+
+    match = text.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{4})$/);
+    if (match) return this.utcDate(+match[3], +match[2], +match[1]);
+
+    match = text.match(/^(\d{1,2})[\s\-]([A-Za-z]{3})[a-z]*[\s\-,]+(\d{4})$/);
+    if (match && MONTHS.includes(match[2].toLowerCase())) {
+      return this.utcDate(+match[3], MONTHS.indexOf(match[2].toLowerCase()) + 1, +match[1]);
+    }
+    return null;
+  }
+
+  /**
+   * UTC midnight for a day, rejecting dates that roll over (e.g. 31/02)
+   */
+  private static utcDate(year: number, month: number, day: number): Date | null {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+  }
+
+  private static toDate(value: any): Date {
+    if (Array.isArray(value)) {
+      throw new ExpressionError('A range cannot be used as a date');
+    }
+    const date = this.parseDate(value);
+    if (!date) {
+      throw new ExpressionError(`"${this.formatValue(value)}" is not a date`);
+    }
+    return date;
+  }
+
+  private static addDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + Math.round(days) * MS_PER_DAY);
+  }
+
+  private static toBoolean(value: any): boolean {
+    if (Array.isArray(value)) {
+      throw new ExpressionError('A range cannot be used as a condition');
+    }
+    if (typeof value === 'string') {
+      const normalized = value.trim().toLowerCase();
+      return normalized !== '' && normalized !== 'false' && normalized !== '0';
+    }
+    return !!value;
+  }
+
+  private static compare(left: any, right: any, tolerance?: Tolerance): number {
+    if (Array.isArray(left) || Array.isArray(right)) {
+      throw new ExpressionError('A range cannot be compared directly; wrap it in SUM, COUNT, etc.');
+    }
+    if (this.isBlank(left) && this.isBlank(right)) return 0;
+
+    // Date text compared with a date is read as a date
+    if (left instanceof Date && typeof right === 'string') right = this.parseDate(right) ?? right;
+    if (right instanceof Date && typeof left === 'string') left = this.parseDate(left) ?? left;
+
+    const leftNum = this.isBlank(left) ? 0 : this.tryNumber(left);
+    const rightNum = this.isBlank(right) ? 0 : this.tryNumber(right);
+    if (leftNum !== null && rightNum !== null) {
+      if (tolerance && this.withinTolerance(leftNum, rightNum, tolerance)) return 0;
+      return leftNum === rightNum ? 0 : leftNum < rightNum ? -1 : 1;
+    }
+
+    const leftStr = this.isBlank(left) ? '' : String(left).trim().toLowerCase();
+    const rightStr = this.isBlank(right) ? '' : String(right).trim().toLowerCase();
+    return leftStr === rightStr ? 0 : leftStr < rightStr ? -1 : 1;
+  }
+
+  /**
+   * True when two numbers are equal within the tolerance
+   */
+  static withinTolerance(left: number, right: number, tolerance: Tolerance): boolean {
+    const difference = Math.abs(left - right);
+    // Slack for binary noise, e.g. 0.1 + 0.2 against 0.3
+    const noise = 1e-9 * Math.max(1, Math.abs(left), Math.abs(right));
+    const allowed = tolerance.relative !== undefined
+      ? tolerance.relative * Math.max(Math.abs(left), Math.abs(right))
+      : tolerance.absolute ?? 0;
+    return difference <= allowed + noise;
+  }
+
+  /**
+   * SUMIF criterion: "Secured" or 5 match equal values; ">0", "<>Closed"
+   * and the like compare with the operand
+   */
+  private static matchesCriterion(value: any, criterion: any): boolean {
+    const match = typeof criterion === 'string' ? criterion.trim().match(/^(<=|>=|<>|<|>|=)(.*)$/) : null;
+    if (!match) return !this.isBlank(value) && this.compare(value, criterion) === 0;
+
+    const operand = match[2].trim();
+    if (operand === '') return match[1] === '=' ? this.isBlank(value) : match[1] === '<>' && !this.isBlank(value);
+    const order = this.compare(value, operand);
+    switch (match[1]) {
+      case '=': return order === 0;
+      case '<>': return order !== 0;
+      case '<': return order < 0;
+      case '<=': return order <= 0;
+      case '>': return order > 0;
+      default: return order >= 0;
+    }
+  }
+
+  private static formatValue(value: any): string {
+    if (value === null || value === undefined || value === '') return '(empty)';
+    if (value instanceof Date) return value.toISOString().split('T')[0];
+    return String(value);
+  }
+}
+
+/**
+ * Recursive-descent parser. Precedence (lowest first):
+ * OR, AND, NOT, comparison, additive, multiplicative, unary, primary
+ */
+class ExpressionParser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private source: string) {}
+
+  parseExpression(): ExpressionNode {
+    return this.parseOr();
+  }
+
+  expectEnd(): void {
+    const token = this.peek();
+    if (token) {
+      throw new ExpressionError(`Unexpected "${token.value}" at position ${token.position + 1}`);
+    }
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.matchKeyword('OR') || this.matchOperator('||')) {
+      left = { type: 'binary', operator: 'OR', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    while (this.matchKeyword('AND') || this.matchOperator('&&')) {
+      left = { type: 'binary', operator: 'AND', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.matchKeyword('NOT') || this.matchOperator('!')) {
+      return { type: 'unary', operator: 'NOT', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    let left = this.parseAdditive();
+    const comparators = ['=', '==', '!=', '<>', '<', '<=', '>', '>='];
+    while (this.peek()?.type === 'operator' && comparators.includes(this.peek()!.value)) {
+      const operator = this.next().value;
+      left = { type: 'binary', operator, left, right: this.parseAdditive() };
+    }
+    return left;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    while (this.peek()?.type === 'operator' && ['+', '-'].includes(this.peek()!.value)) {
+      const operator = this.next().value;
+      left = { type: 'binary', operator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    while (this.peek()?.type === 'operator' && ['*', '/', '%'].includes(this.peek()!.value)) {
+      const operator = this.next().value;
+      left = { type: 'binary', operator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token?.type === 'operator' && (token.value === '-' || token.value === '+')) {
+      this.next();
+      return { type: 'unary', operator: token.value, operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+    if (!token) {
+      throw new ExpressionError(`Unexpected end of expression "${this.source}"`);
+    }
+
+    if (token.type === 'number') {
+      this.next();
+      return { type: 'literal', value: parseFloat(token.value) };
+    }
+
+    if (token.type === 'string') {
+      this.next();
+      return { type: 'literal', value: token.value };
+    }
+
+    if (token.type === 'paren' && token.value === '(') {
+      this.next();
+      const inner = this.parseExpression();
+      this.expect('paren', ')');
+      return inner;
+    }
+
+    if (token.type === 'sheet') {
+      this.next();
+      const address = this.peek();
+      if (!address || address.type !== 'identifier') {
+        throw new ExpressionError(`Expected a cell reference after sheet "${token.value}"`);
+      }
+      this.next();
+      return this.parseReference(address, token.value);
+    }
+
+    if (token.type === 'identifier') {
+      this.next();
+      const upper = token.value.toUpperCase();
+
+      if (upper === 'TRUE' || upper === 'FALSE') {
+        return { type: 'literal', value: upper === 'TRUE' };
+      }
+
+      if (upper === 'AND' || upper === 'OR') {
+        throw new ExpressionError(`Unexpected "${token.value}" at position ${token.position + 1}`);
+      }
+
+      if (this.peek()?.type === 'paren' && this.peek()!.value === '(') {
+        if (!FUNCTIONS.has(upper)) {
+          throw new ExpressionError(`Unknown function "${token.value}" at position ${token.position + 1}`);
+        }
+        return { type: 'call', name: upper, args: this.parseArguments() };
+      }
+
+      if (CELL_PATTERN.test(token.value) || (COLUMN_PATTERN.test(upper) && this.peek()?.type === 'colon')) {
+        return this.parseReference(token);
+      }
+
+      return { type: 'identifier', name: token.value };
+    }
+
+    throw new ExpressionError(`Unexpected "${token.value}" at position ${token.position + 1}`);
+  }
+
+  /**
+   * Parse A1, A1:B10 or A:A, optionally qualified by a sheet
+   */
+  private parseReference(start: Token, sheet?: string): ExpressionNode {
+    const startRef = this.splitAddress(start);
+
+    if (this.peek()?.type === 'colon') {
+      this.next();
+      const endToken = this.peek();
+      if (!endToken || endToken.type !== 'identifier') {
+        throw new ExpressionError(`Incomplete range at position ${start.position + 1}`);
+      }
+      this.next();
+      const endRef = this.splitAddress(endToken);
+      return {
+        type: 'range',
+        sheet,
+        startColumn: startRef.column,
+        startRow: startRef.row,
+        endColumn: endRef.column,
+        endRow: endRef.row
+      };
+    }
+
+    if (startRef.row === undefined) {
+      if (sheet) {
+        throw new ExpressionError(`Expected a cell such as ${startRef.column}2 after sheet "${sheet}"`);
+      }
+      return { type: 'identifier', name: startRef.column };
+    }
+
+    return { type: 'cell', sheet, column: startRef.column, row: startRef.row };
+  }
+
+  // References are read in any case and stored in upper case, as sheets address them
+  private splitAddress(token: Token): { column: string; row?: number } {
+    const address = token.value.toUpperCase();
+    const cell = address.match(CELL_PATTERN);
+    if (cell) return { column: cell[1], row: parseInt(cell[2]) };
+    if (COLUMN_PATTERN.test(address)) return { column: address };
+    throw new ExpressionError(`Invalid cell reference "${token.value}" at position ${token.position + 1}`);
+  }
+
+  private parseArguments(): ExpressionNode[] {
+    this.expect('paren', '(');
+    const args: ExpressionNode[] = [];
+    if (this.peek()?.type === 'paren' && this.peek()!.value === ')') {
+      this.next();
+      return args;
+    }
+    args.push(this.parseExpression());
+    while (this.peek()?.type === 'comma') {
+      this.next();
+      args.push(this.parseExpression());
+    }
+    this.expect('paren', ')');
+    return args;
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'identifier' && token.value.toUpperCase() === keyword) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchOperator(operator: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'operator' && token.value === operator) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(type: Token['type'], value: string): Token {
+    const token = this.peek();
+    if (!token || token.type !== type || token.value !== value) {
+      const found = token ? `"${token.value}" at position ${token.position + 1}` : 'end of expression';
+      throw new ExpressionError(`Expected "${value}" but found ${found}`);
+    }
+    return this.next();
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+}
+
+export default ExpressionEvaluator;
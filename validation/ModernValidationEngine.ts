@@ -2,24 +2,58 @@ import * as fs from 'fs';
 import * as path from 'path';
 import ExcelJS from 'exceljs';
 import { ModernValidationRulesParser } from './ModernValidationRulesParser';
+import { ExpressionEvaluator, ExpressionScope, Tolerance } from './ExpressionEvaluator';
+import {
+  SheetData,
+  SheetCell,
+  columnToNumber,
+  formatSheetReference,
+  getCellValue,
+  getDataRowBounds,
+  getFieldSheetName,
+  numberToColumn,
+  parseCellAddress,
+  parseRangeAddress,
+  parseSheetColumns,
+  resolveCells,
+  splitSheetAddress,
+  stripSheetPrefix
+} from './CellAddress';
+import { CellRequirement, RetainedCellStore, StreamedSheet, streamWorkbookRows } from './WorkbookStream';
+import { ExpectedSheetStructure, ExpectedTable, STRUCTURE_SCAN_ROWS, TemplateStructure } from './TemplateStructure';
+import { CODE_FORMATS, CodeLists } from './CodeLists';
+import { parseReportingPeriod } from '../shared/reportingPeriod';
+import {
+  NumberCoercionReport,
+  NumberFormat,
+  coerceFormattedNumber,
+  createCoercionReport,
+  recordCoercion,
+  resolveNumberFormat
+} from '../shared/numberFormat';
+import { toValidationSeverity } from '../shared/validationOutcome';
+import type { InsertValidationResult, ValidationSeverity } from '../shared/schema';
 
-interface ValidationRule {
+export interface ValidationRule {
   id?: number;
   templateId: number;
-  sheetId?: number;
+  sheetId?: number | null;
   field: string;
   ruleType: string;
   condition: string;
   errorMessage: string;
-  severity: 'error' | 'warning';
-  isActive: boolean;
-  rowRange?: string; // e.g., "2-100", "5", "10-*"
-  columnRange?: string; // e.g., "A-Z", "B", "C-E"
-  cellRange?: string; // e.g., "A2:Z100", "B5", "C1:C50"
-  applyToAllRows?: boolean;
+  severity: ValidationSeverity;
+  isActive?: boolean; // Rules stored in the database have no flag and are always active
+  rowRange?: string | null; // e.g., "2-100", "5", "10-*"
+  columnRange?: string | null; // e.g., "A-Z", "B", "C-E"
+  cellRange?: string | null; // e.g., "A2:Z100", "B5", "C1:C50"
+  applyToAllRows?: boolean | null;
+  when?: string | null; // Precondition expression, e.g. 'D = "Secured"'; rows where it is false are skipped
+  tolerance?: string | null; // Numbers compared by the rule's expression may differ by this, e.g. "0.01" or "0.1%"
+  amountScale?: number | null; // Unit the rule file says amounts are in; the template's number format otherwise
 }
 
-interface ValidationResult {
+export interface ValidationResult {
   submissionId: number;
   ruleId?: number;
   field: string;
@@ -28,22 +62,84 @@ interface ValidationResult {
   cellReference?: string;
   cellValue?: string;
   errorMessage: string;
-  severity: 'error' | 'warning';
+  severity: ValidationSeverity;
   isValid: boolean;
   sheetName?: string;
   rowNumber?: number;
   columnName?: string;
+  comparisonValue?: string;
+  delta?: number;
+  /** The rule's when clause did not hold here, so the check does not apply */
+  skipped?: boolean;
 }
 
-interface ValidationSummary {
+export interface PreviousSubmission {
+  id: number;
+  reportingPeriod: string;
+  data: SubmissionData;
+}
+
+export interface SubmissionData {
+  sheets: SheetData[];
+  type: 'excel' | 'csv';
+  /** Named values available to rule expressions (reporting period dates) */
+  variables?: Record<string, any>;
+  /** templateSheets.id -> worksheet, used to resolve rule.sheetId */
+  templateSheets?: Map<number, { name: string; index: number }>;
+  /** Sheets, headers and tables of the template, checked before the rules */
+  templateStructure?: ExpectedSheetStructure[];
+  /** Active code lists referenced by "inList:" rules, as sets of normalized codes */
+  codeLists?: Map<string, Set<string>>;
+  /** Unit the template's amounts are reported in (100000 for lakhs) */
+  amountScale?: number;
+}
+
+/**
+ * Everything a rule handler needs to check one rule
+ */
+export interface RuleContext {
+  submissionId: number;
+  submissionData: SubmissionData;
+  /** Sheet the rule targets - set for handlers with scope "sheet" */
+  sheet: SheetData;
+  /** Last approved submission for the same entity and template, when a handler asked for it */
+  previousSubmission: PreviousSubmission | null;
+}
+
+/**
+ * Checks one rule type. Sheet handlers receive the sheet the rule targets
+ * (rule.sheetId, a sheet-qualified field, or the first sheet); workbook
+ * handlers resolve sheets themselves from the rule and get the first sheet.
+ */
+export interface RuleHandler {
+  scope: 'sheet' | 'workbook';
+  /** Load the previous approved submission before validating (variance rules) */
+  needsPreviousSubmission?: boolean;
+  /** Each row can be checked on its own, so streaming validation checks the rule as rows arrive */
+  rowScoped?(rule: ValidationRule): boolean;
+  /**
+   * Cells the rule reads, kept in memory by streaming validation. Without it
+   * the whole target sheet is kept (every sheet for workbook handlers).
+   */
+  requirements?(rule: ValidationRule, sheet: StreamedSheet, sheetNames: string[]): CellRequirement[];
+  validate(rule: ValidationRule, context: RuleContext): ValidationResult[] | Promise<ValidationResult[]>;
+}
+
+export interface ValidationSummary {
   results: ValidationResult[];
   summary: {
     totalRules: number;
     totalChecks: number;
     passedChecks: number;
     failedChecks: number;
+    /** Checks not applied because the rule's when clause did not hold */
+    skippedChecks: number;
+    /** Failures that fail the submission, blocking ones included */
     errorCount: number;
     warningCount: number;
+    infoCount: number;
+    /** Failures that cannot be waived */
+    blockingCount: number;
     overallStatus: 'passed' | 'failed' | 'warnings';
   };
   metadata: {
@@ -51,51 +147,193 @@ interface ValidationSummary {
     fileName: string;
     validationDate: string;
     processingTime: number;
+    /** The file was validated row by row; results then only list failures */
+    streaming?: boolean;
+    /** Failures counted in the summary but dropped from results to bound memory */
+    omittedFailures?: number;
+    /** Formatted text amounts read as numbers under the template's number format */
+    numberCoercions?: NumberCoercionReport;
   };
 }
 
+/**
+ * Running counts of checked cells. Streaming validation keeps failures only,
+ * up to MAX_STREAMED_FAILURES.
+ */
+interface ResultTally {
+  results: ValidationResult[];
+  totalChecks: number;
+  passedChecks: number;
+  skippedChecks: number;
+  errorCount: number;
+  warningCount: number;
+  infoCount: number;
+  blockingCount: number;
+  omittedFailures: number;
+}
+
+/**
+ * What streaming validation does with each rule once the sheet names are known
+ */
+interface StreamingPlan {
+  /** Lower-cased sheet name -> rules checked on each row as it arrives */
+  rowRules: Map<string, ValidationRule[]>;
+  /** Rules checked after the file is read, against the retained cells */
+  retainedRules: ValidationRule[];
+  /** Lower-cased sheet name -> cells the retained rules read */
+  requirements: Map<string, CellRequirement[]>;
+  /** Cells of the previous submission read by variance rules */
+  previousRequirements: Array<{ sheet: StreamedSheet; requirements: CellRequirement[] }>;
+}
+
+// Files at least this large are validated as a stream unless the caller chooses
+const STREAMING_THRESHOLD_BYTES = 20 * 1024 * 1024;
+const MAX_STREAMED_FAILURES = 50000;
+
+// TABLE(n)[Header] in reconcile conditions, optionally sheet-qualified
+const TABLE_REFERENCE = /(?:(?:'([^']+)'|([A-Za-z0-9_.]+))!)?TABLE\(\s*(\d+)\s*\)\[([^\]]+)\]/gi;
+
+// Variance limits: "MAX_CHANGE 25%" or an absolute "MAX_CHANGE 100000"
+const VARIANCE_CONDITION = /^(?:MAX_CHANGE\s+)?(\d+(?:\.\d+)?)\s*(%)?$/i;
+
+// Runs the template structure check ahead of a template's own rules
+const STRUCTURE_RULE: Omit<ValidationRule, 'templateId'> = {
+  field: 'workbook',
+  ruleType: 'structure',
+  condition: 'template_structure',
+  errorMessage: 'Submission structure does not match the template',
+  severity: 'error'
+};
+
 export class ModernValidationEngine {
+  private static handlers: Map<string, RuleHandler> | null = null;
+
+  /**
+   * Register (or replace) the handler for a rule type
+   */
+  static registerRuleHandler(ruleType: string, handler: RuleHandler): void {
+    this.getHandlers().set(ruleType, handler);
+  }
+
+  /**
+   * Handler registered for a rule type, if any
+   */
+  static getRuleHandler(ruleType: string): RuleHandler | undefined {
+    return this.getHandlers().get(ruleType);
+  }
+
+  /**
+   * Rule types with a registered handler
+   */
+  static getRuleTypes(): string[] {
+    return Array.from(this.getHandlers().keys());
+  }
+
+  /**
+   * Why a built-in rule's condition can't be checked, or null when it can.
+   * The same problems are otherwise only reported when a submission is
+   * validated. Code list names are not looked up.
+   */
+  static getConditionError(rule: Pick<ValidationRule, 'field' | 'ruleType' | 'condition'>): string | null {
+    const condition = (rule.condition || '').trim();
+    switch (rule.ruleType) {
+      case 'dataType':
+      case 'minLength':
+      case 'maxLength':
+      case 'minimum':
+      case 'maximum':
+      case 'pattern':
+      case 'enum':
+      case 'decimals': {
+        const check = this.compileValueCheck(rule as ValidationRule);
+        return typeof check === 'string' ? check : null;
+      }
+      case 'format': {
+        const formatType = condition.toLowerCase();
+        if (CodeLists.getReferencedList(condition) || ['email', 'phone', 'number', 'date'].includes(formatType) || CODE_FORMATS[formatType]) {
+          return null;
+        }
+        try {
+          new RegExp(formatType.startsWith('regex:') ? condition.substring(6) : condition);
+          return null;
+        } catch (error) {
+          return (error as Error).message;
+        }
+      }
+      case 'range': {
+        const bounds = condition.split(',').map(part => part.split(':').map(piece => piece.trim().toLowerCase()));
+        // Other parts (e.g. NOT_EMPTY from CSV files) are ignored by the range check
+        const invalid = bounds.find(([type, value]) => (type === 'min' || type === 'max') && isNaN(parseFloat(value)));
+        return invalid ? `"${invalid.join(':')}" is not a number bound, expected e.g. "min:0,max:100"` : null;
+      }
+      case 'cell':
+        return this.isRequiredCondition(condition) ? null : ExpressionEvaluator.validateSyntax(condition);
+      case 'custom':
+      case 'legacy':
+      case 'crossField':
+      case 'global':
+        return condition ? ExpressionEvaluator.validateSyntax(condition) : 'the expression is empty';
+      case 'reconcile':
+      case 'sum':
+        if (!parseCellAddress(splitSheetAddress(rule.field).address)) return `target "${rule.field}" is not a single cell`;
+        // TABLE(n)[Header] and ABOVE become ranges once the submission is read
+        return ExpressionEvaluator.validateSyntax(
+          condition.replace(new RegExp(TABLE_REFERENCE.source, 'gi'), 'A1:A2').replace(/\bABOVE\b/gi, 'A1:A2')
+        );
+      case 'variance':
+        return VARIANCE_CONDITION.test(condition) ? null : 'expected e.g. "MAX_CHANGE 25%" or "MAX_CHANGE 100000"';
+      case 'unique':
+      case 'uniqueKey':
+        return parseSheetColumns(rule.field) ? null : `"${rule.field}" is not a list of columns such as "Sheet!A,B"`;
+      case 'referentialIntegrity': {
+        const source = parseSheetColumns(rule.field);
+        const target = parseSheetColumns(condition);
+        return source && target && source.columns.length === target.columns.length
+          ? null
+          : `"${rule.field}" must list the same number of columns as "${condition}"`;
+      }
+      default:
+        return null;
+    }
+  }
+
   /**
-   * Validate a submission using modern validation rules
+   * Validate a submission using modern validation rules. Large files (or any
+   * file when `streaming` is set) are read row by row instead of loaded whole.
    */
   static async validateSubmission({
     filePath,
     templateId,
     submissionId,
     validationRulesPath,
-    fileName
+    fileName,
+    userId,
+    reportingPeriod,
+    frequency,
+    streaming,
+    rules
   }: {
     filePath: string;
     templateId: number;
     submissionId: number;
-    validationRulesPath?: string;
+    validationRulesPath?: string | null;
     fileName: string;
+    userId?: number;
+    reportingPeriod?: string;
+    frequency?: string | null;
+    streaming?: boolean;
+    /** Already parsed rules, e.g. a rule set version or a draft being tested; skips loading the template's rules */
+    rules?: ValidationRule[];
   }): Promise<ValidationSummary> {
     const startTime = Date.now();
     
     try {
-      // First, try to load validation rules from the validation file
-      let validationRules: ValidationRule[] = [];
-      
-      if (validationRulesPath && fs.existsSync(validationRulesPath)) {
-        console.log(`Loading validation rules from file: ${validationRulesPath}`);
-        const parsedRules = await ModernValidationRulesParser.parseValidationFile(
-          validationRulesPath,
-          templateId
-        );
-        
-        if (parsedRules.errors.length > 0) {
-          console.warn('Validation file parsing errors:', parsedRules.errors);
-        }
-        
-        validationRules = parsedRules.rules;
-        console.log(`Loaded ${validationRules.length} validation rules from file`);
-      } else {
-        console.log('No validation file found, using database rules as fallback');
-        // Fallback to database rules if no validation file
-        const { storage } = await import('../server/storage');
-        validationRules = await storage.getValidationRules(templateId);
-      }
+      const templateStructure = await this.loadTemplateStructure(templateId);
+      const validationRules = [
+        ...(templateStructure.length > 0 ? [{ ...STRUCTURE_RULE, templateId }] : []),
+        ...await this.loadTemplateFormulaRules(templateId),
+        ...(rules ?? await this.loadRules(templateId, validationRulesPath))
+      ];
       
       if (validationRules.length === 0) {
         console.log('No validation rules found - submission passes by default');
@@ -106,8 +344,11 @@ export class ModernValidationEngine {
             totalChecks: 0,
             passedChecks: 0,
             failedChecks: 0,
+            skippedChecks: 0,
             errorCount: 0,
             warningCount: 0,
+            infoCount: 0,
+            blockingCount: 0,
             overallStatus: 'passed'
           },
           metadata: {
@@ -118,26 +359,60 @@ export class ModernValidationEngine {
         };
       }
 
-      // Load and parse the submission file
-      const submissionData = await this.loadSubmissionData(filePath);
+      const numberFormat = await this.loadNumberFormat(templateId);
+      const coercions = createCoercionReport();
+      const context = {
+        variables: this.getPeriodVariables(reportingPeriod, frequency),
+        templateSheets: await this.loadTemplateSheets(templateId, validationRules),
+        templateStructure,
+        codeLists: await this.loadCodeLists(validationRules),
+        amountScale: numberFormat.amountScale
+      };
       
-      // Validate the submission against all rules
-      const results = await this.validateAgainstRules(
-        submissionData,
-        validationRules,
-        submissionId
-      );
+      // Variance rules compare against the entity's last approved filing
+      const needsPrevious = validationRules.some(r => this.getRuleHandler(r.ruleType)?.needsPreviousSubmission);
+      const loadPrevious = (load?: (filePath: string) => Promise<SubmissionData>) =>
+        needsPrevious && userId && reportingPeriod
+          ? this.loadPreviousSubmission(templateId, userId, reportingPeriod, load)
+          : Promise.resolve(null);
+      
+      const useStreaming = streaming ?? fs.statSync(filePath).size >= STREAMING_THRESHOLD_BYTES;
+      let tally: ResultTally;
+      
+      if (useStreaming) {
+        console.log(`Validating ${fileName} as a stream`);
+        tally = await this.validateStreaming(filePath, validationRules, submissionId, context, loadPrevious, numberFormat, coercions);
+      } else {
+        // Load and parse the submission file
+        const submissionData = {
+          ...this.normalizeNumbers(await this.loadSubmissionData(filePath), numberFormat, coercions),
+          ...context
+        };
+        
+        // Validate the submission against all rules
+        const results = await this.validateAgainstRules(
+          submissionData,
+          validationRules,
+          submissionId,
+          await loadPrevious(async previousPath => this.normalizeNumbers(await this.loadSubmissionData(previousPath), numberFormat))
+        );
+        tally = this.tallyResults(this.createTally(), results, false);
+      }
 
-      // Calculate summary statistics
-      const summary = this.calculateSummary(results, validationRules);
+      if (tally.omittedFailures > 0) {
+        console.warn(`${tally.omittedFailures} failures beyond the first ${MAX_STREAMED_FAILURES} were counted but not kept`);
+      }
 
       return {
-        results,
-        summary,
+        results: tally.results,
+        summary: this.calculateSummary(tally, validationRules),
         metadata: {
           fileName,
           validationDate: new Date().toISOString(),
-          processingTime: Date.now() - startTime
+          processingTime: Date.now() - startTime,
+          ...(useStreaming && { streaming: true }),
+          ...(tally.omittedFailures > 0 && { omittedFailures: tally.omittedFailures }),
+          ...(coercions.count > 0 && { numberCoercions: coercions })
         }
       };
 
@@ -151,7 +426,7 @@ export class ModernValidationEngine {
           field: 'system',
           ruleType: 'system',
           condition: 'file_processing',
-          errorMessage: `Failed to process submission: ${error.message}`,
+          errorMessage: `Failed to process submission: ${(error as Error).message}`,
           severity: 'error',
           isValid: false
         }],
@@ -160,8 +435,11 @@ export class ModernValidationEngine {
           totalChecks: 1,
           passedChecks: 0,
           failedChecks: 1,
+          skippedChecks: 0,
           errorCount: 1,
           warningCount: 0,
+          infoCount: 0,
+          blockingCount: 0,
           overallStatus: 'failed'
         },
         metadata: {
@@ -173,10 +451,154 @@ export class ModernValidationEngine {
     }
   }
 
+  /**
+   * Convert engine results to validation_results rows
+   */
+  static toResultRecords(results: ValidationResult[]): InsertValidationResult[] {
+    return results.map(result => ({
+      submissionId: result.submissionId,
+      ruleId: result.ruleId,
+      field: result.field,
+      ruleType: result.ruleType,
+      condition: result.condition,
+      cellReference: result.cellReference,
+      cellValue: result.cellValue,
+      message: result.errorMessage,
+      severity: result.severity,
+      isValid: result.isValid,
+      sheetName: result.sheetName,
+      rowNumber: result.rowNumber,
+      columnNumber: result.columnName && /^[A-Z]{1,3}$/.test(result.columnName)
+        ? columnToNumber(result.columnName)
+        : undefined,
+      columnName: result.columnName,
+      comparisonValue: result.comparisonValue,
+      delta: result.delta
+    }));
+  }
+
+  /**
+   * Rules for a template. The uploaded validation file is the source of truth;
+   * rules stored in the database are used when the template has no file.
+   */
+  static async loadRules(templateId: number, validationRulesPath?: string | null): Promise<ValidationRule[]> {
+    if (validationRulesPath && fs.existsSync(validationRulesPath)) {
+      console.log(`Loading validation rules from file: ${validationRulesPath}`);
+      const parsedRules = await ModernValidationRulesParser.parseValidationFile(
+        validationRulesPath,
+        templateId
+      );
+      
+      if (parsedRules.errors.length > 0) {
+        console.warn('Validation file parsing errors:', parsedRules.errors);
+      }
+      
+      console.log(`Loaded ${parsedRules.rules.length} validation rules from file`);
+      return parsedRules.rules;
+    }
+    
+    console.log('No validation file found, using database rules as fallback');
+    const { storage } = await import('../server/storage');
+    const rules = await storage.getValidationRules(templateId);
+    return rules.map(rule => ({
+      ...rule,
+      severity: toValidationSeverity(rule.severity)
+    }));
+  }
+
+  /**
+   * Map templateSheets ids to worksheet names for rules that target a sheet by id
+   */
+  private static async loadTemplateSheets(
+    templateId: number,
+    rules: ValidationRule[]
+  ): Promise<Map<number, { name: string; index: number }>> {
+    const mapping = new Map<number, { name: string; index: number }>();
+    if (!rules.some(rule => rule.sheetId)) return mapping;
+    
+    const { storage } = await import('../server/storage');
+    const sheets = await storage.getTemplateSheets(templateId);
+    sheets.forEach(sheet => mapping.set(sheet.id, { name: sheet.sheetName, index: sheet.sheetIndex }));
+    return mapping;
+  }
+
+  /**
+   * Sheets, headers and tables captured when the template was processed.
+   * Templates that were never processed have none, and are not checked.
+   */
+  private static async loadTemplateStructure(templateId: number): Promise<ExpectedSheetStructure[]> {
+    const { storage } = await import('../server/storage');
+    const sheets = await storage.getTemplateSheets(templateId);
+    return TemplateStructure.fromTemplateSheets(sheets);
+  }
+
+  /**
+   * Active versions of the code lists the rules reference
+   */
+  private static async loadCodeLists(rules: ValidationRule[]): Promise<Map<string, Set<string>>> {
+    const lists = new Map<string, Set<string>>();
+    const names = Array.from(new Set(
+      rules
+        .filter(rule => rule.ruleType === 'format')
+        .map(rule => CodeLists.getReferencedList(rule.condition))
+        .filter((name): name is string => name !== null)
+    ));
+    if (names.length === 0) return lists;
+    
+    const { storage } = await import('../server/storage');
+    for (const list of await storage.getActiveCodeLists(names)) {
+      const entries: Array<{ code: string }> = JSON.parse(list.entries);
+      lists.set(list.name, new Set(entries.map(entry => CodeLists.normalizeCode(entry.code))));
+    }
+    return lists;
+  }
+
+  /**
+   * How the template's submissions write amounts; the defaults when it sets nothing
+   */
+  private static async loadNumberFormat(templateId: number): Promise<NumberFormat> {
+    const { storage } = await import('../server/storage');
+    const template = await storage.getTemplate(templateId);
+    return resolveNumberFormat(template?.numberFormat);
+  }
+
+  /**
+   * One formula rule per formula cell in the template workbook, so pasted
+   * values and edited formulas in the submission are caught
+   */
+  private static async loadTemplateFormulaRules(templateId: number): Promise<ValidationRule[]> {
+    const { storage } = await import('../server/storage');
+    const template = await storage.getTemplate(templateId);
+    if (!template?.filePath || this.getFileType(template.filePath) !== 'excel' || !fs.existsSync(template.filePath)) {
+      return [];
+    }
+    
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(template.filePath);
+    
+    const rules: ValidationRule[] = [];
+    workbook.worksheets.forEach(worksheet => {
+      worksheet.eachRow(row => {
+        row.eachCell(cell => {
+          if (!cell.formula) return;
+          rules.push({
+            templateId,
+            field: formatSheetReference(worksheet.name, cell.address),
+            ruleType: 'formula',
+            condition: cell.formula,
+            errorMessage: `${cell.address} must keep the template formula =${cell.formula}`,
+            severity: 'error'
+          });
+        });
+      });
+    });
+    return rules;
+  }
+
   /**
    * Load submission data from Excel/CSV file
    */
-  private static async loadSubmissionData(filePath: string): Promise<any> {
+  private static async loadSubmissionData(filePath: string): Promise<SubmissionData> {
     const extension = path.extname(filePath).toLowerCase();
     
     if (extension === '.csv') {
@@ -188,14 +610,80 @@ export class ModernValidationEngine {
     }
   }
 
+  /**
+   * Read only the cells that requirements ask for, row by row
+   */
+  private static async loadRetainedData(
+    filePath: string,
+    requirementsFor: (sheet: StreamedSheet) => CellRequirement[],
+    numberFormat?: NumberFormat
+  ): Promise<SubmissionData> {
+    const store = new RetainedCellStore(requirementsFor);
+    const sheetNames = await streamWorkbookRows(filePath, row => {
+      if (numberFormat) this.normalizeRowNumbers(row.sheet.name, row.rowNumber, row.values, numberFormat);
+      store.add(row);
+    });
+    return { sheets: store.toSheets(sheetNames), type: this.getFileType(filePath) };
+  }
+
+  /**
+   * Read formatted text amounts in every sheet as numbers
+   */
+  private static normalizeNumbers(
+    data: SubmissionData,
+    numberFormat: NumberFormat,
+    report?: NumberCoercionReport
+  ): SubmissionData {
+    data.sheets.forEach(sheet => {
+      sheet.data.forEach((row, index) => {
+        if (row) this.normalizeRowNumbers(sheet.name, index + 1, row, numberFormat, report);
+      });
+    });
+    return data;
+  }
+
+  /**
+   * Replace text amounts such as "1,23,456.00", "(1,500)" or "12.5%" on a row
+   * with the numbers they stand for, noting each in the report. Plain digit
+   * text stays text, and row 1 holds headers so it is left as typed.
+   */
+  private static normalizeRowNumbers(
+    sheetName: string,
+    rowNumber: number,
+    values: any[],
+    numberFormat: NumberFormat,
+    report?: NumberCoercionReport
+  ): void {
+    if (!numberFormat.enabled || rowNumber === 1) return;
+    
+    values.forEach((value, index) => {
+      const parsed = coerceFormattedNumber(value, numberFormat);
+      if (!parsed) return;
+      values[index] = parsed.value;
+      if (report) {
+        recordCoercion(report, {
+          sheetName,
+          cellReference: `${numberToColumn(index + 1)}${rowNumber}`,
+          original: value,
+          value: parsed.value,
+          coercions: parsed.coercions
+        });
+      }
+    });
+  }
+
+  private static getFileType(filePath: string): SubmissionData['type'] {
+    return path.extname(filePath).toLowerCase() === '.csv' ? 'csv' : 'excel';
+  }
+
   /**
    * Load Excel data
    */
-  private static async loadExcelData(filePath: string): Promise<any> {
+  private static async loadExcelData(filePath: string): Promise<SubmissionData> {
     const workbook = new ExcelJS.Workbook();
     await workbook.xlsx.readFile(filePath);
     
-    const sheets: any[] = [];
+    const sheets: SheetData[] = [];
     
     workbook.worksheets.forEach((worksheet, index) => {
       const sheetData: any[][] = [];
@@ -203,9 +691,13 @@ export class ModernValidationEngine {
       worksheet.eachRow((row, rowNumber) => {
         const rowData: any[] = [];
         row.eachCell((cell, colNumber) => {
-          rowData[colNumber - 1] = cell.value;
+          // Shared formulas only name their master cell; keep this cell's own formula
+          rowData[colNumber - 1] = cell.value && typeof cell.value === 'object' && 'sharedFormula' in cell.value
+            ? { formula: cell.formula, result: cell.result }
+            : cell.value;
         });
-        sheetData.push(rowData);
+        // Index by row number so blank rows don't shift cell references
+        sheetData[rowNumber - 1] = rowData;
       });
       
       sheets.push({
@@ -221,24 +713,27 @@ export class ModernValidationEngine {
   }
 
   /**
-   * Load CSV data
+   * Load CSV data - the header line becomes row 1 so cell addresses match
+   * the same data saved as Excel
    */
-  private static async loadCsvData(filePath: string): Promise<any> {
-    const csv = await import('csv-parser');
-    const results: any[] = [];
+  private static async loadCsvData(filePath: string): Promise<SubmissionData> {
+    const { default: csv } = await import('csv-parser');
+    const rows: any[][] = [];
     
     return new Promise((resolve, reject) => {
       fs.createReadStream(filePath)
-        .pipe(csv())
-        .on('data', (data) => results.push(data))
+        .pipe(csv({ headers: false }))
+        .on('data', (row: Record<string, string>) => {
+          rows.push(Object.keys(row).map(key => row[key]));
+        })
         .on('end', () => {
           resolve({
             sheets: [{
               name: 'Sheet1',
               index: 0,
-              data: results,
-              rowCount: results.length,
-              columnCount: Object.keys(results[0] || {}).length
+              data: rows,
+              rowCount: rows.length,
+              columnCount: Math.max(0, ...rows.map(row => row.length))
             }],
             type: 'csv'
           });
@@ -248,680 +743,1640 @@ export class ModernValidationEngine {
   }
 
   /**
-   * Validate submission data against validation rules
+   * Load the latest approved submission for the same entity and template from
+   * an earlier reporting period
+   */
+  private static async loadPreviousSubmission(
+    templateId: number,
+    userId: number,
+    reportingPeriod: string,
+    load: (filePath: string) => Promise<SubmissionData> = filePath => this.loadSubmissionData(filePath)
+  ): Promise<PreviousSubmission | null> {
+    const { storage } = await import('../server/storage');
+    const previous = await storage.getPreviousApprovedSubmission(userId, templateId, reportingPeriod);
+    
+    if (!previous || !fs.existsSync(previous.filePath)) {
+      console.log(`No prior approved submission found for template ${templateId} before ${reportingPeriod}`);
+      return null;
+    }
+    
+    console.log(`Comparing against submission ${previous.id} (${previous.reportingPeriod})`);
+    return {
+      id: previous.id,
+      reportingPeriod: previous.reportingPeriod,
+      data: await load(previous.filePath)
+    };
+  }
+
+  /**
+   * Variables describing the reporting period, available to rule expressions
+   * (e.g. "value >= PERIOD_START AND value <= PERIOD_END")
+   */
+  private static getPeriodVariables(reportingPeriod?: string, frequency?: string | null): Record<string, any> {
+    if (!reportingPeriod) return {};
+    
+    const range = parseReportingPeriod(reportingPeriod, frequency);
+    if (!range) {
+      console.warn(`Could not parse reporting period "${reportingPeriod}"; PERIOD_START/PERIOD_END are unavailable`);
+      return { REPORTING_PERIOD: reportingPeriod };
+    }
+    
+    return {
+      REPORTING_PERIOD: reportingPeriod,
+      PERIOD_START: range.start,
+      PERIOD_END: range.end
+    };
+  }
+
+  /**
+   * Validate submission data against validation rules. With onResults, each
+   * rule's results are handed over as soon as it finishes instead of collected.
    */
   private static async validateAgainstRules(
-    submissionData: any,
+    submissionData: SubmissionData,
     validationRules: ValidationRule[],
-    submissionId: number
+    submissionId: number,
+    previousSubmission: PreviousSubmission | null = null,
+    onResults?: (results: ValidationResult[]) => void
   ): Promise<ValidationResult[]> {
-    const results: ValidationResult[] = [];
+    const collected: ValidationResult[] = [];
     
     for (const rule of validationRules) {
-      if (!rule.isActive) continue;
-      
-      // Find the sheet to validate
-      const targetSheet = rule.sheetId 
-        ? submissionData.sheets.find((s: any) => s.index === rule.sheetId - 1)
-        : submissionData.sheets[0]; // Default to first sheet if no specific sheet
-      
-      if (!targetSheet) {
-        results.push({
-          submissionId,
-          ruleId: rule.id,
-          field: rule.field,
-          ruleType: rule.ruleType,
-          condition: rule.condition,
-          errorMessage: `Sheet not found for validation rule: ${rule.field}`,
-          severity: 'error',
-          isValid: false,
-          sheetName: 'Unknown'
-        });
-        continue;
-      }
-
-      // Validate rule against sheet data
-      const ruleResults = await this.validateRule(
-        rule,
-        targetSheet,
-        submissionId
-      );
-      
-      results.push(...ruleResults);
+      const results = await this.validateRule(rule, submissionData, submissionId, previousSubmission);
+      if (onResults) onResults(results);
+      else collected.push(...results);
     }
     
-    return results;
+    return collected;
   }
 
   /**
-   * Validate a single rule against sheet data
+   * Run one rule through its handler
    */
   private static async validateRule(
     rule: ValidationRule,
-    sheet: any,
-    submissionId: number
+    submissionData: SubmissionData,
+    submissionId: number,
+    previousSubmission: PreviousSubmission | null
   ): Promise<ValidationResult[]> {
-    const results: ValidationResult[] = [];
+    if (rule.isActive === false) return [];
+    
+    const baseResult = {
+      submissionId,
+      ruleId: rule.id,
+      field: rule.field,
+      ruleType: rule.ruleType,
+      condition: rule.condition,
+      severity: 'error' as const,
+      isValid: false
+    };
+    
+    const handler = this.getRuleHandler(rule.ruleType);
+    if (!handler) {
+      return [{ ...baseResult, errorMessage: `Unknown rule type: ${rule.ruleType}` }];
+    }
+    
+    // Workbook handlers find their own sheets from the rule
+    const sheet = handler.scope === 'workbook'
+      ? submissionData.sheets[0]
+      : this.resolveRuleSheet(rule, submissionData);
+    
+    if (!sheet) {
+      return [{
+        ...baseResult,
+        errorMessage: `Sheet not found for validation rule: ${rule.field}`,
+        sheetName: 'Unknown'
+      }];
+    }
     
     try {
-      switch (rule.ruleType) {
-        case 'required':
-          return this.validateRequiredRule(rule, sheet, submissionId);
-        case 'format':
-          return this.validateFormatRule(rule, sheet, submissionId);
-        case 'range':
-          return this.validateRangeRule(rule, sheet, submissionId);
-        case 'custom':
-          return this.validateCustomRule(rule, sheet, submissionId);
-        case 'cell':
-          return this.validateCellRule(rule, sheet, submissionId);
-        default:
-          results.push({
-            submissionId,
-            ruleId: rule.id,
-            field: rule.field,
-            ruleType: rule.ruleType,
-            condition: rule.condition,
-            errorMessage: `Unknown rule type: ${rule.ruleType}`,
-            severity: 'error',
-            isValid: false,
-            sheetName: sheet.name
-          });
-          return results;
-      }
-    } catch (error) {
-      results.push({
+      const results = await handler.validate(rule, {
         submissionId,
+        submissionData,
+        sheet,
+        previousSubmission
+      });
+      return rule.when ? this.applyWhenClause(rule, results, submissionData, sheet) : results;
+    } catch (error) {
+      return [{
+        ...baseResult,
+        errorMessage: `Rule validation error: ${(error as Error).message}`,
+        sheetName: sheet.name
+      }];
+    }
+  }
+
+  /**
+   * Mark the results of rows where the rule's when clause does not hold as
+   * skipped. The clause is evaluated on each result's row; results without a
+   * row are only affected by clauses that don't read the row.
+   */
+  private static applyWhenClause(
+    rule: ValidationRule,
+    results: ValidationResult[],
+    submissionData: SubmissionData,
+    sheet: SheetData
+  ): ValidationResult[] {
+    const when = rule.when!;
+    let readsRow: boolean;
+    try {
+      readsRow = ExpressionEvaluator.getRowColumns(when, ['value']).length > 0;
+    } catch (error) {
+      return [{
+        submissionId: results[0]?.submissionId ?? 0,
         ruleId: rule.id,
         field: rule.field,
         ruleType: rule.ruleType,
         condition: rule.condition,
-        errorMessage: `Rule validation error: ${error.message}`,
+        errorMessage: `Invalid when clause "${when}": ${(error as Error).message}`,
         severity: 'error',
         isValid: false,
         sheetName: sheet.name
-      });
-      return results;
+      }];
     }
+    
+    // Several results can share a row (e.g. a rule over columns B:D)
+    const outcomes = new Map<string, boolean | Error>();
+    return results.map(result => {
+      if (readsRow && result.rowNumber === undefined) return result;
+      
+      const resultSheet = (result.sheetName && this.findSheetByName(submissionData, result.sheetName)) || sheet;
+      const key = `${resultSheet.name}|${result.rowNumber ?? ''}`;
+      if (!outcomes.has(key)) {
+        try {
+          const scope = this.createExpressionScope(submissionData, resultSheet, { currentRow: result.rowNumber });
+          outcomes.set(key, ExpressionEvaluator.test(when, scope).passed);
+        } catch (error) {
+          outcomes.set(key, error as Error);
+        }
+      }
+      
+      const outcome = outcomes.get(key)!;
+      if (outcome instanceof Error) {
+        return { ...result, isValid: false, errorMessage: `${rule.errorMessage} (when: ${outcome.message})` };
+      }
+      return outcome ? result : { ...result, skipped: true };
+    });
   }
 
   /**
-   * Validate required field rule
+   * Sheet a rule applies to: its template sheet (rule.sheetId), the sheet
+   * named in its field ("Sheet!B5", "Sheet.Column"), or the first sheet
    */
-  private static validateRequiredRule(
-    rule: ValidationRule,
-    sheet: any,
-    submissionId: number
-  ): ValidationResult[] {
-    const results: ValidationResult[] = [];
+  private static resolveRuleSheet(rule: ValidationRule, submissionData: SubmissionData): SheetData | undefined {
+    if (rule.sheetId) {
+      const templateSheet = submissionData.templateSheets?.get(rule.sheetId);
+      if (!templateSheet) return undefined;
+      return this.findSheetByName(submissionData, templateSheet.name)
+        || submissionData.sheets.find(s => s.index === templateSheet.index);
+    }
+    
+    // An explicit "Sheet!" prefix must exist; "Sheet.Column" only counts when it names a sheet
+    const explicitSheet = splitSheetAddress(rule.field || '').sheetName;
+    const sheetName = explicitSheet || getFieldSheetName(rule.field || '', submissionData.sheets.map(s => s.name));
+    return sheetName ? this.findSheetByName(submissionData, sheetName) : submissionData.sheets[0];
+  }
+
+  /**
+   * Validate a file row by row. Row-scoped rules are checked on each row as
+   * it arrives; the other rules run once the file has been read, against the
+   * cells they asked to keep. Passing checks are counted, not kept.
+   */
+  private static async validateStreaming(
+    filePath: string,
+    validationRules: ValidationRule[],
+    submissionId: number,
+    context: Pick<SubmissionData, 'variables' | 'templateSheets' | 'templateStructure' | 'codeLists' | 'amountScale'>,
+    loadPrevious: (load: (filePath: string) => Promise<SubmissionData>) => Promise<PreviousSubmission | null>,
+    numberFormat: NumberFormat,
+    coercions: NumberCoercionReport
+  ): Promise<ResultTally> {
+    const tally = this.createTally();
+    const record = (results: ValidationResult[]) => this.tallyResults(tally, results, true);
+    const type = this.getFileType(filePath);
+    
+    let plan: StreamingPlan | null = null;
+    const store = new RetainedCellStore(sheet => plan?.requirements.get(sheet.name.toLowerCase()) || []);
     
-    // Parse field reference (e.g., "A1:A100" or "Company Name") with enhanced row/column range support
-    const fieldInfo = this.parseFieldReference(rule.field, sheet, rule);
+    // One submission per sheet whose sheet is a window over the rows read since the last call
+    const windows = new Map<string, { submissionData: SubmissionData; window: SheetData; header: any[] }>();
     
-    fieldInfo.cells.forEach((cell, index) => {
-      const isEmpty = cell.value === null || 
-                      cell.value === undefined || 
-                      cell.value === '' ||
-                      (typeof cell.value === 'string' && cell.value.trim() === '');
+    const sheetNames = await streamWorkbookRows(filePath, async row => {
+      plan = plan || this.planStreaming(validationRules, row.sheetNames, context.templateSheets);
+      this.normalizeRowNumbers(row.sheet.name, row.rowNumber, row.values, numberFormat, coercions);
+      store.add(row);
       
-      if (isEmpty) {
-        results.push({
-          submissionId,
-          ruleId: rule.id,
-          field: rule.field,
-          ruleType: rule.ruleType,
-          condition: rule.condition,
-          cellReference: cell.reference,
-          cellValue: String(cell.value || ''),
-          errorMessage: rule.errorMessage,
-          severity: rule.severity,
-          isValid: false,
-          sheetName: sheet.name,
-          rowNumber: cell.row,
-          columnName: cell.column
-        });
-      } else {
-        results.push({
-          submissionId,
-          ruleId: rule.id,
-          field: rule.field,
-          ruleType: rule.ruleType,
-          condition: rule.condition,
-          cellReference: cell.reference,
-          cellValue: String(cell.value),
-          errorMessage: rule.errorMessage,
-          severity: rule.severity,
-          isValid: true,
-          sheetName: sheet.name,
-          rowNumber: cell.row,
-          columnName: cell.column
-        });
+      const rowRules = plan.rowRules.get(row.sheet.name.toLowerCase());
+      if (!rowRules) return;
+      
+      let entry = windows.get(row.sheet.name);
+      if (!entry) {
+        const window: SheetData = { name: row.sheet.name, index: row.sheet.index, data: [], rowCount: 0, columnCount: 0, firstRow: 1 };
+        const sheets = row.sheetNames.map((name, index) =>
+          name === row.sheet.name ? window : { name, index, data: [], rowCount: 0, columnCount: 0 }
+        );
+        entry = { submissionData: { sheets, type, ...context }, window, header: [] };
+        windows.set(row.sheet.name, entry);
       }
+      if (row.rowNumber === 1) entry.header = row.values;
+      
+      // Rows the file skips (blank rows) are covered by the same window
+      const { window } = entry;
+      window.firstRow = window.rowCount + 1;
+      window.data = [];
+      window.data[0] = entry.header;
+      window.data[row.rowNumber - 1] = row.values;
+      window.rowCount = row.rowNumber;
+      window.columnCount = Math.max(window.columnCount, row.values.length);
+      
+      await this.validateAgainstRules(entry.submissionData, rowRules, submissionId, null, record);
     });
     
-    return results;
+    const finalPlan: StreamingPlan = plan || this.planStreaming(validationRules, sheetNames, context.templateSheets);
+    if (finalPlan.retainedRules.length === 0) return tally;
+    
+    const needsPrevious = finalPlan.retainedRules.some(r => this.getRuleHandler(r.ruleType)?.needsPreviousSubmission);
+    const previousSubmission = needsPrevious
+      ? await loadPrevious(previousPath => this.loadRetainedData(previousPath, sheet => {
+          const match = finalPlan.previousRequirements.find(p => p.sheet.name.toLowerCase() === sheet.name.toLowerCase())
+            || finalPlan.previousRequirements.find(p => p.sheet.index === sheet.index);
+          return match?.requirements || [];
+        }, numberFormat))
+      : null;
+    
+    const retainedData: SubmissionData = { sheets: store.toSheets(sheetNames), type, ...context };
+    await this.validateAgainstRules(retainedData, finalPlan.retainedRules, submissionId, previousSubmission, record);
+    return tally;
   }
 
   /**
-   * Validate format rule (email, phone, date, etc.)
+   * Sort rules into those checked per row and those checked on retained cells,
+   * and work out which cells the latter read. Rules on missing sheets and
+   * rules for single cells are retained so they are reported once.
    */
-  private static validateFormatRule(
-    rule: ValidationRule,
-    sheet: any,
-    submissionId: number
-  ): ValidationResult[] {
-    const results: ValidationResult[] = [];
-    const fieldInfo = this.parseFieldReference(rule.field, sheet, rule);
-    
-    // Parse format condition (e.g., "email", "phone", "date:YYYY-MM-DD")
-    const formatType = rule.condition.toLowerCase();
+  private static planStreaming(
+    validationRules: ValidationRule[],
+    sheetNames: string[],
+    templateSheets?: SubmissionData['templateSheets']
+  ): StreamingPlan {
+    const plan: StreamingPlan = { rowRules: new Map(), retainedRules: [], requirements: new Map(), previousRequirements: [] };
+    const findName = (sheet: string | number) => this.findRequirementSheet(sheet, sheetNames);
+    const addTo = <T>(map: Map<string, T[]>, name: string, item: T) =>
+      map.set(name.toLowerCase(), [...(map.get(name.toLowerCase()) || []), item]);
     
-    fieldInfo.cells.forEach((cell) => {
-      const value = String(cell.value || '').trim();
+    for (const rule of validationRules) {
+      if (rule.isActive === false) continue;
       
-      // Skip empty values for format validation
-      if (value === '') {
-        results.push({
-          submissionId,
-          ruleId: rule.id,
-          field: rule.field,
-          ruleType: rule.ruleType,
-          condition: rule.condition,
-          cellReference: cell.reference,
-          cellValue: value,
-          errorMessage: rule.errorMessage,
-          severity: rule.severity,
-          isValid: true, // Empty values pass format validation
-          sheetName: sheet.name,
-          rowNumber: cell.row,
-          columnName: cell.column
-        });
-        return;
+      const handler = this.getRuleHandler(rule.ruleType);
+      const located = this.getRuleCells(rule, sheetNames, templateSheets);
+      if (!handler || !located) {
+        plan.retainedRules.push(rule);
+        continue;
       }
       
-      let isValid = false;
+      const { target, cells: named } = located;
+      const requirements = named.map(n => n.requirement);
       
-      switch (formatType) {
-        case 'email':
-          isValid = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
-          break;
+      // The when clause reads its cells on each sheet the rule checks
+      if (rule.when) {
+        const checkedSheets = new Set(named.map(n => n.sheetName).filter((name): name is string => !!name));
+        if (checkedSheets.size === 0) checkedSheets.add(target.name);
+        checkedSheets.forEach(sheetName => this.expressionRequirements(rule.when!, sheetName).forEach(requirement =>
+          named.push({ requirement, sheetName: requirement.sheet === undefined ? sheetName : findName(requirement.sheet) })
+        ));
+      }
+      const whenReadsOnlyRow = !rule.when || this.readsOnlyCurrentRow(rule.when, false);
+      
+      if (handler.rowScoped?.(rule) && whenReadsOnlyRow && !this.selectsSingleCell(rule, target.name) && named.every(n => n.sheetName)) {
+        const sheets = new Set(named.map(n => n.sheetName!));
+        sheets.add(target.name);
+        sheets.forEach(name => addTo(plan.rowRules, name, rule));
+        continue;
+      }
+      
+      plan.retainedRules.push(rule);
+      named.forEach(({ requirement, sheetName }) => {
+        if (sheetName) addTo(plan.requirements, sheetName, requirement);
+      });
+      if (handler.needsPreviousSubmission) {
+        plan.previousRequirements.push({ sheet: { name: target.name, index: target.index }, requirements });
+      }
+    }
+    
+    return plan;
+  }
+
+  /**
+   * Cells a rule checks or reads in a workbook with these sheets, each with
+   * the name of its sheet (undefined when the sheet is missing). Null when
+   * the rule type is unknown or its target sheet is missing. Handlers that
+   * don't say which cells they read cover their whole sheet, or every sheet.
+   */
+  static getRuleCells(
+    rule: ValidationRule,
+    sheetNames: string[],
+    templateSheets?: SubmissionData['templateSheets']
+  ): { target: StreamedSheet; cells: Array<{ requirement: CellRequirement; sheetName?: string }> } | null {
+    const handler = this.getRuleHandler(rule.ruleType);
+    if (!handler) return null;
+    
+    const skeleton: SubmissionData = {
+      sheets: sheetNames.map((name, index) => ({ name, index, data: [], rowCount: 0, columnCount: 0 })),
+      type: 'excel',
+      templateSheets
+    };
+    const target = handler.scope === 'workbook' ? skeleton.sheets[0] : this.resolveRuleSheet(rule, skeleton);
+    if (!target) return null;
+    
+    const requirements: CellRequirement[] = handler.requirements
+      ? handler.requirements(rule, target, sheetNames)
+      : handler.scope === 'workbook' ? sheetNames.map(sheet => ({ sheet })) : [{}];
+    return {
+      target: { name: target.name, index: target.index },
+      cells: requirements.map(requirement => ({
+        requirement,
+        sheetName: requirement.sheet === undefined ? target.name : this.findRequirementSheet(requirement.sheet, sheetNames)
+      }))
+    };
+  }
+
+  /**
+   * Name of the sheet a requirement refers to by index or (case-insensitive) name
+   */
+  private static findRequirementSheet(sheet: string | number, sheetNames: string[]): string | undefined {
+    return typeof sheet === 'number'
+      ? sheetNames[sheet]
+      : sheetNames.find(name => name.toLowerCase() === sheet.trim().toLowerCase());
+  }
+
+  /**
+   * True when a rule selects one specific cell, which may lie beyond the data
+   */
+  private static selectsSingleCell(rule: ValidationRule, sheetName: string): boolean {
+    const address = rule.cellRange || (rule.rowRange || rule.columnRange ? '' : rule.field || '');
+    const range = address ? parseRangeAddress(stripSheetPrefix(address, sheetName)) : null;
+    return !!range && range.startRow !== undefined && range.startRow === range.endRow && range.startColumn === range.endColumn;
+  }
+
+  /**
+   * Cells selected by a rule's field / cellRange / rowRange / columnRange on its sheet
+   */
+  private static selectorRequirements(rule: ValidationRule, sheet: StreamedSheet): CellRequirement[] {
+    if (rule.cellRange) {
+      const range = parseRangeAddress(stripSheetPrefix(rule.cellRange, sheet.name));
+      return range ? [range] : [];
+    }
+    
+    if (rule.rowRange || rule.columnRange) {
+      const requirement: CellRequirement = {};
+      if (rule.rowRange) {
+        const [start, end] = String(rule.rowRange).split('-');
+        requirement.startRow = parseInt(start) || 2;
+        requirement.endRow = end === undefined ? requirement.startRow : end === '*' ? undefined : parseInt(end) || undefined;
+      }
+      if (rule.columnRange) {
+        const [start, end = start] = String(rule.columnRange).toUpperCase().split('-');
+        requirement.startColumn = start.trim();
+        requirement.endColumn = end.trim();
+      }
+      return [requirement];
+    }
+    
+    const field = stripSheetPrefix(rule.field || '', sheet.name).trim();
+    if (!field) return [];
+    if (field.includes(':') || /^[A-Z]{1,3}\d+$/i.test(field)) {
+      const range = parseRangeAddress(field);
+      if (range) return [range];
+    }
+    // Like resolveCells: a header name, or else a column letter
+    return /^[A-Z]{1,3}$/i.test(field)
+      ? [{ header: field }, { startColumn: field.toUpperCase() }]
+      : [{ header: field }];
+  }
+
+  /**
+   * Cells an expression reads; unqualified references are on the given sheet
+   */
+  private static expressionRequirements(condition: string, sheet?: string | number): CellRequirement[] {
+    try {
+      return ExpressionEvaluator.getReferences(condition, ['value']).map(ref => ({
+        sheet: ref.sheet ?? sheet,
+        startColumn: ref.startColumn,
+        endColumn: ref.endColumn,
+        startRow: ref.startRow,
+        endRow: ref.endRow
+      }));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * True when an expression only reads the row being checked (bare columns and variables)
+   */
+  private static readsOnlyCurrentRow(condition: string, requireColumns: boolean): boolean {
+    try {
+      const references = ExpressionEvaluator.getReferences(condition, ['value']);
+      return references.every(ref => ref.kind === 'column') && (!requireColumns || references.length > 0);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Built-in rule types; third-party handlers are added with registerRuleHandler
+   */
+  private static getHandlers(): Map<string, RuleHandler> {
+    if (this.handlers) return this.handlers;
+    
+    // Per-cell checks read only the cells they select (plus what their condition references)
+    const cellHandler = (
+      validate: RuleHandler['validate'],
+      rowScoped: RuleHandler['rowScoped'] = () => true,
+      condition: (rule: ValidationRule) => string | null = () => null
+    ): RuleHandler => ({
+      scope: 'sheet',
+      validate,
+      rowScoped,
+      requirements: (rule, sheet) => {
+        const expression = condition(rule);
+        return [
+          ...this.selectorRequirements(rule, sheet),
+          ...(expression ? this.expressionRequirements(expression) : [])
+        ];
+      }
+    });
+    
+    const required = cellHandler((rule, ctx) => this.validateRequiredRule(rule, ctx.sheet, ctx.submissionId));
+    const custom = cellHandler(
+      (rule, ctx) => this.validateCustomRule(rule, ctx.sheet, ctx.submissionId, ctx.submissionData),
+      rule => this.readsOnlyCurrentRow(rule.condition, false),
+      rule => rule.condition
+    );
+    const expression: RuleHandler = {
+      scope: 'workbook',
+      validate: (rule, ctx) => this.validateExpressionRule(rule, ctx.submissionData, ctx.submissionId),
+      rowScoped: rule => this.readsOnlyCurrentRow(rule.condition, true),
+      requirements: rule => {
+        const sheets: Array<string | number> = this.getExpressionSheetNames(rule);
+        return (sheets.length > 0 ? sheets : [0]).flatMap(sheet => this.expressionRequirements(rule.condition, sheet));
+      }
+    };
+    const uniqueness: RuleHandler = {
+      scope: 'sheet',
+      validate: (rule, ctx) => this.validateUniquenessRule(rule, ctx.sheet, ctx.submissionId),
+      requirements: rule => (parseSheetColumns(rule.field)?.columns || []).map(col => ({ startColumn: col }))
+    };
+    const valueCheck = cellHandler((rule, ctx) => this.validateValueRule(rule, ctx.sheet, ctx.submissionId));
+    const reconcile: RuleHandler = {
+      scope: 'workbook',
+      validate: (rule, ctx) => this.validateReconcileRule(rule, ctx.submissionData, ctx.submissionId),
+      requirements: (rule, sheet, sheetNames) => this.reconcileRequirements(rule, sheetNames)
+    };
+    
+    this.handlers = new Map<string, RuleHandler>([
+      ['required', required],
+      ['format', cellHandler((rule, ctx) => this.validateFormatRule(rule, ctx.sheet, ctx.submissionId, ctx.submissionData.codeLists))],
+      ['range', cellHandler((rule, ctx) => this.validateRangeRule(rule, ctx.sheet, ctx.submissionId))],
+      ['custom', custom],
+      ['legacy', custom],
+      ['cell', cellHandler(
+        (rule, ctx) => this.validateCellRule(rule, ctx.sheet, ctx.submissionId, ctx.submissionData),
+        rule => this.isRequiredCondition(rule.condition) || this.readsOnlyCurrentRow(rule.condition, false),
+        rule => this.isRequiredCondition(rule.condition) ? null : rule.condition
+      )],
+      ['crossField', expression],
+      ['global', expression],
+      ['reconcile', reconcile],
+      ['sum', reconcile],
+      ['referentialIntegrity', {
+        scope: 'workbook',
+        validate: (rule, ctx) => this.validateReferentialRule(rule, ctx.submissionData, ctx.submissionId),
+        requirements: rule => [parseSheetColumns(rule.field), parseSheetColumns(rule.condition)].flatMap(spec =>
+          (spec?.columns || []).map(col => ({ sheet: spec?.sheet ?? 0, startColumn: col }))
+        )
+      }],
+      ['structure', {
+        scope: 'workbook',
+        validate: (rule, ctx) => TemplateStructure.check(ctx.submissionData.templateStructure || [], ctx.submissionData, ctx.submissionId),
+        // Headers and tables are looked for in the top rows of every sheet
+        requirements: (rule, sheet, sheetNames) => sheetNames.map(name => ({ sheet: name, startRow: 1, endRow: STRUCTURE_SCAN_ROWS }))
+      }],
+      ['formula', {
+        scope: 'sheet',
+        validate: (rule, ctx) => this.validateFormulaRule(rule, ctx.sheet, ctx.submissionId, ctx.submissionData),
+        // The cell itself plus the cells its formula reads, for recomputing it
+        requirements: (rule, sheet) => [
+          ...this.selectorRequirements(rule, sheet),
+          ...this.expressionRequirements(this.formulaToExpression(rule.condition))
+        ]
+      }],
+      ['unique', uniqueness],
+      ['uniqueKey', uniqueness],
+      ['variance', {
+        scope: 'sheet',
+        needsPreviousSubmission: true,
+        validate: (rule, ctx) => this.validateVarianceRule(rule, ctx.sheet, ctx.submissionId, ctx.previousSubmission, ctx.submissionData),
+        requirements: (rule, sheet) => this.selectorRequirements(rule, sheet)
+      }],
+      // Column constraints emitted by the JSON/YAML/CSV/Excel rule formats
+      ['dataType', valueCheck],
+      ['minLength', valueCheck],
+      ['maxLength', valueCheck],
+      ['minimum', valueCheck],
+      ['maximum', valueCheck],
+      ['pattern', valueCheck],
+      ['enum', valueCheck],
+      ['decimals', valueCheck]
+    ]);
+    return this.handlers;
+  }
+
+  /**
+   * Build a result for one checked cell
+   */
+  private static cellResult(
+    rule: ValidationRule,
+    sheet: SheetData,
+    submissionId: number,
+    cell: SheetCell,
+    isValid: boolean,
+    errorMessage: string = rule.errorMessage
+  ): ValidationResult {
+    const value = ExpressionEvaluator.unwrapCellValue(cell.value);
+    return {
+      submissionId,
+      ruleId: rule.id,
+      field: rule.field,
+      ruleType: rule.ruleType,
+      condition: rule.condition,
+      cellReference: cell.reference,
+      cellValue: value instanceof Date ? value.toISOString().split('T')[0] : String(value ?? ''),
+      errorMessage,
+      severity: rule.severity,
+      isValid,
+      sheetName: sheet.name,
+      rowNumber: cell.row,
+      columnName: cell.column
+    };
+  }
+
+  /**
+   * Validate formula rule: the cell must still hold the formula in the rule's
+   * condition, and its cached result must match recomputing that formula.
+   * Formulas the expression language can't evaluate are only compared as text.
+   */
+  private static validateFormulaRule(
+    rule: ValidationRule,
+    sheet: SheetData,
+    submissionId: number,
+    submissionData: SubmissionData
+  ): ValidationResult[] {
+    return resolveCells(rule, sheet).map(cell => {
+      const result = (isValid: boolean, errorMessage: string, recomputed?: any) => ({
+        ...this.cellResult(rule, sheet, submissionId, cell, isValid, errorMessage),
+        ...(recomputed !== undefined && { comparisonValue: this.formatCellValue(recomputed) })
+      });
+      const recompute = () => {
+        try {
+          const scope = this.createExpressionScope(submissionData, sheet);
+          return ExpressionEvaluator.evaluate(this.formulaToExpression(rule.condition), scope).value;
+        } catch {
+          return undefined;
+        }
+      };
+      
+      // CSV files can't hold formulas, so only their values are checked
+      const formula = this.getCellFormula(cell.value);
+      if (formula === null && submissionData.type !== 'csv') {
+        const recomputed = recompute();
+        const holds = this.isEmpty(cell.value) ? 'is empty' : `holds the typed value ${this.formatCellValue(cell.value)}`;
+        const expected = recomputed === undefined ? '' : ` (the formula gives ${this.formatCellValue(recomputed)})`;
+        return result(false, `${cell.reference} should be calculated by =${rule.condition} but ${holds}${expected}`, recomputed);
+      }
+      
+      // Streamed files don't carry the text of shared formulas, only that there is one
+      if (formula && this.normalizeFormula(formula) !== this.normalizeFormula(rule.condition)) {
+        return result(false, `Formula in ${cell.reference} was changed from =${rule.condition} to =${formula}`);
+      }
+      
+      const cached = ExpressionEvaluator.unwrapCellValue(cell.value);
+      const recomputed = cached === null || cached === undefined ? undefined : recompute();
+      if (recomputed !== undefined && !this.sameCellValue(cached, recomputed)) {
+        return result(
+          false,
+          `${cell.reference} shows ${this.formatCellValue(cached)} but =${rule.condition} gives ${this.formatCellValue(recomputed)}`,
+          recomputed
+        );
+      }
+      
+      return result(true, rule.errorMessage, recomputed);
+    });
+  }
+
+  /**
+   * Formula text of an ExcelJS cell value: null when the cell has no formula,
+   * '' when it has one whose text wasn't read
+   */
+  private static getCellFormula(value: any): string | null {
+    if (!value || typeof value !== 'object') return null;
+    if (typeof value.formula === 'string') return value.formula;
+    return 'sharedFormula' in value ? '' : null;
+  }
+
+  private static normalizeFormula(formula: string): string {
+    return formula.replace(/^=/, '').replace(/\$/g, '').replace(/\s+/g, '').toUpperCase();
+  }
+
+  /**
+   * Excel formula as a rule expression: absolute references are plain references
+   */
+  private static formulaToExpression(formula: string): string {
+    return formula.replace(/^=/, '').replace(/\$/g, '');
+  }
+
+  private static sameCellValue(a: any, b: any): boolean {
+    if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+    const x = Number(a);
+    const y = Number(b);
+    if (a !== '' && b !== '' && typeof a !== 'boolean' && typeof b !== 'boolean' && !isNaN(x) && !isNaN(y)) {
+      // Allow for floating point differences between Excel and JavaScript
+      return Math.abs(x - y) <= 1e-9 * Math.max(1, Math.abs(x), Math.abs(y));
+    }
+    return String(a) === String(b);
+  }
+
+  private static formatCellValue(value: any): string {
+    const unwrapped = ExpressionEvaluator.unwrapCellValue(value);
+    return unwrapped instanceof Date ? unwrapped.toISOString().split('T')[0] : String(unwrapped ?? '');
+  }
+
+  private static isEmpty(value: any): boolean {
+    const unwrapped = ExpressionEvaluator.unwrapCellValue(value);
+    return unwrapped === null || unwrapped === undefined || String(unwrapped).trim() === '';
+  }
+
+  /**
+   * Validate required field rule
+   */
+  private static validateRequiredRule(
+    rule: ValidationRule,
+    sheet: SheetData,
+    submissionId: number
+  ): ValidationResult[] {
+    // Field reference (e.g., "A1:A100" or "Company Name") with row/column range support
+    return resolveCells(rule, sheet).map(cell =>
+      this.cellResult(rule, sheet, submissionId, cell, !this.isEmpty(cell.value))
+    );
+  }
+
+  /**
+   * Validate format rule: "email", "phone", "number", "date", "lei", "ifsc",
+   * "inList:<code list>", "regex:<pattern>", or a bare regular expression as
+   * stored by the rules editor
+   */
+  private static validateFormatRule(
+    rule: ValidationRule,
+    sheet: SheetData,
+    submissionId: number,
+    codeLists: Map<string, Set<string>> = new Map()
+  ): ValidationResult[] {
+    const condition = rule.condition.trim();
+    const formatType = condition.toLowerCase();
+    const invalidCondition = (reason: string): ValidationResult[] => [{
+      submissionId,
+      ruleId: rule.id,
+      field: rule.field,
+      ruleType: rule.ruleType,
+      condition: rule.condition,
+      errorMessage: `Invalid format condition "${rule.condition}": ${reason}`,
+      severity: 'error',
+      isValid: false,
+      sheetName: sheet.name
+    }];
+    
+    const listName = CodeLists.getReferencedList(condition);
+    const codes = listName ? codeLists.get(listName) : undefined;
+    if (listName && !codes) {
+      return invalidCondition(`code list "${listName}" does not exist or has no active version`);
+    }
+    
+    let pattern: RegExp | null = null;
+    if (!codes && !['email', 'phone', 'number', 'date'].includes(formatType) && !CODE_FORMATS[formatType]) {
+      try {
+        pattern = new RegExp(formatType.startsWith('regex:') ? condition.substring(6) : condition);
+      } catch (error) {
+        return invalidCondition((error as Error).message);
+      }
+    }
+    
+    return resolveCells(rule, sheet).map(cell => {
+      const raw = ExpressionEvaluator.unwrapCellValue(cell.value);
+      const value = String(raw ?? '').trim();
+      
+      // Empty values pass format validation
+      if (value === '') {
+        return this.cellResult(rule, sheet, submissionId, cell, true);
+      }
+      
+      let isValid: boolean;
+      switch (formatType) {
+        case 'email':
+          isValid = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+          break;
         case 'phone':
           isValid = /^[\+]?[\d\s\-\(\)]+$/.test(value);
           break;
         case 'number':
-          isValid = !isNaN(Number(value));
+          isValid = this.toNumber(raw) !== null;
           break;
         case 'date':
-          isValid = !isNaN(Date.parse(value));
+          isValid = raw instanceof Date || !isNaN(Date.parse(value));
           break;
         default:
-          if (formatType.startsWith('regex:')) {
-            const pattern = formatType.substring(6);
-            isValid = new RegExp(pattern).test(value);
+          if (codes) {
+            isValid = codes.has(CodeLists.normalizeCode(value));
+          } else if (CODE_FORMATS[formatType]) {
+            isValid = CODE_FORMATS[formatType](value);
           } else {
-            isValid = true; // Unknown format passes
+            isValid = pattern!.test(value);
           }
       }
       
-      results.push({
-        submissionId,
-        ruleId: rule.id,
-        field: rule.field,
-        ruleType: rule.ruleType,
-        condition: rule.condition,
-        cellReference: cell.reference,
-        cellValue: value,
-        errorMessage: rule.errorMessage,
-        severity: rule.severity,
-        isValid,
-        sheetName: sheet.name,
-        rowNumber: cell.row,
-        columnName: cell.column
-      });
+      return this.cellResult(rule, sheet, submissionId, cell, isValid);
     });
-    
-    return results;
   }
 
   /**
-   * Validate range rule (min/max values)
+   * Validate range rule (min/max values, e.g. "min:0,max:100")
    */
   private static validateRangeRule(
     rule: ValidationRule,
-    sheet: any,
+    sheet: SheetData,
     submissionId: number
   ): ValidationResult[] {
-    const results: ValidationResult[] = [];
-    const fieldInfo = this.parseFieldReference(rule.field, sheet, rule);
-    
-    // Parse range condition (e.g., "min:0,max:100")
-    const ranges = rule.condition.split(',');
     let minValue = -Infinity;
     let maxValue = Infinity;
     
-    ranges.forEach(range => {
-      const [type, value] = range.split(':');
+    rule.condition.split(',').forEach(range => {
+      const [type, value] = range.split(':').map(part => part.trim().toLowerCase());
       if (type === 'min') minValue = parseFloat(value);
       if (type === 'max') maxValue = parseFloat(value);
     });
     
-    fieldInfo.cells.forEach((cell) => {
-      const value = parseFloat(String(cell.value || ''));
-      
-      if (isNaN(value)) {
-        results.push({
-          submissionId,
-          ruleId: rule.id,
-          field: rule.field,
-          ruleType: rule.ruleType,
-          condition: rule.condition,
-          cellReference: cell.reference,
-          cellValue: String(cell.value || ''),
-          errorMessage: `${rule.errorMessage} (not a number)`,
-          severity: rule.severity,
-          isValid: false,
-          sheetName: sheet.name,
-          rowNumber: cell.row,
-          columnName: cell.column
-        });
-        return;
+    return resolveCells(rule, sheet).map(cell => {
+      const value = this.toNumber(ExpressionEvaluator.unwrapCellValue(cell.value));
+      if (value === null) {
+        return this.cellResult(rule, sheet, submissionId, cell, false, `${rule.errorMessage} (not a number)`);
       }
-      
-      const isValid = value >= minValue && value <= maxValue;
-      
-      results.push({
-        submissionId,
-        ruleId: rule.id,
-        field: rule.field,
-        ruleType: rule.ruleType,
-        condition: rule.condition,
-        cellReference: cell.reference,
-        cellValue: String(cell.value),
-        errorMessage: rule.errorMessage,
-        severity: rule.severity,
-        isValid,
-        sheetName: sheet.name,
-        rowNumber: cell.row,
-        columnName: cell.column
-      });
+      return this.cellResult(rule, sheet, submissionId, cell, value >= minValue && value <= maxValue);
     });
-    
-    return results;
   }
 
   /**
-   * Validate custom rule
+   * Validate the column constraints produced by the rule file formats:
+   * dataType ("TYPE_IS_NUMBER"), minLength/maxLength ("LENGTH >= 3"),
+   * minimum/maximum ("VALUE <= 100"), pattern ('REGEX("^[A-Z]+$")'),
+   * enum ('VALUE IN ["A", "B"]') and decimals ("DECIMALS <= 2", at most two
+   * decimal places). Empty cells are left to required rules.
    */
-  private static validateCustomRule(
+  private static validateValueRule(
     rule: ValidationRule,
-    sheet: any,
+    sheet: SheetData,
     submissionId: number
   ): ValidationResult[] {
-    const results: ValidationResult[] = [];
-    const fieldInfo = this.parseFieldReference(rule.field, sheet, rule);
-    
-    // For now, treat custom rules as always passing
-    // This can be extended to support custom validation logic
-    fieldInfo.cells.forEach((cell) => {
-      results.push({
+    const check = this.compileValueCheck(rule);
+    if (typeof check === 'string') {
+      return [{
         submissionId,
         ruleId: rule.id,
         field: rule.field,
         ruleType: rule.ruleType,
         condition: rule.condition,
-        cellReference: cell.reference,
-        cellValue: String(cell.value || ''),
-        errorMessage: rule.errorMessage,
-        severity: rule.severity,
-        isValid: true, // Custom rules pass for now
-        sheetName: sheet.name,
-        rowNumber: cell.row,
-        columnName: cell.column
-      });
-    });
+        errorMessage: `Invalid ${rule.ruleType} condition "${rule.condition}": ${check}`,
+        severity: 'error',
+        isValid: false,
+        sheetName: sheet.name
+      }];
+    }
     
-    return results;
+    return resolveCells(rule, sheet)
+      .filter(cell => !this.isEmpty(cell.value))
+      .map(cell => this.cellResult(rule, sheet, submissionId, cell, check(ExpressionEvaluator.unwrapCellValue(cell.value))));
   }
 
   /**
-   * Validate cell rule (specific cell validations)
+   * Turn a column constraint into a value check, or an error message when
+   * the condition can't be read
    */
-  private static validateCellRule(
+  private static compileValueCheck(rule: ValidationRule): ((value: any) => boolean) | string {
+    const condition = rule.condition.trim();
+    const limit = parseFloat(condition.match(/(-?\d+(?:\.\d+)?)\s*$/)?.[1] ?? '');
+    
+    switch (rule.ruleType) {
+      case 'dataType': {
+        const type = condition.replace(/^TYPE_IS_/i, '').toLowerCase();
+        switch (type) {
+          case 'string':
+          case 'text':
+            return () => true;
+          case 'number':
+          case 'decimal':
+          case 'currency':
+            return value => this.toNumber(value) !== null;
+          case 'integer':
+            return value => Number.isInteger(this.toNumber(value));
+          case 'date':
+            return value => value instanceof Date || !isNaN(Date.parse(String(value)));
+          case 'boolean':
+            return value => typeof value === 'boolean' || /^(true|false|yes|no|y|n|0|1)$/i.test(String(value).trim());
+          case 'email':
+            return value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(String(value).trim());
+          default:
+            return `unknown data type "${type}"`;
+        }
+      }
+      case 'minLength':
+      case 'maxLength':
+        if (isNaN(limit)) return 'expected e.g. "LENGTH >= 3"';
+        return rule.ruleType === 'minLength'
+          ? value => String(value).trim().length >= limit
+          : value => String(value).trim().length <= limit;
+      case 'minimum':
+      case 'maximum':
+        if (isNaN(limit)) return 'expected e.g. "VALUE >= 0"';
+        return value => {
+          const num = this.toNumber(value);
+          return num !== null && (rule.ruleType === 'minimum' ? num >= limit : num <= limit);
+        };
+      case 'pattern': {
+        const source = condition.match(/^REGEX\(\s*"(.*)"\s*\)$/i)?.[1] ?? condition;
+        try {
+          const pattern = new RegExp(source);
+          return value => pattern.test(String(value).trim());
+        } catch (error) {
+          return (error as Error).message;
+        }
+      }
+      case 'enum': {
+        const list = condition.match(/\[(.*)\]/)?.[1];
+        if (list === undefined) return 'expected e.g. \'VALUE IN ["A", "B"]\'';
+        const allowed = (list.match(/"[^"]*"|'[^']*'|[^,\s]+/g) || [])
+          .map(item => item.replace(/^["']|["']$/g, '').trim().toLowerCase());
+        return value => allowed.includes(String(value).trim().toLowerCase());
+      }
+      case 'decimals': {
+        if (isNaN(limit) || !Number.isInteger(limit) || limit < 0) return 'expected e.g. "DECIMALS <= 2"';
+        const factor = 10 ** limit;
+        return value => {
+          const num = this.toNumber(value);
+          // Compare with the value rounded to the allowed places, ignoring float noise
+          return num !== null && Math.abs(Math.round(num * factor) / factor - num) <= 1e-9 * Math.max(1, Math.abs(num));
+        };
+      }
+      default:
+        return `unsupported rule type "${rule.ruleType}"`;
+    }
+  }
+
+  /**
+   * Validate custom rule - the condition is evaluated for each cell with the
+   * cell's content available as `value`
+   */
+  private static validateCustomRule(
+    rule: ValidationRule,
+    sheet: SheetData,
+    submissionId: number,
+    submissionData: SubmissionData
+  ): ValidationResult[] {
+    return resolveCells(rule, sheet).map(cell => {
+      const { isValid, errorMessage } = this.evaluateCellCondition(rule, sheet, submissionData, cell);
+      return this.cellResult(rule, sheet, submissionId, cell, isValid, errorMessage);
+    });
+  }
+
+  /**
+   * Evaluate a rule condition for one cell, naming the cells involved on failure
+   */
+  private static evaluateCellCondition(
+    rule: ValidationRule,
+    sheet: SheetData,
+    submissionData: SubmissionData,
+    cell: SheetCell
+  ): { isValid: boolean; errorMessage: string } {
+    try {
+      const scope = this.createExpressionScope(submissionData, sheet, {
+        variables: { value: cell.value },
+        currentRow: cell.row,
+        rule
+      });
+      const outcome = ExpressionEvaluator.test(rule.condition, scope);
+      // Name any other cells the condition compared against
+      if (!outcome.passed && outcome.cells.length > 0) {
+        return {
+          isValid: false,
+          errorMessage: `${rule.errorMessage} [${ExpressionEvaluator.describeCells(outcome.cells)}]`
+        };
+      }
+      return { isValid: outcome.passed, errorMessage: rule.errorMessage };
+    } catch (error) {
+      return { isValid: false, errorMessage: `${rule.errorMessage} (${(error as Error).message})` };
+    }
+  }
+
+  /**
+   * Validate crossField/global rules. Expressions that use bare column letters
+   * (e.g. "D = E") are checked on every data row of each sheet named in the
+   * field; otherwise the expression is evaluated once.
+   */
+  private static validateExpressionRule(
     rule: ValidationRule,
-    sheet: any,
+    submissionData: SubmissionData,
     submissionId: number
   ): ValidationResult[] {
     const results: ValidationResult[] = [];
+    const sheetNames = this.getExpressionSheetNames(rule);
     
-    console.log(`[DEBUG] Validating cell rule for field: ${rule.field}, condition: ${rule.condition}`);
-    console.log(`[DEBUG] Sheet has ${sheet.rowCount} rows and ${sheet.data?.length || 0} data rows`);
-    
-    // Parse field reference (e.g., "A1", "B5", or cell range specified in rule)
-    const fieldInfo = this.parseFieldReference(rule.field, sheet, rule);
+    const sheets = sheetNames.length > 0
+      ? sheetNames.map(name => ({ name, sheet: this.findSheetByName(submissionData, name) }))
+      : [{ name: submissionData.sheets[0]?.name, sheet: submissionData.sheets[0] }];
     
-    console.log(`[DEBUG] Found ${fieldInfo.cells.length} cells to validate`);
+    const baseResult = {
+      submissionId,
+      ruleId: rule.id,
+      field: rule.field,
+      ruleType: rule.ruleType,
+      condition: rule.condition,
+      severity: rule.severity
+    };
     
-    // For cell rules, we should ALWAYS validate the specified cell, even if it doesn't exist
-    // If no cells were found, create the cell reference manually
-    let cellsToValidate = fieldInfo.cells;
-    if (fieldInfo.cells.length === 0 && rule.field.match(/^[A-Z]+\d+$/)) {
-      // This is a specific cell reference like A27, create it even if it doesn't exist in data
-      const col = rule.field.match(/[A-Z]+/)?.[0] || 'A';
-      const row = parseInt(rule.field.match(/\d+/)?.[0] || '1');
-      
-      cellsToValidate = [{
-        reference: rule.field,
-        value: undefined, // Cell doesn't exist, so value is undefined
-        row: row,
-        column: col
-      }];
-      
-      console.log(`[DEBUG] Created missing cell reference: ${rule.field}`);
+    let rowColumns: string[];
+    try {
+      rowColumns = ExpressionEvaluator.getRowColumns(rule.condition, ['value']);
+    } catch (error) {
+      results.push({
+        ...baseResult,
+        errorMessage: `Invalid expression "${rule.condition}": ${(error as Error).message}`,
+        severity: 'error',
+        isValid: false
+      });
+      return results;
     }
     
-    cellsToValidate.forEach((cell) => {
-      const value = String(cell.value || '').trim();
+    for (const { name, sheet } of sheets) {
+      if (!sheet) {
+        results.push({
+          ...baseResult,
+          errorMessage: `Sheet not found for validation rule: ${name}`,
+          severity: 'error',
+          isValid: false,
+          sheetName: name || 'Unknown'
+        });
+        continue;
+      }
       
-      // For cell rules, check if the cell contains expected content
-      // This can be extended to support more specific cell validation logic
-      const isEmpty = cell.value === null || 
-                      cell.value === undefined || 
-                      cell.value === '' ||
-                      (typeof cell.value === 'string' && cell.value.trim() === '');
+      // Evaluate once for whole-sheet expressions, per row for row expressions
+      const rows: Array<number | undefined> = rowColumns.length > 0
+        ? this.getExpressionRows(rule, sheet, rowColumns)
+        : [undefined];
       
-      if (rule.condition === 'required' || rule.condition === 'NOT_EMPTY' || rule.condition === 'true') {
-        // Cell must not be empty
-        if (isEmpty) {
+      for (const row of rows) {
+        try {
+          const scope = this.createExpressionScope(submissionData, sheet, { currentRow: row, rule });
+          const outcome = ExpressionEvaluator.test(rule.condition, scope);
           results.push({
-            submissionId,
-            ruleId: rule.id,
-            field: rule.field,
-            ruleType: rule.ruleType,
-            condition: rule.condition,
-            cellReference: cell.reference,
-            cellValue: String(cell.value || ''),
+            ...baseResult,
+            cellReference: outcome.cells.map(cell => cell.reference).join(', '),
+            cellValue: ExpressionEvaluator.describeCells(outcome.cells),
             errorMessage: rule.errorMessage,
-            severity: rule.severity,
-            isValid: false,
+            isValid: outcome.passed,
             sheetName: sheet.name,
-            rowNumber: cell.row,
-            columnName: cell.column
+            rowNumber: row
           });
-        } else {
+        } catch (error) {
           results.push({
-            submissionId,
-            ruleId: rule.id,
-            field: rule.field,
-            ruleType: rule.ruleType,
-            condition: rule.condition,
-            cellReference: cell.reference,
-            cellValue: String(cell.value),
-            errorMessage: rule.errorMessage,
-            severity: rule.severity,
-            isValid: true,
+            ...baseResult,
+            cellReference: row ? rowColumns.map(col => `${col}${row}`).join(', ') : undefined,
+            errorMessage: `${rule.errorMessage} (${(error as Error).message})`,
+            isValid: false,
             sheetName: sheet.name,
-            rowNumber: cell.row,
-            columnName: cell.column
+            rowNumber: row
           });
         }
-      } else {
-        // For other cell conditions, mark as valid by default
-        results.push({
-          submissionId,
-          ruleId: rule.id,
-          field: rule.field,
-          ruleType: rule.ruleType,
-          condition: rule.condition,
-          cellReference: cell.reference,
-          cellValue: String(cell.value || ''),
-          errorMessage: rule.errorMessage,
-          severity: rule.severity,
-          isValid: true,
-          sheetName: sheet.name,
-          rowNumber: cell.row,
-          columnName: cell.column
-        });
       }
-    });
+    }
     
     return results;
   }
 
   /**
-   * Parse field reference to get cell locations with enhanced row/column range support
-   */
-  private static parseFieldReference(field: string, sheet: any, rule?: ValidationRule): {
-    cells: Array<{
-      reference: string;
-      value: any;
-      row: number;
-      column: string;
-    }>;
-  } {
-    const cells: Array<{
-      reference: string;
-      value: any;
-      row: number;
-      column: string;
-    }> = [];
-    
-    // If rule has specific cell range, use that
-    if (rule?.cellRange) {
-      return this.parseCellRange(rule.cellRange, sheet);
-    }
-    
-    // If rule has row and column ranges, combine them
-    if (rule?.rowRange || rule?.columnRange) {
-      return this.parseRowColumnRange(rule, sheet);
-    }
-    
-    // Check if it's a cell range (e.g., "A1:A100")
-    if (field.includes(':')) {
-      const [startCell, endCell] = field.split(':');
-      const startCol = startCell.match(/[A-Z]+/)?.[0] || 'A';
-      const startRow = parseInt(startCell.match(/\d+/)?.[0] || '1');
-      const endCol = endCell.match(/[A-Z]+/)?.[0] || startCol;
-      const endRow = parseInt(endCell.match(/\d+/)?.[0] || String(sheet.rowCount));
-      
-      // Convert column letters to numbers
-      const startColNum = this.columnToNumber(startCol);
-      const endColNum = this.columnToNumber(endCol);
-      
-      for (let row = startRow; row <= Math.min(endRow, sheet.rowCount); row++) {
-        for (let col = startColNum; col <= endColNum; col++) {
-          const colLetter = this.numberToColumn(col);
-          const cellRef = `${colLetter}${row}`;
-          const value = sheet.data[row - 1]?.[col - 1];
-          
-          cells.push({
-            reference: cellRef,
-            value,
-            row,
-            column: colLetter
-          });
-        }
-      }
-    } else if (field.match(/^[A-Z]+\d+$/)) {
-      // Single cell reference (e.g., "A1")
-      const col = field.match(/[A-Z]+/)?.[0] || 'A';
-      const row = parseInt(field.match(/\d+/)?.[0] || '1');
-      const colNum = this.columnToNumber(col);
-      
-      // Always create the cell reference, even if it doesn't exist in the data
-      // This ensures validation rules for cells beyond the data range are still processed
-      const value = (row <= sheet.rowCount && sheet.data[row - 1]) 
-        ? sheet.data[row - 1]?.[colNum - 1] 
-        : undefined;
-      
-      cells.push({
-        reference: field,
-        value,
-        row,
-        column: col
+   * Validate reconcile (sum) rules: the target cell in the field (e.g.
+   * "Summary!B14") must equal the aggregate in the condition within the
+   * rule's tolerance. The condition is a range ("B2:B9", summed), an
+   * expression such as "SUMIF(A2:A50, \"Secured\", C2:C50)", and may use
+   * ABOVE (the target's column from the first data row to the row above it)
+   * and TABLE(n)[Header] (a column of the n-th table detected in the
+   * template sheet, e.g. "Details!TABLE(1)[Amount]").
+   */
+  private static validateReconcileRule(
+    rule: ValidationRule,
+    submissionData: SubmissionData,
+    submissionId: number
+  ): ValidationResult[] {
+    const { sheetName, address } = splitSheetAddress(rule.field);
+    const target = parseCellAddress(address);
+    const sheet = sheetName ? this.findSheetByName(submissionData, sheetName) : submissionData.sheets[0];
+    const baseResult = {
+      submissionId,
+      ruleId: rule.id,
+      field: rule.field,
+      ruleType: rule.ruleType,
+      condition: rule.condition,
+      severity: rule.severity,
+      sheetName: sheet?.name ?? sheetName
+    };
+    
+    if (!target) {
+      return [{ ...baseResult, errorMessage: `Invalid reconcile target "${rule.field}" - expected a cell such as Summary!B14`, severity: 'error', isValid: false }];
+    }
+    if (!sheet) {
+      return [{ ...baseResult, errorMessage: `Sheet not found for validation rule: ${sheetName}`, severity: 'error', isValid: false }];
+    }
+    
+    const cellResult = {
+      ...baseResult,
+      cellReference: formatSheetReference(sheet.name, address.toUpperCase()),
+      rowNumber: target.row,
+      columnName: target.column
+    };
+    
+    try {
+      const expression = this.expandReconcileSource(rule, submissionData, sheet, target);
+      const scope = this.createExpressionScope(submissionData, sheet, { rule });
+      const total = Number(ExpressionEvaluator.evaluate(expression, scope).value);
+      if (!isFinite(total)) throw new Error(`${rule.condition} is not a number`);
+      
+      const targetRaw = ExpressionEvaluator.unwrapCellValue(getCellValue(sheet, target.column, target.row));
+      const targetValue = this.toNumber(targetRaw) ?? (this.isEmpty(targetRaw) ? 0 : null);
+      const isValid = targetValue !== null &&
+        ExpressionEvaluator.withinTolerance(targetValue, total, scope.tolerance ?? { absolute: 0 });
+      // Rounded so float noise doesn't show in the report (0.005, not 0.00499999999999545)
+      const difference = targetValue === null ? undefined : Number((targetValue - total).toFixed(10));
+      
+      return [{
+        ...cellResult,
+        cellValue: String(targetRaw ?? ''),
+        comparisonValue: String(Number(total.toPrecision(15))),
+        delta: difference,
+        errorMessage: isValid
+          ? rule.errorMessage
+          : `${rule.errorMessage} (${cellResult.cellReference} is ${targetValue ?? `"${targetRaw}"`}, ${rule.condition} is ${Number(total.toPrecision(15))}${difference !== undefined ? `, difference ${difference}` : ''})`,
+        isValid
+      }];
+    } catch (error) {
+      return [{ ...cellResult, errorMessage: `${rule.errorMessage} (${(error as Error).message})`, isValid: false }];
+    }
+  }
+
+  /**
+   * Turn a reconcile condition into an expression: ABOVE and TABLE(n)[Header]
+   * become ranges, and a bare range is summed
+   */
+  private static expandReconcileSource(
+    rule: ValidationRule,
+    submissionData: SubmissionData,
+    sheet: SheetData,
+    target: { column: string; row: number }
+  ): string {
+    let expression = rule.condition.trim()
+      .replace(TABLE_REFERENCE, (_match, quoted, plain, index, header) => {
+        const tableSheet = quoted || plain ? this.findSheetByName(submissionData, quoted || plain) : sheet;
+        if (!tableSheet) throw new Error(`Sheet not found: ${quoted || plain}`);
+        return this.tableColumnRange(submissionData, tableSheet, parseInt(index), header, tableSheet === sheet ? target.row : undefined);
+      })
+      .replace(/\bABOVE\b/gi, () => {
+        const [firstRow] = getDataRowBounds(rule, sheet);
+        if (target.row <= firstRow) throw new Error(`there are no rows above ${target.column}${target.row}`);
+        return `${target.column}${firstRow}:${target.column}${target.row - 1}`;
       });
-    } else {
-      // Assume it's a column name in the header row
-      const headerRow = sheet.data[0] || [];
-      const colIndex = headerRow.findIndex((header: any) => 
-        String(header || '').toLowerCase() === field.toLowerCase()
+    if (!expression.includes('(')) expression = `SUM(${expression})`;
+    return expression;
+  }
+
+  /**
+   * Range of one column of a table detected in the template, from below its
+   * header to the last row with data. A blank row, a row labelled "Total"
+   * or the reconcile target's own row ends the table.
+   */
+  private static tableColumnRange(
+    submissionData: SubmissionData,
+    sheet: SheetData,
+    index: number,
+    header: string,
+    targetRow?: number
+  ): string {
+    const structure = (submissionData.templateStructure || []).find(s => s.name.trim().toLowerCase() === sheet.name.trim().toLowerCase());
+    const table: ExpectedTable | undefined = structure?.tables[index - 1];
+    if (!table) throw new Error(`table ${index} is not among the tables detected in template sheet ${sheet.name}`);
+    
+    const cellText = (col: number, row: number) => {
+      const value = ExpressionEvaluator.unwrapCellValue(getCellValue(sheet, numberToColumn(col), row));
+      return value === null || value === undefined ? '' : String(value).trim();
+    };
+    let column = 0;
+    for (let col = table.startCol; col <= table.endCol && !column; col++) {
+      if (cellText(col, table.startRow).toLowerCase() === header.trim().toLowerCase()) column = col;
+    }
+    if (!column) throw new Error(`column "${header}" not found in the header row of table ${index} on ${sheet.name}`);
+    
+    let lastRow = table.startRow;
+    for (let row = table.startRow + 1; row <= sheet.data.length && row !== targetRow; row++) {
+      const texts: string[] = [];
+      for (let col = table.startCol; col <= table.endCol; col++) texts.push(cellText(col, row));
+      const label = texts.find(text => text !== '');
+      if (label === undefined || /^total\b/i.test(label)) break;
+      lastRow = row;
+    }
+    if (lastRow === table.startRow) throw new Error(`table ${index} on ${sheet.name} has no data rows`);
+    
+    const col = numberToColumn(column);
+    return formatSheetReference(sheet.name, `${col}${table.startRow + 1}:${col}${lastRow}`);
+  }
+
+  /**
+   * Cells a reconcile rule reads: the target, the column above it for ABOVE,
+   * and the ranges in its condition. Tables are found by scanning, so rules
+   * that use TABLE keep every sheet.
+   */
+  private static reconcileRequirements(rule: ValidationRule, sheetNames: string[]): CellRequirement[] {
+    const { sheetName, address } = splitSheetAddress(rule.field);
+    const target = parseCellAddress(address);
+    if (!target || new RegExp(TABLE_REFERENCE.source, 'i').test(rule.condition)) {
+      return sheetNames.map(sheet => ({ sheet }));
+    }
+    
+    const sheet = sheetName ?? 0;
+    const uppercase = rule.condition.toUpperCase();
+    return [
+      { sheet, startColumn: target.column, startRow: target.row, endRow: target.row },
+      ...(/\bABOVE\b/.test(uppercase) ? [{ sheet, startColumn: target.column, startRow: 1, endRow: target.row }] : []),
+      ...this.expressionRequirements(rule.condition.replace(/\bABOVE\b/gi, '0'), sheet)
+    ];
+  }
+
+  /**
+   * Sheets listed in a crossField/global rule's field; empty means the first sheet
+   */
+  private static getExpressionSheetNames(rule: ValidationRule): string[] {
+    return rule.field && rule.field !== 'GLOBAL'
+      ? rule.field.split(',').map(name => name.trim()).filter(Boolean)
+      : [];
+  }
+
+  /**
+   * Validate referential integrity - every key in the source columns (field,
+   * e.g. "Holdings!B,C") must exist in the referenced columns (condition,
+   * e.g. "Counterparties!A,B"). Row 1 of both sheets is treated as the header.
+   */
+  private static validateReferentialRule(
+    rule: ValidationRule,
+    submissionData: SubmissionData,
+    submissionId: number
+  ): ValidationResult[] {
+    const results: ValidationResult[] = [];
+    const baseResult = {
+      submissionId,
+      ruleId: rule.id,
+      field: rule.field,
+      ruleType: rule.ruleType,
+      condition: rule.condition,
+      severity: rule.severity
+    };
+    
+    const source = parseSheetColumns(rule.field);
+    const target = parseSheetColumns(rule.condition);
+    if (!source || !target || source.columns.length !== target.columns.length) {
+      results.push({
+        ...baseResult,
+        errorMessage: `Invalid reference rule: "${rule.field}" must list the same number of columns as "${rule.condition}"`,
+        severity: 'error',
+        isValid: false
+      });
+      return results;
+    }
+    
+    const sourceSheet = source.sheet
+      ? this.findSheetByName(submissionData, source.sheet)
+      : submissionData.sheets[0];
+    const targetSheet = target.sheet
+      ? this.findSheetByName(submissionData, target.sheet)
+      : submissionData.sheets[0];
+    
+    if (!sourceSheet || !targetSheet) {
+      const name = !sourceSheet ? source.sheet : target.sheet;
+      results.push({
+        ...baseResult,
+        errorMessage: `Sheet not found for validation rule: ${name}`,
+        severity: 'error',
+        isValid: false,
+        sheetName: name || 'Unknown'
+      });
+      return results;
+    }
+    
+    // Index the referenced keys with the first row each appears on
+    const referencedKeys = new Map<string, number>();
+    for (let row = 2; row <= targetSheet.data.length; row++) {
+      const key = this.readRowKey(targetSheet, row, target.columns);
+      if (key.every(part => part === '')) continue;
+      const joined = key.join('\u0001');
+      if (!referencedKeys.has(joined)) referencedKeys.set(joined, row);
+    }
+    
+    const targetRange = formatSheetReference(
+      targetSheet.name,
+      target.columns.map(col => `${col}2:${col}${Math.max(targetSheet.data.length, 2)}`).join(', ')
+    );
+    
+    const [startRow, endRow] = getDataRowBounds(rule, sourceSheet);
+    for (let row = startRow; row <= endRow; row++) {
+      const key = this.readRowKey(sourceSheet, row, source.columns);
+      if (key.every(part => part === '')) continue;
+      
+      const sourceCells = formatSheetReference(
+        sourceSheet.name,
+        source.columns.map(col => `${col}${row}`).join(', ')
       );
+      const matchedRow = referencedKeys.get(key.join('\u0001'));
       
-      if (colIndex !== -1) {
-        for (let row = 1; row < sheet.rowCount; row++) {
-          const colLetter = this.numberToColumn(colIndex + 1);
-          const cellRef = `${colLetter}${row + 1}`;
-          const value = sheet.data[row]?.[colIndex];
-          
-          cells.push({
-            reference: cellRef,
-            value,
-            row: row + 1,
-            column: colLetter
-          });
-        }
-      }
+      results.push({
+        ...baseResult,
+        cellReference: matchedRow
+          ? `${sourceCells} -> ${formatSheetReference(targetSheet.name, target.columns.map(col => `${col}${matchedRow}`).join(', '))}`
+          : `${sourceCells} -> ${targetRange}`,
+        cellValue: key.join(' | '),
+        errorMessage: matchedRow
+          ? rule.errorMessage
+          : `${rule.errorMessage} ("${key.join(' | ')}" at ${sourceCells} not found in ${targetRange})`,
+        isValid: matchedRow !== undefined,
+        sheetName: sourceSheet.name,
+        rowNumber: row,
+        columnName: source.columns.join(',')
+      });
     }
     
-    return { cells };
+    return results;
   }
 
   /**
-   * Parse specific cell range (e.g., "A2:C10", "B5")
+   * Validate unique / uniqueKey rules - the value in a column (unique) or the
+   * combination of several columns (uniqueKey, e.g. "Exposures!A,B,C") must not
+   * repeat. Every row of a duplicate group is reported.
    */
-  private static parseCellRange(cellRange: string, sheet: any): { cells: any[] } {
-    const cells: any[] = [];
+  private static validateUniquenessRule(
+    rule: ValidationRule,
+    sheet: SheetData,
+    submissionId: number
+  ): ValidationResult[] {
+    const results: ValidationResult[] = [];
+    const baseResult = {
+      submissionId,
+      ruleId: rule.id,
+      field: rule.field,
+      ruleType: rule.ruleType,
+      condition: rule.condition,
+      severity: rule.severity
+    };
     
-    if (cellRange.includes(':')) {
-      // Range format (e.g., "A2:C10")
-      const [startCell, endCell] = cellRange.split(':');
-      const startMatch = startCell.match(/^([A-Z]+)(\d+)$/);
-      const endMatch = endCell.match(/^([A-Z]+)(\d+)$/);
-      
-      if (startMatch && endMatch) {
-        const startCol = this.columnToNumber(startMatch[1]);
-        const startRow = parseInt(startMatch[2]) - 1;
-        const endCol = this.columnToNumber(endMatch[1]);
-        const endRow = parseInt(endMatch[2]) - 1;
-        
-        for (let row = startRow; row <= endRow; row++) {
-          for (let col = startCol; col <= endCol; col++) {
-            if (sheet.data[row] && sheet.data[row][col - 1] !== undefined) {
-              const colLetter = this.numberToColumn(col);
-              cells.push({
-                value: sheet.data[row][col - 1],
-                row: row + 1,
-                column: colLetter,
-                reference: `${colLetter}${row + 1}`
-              });
-            }
-          }
-        }
-      }
-    } else {
-      // Single cell (e.g., "B5")
-      const match = cellRange.match(/^([A-Z]+)(\d+)$/);
-      if (match) {
-        const columnIndex = this.columnToNumber(match[1]) - 1;
-        const rowIndex = parseInt(match[2]) - 1;
-        
-        if (sheet.data[rowIndex] && sheet.data[rowIndex][columnIndex] !== undefined) {
-          cells.push({
-            value: sheet.data[rowIndex][columnIndex],
-            row: parseInt(match[2]),
-            column: match[1],
-            reference: cellRange
-          });
-        }
+    const spec = parseSheetColumns(rule.field);
+    if (!spec || (rule.ruleType === 'unique' && spec.columns.length !== 1)) {
+      results.push({
+        ...baseResult,
+        errorMessage: rule.ruleType === 'unique'
+          ? `Invalid unique rule: "${rule.field}" must name a single column (use uniqueKey for several)`
+          : `Invalid uniqueKey rule: "${rule.field}" must name one or more columns`,
+        severity: 'error',
+        isValid: false
+      });
+      return results;
+    }
+    
+    // Group data rows by key
+    const groups = new Map<string, number[]>();
+    const keys = new Map<number, string[]>();
+    const [startRow, endRow] = getDataRowBounds(rule, sheet);
+    for (let row = startRow; row <= endRow; row++) {
+      const key = this.readRowKey(sheet, row, spec.columns);
+      if (key.every(part => part === '')) continue;
+      const joined = key.join('\u0001');
+      groups.set(joined, [...(groups.get(joined) || []), row]);
+      keys.set(row, key);
+    }
+    
+    for (const rows of Array.from(groups.values())) {
+      for (const row of rows) {
+        const key = keys.get(row)!;
+        const otherRows = rows.filter(r => r !== row);
+        results.push({
+          ...baseResult,
+          cellReference: formatSheetReference(sheet.name, spec.columns.map(col => `${col}${row}`).join(', ')),
+          cellValue: key.join(' | '),
+          errorMessage: otherRows.length > 0
+            ? `${rule.errorMessage} ("${key.join(' | ')}" also appears on row${otherRows.length > 1 ? 's' : ''} ${otherRows.join(', ')})`
+            : rule.errorMessage,
+          isValid: otherRows.length === 0,
+          sheetName: sheet.name,
+          rowNumber: row,
+          columnName: spec.columns.join(',')
+        });
       }
     }
     
-    return { cells };
+    return results.sort((a, b) => (a.rowNumber || 0) - (b.rowNumber || 0));
   }
 
   /**
-   * Parse row and column ranges to determine cells to validate
+   * Validate variance rules - a cell (e.g. "Balance Sheet!B12") must not move
+   * by more than the limit in the condition ("MAX_CHANGE 25%" or an absolute
+   * "MAX_CHANGE 100000") compared with the last approved submission
    */
-  private static parseRowColumnRange(rule: ValidationRule, sheet: any): { cells: any[] } {
-    const cells: any[] = [];
+  private static validateVarianceRule(
+    rule: ValidationRule,
+    sheet: SheetData,
+    submissionId: number,
+    previousSubmission: PreviousSubmission | null,
+    submissionData: SubmissionData
+  ): ValidationResult[] {
+    const results: ValidationResult[] = [];
+    const baseResult = {
+      submissionId,
+      ruleId: rule.id,
+      field: rule.field,
+      ruleType: rule.ruleType,
+      condition: rule.condition,
+      severity: rule.severity
+    };
+    const address = stripSheetPrefix(rule.field, sheet.name);
     
-    // Parse row range (e.g., "2-100", "5", "10-*")
-    let startRow = 1, endRow = sheet.data.length - 1;
-    if (rule.rowRange) {
-      if (rule.rowRange.includes('-')) {
-        const [start, end] = rule.rowRange.split('-');
-        startRow = parseInt(start) - 1;
-        endRow = end === '*' ? sheet.data.length - 1 : parseInt(end) - 1;
-      } else {
-        startRow = endRow = parseInt(rule.rowRange) - 1;
-      }
+    const limit = rule.condition?.trim().match(VARIANCE_CONDITION);
+    if (!limit) {
+      results.push({
+        ...baseResult,
+        errorMessage: `Invalid variance condition "${rule.condition}" - expected e.g. "MAX_CHANGE 25%" or "MAX_CHANGE 100000"`,
+        severity: 'error',
+        isValid: false,
+        sheetName: sheet.name
+      });
+      return results;
     }
+    const isPercent = limit[2] === '%';
+    // Absolute limits are in full units; cells are in the reporting unit
+    const maxChange = parseFloat(limit[1]) / (isPercent ? 1 : this.getAmountScale(rule, submissionData));
     
-    // Parse column range (e.g., "A-Z", "B", "C-E")
-    let startCol = 1, endCol = sheet.data[0]?.length || 1;
-    if (rule.columnRange) {
-      if (rule.columnRange.includes('-')) {
-        const [start, end] = rule.columnRange.split('-');
-        startCol = this.columnToNumber(start);
-        endCol = this.columnToNumber(end);
-      } else {
-        startCol = endCol = this.columnToNumber(rule.columnRange);
-      }
+    if (!previousSubmission) {
+      results.push({
+        ...baseResult,
+        cellReference: address,
+        errorMessage: `${rule.errorMessage} (no prior approved submission to compare against)`,
+        isValid: true,
+        sheetName: sheet.name
+      });
+      return results;
     }
     
-    // Generate cells within the specified ranges
-    for (let row = startRow; row <= endRow; row++) {
-      for (let col = startCol; col <= endCol; col++) {
-        if (sheet.data[row] && sheet.data[row][col - 1] !== undefined) {
-          const colLetter = this.numberToColumn(col);
-          cells.push({
-            value: sheet.data[row][col - 1],
-            row: row + 1,
-            column: colLetter,
-            reference: `${colLetter}${row + 1}`
-          });
-        }
+    const previousSheet = this.findSheetByName(previousSubmission.data, sheet.name)
+      || previousSubmission.data.sheets[sheet.index];
+    
+    resolveCells({ ...rule, field: address }, sheet).forEach((cell) => {
+      const currentRaw = ExpressionEvaluator.unwrapCellValue(cell.value);
+      const previousRaw = ExpressionEvaluator.unwrapCellValue(
+        previousSheet ? getCellValue(previousSheet, cell.column, cell.row) : undefined
+      );
+      const current = this.toNumber(currentRaw);
+      const previous = this.toNumber(previousRaw);
+      
+      const cellResult = {
+        ...baseResult,
+        cellReference: cell.reference,
+        cellValue: String(currentRaw ?? ''),
+        comparisonValue: previousRaw === null || previousRaw === undefined ? undefined : String(previousRaw),
+        sheetName: sheet.name,
+        rowNumber: cell.row,
+        columnName: cell.column
+      };
+      
+      if (current === null || previous === null) {
+        if (current === null && previous === null) return;
+        results.push({
+          ...cellResult,
+          errorMessage: `${rule.errorMessage} (cannot compare with ${previousSubmission.reportingPeriod}: ${current === null ? 'current' : 'previous'} value is not a number)`,
+          isValid: false
+        });
+        return;
       }
-    }
+      
+      const delta = current - previous;
+      const change = isPercent
+        ? (previous === 0 ? (delta === 0 ? 0 : Infinity) : Math.abs(delta) / Math.abs(previous) * 100)
+        : Math.abs(delta);
+      const isValid = change <= maxChange;
+      const percentText = previous === 0 ? 'n/a' : `${(delta / Math.abs(previous) * 100).toFixed(2)}%`;
+      
+      results.push({
+        ...cellResult,
+        delta,
+        errorMessage: isValid
+          ? rule.errorMessage
+          : `${rule.errorMessage} (${previous} in ${previousSubmission.reportingPeriod} -> ${current}, change ${delta > 0 ? '+' : ''}${delta} / ${percentText})`,
+        isValid
+      });
+    });
     
-    return { cells };
+    return results;
   }
 
   /**
-   * Convert column letter to number (A=1, B=2, etc.)
+   * Numeric value of a cell, or null when it is empty or not a number
    */
-  private static columnToNumber(col: string): number {
-    let result = 0;
-    for (let i = 0; i < col.length; i++) {
-      result = result * 26 + (col.charCodeAt(i) - 64);
+  private static toNumber(value: any): number | null {
+    if (typeof value === 'number') return isNaN(value) ? null : value;
+    if (typeof value === 'string') {
+      const cleaned = value.trim().replace(/,/g, '');
+      if (cleaned === '') return null;
+      const num = Number(cleaned);
+      return isNaN(num) ? null : num;
     }
-    return result;
+    return null;
   }
 
   /**
-   * Convert number to column letter (1=A, 2=B, etc.)
+   * Read the trimmed values of several columns on a row, used as a lookup key
    */
-  private static numberToColumn(num: number): string {
-    let result = '';
-    while (num > 0) {
-      num--;
-      result = String.fromCharCode(65 + (num % 26)) + result;
-      num = Math.floor(num / 26);
+  private static readRowKey(sheet: SheetData, row: number, columns: string[]): string[] {
+    return columns.map(col => {
+      const value = ExpressionEvaluator.unwrapCellValue(getCellValue(sheet, col, row));
+      if (value === null || value === undefined) return '';
+      return value instanceof Date ? value.toISOString().split('T')[0] : String(value).trim();
+    });
+  }
+
+  /**
+   * Data rows to check for a row-level expression - honours the rule's row
+   * range and skips rows where every referenced column is empty
+   */
+  private static getExpressionRows(rule: ValidationRule, sheet: SheetData, columns: string[]): number[] {
+    const [startRow, endRow] = getDataRowBounds(rule, sheet);
+    const rows: number[] = [];
+    for (let row = startRow; row <= endRow; row++) {
+      const hasData = columns.some(col => {
+        const value = ExpressionEvaluator.unwrapCellValue(getCellValue(sheet, col, row));
+        return value !== null && value !== undefined && String(value).trim() !== '';
+      });
+      if (hasData) rows.push(row);
     }
-    return result;
+    return rows;
+  }
+
+  /**
+   * Unit the rule's amounts are reported in: the rule file's, else the template's
+   */
+  private static getAmountScale(rule: ValidationRule, submissionData: SubmissionData): number {
+    return rule.amountScale || submissionData.amountScale || 1;
+  }
+
+  /**
+   * The rule's tolerance in the reporting unit; absolute tolerances are
+   * written in full units. Throws on a tolerance that can't be read.
+   */
+  private static getTolerance(rule: ValidationRule, submissionData: SubmissionData): Tolerance | undefined {
+    if (!rule.tolerance) return undefined;
+    const tolerance = ExpressionEvaluator.parseTolerance(rule.tolerance);
+    return tolerance.absolute !== undefined
+      ? { absolute: tolerance.absolute / this.getAmountScale(rule, submissionData) }
+      : tolerance;
+  }
+
+  /**
+   * Build the scope used to resolve cell references in rule expressions.
+   * Unqualified references resolve against the current sheet; reporting
+   * period variables come from the submission. With a rule, its tolerance
+   * applies to comparisons and AMOUNT_SCALE holds its reporting unit.
+   */
+  private static createExpressionScope(
+    submissionData: SubmissionData,
+    currentSheet: SheetData,
+    options: { variables?: Record<string, any>; currentRow?: number; rule?: ValidationRule } = {}
+  ): ExpressionScope {
+    const resolveSheet = (name: string | undefined) => {
+      if (!name) return currentSheet;
+      const sheet = this.findSheetByName(submissionData, name);
+      if (!sheet) throw new Error(`Sheet not found: ${name}`);
+      return sheet;
+    };
+    
+    return {
+      getCell: (sheetName, column, row) =>
+        getCellValue(resolveSheet(sheetName), column, row),
+      getRowCount: (sheetName) => resolveSheet(sheetName).data.length,
+      variables: {
+        ...submissionData.variables,
+        ...(options.rule && { AMOUNT_SCALE: this.getAmountScale(options.rule, submissionData) }),
+        ...options.variables
+      },
+      currentRow: options.currentRow,
+      tolerance: options.rule ? this.getTolerance(options.rule, submissionData) : undefined
+    };
+  }
+
+  /**
+   * Find a sheet by name (case-insensitive)
+   */
+  private static findSheetByName(submissionData: SubmissionData, name: string): SheetData | undefined {
+    const target = name.trim().toLowerCase();
+    return submissionData.sheets.find(s => String(s.name).trim().toLowerCase() === target);
+  }
+
+  /**
+   * Validate cell rule (specific cell validations). "required", "NOT_EMPTY"
+   * and "true" require content; any other condition is an expression
+   * evaluated like a custom rule.
+   */
+  private static validateCellRule(
+    rule: ValidationRule,
+    sheet: SheetData,
+    submissionId: number,
+    submissionData: SubmissionData
+  ): ValidationResult[] {
+    const isRequiredCheck = this.isRequiredCondition(rule.condition);
+    
+    return resolveCells(rule, sheet).map(cell => {
+      if (isRequiredCheck) {
+        return this.cellResult(rule, sheet, submissionId, cell, !this.isEmpty(cell.value));
+      }
+      const { isValid, errorMessage } = this.evaluateCellCondition(rule, sheet, submissionData, cell);
+      return this.cellResult(rule, sheet, submissionId, cell, isValid, errorMessage);
+    });
+  }
+
+  private static isRequiredCondition(condition: string | null | undefined): boolean {
+    const trimmed = (condition || '').trim().toLowerCase();
+    return trimmed === '' || ['required', 'not_empty', 'true'].includes(trimmed);
+  }
+
+  private static createTally(): ResultTally {
+    return {
+      results: [],
+      totalChecks: 0,
+      passedChecks: 0,
+      skippedChecks: 0,
+      errorCount: 0,
+      warningCount: 0,
+      infoCount: 0,
+      blockingCount: 0,
+      omittedFailures: 0
+    };
+  }
+
+  /**
+   * Count results; when streaming only failures are kept, up to MAX_STREAMED_FAILURES.
+   * Skipped checks are counted on their own and never kept.
+   */
+  private static tallyResults(tally: ResultTally, results: ValidationResult[], streaming: boolean): ResultTally {
+    for (const result of results) {
+      if (result.skipped) {
+        tally.skippedChecks++;
+        continue;
+      }
+      
+      tally.totalChecks++;
+      if (result.isValid) {
+        tally.passedChecks++;
+        if (!streaming) tally.results.push(result);
+        continue;
+      }
+      
+      if (result.severity === 'info') tally.infoCount++;
+      else if (result.severity === 'warning') tally.warningCount++;
+      else {
+        tally.errorCount++;
+        if (result.severity === 'blocking') tally.blockingCount++;
+      }
+      
+      if (streaming && tally.results.length >= MAX_STREAMED_FAILURES) tally.omittedFailures++;
+      else tally.results.push(result);
+    }
+    return tally;
   }
 
   /**
    * Calculate validation summary
    */
   private static calculateSummary(
-    results: ValidationResult[],
+    tally: ResultTally,
     validationRules: ValidationRule[]
   ): ValidationSummary['summary'] {
-    const totalChecks = results.length;
-    const passedChecks = results.filter(r => r.isValid).length;
+    const { totalChecks, passedChecks, skippedChecks, errorCount, warningCount, infoCount, blockingCount } = tally;
     const failedChecks = totalChecks - passedChecks;
-    const errorCount = results.filter(r => !r.isValid && r.severity === 'error').length;
-    const warningCount = results.filter(r => !r.isValid && r.severity === 'warning').length;
     
     let overallStatus: 'passed' | 'failed' | 'warnings' = 'passed';
     if (errorCount > 0) {
@@ -931,12 +2386,15 @@ export class ModernValidationEngine {
     }
     
     return {
-      totalRules: validationRules.filter(r => r.isActive).length,
+      totalRules: validationRules.filter(r => r.isActive !== false).length,
       totalChecks,
       passedChecks,
       failedChecks,
+      skippedChecks,
       errorCount,
       warningCount,
+      infoCount,
+      blockingCount,
       overallStatus
     };
   }
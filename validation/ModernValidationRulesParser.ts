@@ -4,6 +4,11 @@ import * as yaml from 'js-yaml';
 import csv from 'csv-parser';
 import { Readable } from 'stream';
 import ExcelJS from 'exceljs';
+import { formatSheetReference, splitSheetAddress } from './CellAddress';
+import { ExpressionEvaluator } from './ExpressionEvaluator';
+import { parseAmountScale } from '../shared/numberFormat';
+import { toValidationSeverity } from '../shared/validationOutcome';
+import type { ValidationSeverity } from '../shared/schema';
 
 interface ValidationRule {
   id?: number;
@@ -13,12 +18,40 @@ interface ValidationRule {
   ruleType: string;
   condition: string;
   errorMessage: string;
-  severity: 'error' | 'warning';
+  severity: ValidationSeverity;
   isActive: boolean;
   rowRange?: string; // e.g., "2-100", "5", "10-*"
   columnRange?: string; // e.g., "A-Z", "B", "C-E"
   cellRange?: string; // e.g., "A2:Z100", "B5", "C1:C50"
   applyToAllRows?: boolean;
+  when?: string | null; // Precondition expression; rows where it is false are skipped
+  tolerance?: string | null; // Allowed difference on comparisons, e.g. "0.01" or "0.1%"
+  amountScale?: number | null; // From the file's amountScale metadata
+  source?: RuleSource; // Where the rule is written in the file
+}
+
+/**
+ * Where a rule or a problem is in a rules file
+ */
+export interface RuleSource {
+  /** 1-based line of TXT, JSON, YAML and CSV files */
+  line?: number;
+  /** Worksheet and row of Excel files */
+  sheet?: string;
+  row?: number;
+}
+
+/**
+ * A problem found in a rules file. Errors stop the file from being used;
+ * warnings point at parts of it that are ignored or likely mistakes.
+ */
+export interface RuleDiagnostic extends RuleSource {
+  severity: 'error' | 'warning';
+  /** Stable identifier, e.g. "missing-field" or "invalid-condition" */
+  code: string;
+  message: string;
+  /** How to fix it */
+  suggestion?: string;
 }
 
 interface ParsedValidationRules {
@@ -29,13 +62,101 @@ interface ParsedValidationRules {
     createdBy?: string;
     createdDate?: string;
     description?: string;
+    /** Unit amounts are reported in: "lakhs", "crores", "millions" or a factor; a number once parsed */
+    amountScale?: string | number;
   };
+  /** Error diagnostics as text */
   errors: string[];
+  diagnostics: RuleDiagnostic[];
 }
 
+type ParsedRuleFile = Omit<ParsedValidationRules, 'errors'>;
+
+/**
+ * Properties of a rule written out in full: items of the JSON/YAML "rules"
+ * list, CSV "rule" rows, rows of the Excel Rules worksheet and TXT attribute
+ * lines. Exports use them for rules the other sections can't express.
+ */
+export const RULE_KEYS = [
+  'ruleType', 'field', 'condition', 'errorMessage', 'severity', 'when', 'tolerance',
+  'rowRange', 'columnRange', 'cellRange', 'applyToAllRows'
+] as const;
+export type RuleKey = typeof RULE_KEYS[number];
+export type RuleValues = Partial<Record<RuleKey, unknown>>;
+
+// CSV column holding each property of a "rule" row
+export const CSV_RULE_COLUMNS: Record<RuleKey, string> = {
+  ruleType: 'Check',
+  field: 'Field',
+  condition: 'Expression',
+  errorMessage: 'Description',
+  severity: 'Severity',
+  when: 'When',
+  tolerance: 'Tolerance',
+  rowRange: 'RowRange',
+  columnRange: 'ColumnRange',
+  cellRange: 'CellRange',
+  applyToAllRows: 'ApplyToAllRows'
+};
+
+// Header rows of the Excel worksheets written by exports, in the column order the parser reads
+export const EXCEL_COLUMNS = {
+  metadata: ['Field', 'Value'],
+  columnValidations: [
+    'Sheet Name', 'Column', 'Data Type', 'Required', 'Min Length', 'Max Length', 'Minimum', 'Maximum',
+    'Enum Values', 'Pattern', 'Code List', 'When', 'Decimals'
+  ],
+  crossFieldValidations: ['Name', 'Description', 'Expression', 'Severity', 'Applicable Sheets', 'When', 'Tolerance'],
+  // One column per RULE_KEYS entry
+  rules: [
+    'Rule Type', 'Field', 'Condition', 'Error Message', 'Severity', 'When', 'Tolerance',
+    'Row Range', 'Column Range', 'Cell Range', 'Apply To All Rows'
+  ]
+};
+
+// Keys the JSON and YAML formats read, by where they appear
+const SCHEMA_KEYS = {
+  root: ['$schema', 'title', 'type', 'metadata', 'sheetValidations', 'globalValidations', 'rules'],
+  sheet: ['columnValidations', 'uniqueKeys', 'varianceValidations', 'referenceValidations', 'reconciliations', 'crossFieldValidations'],
+  column: ['required', 'dataType', 'minLength', 'maxLength', 'minimum', 'maximum', 'pattern', 'enumValues', 'decimals', 'codeList', 'unique', 'when', 'description'],
+  rule: [...RULE_KEYS] as string[]
+};
+// Keys in older examples that the parser does not apply
+const IGNORED_COLUMN_KEYS = ['format', 'customValidation'];
+const CSV_RULE_TYPES = ['column', 'cell', 'range', 'cross_field', 'global', 'reference', 'unique', 'unique_key', 'variance', 'reconcile', 'sum', 'amount_scale', 'rule'];
+const CSV_COLUMNS = [
+  'RuleType', 'SheetName', 'Column', 'Row', 'RowRange', 'ColumnRange', 'CellRange', 'ApplyToAllRows', 'Required',
+  'DataType', 'MinLength', 'MaxLength', 'Minimum', 'Maximum', 'Pattern', 'EnumValues', 'CodeList', 'Unique',
+  'Decimals', 'Expression', 'Description', 'Severity', 'When', 'Tolerance', 'Check', 'Field'
+];
+// CSV columns each rule type cannot do without
+const CSV_REQUIRED_COLUMNS: Record<string, string[]> = {
+  column: ['SheetName', 'Column'],
+  cross_field: ['Expression'],
+  global: ['Expression'],
+  reference: ['SheetName', 'Column', 'Expression'],
+  unique: ['SheetName', 'Column'],
+  unique_key: ['SheetName', 'Column'],
+  variance: ['SheetName', 'Expression'],
+  reconcile: ['Expression'],
+  sum: ['Expression'],
+  amount_scale: ['Expression'],
+  rule: ['Check', 'Field', 'Expression']
+};
+const EXCEL_SHEETS = [
+  'Metadata', 'Column Validations', 'Cross-Field Validations', 'Variance Validations',
+  'Reconciliations', 'Unique Keys', 'Reference Validations', 'Rules'
+];
+// Keys of the old block format ("FIELD: ... / RULE: ... / ---") that the TXT parser does not read
+const BLOCK_FORMAT_KEYS = /^(FIELD|RULE|CONDITION|ERROR|SEVERITY|MESSAGE)$/i;
+// Indented "key: value" lines under a TXT rule, e.g. "  severity: warning"
+const TXT_ATTRIBUTE = /^\s+(\w+)\s*:\s?(.*)$/;
+const TXT_ATTRIBUTE_KEYS: string[] = RULE_KEYS.filter(key => key !== 'field' && key !== 'condition');
+
 export class ModernValidationRulesParser {
   /**
-   * Parse validation rules from various file formats
+   * Parse validation rules from various file formats. Problems are returned
+   * as diagnostics located by line (or worksheet and row for Excel).
    */
   static async parseValidationFile(
     filePath: string,
@@ -46,56 +167,150 @@ export class ModernValidationRulesParser {
     try {
       switch (extension) {
         case '.json':
-          return await this.parseJsonSchema(filePath, templateId);
+          return this.applyFileOptions(await this.parseJsonSchema(filePath, templateId));
         case '.yaml':
         case '.yml':
-          return await this.parseYamlConfig(filePath, templateId);
+          return this.applyFileOptions(await this.parseYamlConfig(filePath, templateId));
         case '.csv':
-          return await this.parseCsvRules(filePath, templateId);
+          return this.applyFileOptions(await this.parseCsvRules(filePath, templateId));
         case '.xlsx':
         case '.xls':
-          return await this.parseExcelRules(filePath, templateId);
+          return this.applyFileOptions(await this.parseExcelRules(filePath, templateId));
         case '.txt':
-          return await this.parseLegacyTxtRules(filePath, templateId);
+          return this.applyFileOptions(await this.parseLegacyTxtRules(filePath, templateId));
         default:
-          throw new Error(`Unsupported file format: ${extension}`);
+          return this.applyFileOptions({
+            rules: [],
+            metadata: {},
+            diagnostics: [{
+              severity: 'error',
+              code: 'unsupported-format',
+              message: `Unsupported file format: ${extension}`,
+              suggestion: 'Upload a .json, .yaml, .csv, .xlsx or .txt rules file'
+            }]
+          });
       }
     } catch (error) {
-      return {
+      return this.applyFileOptions({
         rules: [],
         metadata: {},
-        errors: [`Failed to parse validation file: ${error.message}`]
-      };
+        diagnostics: [{
+          severity: 'error',
+          code: 'parse-failed',
+          message: `Failed to parse validation file: ${error.message}`,
+          suggestion: 'Check that the file is not damaged and matches its extension'
+        }]
+      });
     }
   }
 
+  /**
+   * A diagnostic as one line of text, e.g. "Line 4: ..." or "Unique Keys row 3: ..."
+   */
+  static formatDiagnostic(diagnostic: RuleDiagnostic): string {
+    const location = diagnostic.line !== undefined
+      ? `Line ${diagnostic.line}: `
+      : diagnostic.sheet
+        ? `${diagnostic.sheet}${diagnostic.row !== undefined ? ` row ${diagnostic.row}` : ''}: `
+        : '';
+    return `${location}${diagnostic.message}`;
+  }
+
   /**
    * Parse JSON Schema format (industry standard)
    */
   private static async parseJsonSchema(
     filePath: string,
     templateId: number
-  ): Promise<ParsedValidationRules> {
+  ): Promise<ParsedRuleFile> {
     const content = fs.readFileSync(filePath, 'utf8');
-    const schema = JSON.parse(content);
+    let schema: any;
+    try {
+      schema = JSON.parse(content);
+    } catch (error) {
+      // V8 reports "... at position 123", or "Unexpected token '}', <part of the text> is not valid JSON"
+      const message = (error as Error).message.replace(/^(Unexpected token '.*?'), [\s\S]* is not valid JSON$/, '$1');
+      const position = message.match(/position (\d+)/)?.[1];
+      return {
+        rules: [],
+        metadata: {},
+        diagnostics: [{
+          severity: 'error',
+          code: 'syntax-error',
+          message: `Invalid JSON: ${message}`,
+          suggestion: 'Check for missing commas, quotes or brackets near this line',
+          line: position !== undefined ? content.slice(0, Number(position)).split('\n').length : this.findJsonErrorLine(content)
+        }]
+      };
+    }
     
+    return this.parseSchemaObject(schema, templateId, content, 'json');
+  }
+
+  /**
+   * Line of a JSON syntax error V8 didn't give a position for. JSON is read
+   * as YAML, whose errors carry a line; undefined if YAML accepts the text.
+   */
+  private static findJsonErrorLine(content: string): number | undefined {
+    try {
+      yaml.load(content, { json: true });
+      return undefined;
+    } catch (error) {
+      const mark = (error as yaml.YAMLException).mark;
+      return mark ? mark.line + 1 : undefined;
+    }
+  }
+
+  /**
+   * Parse the sheetValidations / globalValidations structure shared by the
+   * JSON and YAML formats. `content` is the file text, used to find lines.
+   */
+  private static parseSchemaObject(
+    schema: any,
+    templateId: number,
+    content: string,
+    format: 'json' | 'yaml'
+  ): ParsedRuleFile {
     const rules: ValidationRule[] = [];
-    const errors: string[] = [];
+    const diagnostics: RuleDiagnostic[] = [];
+    const lineOf = (keys: string[], item?: any) => this.findLine(content, keys, item, format);
+    
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'missing-section',
+        message: 'The file must hold an object with sheetValidations',
+        suggestion: 'Start from the template downloaded from the Validation Rules section',
+        line: 1
+      });
+      return { rules, metadata: {}, diagnostics };
+    }
+    this.checkKeys(schema, SCHEMA_KEYS.root, [], diagnostics, lineOf);
     
     // Validate JSON Schema structure
-    if (!schema.sheetValidations) {
-      errors.push('Missing sheetValidations in JSON Schema');
-      return { rules, metadata: schema.metadata || {}, errors };
+    if (!schema.sheetValidations && !schema.rules) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'missing-section',
+        message: 'Missing sheetValidations in JSON Schema',
+        suggestion: 'Add a "sheetValidations" object keyed by sheet name, or a "rules" list',
+        line: 1
+      });
+      return { rules, metadata: schema.metadata || {}, diagnostics };
     }
-
     // Parse sheet validations
-    for (const [sheetName, sheetValidation] of Object.entries(schema.sheetValidations)) {
-      const sheetRules = sheetValidation as any;
+    for (const [sheetName, sheetValidation] of Object.entries(schema.sheetValidations || {})) {
+      const sheetRules = (sheetValidation || {}) as any;
+      const sheetPath = ['sheetValidations', sheetName];
+      this.checkKeys(sheetRules, SCHEMA_KEYS.sheet, sheetPath, diagnostics, lineOf);
       
       // Column validations
       if (sheetRules.columnValidations) {
         for (const [column, columnRules] of Object.entries(sheetRules.columnValidations)) {
-          const colRules = columnRules as any;
+          const colRules = (columnRules || {}) as any;
+          const columnStart = rules.length;
+          const columnPath = [...sheetPath, 'columnValidations', column];
+          this.checkKeys(colRules, SCHEMA_KEYS.column, columnPath, diagnostics, lineOf);
           
           // Required field validation
           if (colRules.required) {
@@ -198,20 +413,133 @@ export class ModernValidationRulesParser {
               isActive: true
             });
           }
+          
+          // Decimal places allowed in amounts
+          if (colRules.decimals !== undefined) {
+            rules.push(this.createDecimalsRule(templateId, `${sheetName}.${column}`, column, colRules.decimals));
+          }
+          
+          // Reference-data code list, e.g. "currency"
+          if (colRules.codeList) {
+            rules.push({
+              templateId,
+              field: `${sheetName}.${column}`,
+              ruleType: 'format',
+              condition: `inList:${colRules.codeList}`,
+              errorMessage: `${column} must be a code from the ${colRules.codeList} list`,
+              severity: 'error',
+              isActive: true
+            });
+          }
+          
+          // Uniqueness within the column
+          if (colRules.unique) {
+            rules.push(this.createUniquenessRule(templateId, sheetName, column, colRules.description ? `${colRules.description} must be unique` : undefined));
+          }
+          
+          // Every check on the column only applies where the when clause holds
+          this.applyWhen(rules.slice(columnStart), colRules.when);
+          this.setSource(rules.slice(columnStart), { line: lineOf(columnPath) });
+        }
+      }
+      
+      // Composite keys that must not repeat across rows
+      if (sheetRules.uniqueKeys && Array.isArray(sheetRules.uniqueKeys)) {
+        for (const uniqueKey of sheetRules.uniqueKeys) {
+          const source = { line: lineOf([...sheetPath, 'uniqueKeys'], uniqueKey) };
+          if (!uniqueKey.columns) {
+            diagnostics.push(this.missingField(`Unique key "${uniqueKey.name || 'unnamed'}" in ${sheetName} needs columns`, ['columns'], source));
+            continue;
+          }
+          rules.push(this.createUniquenessRule(
+            templateId,
+            sheetName,
+            uniqueKey.columns,
+            uniqueKey.description || uniqueKey.name,
+            uniqueKey.severity
+          ));
+          this.setSource(rules.slice(-1), source);
+        }
+      }
+      
+      // Period-over-period variance against the last approved submission
+      if (sheetRules.varianceValidations && Array.isArray(sheetRules.varianceValidations)) {
+        for (const variance of sheetRules.varianceValidations) {
+          const source = { line: lineOf([...sheetPath, 'varianceValidations'], variance) };
+          if (!variance.cells || variance.maxChange === undefined) {
+            diagnostics.push(this.missingField(`Variance validation "${variance.name || 'unnamed'}" in ${sheetName} needs cells and maxChange`, ['cells', 'maxChange'], source));
+            continue;
+          }
+          rules.push(this.createVarianceRule(templateId, sheetName, variance.cells, variance.maxChange, variance.description || variance.name, variance.severity));
+          this.setSource(rules.slice(-1), source);
+        }
+      }
+      
+      // Referential integrity - values must exist in a column (or key) of another sheet
+      if (sheetRules.referenceValidations && Array.isArray(sheetRules.referenceValidations)) {
+        for (const reference of sheetRules.referenceValidations) {
+          const source = { line: lineOf([...sheetPath, 'referenceValidations'], reference) };
+          if (!reference.columns || !reference.referencedSheet || !reference.referencedColumns) {
+            diagnostics.push(this.missingField(
+              `Reference validation "${reference.name || 'unnamed'}" in ${sheetName} needs columns, referencedSheet and referencedColumns`,
+              ['columns', 'referencedSheet', 'referencedColumns'],
+              source
+            ));
+            continue;
+          }
+          rules.push({
+            templateId,
+            field: this.formatSheetColumns(sheetName, reference.columns),
+            ruleType: 'referentialIntegrity',
+            condition: this.formatSheetColumns(reference.referencedSheet, reference.referencedColumns),
+            errorMessage: reference.description || reference.name || `Value must exist in ${reference.referencedSheet}`,
+            severity: toValidationSeverity(reference.severity),
+            isActive: true,
+            source
+          });
+        }
+      }
+      
+      // Totals that must equal the sum of a range, filtered column or table
+      if (sheetRules.reconciliations && Array.isArray(sheetRules.reconciliations)) {
+        for (const reconciliation of sheetRules.reconciliations) {
+          const source = { line: lineOf([...sheetPath, 'reconciliations'], reconciliation) };
+          if (!reconciliation.target || !reconciliation.source) {
+            diagnostics.push(this.missingField(`Reconciliation "${reconciliation.name || 'unnamed'}" in ${sheetName} needs target and source`, ['target', 'source'], source));
+            continue;
+          }
+          rules.push(this.createReconcileRule(
+            templateId,
+            sheetName,
+            reconciliation.target,
+            reconciliation.source,
+            reconciliation.description || reconciliation.name,
+            reconciliation.severity,
+            reconciliation.tolerance
+          ));
+          this.setSource(rules.slice(-1), source);
         }
       }
       
       // Cross-field validations
       if (sheetRules.crossFieldValidations && Array.isArray(sheetRules.crossFieldValidations)) {
         for (const crossField of sheetRules.crossFieldValidations) {
+          const source = { line: lineOf([...sheetPath, 'crossFieldValidations'], crossField) };
+          if (!crossField?.expression) {
+            diagnostics.push(this.missingField(`Cross-field validation "${crossField?.name || 'unnamed'}" in ${sheetName} needs an expression`, ['expression'], source));
+            continue;
+          }
           rules.push({
             templateId,
             field: sheetName,
             ruleType: 'crossField',
             condition: crossField.expression,
             errorMessage: crossField.description || crossField.name,
-            severity: crossField.severity || 'error',
-            isActive: true
+            severity: toValidationSeverity(crossField.severity),
+            isActive: true,
+            when: crossField.when,
+            tolerance: this.toTolerance(crossField.tolerance),
+            source
           });
         }
       }
@@ -220,22 +548,44 @@ export class ModernValidationRulesParser {
     // Global validations
     if (schema.globalValidations && Array.isArray(schema.globalValidations)) {
       for (const globalValidation of schema.globalValidations) {
+        const source = { line: lineOf(['globalValidations'], globalValidation) };
+        if (!globalValidation?.expression) {
+          diagnostics.push(this.missingField(`Global validation "${globalValidation?.name || 'unnamed'}" needs an expression`, ['expression'], source));
+          continue;
+        }
         rules.push({
           templateId,
           field: 'GLOBAL',
           ruleType: 'global',
           condition: globalValidation.expression,
           errorMessage: globalValidation.description || globalValidation.name,
-          severity: globalValidation.severity || 'error',
-          isActive: true
+          severity: toValidationSeverity(globalValidation.severity),
+          isActive: true,
+          when: globalValidation.when,
+          tolerance: this.toTolerance(globalValidation.tolerance),
+          source
         });
       }
     }
     
+    // Rules written out in full, e.g. by an export
+    if (Array.isArray(schema.rules)) {
+      schema.rules.forEach((item: any, index: number) => {
+        const source = { line: lineOf(['rules'], item) };
+        this.checkKeys(item, SCHEMA_KEYS.rule, [], diagnostics, () => source.line);
+        const missing = ['ruleType', 'field', 'condition'].filter(key => !String(item?.[key] ?? '').trim());
+        if (missing.length > 0) {
+          diagnostics.push(this.missingField(`Rule ${index + 1} in rules needs ${missing.join(', ')}`, missing, source));
+          return;
+        }
+        rules.push({ ...this.createRule(templateId, item), source });
+      });
+    }
+    
     return {
       rules,
       metadata: schema.metadata || {},
-      errors
+      diagnostics
     };
   }
 
@@ -245,18 +595,27 @@ export class ModernValidationRulesParser {
   private static async parseYamlConfig(
     filePath: string,
     templateId: number
-  ): Promise<ParsedValidationRules> {
+  ): Promise<ParsedRuleFile> {
     const content = fs.readFileSync(filePath, 'utf8');
-    const config = yaml.load(content) as any;
-    
-    // Convert YAML to JSON Schema format and parse
-    const jsonSchema = {
-      metadata: config.metadata,
-      sheetValidations: config.sheetValidations,
-      globalValidations: config.globalValidations
-    };
+    let config: any;
+    try {
+      config = yaml.load(content);
+    } catch (error) {
+      const mark = (error as yaml.YAMLException).mark;
+      return {
+        rules: [],
+        metadata: {},
+        diagnostics: [{
+          severity: 'error',
+          code: 'syntax-error',
+          message: `Invalid YAML: ${(error as yaml.YAMLException).reason || (error as Error).message}`,
+          suggestion: 'Check the indentation and quoting near this line',
+          line: mark ? mark.line + 1 : undefined
+        }]
+      };
+    }
     
-    return await this.parseJsonSchemaObject(jsonSchema, templateId);
+    return this.parseSchemaObject(config, templateId, content, 'yaml');
   }
 
   /**
@@ -265,21 +624,38 @@ export class ModernValidationRulesParser {
   private static async parseCsvRules(
     filePath: string,
     templateId: number
-  ): Promise<ParsedValidationRules> {
+  ): Promise<ParsedRuleFile> {
     const rules: ValidationRule[] = [];
-    const errors: string[] = [];
-    const metadata = {};
+    const diagnostics: RuleDiagnostic[] = [];
+    const metadata: ParsedValidationRules['metadata'] = {};
     
     return new Promise((resolve, reject) => {
       const results: any[] = [];
+      let headers: string[] = [];
       
       fs.createReadStream(filePath)
         .pipe(csv())
+        .on('headers', (names: string[]) => { headers = names; })
         .on('data', (data) => results.push(data))
         .on('end', () => {
           try {
-            for (const row of results) {
+            headers.filter(header => header && !CSV_COLUMNS.includes(header)).forEach(header => {
+              diagnostics.push(this.unknownName('column', header, CSV_COLUMNS, { line: 1 }));
+            });
+            
+            for (let index = 0; index < results.length; index++) {
+              const row = results[index];
+              if (Object.values(row).every(value => !String(value ?? '').trim())) continue;
               const ruleType = row.RuleType?.toLowerCase();
+              const rowStart = rules.length;
+              // Row 1 holds the headers; quoted values spanning lines would shift this
+              const source: RuleSource = { line: index + 2 };
+              
+              const missing = (CSV_REQUIRED_COLUMNS[ruleType] || []).filter(column => !String(row[column] ?? '').trim());
+              if (missing.length > 0) {
+                diagnostics.push(this.missingField(`A ${ruleType} row needs ${missing.join(' and ')}`, missing, source));
+                continue;
+              }
               
               if (ruleType === 'column') {
                 // Column validation rule
@@ -413,6 +789,71 @@ export class ModernValidationRulesParser {
                     applyToAllRows: row.ApplyToAllRows === 'true'
                   });
                 }
+                
+                if (row.CodeList) {
+                  rules.push({
+                    templateId,
+                    field,
+                    ruleType: 'format',
+                    condition: `inList:${row.CodeList.trim()}`,
+                    errorMessage: `${row.Column} must be a code from the ${row.CodeList.trim()} list`,
+                    severity: 'error',
+                    isActive: true,
+                    rowRange: row.RowRange,
+                    columnRange: row.ColumnRange,
+                    cellRange: row.CellRange,
+                    applyToAllRows: row.ApplyToAllRows === 'true'
+                  });
+                }
+                
+                if (row.Unique === 'true') {
+                  rules.push({
+                    ...this.createUniquenessRule(templateId, row.SheetName, row.Column),
+                    rowRange: row.RowRange
+                  });
+                }
+                
+                if (row.Decimals) {
+                  rules.push({
+                    ...this.createDecimalsRule(templateId, field, row.Column, row.Decimals),
+                    rowRange: row.RowRange,
+                    columnRange: row.ColumnRange,
+                    cellRange: row.CellRange,
+                    applyToAllRows: row.ApplyToAllRows === 'true'
+                  });
+                }
+                
+                if (rules.length === rowStart) {
+                  diagnostics.push({
+                    severity: 'warning',
+                    code: 'empty-rule',
+                    message: `The column row for ${field} sets no checks`,
+                    suggestion: 'Fill in Required, DataType, Minimum, Maximum, Pattern or another check, or delete the row',
+                    ...source
+                  });
+                }
+              } else if (ruleType === 'reconcile' || ruleType === 'sum') {
+                // Reconcile rule: CellRange (or Column + Row) is the total, Expression what it must equal
+                const target = row.CellRange || (row.Column && row.Row ? `${row.Column}${row.Row}` : '');
+                rules.push(this.createReconcileRule(templateId, row.SheetName, target, row.Expression, row.Description, row.Severity));
+              } else if (ruleType === 'amount_scale') {
+                // File-wide unit for amounts, e.g. Expression "lakhs"
+                metadata.amountScale = row.Expression;
+              } else if (ruleType === 'rule') {
+                // A rule written out in full: Check is the rule type, Expression the condition
+                const values: RuleValues = {};
+                RULE_KEYS.forEach(key => { values[key] = row[CSV_RULE_COLUMNS[key]]; });
+                rules.push(this.createRule(templateId, values));
+              } else if (ruleType === 'variance') {
+                // Variance rule: CellRange (or Column + Row) is compared with the prior period, Expression holds the limit
+                const cells = row.CellRange || (row.Column && row.Row ? `${row.Column}${row.Row}` : row.Column);
+                rules.push(this.createVarianceRule(templateId, row.SheetName, cells, row.Expression, row.Description, row.Severity));
+              } else if (ruleType === 'unique' || ruleType === 'unique_key') {
+                // Uniqueness rule: Column lists one column or a composite key ("A,B,C")
+                rules.push({
+                  ...this.createUniquenessRule(templateId, row.SheetName, row.Column, row.Description, row.Severity),
+                  rowRange: row.RowRange
+                });
               } else if (ruleType === 'cell') {
                 // Cell-specific validation rule using Column + Row combination
                 let cellReference = row.CellRange;
@@ -428,7 +869,7 @@ export class ModernValidationRulesParser {
                   ruleType: 'cell', // Always keep as 'cell' type for cell-specific validations
                   condition: row.Required === 'true' || row.Required === 'required' ? 'required' : (row.Expression || 'NOT_EMPTY'),
                   errorMessage: row.Description || `Cell ${cellReference} validation failed`,
-                  severity: row.Severity || 'error',
+                  severity: toValidationSeverity(row.Severity),
                   isActive: true,
                   rowRange: row.RowRange || row.Row,
                   columnRange: row.ColumnRange || row.Column,
@@ -452,7 +893,7 @@ export class ModernValidationRulesParser {
                   ruleType: row.Required === 'true' ? 'required' : 'range',
                   condition: row.Expression || 'NOT_EMPTY',
                   errorMessage: row.Description || `Range ${cellRange} validation failed`,
-                  severity: row.Severity || 'error',
+                  severity: toValidationSeverity(row.Severity),
                   isActive: true,
                   rowRange: row.RowRange,
                   columnRange: row.ColumnRange,
@@ -467,10 +908,22 @@ export class ModernValidationRulesParser {
                   ruleType: 'crossField',
                   condition: row.Expression,
                   errorMessage: row.Description,
-                  severity: row.Severity || 'error',
+                  severity: toValidationSeverity(row.Severity),
                   isActive: true,
                   cellRange: row.CellRange
                 });
+              } else if (ruleType === 'reference') {
+                // Referential integrity: Column lists the key column(s), Expression the referenced Sheet!Columns
+                rules.push({
+                  templateId,
+                  field: this.formatSheetColumns(row.SheetName, row.Column),
+                  ruleType: 'referentialIntegrity',
+                  condition: row.Expression,
+                  errorMessage: row.Description || `Value must exist in ${row.Expression}`,
+                  severity: toValidationSeverity(row.Severity),
+                  isActive: true,
+                  rowRange: row.RowRange
+                });
               } else if (ruleType === 'global') {
                 // Global validation rule
                 rules.push({
@@ -479,14 +932,22 @@ export class ModernValidationRulesParser {
                   ruleType: 'global',
                   condition: row.Expression,
                   errorMessage: row.Description,
-                  severity: row.Severity || 'error',
+                  severity: toValidationSeverity(row.Severity),
                   isActive: true,
                   cellRange: row.CellRange
                 });
+              } else {
+                diagnostics.push(ruleType
+                  ? this.unknownName('rule type', row.RuleType, CSV_RULE_TYPES, source)
+                  : this.missingField('The row has no RuleType', ['RuleType'], source));
               }
+              
+              this.applyWhen(rules.slice(rowStart), row.When);
+              rules.slice(rowStart).forEach(rule => { rule.tolerance = this.toTolerance(row.Tolerance); });
+              this.setSource(rules.slice(rowStart), source);
             }
             
-            resolve({ rules, metadata, errors });
+            resolve({ rules, metadata, diagnostics });
           } catch (error) {
             reject(error);
           }
@@ -501,14 +962,18 @@ export class ModernValidationRulesParser {
   private static async parseExcelRules(
     filePath: string,
     templateId: number
-  ): Promise<ParsedValidationRules> {
+  ): Promise<ParsedRuleFile> {
     const workbook = new ExcelJS.Workbook();
     await workbook.xlsx.readFile(filePath);
     
     const rules: ValidationRule[] = [];
-    const errors: string[] = [];
+    const diagnostics: RuleDiagnostic[] = [];
     let metadata = {};
     
+    workbook.worksheets
+      .filter(worksheet => !EXCEL_SHEETS.includes(worksheet.name))
+      .forEach(worksheet => diagnostics.push(this.unknownName('worksheet', worksheet.name, EXCEL_SHEETS, { sheet: worksheet.name })));
+    
     // Parse metadata sheet
     const metadataSheet = workbook.getWorksheet('Metadata');
     if (metadataSheet) {
@@ -518,18 +983,52 @@ export class ModernValidationRulesParser {
     // Parse column validations sheet
     const columnValidationsSheet = workbook.getWorksheet('Column Validations');
     if (columnValidationsSheet) {
-      const columnRules = this.parseColumnValidationsSheet(columnValidationsSheet, templateId);
+      const columnRules = this.parseColumnValidationsSheet(columnValidationsSheet, templateId, diagnostics);
       rules.push(...columnRules);
     }
     
     // Parse cross-field validations sheet
     const crossFieldSheet = workbook.getWorksheet('Cross-Field Validations');
     if (crossFieldSheet) {
-      const crossFieldRules = this.parseCrossFieldValidationsSheet(crossFieldSheet, templateId);
+      const crossFieldRules = this.parseCrossFieldValidationsSheet(crossFieldSheet, templateId, diagnostics);
       rules.push(...crossFieldRules);
     }
     
-    return { rules, metadata, errors };
+    // Parse variance validations sheet
+    const varianceSheet = workbook.getWorksheet('Variance Validations');
+    if (varianceSheet) {
+      const varianceRules = this.parseVarianceValidationsSheet(varianceSheet, templateId, diagnostics);
+      rules.push(...varianceRules);
+    }
+    
+    // Parse reconciliations sheet
+    const reconciliationSheet = workbook.getWorksheet('Reconciliations');
+    if (reconciliationSheet) {
+      const reconcileRules = this.parseReconciliationsSheet(reconciliationSheet, templateId, diagnostics);
+      rules.push(...reconcileRules);
+    }
+    
+    // Parse unique keys sheet
+    const uniqueKeysSheet = workbook.getWorksheet('Unique Keys');
+    if (uniqueKeysSheet) {
+      const uniqueRules = this.parseUniqueKeysSheet(uniqueKeysSheet, templateId, diagnostics);
+      rules.push(...uniqueRules);
+    }
+    
+    // Parse reference validations sheet
+    const referenceSheet = workbook.getWorksheet('Reference Validations');
+    if (referenceSheet) {
+      const referenceRules = this.parseReferenceValidationsSheet(referenceSheet, templateId, diagnostics);
+      rules.push(...referenceRules);
+    }
+    
+    // Parse rules written out in full
+    const rulesSheet = workbook.getWorksheet('Rules');
+    if (rulesSheet) {
+      rules.push(...this.parseRulesSheet(rulesSheet, templateId, diagnostics));
+    }
+    
+    return { rules, metadata, diagnostics };
   }
 
   /**
@@ -538,60 +1037,186 @@ export class ModernValidationRulesParser {
   private static async parseLegacyTxtRules(
     filePath: string,
     templateId: number
-  ): Promise<ParsedValidationRules> {
+  ): Promise<ParsedRuleFile> {
     const content = fs.readFileSync(filePath, 'utf8');
-    const lines = content.split('\n').filter(line => line.trim());
+    const lines = content.split('\n');
     
     const rules: ValidationRule[] = [];
-    const errors: string[] = [];
-    const metadata = {};
+    const diagnostics: RuleDiagnostic[] = [];
+    const metadata: ParsedValidationRules['metadata'] = {};
     
-    for (const line of lines) {
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index].replace(/\r$/, '');
+      const source: RuleSource = { line: index + 1 };
+      // Blank lines and "#" comments
+      if (!line.trim() || line.trim().startsWith('#')) continue;
+      const ruleStart = rules.length;
+      
       try {
-        const parts = line.split(':');
-        if (parts.length >= 2) {
+        // "field: condition" - split on ": " when present so fields may contain ranges (B2:B10)
+        const separator = line.indexOf(': ') !== -1 ? line.indexOf(': ') : line.indexOf(':');
+        const parts = separator === -1 ? [line] : [line.slice(0, separator), line.slice(separator + 1)];
+        if (parts.length < 2 || !parts[0].trim() || !parts[1].trim()) {
+          diagnostics.push({
+            severity: 'error',
+            code: 'unrecognized-line',
+            message: `Expected "field: condition" but found "${line.trim()}"`,
+            suggestion: 'Write one rule per line, e.g. "Summary!B5: value > 0", or start the line with # to make it a comment',
+            ...source
+          });
+        } else if (BLOCK_FORMAT_KEYS.test(parts[0].trim())) {
+          diagnostics.push({
+            severity: 'error',
+            code: 'block-format',
+            message: `"${parts[0].trim()}:" belongs to the old block format, which this parser does not read`,
+            suggestion: 'Rewrite each FIELD/RULE/CONDITION block as one "field: condition" line, or use the JSON, YAML, CSV or Excel format',
+            ...source
+          });
+        } else {
           const field = parts[0].trim();
           const condition = parts[1].trim();
           
-          rules.push({
-            templateId,
-            field,
-            ruleType: 'legacy',
-            condition,
-            errorMessage: `Validation failed for ${field}`,
-            severity: 'error',
-            isActive: true
-          });
+          // e.g. "AMOUNT_SCALE: lakhs"
+          if (/^AMOUNT_SCALE$/i.test(field)) {
+            metadata.amountScale = condition;
+            continue;
+          }
+          
+          const attributes = this.readTxtAttributes(lines, index);
+          index += attributes.lines;
+          if (attributes.values.ruleType) {
+            // The rule is written out in full; a quoted condition is a JSON string
+            rules.push(this.createRule(templateId, { field, ...attributes.values, condition: this.readTxtValue(parts[1]) }));
+          } else {
+            const lineRules = this.createTxtLineRules(templateId, field, condition);
+            lineRules.forEach(rule => Object.assign(rule, this.createRule(templateId, { ...rule, ...attributes.values })));
+            rules.push(...lineRules);
+          }
         }
       } catch (error) {
-        errors.push(`Failed to parse line: ${line}`);
+        diagnostics.push({
+          severity: 'error',
+          code: 'parse-failed',
+          message: `Failed to parse line: ${line.trim()}`,
+          suggestion: 'Check the line against the TXT examples in the rules specification',
+          ...source
+        });
+      } finally {
+        this.setSource(rules.slice(ruleStart), source);
       }
     }
     
-    return { rules, metadata, errors };
+    return { rules, metadata, diagnostics };
   }
 
   /**
-   * Helper method to parse JSON Schema object
+   * Rules of a TXT "field: condition" line. Also used by exports to check a
+   * rule reads back unchanged from a plain line.
    */
-  private static async parseJsonSchemaObject(
-    schema: any,
-    templateId: number
-  ): Promise<ParsedValidationRules> {
-    // Create a temporary JSON file and parse it
-    const tempContent = JSON.stringify(schema);
-    const tempFilePath = `/tmp/temp_schema_${Date.now()}.json`;
+  static createTxtLineRules(templateId: number, field: string, condition: string): ValidationRule[] {
+    // e.g. "Balance Sheet!C: DECIMALS 2"
+    const decimals = condition.match(/^DECIMALS\s+(\d+)$/i);
+    if (decimals) {
+      return [this.createDecimalsRule(templateId, field, field, decimals[1])];
+    }
+    
+    // e.g. "Balance Sheet!B12: MAX_CHANGE 25%"
+    if (/^MAX_CHANGE\s+/i.test(condition)) {
+      return [{
+        templateId,
+        field,
+        ruleType: 'variance',
+        condition: condition.toUpperCase(),
+        errorMessage: `${field} changed more than allowed vs the previous period`,
+        severity: 'warning',
+        isActive: true
+      }];
+    }
     
-    fs.writeFileSync(tempFilePath, tempContent);
+    // e.g. "Exposures!A,B,C: UNIQUE"
+    if (/^UNIQUE(_KEY)?$/i.test(condition)) {
+      const spec = field.match(/^(?:'([^']+)'|([^!]+))!(.+)$/);
+      if (spec) {
+        return [this.createUniquenessRule(templateId, (spec[1] || spec[2]).trim(), spec[3])];
+      }
+    }
     
-    try {
-      const result = await this.parseJsonSchema(tempFilePath, templateId);
-      fs.unlinkSync(tempFilePath); // Clean up
-      return result;
-    } catch (error) {
-      fs.unlinkSync(tempFilePath); // Clean up
-      throw error;
+    // e.g. "Summary!B14: RECONCILE SUM(Details!C2:C40)"
+    const reconcile = condition.match(/^RECONCILE\s+(.+)$/i);
+    if (reconcile) {
+      const { sheetName, address } = splitSheetAddress(field);
+      return [this.createReconcileRule(templateId, sheetName || '', address, reconcile[1])];
+    }
+    
+    // e.g. "Trades!D: IN_LIST currency"
+    const codeList = condition.match(/^IN_LIST\s+(.+)$/i);
+    if (codeList) {
+      return [{
+        templateId,
+        field,
+        ruleType: 'format',
+        condition: `inList:${codeList[1].trim()}`,
+        errorMessage: `${field} must be a code from the ${codeList[1].trim()} list`,
+        severity: 'error',
+        isActive: true
+      }];
     }
+    
+    // e.g. "Holdings!B,C: EXISTS_IN Counterparties!A,B"
+    const reference = condition.match(/^EXISTS_IN\s+(.+)$/i);
+    if (reference) {
+      return [{
+        templateId,
+        field,
+        ruleType: 'referentialIntegrity',
+        condition: reference[1].trim(),
+        errorMessage: `${field} must exist in ${reference[1].trim()}`,
+        severity: 'error',
+        isActive: true
+      }];
+    }
+    
+    return [{
+      templateId,
+      field,
+      ruleType: 'legacy',
+      condition,
+      errorMessage: `Validation failed for ${field}`,
+      severity: 'error',
+      isActive: true
+    }];
+  }
+
+  /**
+   * The indented "key: value" attribute lines after TXT line `index`, e.g.
+   * "  severity: warning". Indented lines with other keys are rules of their own.
+   */
+  private static readTxtAttributes(lines: string[], index: number): { values: RuleValues; lines: number } {
+    const values: Record<string, string> = {};
+    let count = 0;
+    for (let next = index + 1; next < lines.length; next++) {
+      const match = lines[next].replace(/\r$/, '').match(TXT_ATTRIBUTE);
+      if (!match || !TXT_ATTRIBUTE_KEYS.includes(match[1])) break;
+      values[match[1]] = this.readTxtValue(match[2]);
+      count++;
+    }
+    return { values, lines: count };
+  }
+
+  /**
+   * A TXT value: text in double quotes is read as a JSON string, so exports
+   * can write line breaks and surrounding spaces
+   */
+  private static readTxtValue(text: string): string {
+    const value = text.trim();
+    if (/^".*"$/.test(value)) {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    }
+    return value;
   }
 
   /**
@@ -619,7 +1244,8 @@ export class ModernValidationRulesParser {
    */
   private static parseColumnValidationsSheet(
     sheet: ExcelJS.Worksheet,
-    templateId: number
+    templateId: number,
+    diagnostics: RuleDiagnostic[]
   ): ValidationRule[] {
     const rules: ValidationRule[] = [];
     
@@ -635,35 +1261,41 @@ export class ModernValidationRulesParser {
         const maximum = row.getCell(8).value?.toString();
         const enumValues = row.getCell(9).value?.toString();
         const pattern = row.getCell(10).value?.toString();
+        const codeList = row.getCell(11).value?.toString();
+        const when = row.getCell(12).value?.toString();
+        const decimals = row.getCell(13).value?.toString();
+        const source: RuleSource = { sheet: sheet.name, row: rowNumber };
         
-        if (sheetName && column) {
-          const field = `${sheetName}.${column}`;
-          
-          if (required) {
-            rules.push({
-              templateId,
-              field,
-              ruleType: 'required',
-              condition: 'NOT_EMPTY',
-              errorMessage: `${column} is required in ${sheetName}`,
-              severity: 'error',
-              isActive: true
-            });
-          }
-          
-          if (dataType) {
-            rules.push({
-              templateId,
-              field,
-              ruleType: 'dataType',
-              condition: `TYPE_IS_${dataType.toUpperCase()}`,
-              errorMessage: `${column} must be of type ${dataType}`,
-              severity: 'error',
-              isActive: true
-            });
-          }
-          
-          // Add other validations...
+        const ignored = Object.entries({
+          'Min Length': minLength,
+          'Max Length': maxLength,
+          'Minimum': minimum,
+          'Maximum': maximum,
+          'Enum Values': enumValues,
+          'Pattern': pattern
+        }).filter(([, value]) => value).map(([name]) => name);
+        if (ignored.length > 0) {
+          diagnostics.push({
+            severity: 'warning',
+            code: 'ignored-value',
+            message: `${ignored.join(', ')} ${ignored.length === 1 ? 'is' : 'are'} not applied by the Excel format`,
+            suggestion: 'Use the JSON, YAML or CSV format for these checks, or clear the cells',
+            ...source
+          });
+        }
+        
+        if (this.hasCells({ 'Sheet Name': sheetName, 'Column': column }, source, diagnostics)) {
+          const columnRules = this.createColumnValidationRules(templateId, {
+            sheetName: sheetName!,
+            column: column!,
+            dataType,
+            required,
+            codeList,
+            when,
+            decimals
+          });
+          this.setSource(columnRules, source);
+          rules.push(...columnRules);
         }
       }
     });
@@ -671,12 +1303,77 @@ export class ModernValidationRulesParser {
     return rules;
   }
 
+  /**
+   * Rules of one Column Validations row. Also used by exports to check a
+   * rule reads back unchanged from the row written for it.
+   */
+  static createColumnValidationRules(
+    templateId: number,
+    row: {
+      sheetName: string;
+      column: string;
+      dataType?: string;
+      required?: boolean;
+      codeList?: string;
+      when?: string;
+      decimals?: string;
+    }
+  ): ValidationRule[] {
+    const { sheetName, column, dataType, codeList, decimals } = row;
+    const field = `${sheetName}.${column}`;
+    const rules: ValidationRule[] = [];
+    
+    if (row.required) {
+      rules.push({
+        templateId,
+        field,
+        ruleType: 'required',
+        condition: 'NOT_EMPTY',
+        errorMessage: `${column} is required in ${sheetName}`,
+        severity: 'error',
+        isActive: true
+      });
+    }
+    
+    if (dataType) {
+      rules.push({
+        templateId,
+        field,
+        ruleType: 'dataType',
+        condition: `TYPE_IS_${dataType.toUpperCase()}`,
+        errorMessage: `${column} must be of type ${dataType}`,
+        severity: 'error',
+        isActive: true
+      });
+    }
+    
+    if (codeList) {
+      rules.push({
+        templateId,
+        field,
+        ruleType: 'format',
+        condition: `inList:${codeList.trim()}`,
+        errorMessage: `${column} must be a code from the ${codeList.trim()} list`,
+        severity: 'error',
+        isActive: true
+      });
+    }
+    
+    if (decimals) {
+      rules.push(this.createDecimalsRule(templateId, field, column, decimals));
+    }
+    
+    this.applyWhen(rules, row.when);
+    return rules;
+  }
+
   /**
    * Parse cross-field validations sheet from Excel
    */
   private static parseCrossFieldValidationsSheet(
     sheet: ExcelJS.Worksheet,
-    templateId: number
+    templateId: number,
+    diagnostics: RuleDiagnostic[]
   ): ValidationRule[] {
     const rules: ValidationRule[] = [];
     
@@ -685,18 +1382,112 @@ export class ModernValidationRulesParser {
         const name = row.getCell(1).value?.toString();
         const description = row.getCell(2).value?.toString();
         const expression = row.getCell(3).value?.toString();
-        const severity = row.getCell(4).value?.toString() || 'error';
+        const severity = row.getCell(4).value?.toString();
         const applicableSheets = row.getCell(5).value?.toString();
+        const when = row.getCell(6).value?.toString();
+        const tolerance = row.getCell(7).value?.toString();
+        const source: RuleSource = { sheet: sheet.name, row: rowNumber };
+        
+        if (this.hasCells({ 'Name': name, 'Expression': expression }, source, diagnostics)) {
+          rules.push({
+            ...this.createCrossFieldRule(templateId, { name: name!, description, expression: expression!, severity, applicableSheets, when, tolerance }),
+            source
+          });
+        }
+      }
+    });
+    
+    return rules;
+  }
+
+  /**
+   * The rule of one Cross-Field Validations row. Also used by exports to
+   * check a rule reads back unchanged from the row written for it.
+   */
+  static createCrossFieldRule(
+    templateId: number,
+    row: {
+      name: string;
+      description?: string;
+      expression: string;
+      severity?: string;
+      applicableSheets?: string;
+      when?: string;
+      tolerance?: string;
+    }
+  ): ValidationRule {
+    return {
+      templateId,
+      field: row.applicableSheets || 'GLOBAL',
+      ruleType: 'crossField',
+      condition: row.expression,
+      errorMessage: row.description || row.name,
+      severity: toValidationSeverity(row.severity),
+      isActive: true,
+      when: row.when || null,
+      tolerance: this.toTolerance(row.tolerance)
+    };
+  }
+
+  /**
+   * Parse the Rules sheet from Excel: rules written out in full, one
+   * column per property (see EXCEL_COLUMNS.rules)
+   */
+  private static parseRulesSheet(
+    sheet: ExcelJS.Worksheet,
+    templateId: number,
+    diagnostics: RuleDiagnostic[]
+  ): ValidationRule[] {
+    const rules: ValidationRule[] = [];
+    
+    sheet.eachRow((row, rowNumber) => {
+      if (rowNumber > 1) { // Skip header
+        const values: RuleValues = {};
+        RULE_KEYS.forEach((key, index) => { values[key] = row.getCell(index + 1).value?.toString(); });
+        const source: RuleSource = { sheet: sheet.name, row: rowNumber };
         
-        if (name && expression) {
+        if (this.hasCells({ 'Rule Type': values.ruleType as string, 'Field': values.field as string, 'Condition': values.condition as string }, source, diagnostics)) {
+          rules.push({ ...this.createRule(templateId, values), source });
+        }
+      }
+    });
+    
+    return rules;
+  }
+
+  /**
+   * Parse reference validations sheet from Excel
+   * Columns: Name | Description | Sheet | Columns | Referenced Sheet | Referenced Columns | Severity
+   */
+  private static parseReferenceValidationsSheet(
+    sheet: ExcelJS.Worksheet,
+    templateId: number,
+    diagnostics: RuleDiagnostic[]
+  ): ValidationRule[] {
+    const rules: ValidationRule[] = [];
+    
+    sheet.eachRow((row, rowNumber) => {
+      if (rowNumber > 1) { // Skip header
+        const name = row.getCell(1).value?.toString();
+        const description = row.getCell(2).value?.toString();
+        const sheetName = row.getCell(3).value?.toString();
+        const columns = row.getCell(4).value?.toString();
+        const referencedSheet = row.getCell(5).value?.toString();
+        const referencedColumns = row.getCell(6).value?.toString();
+        const severity = toValidationSeverity(row.getCell(7).value?.toString());
+        const source: RuleSource = { sheet: sheet.name, row: rowNumber };
+        const required = { 'Sheet': sheetName, 'Columns': columns, 'Referenced Sheet': referencedSheet, 'Referenced Columns': referencedColumns };
+        
+        if (this.hasCells(required, source, diagnostics)) {
           rules.push({
             templateId,
-            field: applicableSheets || 'GLOBAL',
-            ruleType: 'crossField',
-            condition: expression,
-            errorMessage: description || name,
-            severity: severity as 'error' | 'warning',
-            isActive: true
+            field: this.formatSheetColumns(sheetName!, columns!),
+            ruleType: 'referentialIntegrity',
+            condition: this.formatSheetColumns(referencedSheet!, referencedColumns!),
+            errorMessage: description || name || `Value must exist in ${referencedSheet}`,
+            severity,
+            isActive: true,
+            source
           });
         }
       }
@@ -704,6 +1495,429 @@ export class ModernValidationRulesParser {
     
     return rules;
   }
+
+  /**
+   * Parse variance validations sheet from Excel
+   * Columns: Name | Description | Sheet | Cells | Max Change | Severity
+   */
+  private static parseVarianceValidationsSheet(
+    sheet: ExcelJS.Worksheet,
+    templateId: number,
+    diagnostics: RuleDiagnostic[]
+  ): ValidationRule[] {
+    const rules: ValidationRule[] = [];
+    
+    sheet.eachRow((row, rowNumber) => {
+      if (rowNumber > 1) { // Skip header
+        const name = row.getCell(1).value?.toString();
+        const description = row.getCell(2).value?.toString();
+        const sheetName = row.getCell(3).value?.toString();
+        const cells = row.getCell(4).value?.toString();
+        const maxChange = row.getCell(5).value?.toString();
+        const severity = row.getCell(6).value?.toString();
+        const source: RuleSource = { sheet: sheet.name, row: rowNumber };
+        
+        if (this.hasCells({ 'Sheet': sheetName, 'Cells': cells, 'Max Change': maxChange }, source, diagnostics)) {
+          rules.push({ ...this.createVarianceRule(templateId, sheetName!, cells!, maxChange!, description || name, severity), source });
+        }
+      }
+    });
+    
+    return rules;
+  }
+
+  /**
+   * Parse reconciliations sheet from Excel
+   * Columns: Name | Description | Sheet | Target | Source | Tolerance | Severity
+   */
+  private static parseReconciliationsSheet(
+    sheet: ExcelJS.Worksheet,
+    templateId: number,
+    diagnostics: RuleDiagnostic[]
+  ): ValidationRule[] {
+    const rules: ValidationRule[] = [];
+    
+    sheet.eachRow((row, rowNumber) => {
+      if (rowNumber > 1) { // Skip header
+        const name = row.getCell(1).value?.toString();
+        const description = row.getCell(2).value?.toString();
+        const sheetName = row.getCell(3).value?.toString();
+        const target = row.getCell(4).value?.toString();
+        const source = row.getCell(5).value?.toString();
+        const tolerance = row.getCell(6).value?.toString();
+        const severity = row.getCell(7).value?.toString();
+        const location: RuleSource = { sheet: sheet.name, row: rowNumber };
+        
+        if (this.hasCells({ 'Sheet': sheetName, 'Target': target, 'Source': source }, location, diagnostics)) {
+          rules.push({
+            ...this.createReconcileRule(templateId, sheetName!, target!, source!, description || name, severity, tolerance),
+            source: location
+          });
+        }
+      }
+    });
+    
+    return rules;
+  }
+
+  /**
+   * Build a reconcile rule: the target cell must equal the source aggregate,
+   * e.g. "SUM(ABOVE)", "B2:B9" or "SUMIF(A2:A50, \"Secured\", C2:C50)"
+   */
+  private static createReconcileRule(
+    templateId: number,
+    sheetName: string,
+    target: string,
+    source: string,
+    description?: string,
+    severity?: string,
+    tolerance?: unknown
+  ): ValidationRule {
+    const field = this.formatSheetAddress(sheetName, target);
+    return {
+      templateId,
+      field,
+      ruleType: 'reconcile',
+      condition: String(source).trim(),
+      errorMessage: description || `${field} must equal ${String(source).trim()}`,
+      severity: toValidationSeverity(severity),
+      isActive: true,
+      tolerance: this.toTolerance(tolerance)
+    };
+  }
+
+  /**
+   * Build a variance rule; maxChange is a percentage ("25%") or an absolute amount
+   */
+  private static createVarianceRule(
+    templateId: number,
+    sheetName: string,
+    cells: string,
+    maxChange: string | number,
+    description?: string,
+    severity?: string
+  ): ValidationRule {
+    const limit = String(maxChange).trim().replace(/^MAX_CHANGE\s+/i, '');
+    const field = this.formatSheetAddress(sheetName, cells);
+    
+    return {
+      templateId,
+      field,
+      ruleType: 'variance',
+      condition: `MAX_CHANGE ${limit}`,
+      errorMessage: description || `${field} must not change by more than ${limit} vs the previous period`,
+      // Variances usually need an explanation rather than a resubmission
+      severity: toValidationSeverity(severity, 'warning'),
+      isActive: true
+    };
+  }
+
+  /**
+   * Parse unique keys sheet from Excel
+   * Columns: Name | Description | Sheet | Columns | Severity
+   */
+  private static parseUniqueKeysSheet(
+    sheet: ExcelJS.Worksheet,
+    templateId: number,
+    diagnostics: RuleDiagnostic[]
+  ): ValidationRule[] {
+    const rules: ValidationRule[] = [];
+    
+    sheet.eachRow((row, rowNumber) => {
+      if (rowNumber > 1) { // Skip header
+        const name = row.getCell(1).value?.toString();
+        const description = row.getCell(2).value?.toString();
+        const sheetName = row.getCell(3).value?.toString();
+        const columns = row.getCell(4).value?.toString();
+        const severity = row.getCell(5).value?.toString();
+        const source: RuleSource = { sheet: sheet.name, row: rowNumber };
+        
+        if (this.hasCells({ 'Sheet': sheetName, 'Columns': columns }, source, diagnostics)) {
+          rules.push({ ...this.createUniquenessRule(templateId, sheetName!, columns!, description || name, severity), source });
+        }
+      }
+    });
+    
+    return rules;
+  }
+
+  /**
+   * Build a unique rule for a single column or a uniqueKey rule for a composite key
+   */
+  private static createUniquenessRule(
+    templateId: number,
+    sheetName: string,
+    columns: string | string[],
+    description?: string,
+    severity?: string
+  ): ValidationRule {
+    const field = this.formatSheetColumns(sheetName, columns);
+    const isComposite = field.slice(field.lastIndexOf('!') + 1).includes(',');
+    
+    return {
+      templateId,
+      field,
+      ruleType: isComposite ? 'uniqueKey' : 'unique',
+      condition: isComposite ? 'UNIQUE_KEY' : 'UNIQUE',
+      errorMessage: description || (isComposite
+        ? `Combination of ${field} must not repeat`
+        : `${field} must be unique`),
+      severity: toValidationSeverity(severity),
+      isActive: true
+    };
+  }
+
+  /**
+   * Build a rule limiting a column's amounts to a number of decimal places
+   */
+  private static createDecimalsRule(
+    templateId: number,
+    field: string,
+    column: string,
+    decimals: string | number
+  ): ValidationRule {
+    const places = String(decimals).trim();
+    return {
+      templateId,
+      field,
+      ruleType: 'decimals',
+      condition: `DECIMALS <= ${places}`,
+      errorMessage: `${column} must have at most ${places} decimal places`,
+      severity: 'error',
+      isActive: true
+    };
+  }
+
+  /**
+   * A rule written out in full (see RULE_KEYS). Values are trimmed and the
+   * optional properties only set when given, so exported rules read back unchanged.
+   */
+  static createRule(templateId: number, values: RuleValues): ValidationRule {
+    const text = (value: unknown) => value === undefined || value === null ? '' : String(value).trim();
+    const rule: ValidationRule = {
+      templateId,
+      field: text(values.field),
+      ruleType: text(values.ruleType),
+      condition: text(values.condition),
+      errorMessage: text(values.errorMessage) || `Validation failed for ${text(values.field)}`,
+      severity: toValidationSeverity(values.severity),
+      isActive: true
+    };
+    for (const key of ['when', 'tolerance', 'rowRange', 'columnRange', 'cellRange'] as const) {
+      if (text(values[key])) rule[key] = text(values[key]);
+    }
+    if (/^true$/i.test(text(values.applyToAllRows))) rule.applyToAllRows = true;
+    return rule;
+  }
+
+  /**
+   * Give rules the precondition (when clause) of the column or row they came from
+   */
+  private static applyWhen(rules: ValidationRule[], when: unknown): void {
+    const clause = when === undefined || when === null ? '' : String(when).trim();
+    if (clause) rules.forEach(rule => { rule.when = clause; });
+  }
+
+  private static toTolerance(tolerance: unknown): string | null {
+    const text = tolerance === undefined || tolerance === null ? '' : String(tolerance).trim();
+    return text || null;
+  }
+
+  /**
+   * Check the file's tolerances, give every rule the file's amount scale,
+   * and list the error diagnostics as text
+   */
+  private static applyFileOptions(parsed: ParsedRuleFile): ParsedValidationRules {
+    const { diagnostics } = parsed;
+    for (const rule of parsed.rules) {
+      if (!rule.tolerance) continue;
+      try {
+        ExpressionEvaluator.parseTolerance(rule.tolerance);
+      } catch (error) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'invalid-tolerance',
+          message: `${rule.errorMessage || rule.field}: ${(error as Error).message}`,
+          suggestion: 'Write the tolerance as an amount ("0.01") or a percentage ("0.1%")',
+          ...rule.source
+        });
+      }
+    }
+    
+    // Excel metadata keys are lower-cased ("Amount Scale" -> "amountscale")
+    const declared = parsed.metadata.amountScale ?? (parsed.metadata as any).amountscale;
+    if (declared !== undefined && declared !== null && declared !== '') {
+      const amountScale = parseAmountScale(declared);
+      if (amountScale === null) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'invalid-amount-scale',
+          message: `Invalid amountScale "${declared}"`,
+          suggestion: 'Use lakhs, crores, millions, thousands or a number such as 100000'
+        });
+      } else {
+        parsed.metadata.amountScale = amountScale;
+        parsed.rules.forEach(rule => { rule.amountScale = amountScale; });
+      }
+    }
+    
+    if (parsed.rules.length === 0 && !diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'no-rules',
+        message: 'The file defines no rules',
+        suggestion: 'Start from the template downloaded from the Validation Rules section'
+      });
+    }
+    
+    return {
+      ...parsed,
+      errors: diagnostics
+        .filter(diagnostic => diagnostic.severity === 'error')
+        .map(diagnostic => this.formatDiagnostic(diagnostic))
+    };
+  }
+
+  /**
+   * Record where rules built from one line, row or item are written
+   */
+  private static setSource(rules: ValidationRule[], source: RuleSource): void {
+    rules.forEach(rule => { rule.source = rule.source ?? source; });
+  }
+
+  private static missingField(message: string, fields: string[], source: RuleSource): RuleDiagnostic {
+    return {
+      severity: 'error',
+      code: 'missing-field',
+      message,
+      suggestion: `Fill in ${fields.join(', ')} or remove the rule`,
+      ...source
+    };
+  }
+
+  /**
+   * Report the empty required cells of an Excel rules row; true when there are none
+   */
+  private static hasCells(values: Record<string, string | undefined>, source: RuleSource, diagnostics: RuleDiagnostic[]): boolean {
+    const missing = Object.keys(values).filter(name => !String(values[name] ?? '').trim());
+    if (missing.length > 0) {
+      diagnostics.push(this.missingField(`Missing ${missing.join(', ')}`, missing, source));
+    }
+    return missing.length === 0;
+  }
+
+  /**
+   * A name the format doesn't know. Unknown rule types lose the rule, so they
+   * are errors; unknown columns, keys and worksheets are ignored, so they are warnings.
+   */
+  private static unknownName(kind: string, name: string, known: string[], source: RuleSource): RuleDiagnostic {
+    const closest = this.findClosestName(name, known);
+    return {
+      severity: kind === 'rule type' ? 'error' : 'warning',
+      code: `unknown-${kind.replace(/\s+/g, '-')}`,
+      message: `Unknown ${kind} "${name}"${kind === 'rule type' ? '' : ' is ignored'}`,
+      suggestion: closest ? `Did you mean "${closest}"?` : `Use one of: ${known.join(', ')}`,
+      ...source
+    };
+  }
+
+  /**
+   * Warn about JSON/YAML keys the parser does not read
+   */
+  private static checkKeys(
+    object: any,
+    known: string[],
+    keyPath: string[],
+    diagnostics: RuleDiagnostic[],
+    lineOf: (keys: string[]) => number
+  ): void {
+    if (!object || typeof object !== 'object' || Array.isArray(object)) return;
+    for (const key of Object.keys(object).filter(key => !known.includes(key))) {
+      const source = { line: lineOf([...keyPath, key]) };
+      if (IGNORED_COLUMN_KEYS.includes(key)) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'ignored-property',
+          message: `"${key}" is not applied`,
+          suggestion: key === 'format' ? 'Use "pattern" or "codeList" instead' : 'Move the check to a crossFieldValidations expression',
+          ...source
+        });
+      } else {
+        diagnostics.push(this.unknownName('property', key, known.filter(name => !name.startsWith('$')), source));
+      }
+    }
+  }
+
+  /**
+   * Known name within two edits of a misspelt one, ignoring case
+   */
+  static findClosestName(name: string, known: string[]): string | undefined {
+    const target = name.trim().toLowerCase();
+    let best: { name: string; distance: number } | undefined;
+    for (const candidate of known) {
+      const distance = this.editDistance(target, candidate.toLowerCase());
+      if (distance <= 2 && (!best || distance < best.distance)) best = { name: candidate, distance };
+    }
+    return best?.name;
+  }
+
+  private static editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+
+  /**
+   * 1-based line of a key path in JSON or YAML text, e.g. ["sheetValidations",
+   * "Summary", "columnValidations", "B"]. Each key is looked for after the
+   * previous one; an array item is then found by its name, expression or
+   * target. Falls back to the last part found.
+   */
+  private static findLine(content: string, keys: string[], item: any, format: 'json' | 'yaml'): number {
+    let position = 0;
+    for (const key of keys) {
+      const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const pattern = new RegExp(`(^|[\\s{,])["']?${escaped}["']?\\s*:`, 'gm');
+      pattern.lastIndex = position;
+      const match = pattern.exec(content);
+      if (!match) break;
+      position = match.index + match[0].length - 1;
+    }
+    
+    const label = item && typeof item === 'object'
+      ? [item.name, item.expression, item.target, item.cells, item.condition].find(value => typeof value === 'string' && value)
+      : undefined;
+    if (label) {
+      const text = format === 'json' ? JSON.stringify(label).slice(1, -1) : label;
+      const index = content.indexOf(text, position);
+      if (index >= 0) position = index;
+    }
+    return content.slice(0, position).split('\n').length;
+  }
+
+  /**
+   * Build a sheet-qualified column list such as "Holdings!B,C" or "'Annexure 1'!A"
+   */
+  private static formatSheetColumns(sheetName: string, columns: string | string[]): string {
+    const columnList = (Array.isArray(columns) ? columns : String(columns).split(/[,+]/))
+      .map(column => String(column).trim().toUpperCase())
+      .filter(Boolean)
+      .join(',');
+    return this.formatSheetAddress(sheetName, columnList);
+  }
+
+  /**
+   * Prefix an address with its sheet, quoting sheet names that need it ("'Balance Sheet'!B12")
+   */
+  private static formatSheetAddress(sheetName: string, address: string): string {
+    return formatSheetReference(sheetName || undefined, address.trim());
+  }
 }
 
 export default ModernValidationRulesParser;
\ No newline at end of file
@@ -0,0 +1,485 @@
+/**
+ * Rule coverage: which parts of a template do its validation rules check?
+ *
+ * Cross-references the fields of the extracted schema and the template's
+ * columns with the cells each rule checks or reads, and reports required
+ * fields no rule covers, rules pointing outside the template, and rules on
+ * the same cells that repeat or contradict each other.
+ */
+
+import {
+  columnToNumber,
+  numberToColumn,
+  parseRangeAddress,
+  splitSheetAddress
+} from './CellAddress';
+import { ModernValidationEngine, ValidationRule } from './ModernValidationEngine';
+import { TemplateStructure } from './TemplateStructure';
+import type { CellRequirement } from './WorkbookStream';
+
+/** The parts of an extracted schema field (templateSchemas.schemaData) used here */
+export interface CoverageSchemaField {
+  field_name: string;
+  data_type?: string;
+  cell_reference?: string;
+  is_required?: boolean;
+}
+
+export interface RuleReference {
+  id?: number;
+  ruleType: string;
+  field: string;
+  condition: string;
+  severity: string;
+}
+
+export interface FieldCoverage {
+  sheetName: string;
+  fieldName: string;
+  dataType?: string;
+  /** Where the field is, e.g. "B5" or "column C"; missing when it couldn't be placed */
+  location?: string;
+  required: boolean;
+  rules: RuleReference[];
+}
+
+export interface ColumnCoverage {
+  sheetName: string;
+  column: string;
+  header: string | null;
+  rules: number;
+}
+
+export type CoverageIssueType = 'uncovered_field' | 'outside_template' | 'overlap' | 'contradiction';
+
+export interface CoverageIssue {
+  type: CoverageIssueType;
+  sheetName?: string;
+  message: string;
+  rules: RuleReference[];
+}
+
+export interface RuleCoverageReport {
+  summary: {
+    totalRules: number;
+    totalFields: number;
+    requiredFields: number;
+    coveredFields: number;
+    uncoveredRequiredFields: number;
+    totalColumns: number;
+    coveredColumns: number;
+    rulesOutsideTemplate: number;
+    overlaps: number;
+    contradictions: number;
+  };
+  fields: FieldCoverage[];
+  columns: ColumnCoverage[];
+  issues: CoverageIssue[];
+}
+
+/** A block of cells on one sheet; columns and rows are 1-based and inclusive */
+interface Area {
+  sheetName: string;
+  startColumn: number;
+  endColumn: number;
+  startRow: number;
+  endRow: number;
+  /** Header name of a column whose position the template doesn't record */
+  header?: string;
+}
+
+interface TemplateSheetLayout {
+  name: string;
+  headers: Array<string | null>;
+  headerPositions: boolean;
+  /** Widest column known from row 1 and the detected tables; 0 when headers have no positions */
+  width: number;
+}
+
+// Rule types whose cells are exactly the cells they check, so two of them on the same cells can be compared
+const CONSTRAINT_TYPES = new Set([
+  'required', 'format', 'range', 'dataType', 'minLength', 'maxLength', 'minimum', 'maximum', 'pattern', 'enum', 'decimals'
+]);
+// Data types accepted by the dataType check that accept the same values
+const DATA_TYPE_GROUPS: Record<string, string> = {
+  number: 'number',
+  decimal: 'number',
+  currency: 'number',
+  integer: 'number',
+  date: 'date',
+  boolean: 'boolean',
+  email: 'text'
+};
+const COLUMN_REFERENCE = /^(?:column\s+)?([A-Z]{1,3})$/i;
+
+export class RuleCoverage {
+  /**
+   * Coverage of a template's sheets and schema fields by its rules
+   */
+  static analyze({
+    rules,
+    sheets,
+    schemas
+  }: {
+    rules: ValidationRule[];
+    sheets: Array<{ id: number; sheetName: string; sheetIndex: number; extractedData: unknown }>;
+    schemas: Array<{ sheetId: number | null; schemaData: unknown }>;
+  }): RuleCoverageReport {
+    const layouts = this.getLayouts(sheets);
+    const sheetNames = layouts.map(layout => layout.name);
+    const templateSheets = new Map(sheets.map(sheet => [sheet.id, { name: sheet.sheetName, index: sheet.sheetIndex }]));
+    const issues: CoverageIssue[] = [];
+
+    const activeRules = rules.filter(rule => rule.isActive !== false);
+    const ruleAreas = activeRules.map(rule => {
+      const { areas, problems } = this.locateRule(rule, sheetNames, templateSheets, layouts);
+      if (problems.length > 0) {
+        issues.push({
+          type: 'outside_template',
+          sheetName: areas[0]?.sheetName,
+          message: problems.join('; '),
+          rules: [this.describeRule(rule)]
+        });
+      }
+      return { rule, areas };
+    });
+
+    const fields: FieldCoverage[] = [];
+    for (const schema of schemas) {
+      const schemaData = this.parseSchemaData(schema.schemaData);
+      const sheetName = (schema.sheetId !== null && templateSheets.get(schema.sheetId)?.name)
+        || schemaData?.sheetName
+        || sheetNames[0];
+      const layout = layouts.find(l => l.name.toLowerCase() === String(sheetName).toLowerCase());
+
+      for (const field of schemaData?.required_fields || []) {
+        if (!field?.field_name) continue;
+        const area = layout ? this.locateField(field, layout) : null;
+        const covering = ruleAreas.filter(({ rule, areas }) => area
+          ? areas.some(ruleArea => this.intersects(ruleArea, area))
+          : this.namesField(rule, field.field_name));
+        const coverage: FieldCoverage = {
+          sheetName,
+          fieldName: field.field_name,
+          dataType: field.data_type,
+          location: area ? this.describeArea(area) : undefined,
+          required: field.is_required !== false,
+          rules: covering.map(({ rule }) => this.describeRule(rule))
+        };
+        fields.push(coverage);
+
+        if (coverage.required && coverage.rules.length === 0) {
+          issues.push({
+            type: 'uncovered_field',
+            sheetName,
+            message: `Required field "${field.field_name}"${coverage.location ? ` (${coverage.location})` : ''} has no validation rule`,
+            rules: []
+          });
+        }
+      }
+    }
+
+    const columns: ColumnCoverage[] = layouts.flatMap(layout =>
+      Array.from({ length: layout.width }, (_, i) => {
+        const column: Area = {
+          sheetName: layout.name,
+          startColumn: i + 1,
+          endColumn: i + 1,
+          startRow: 1,
+          endRow: Infinity
+        };
+        return {
+          sheetName: layout.name,
+          column: numberToColumn(i + 1),
+          header: layout.headers[i] ?? null,
+          rules: ruleAreas.filter(({ areas }) => areas.some(area => this.intersects(area, column))).length
+        };
+      })
+    );
+
+    issues.push(...this.compareRules(ruleAreas.filter(({ rule }) => CONSTRAINT_TYPES.has(rule.ruleType))));
+
+    const count = (type: CoverageIssueType) => issues.filter(issue => issue.type === type).length;
+    return {
+      summary: {
+        totalRules: activeRules.length,
+        totalFields: fields.length,
+        requiredFields: fields.filter(field => field.required).length,
+        coveredFields: fields.filter(field => field.rules.length > 0).length,
+        uncoveredRequiredFields: count('uncovered_field'),
+        totalColumns: columns.length,
+        coveredColumns: columns.filter(column => column.rules > 0).length,
+        rulesOutsideTemplate: count('outside_template'),
+        overlaps: count('overlap'),
+        contradictions: count('contradiction')
+      },
+      fields,
+      columns,
+      issues
+    };
+  }
+
+  private static getLayouts(
+    sheets: Array<{ sheetName: string; sheetIndex: number; extractedData: unknown }>
+  ): TemplateSheetLayout[] {
+    const ordered = [...sheets].sort((a, b) => a.sheetIndex - b.sheetIndex);
+    return TemplateStructure.fromTemplateSheets(ordered).map(structure => ({
+      name: structure.name,
+      headers: structure.headers,
+      headerPositions: structure.headerPositions,
+      width: structure.headerPositions
+        ? Math.max(structure.headers.length, ...structure.tables.map(table => table.endCol))
+        : 0
+    }));
+  }
+
+  private static parseSchemaData(schemaData: unknown): { sheetName?: string; required_fields?: CoverageSchemaField[] } | null {
+    if (typeof schemaData !== 'string') return schemaData && typeof schemaData === 'object' ? schemaData : null;
+    try {
+      return JSON.parse(schemaData);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Cells a rule checks or reads on the template, and why any of them are
+   * not on it
+   */
+  private static locateRule(
+    rule: ValidationRule,
+    sheetNames: string[],
+    templateSheets: Map<number, { name: string; index: number }>,
+    layouts: TemplateSheetLayout[]
+  ): { areas: Area[]; problems: string[] } {
+    if (sheetNames.length === 0) return { areas: [], problems: [] };
+    if (!ModernValidationEngine.getRuleHandler(rule.ruleType)) {
+      return { areas: [], problems: [`Unknown rule type "${rule.ruleType}"`] };
+    }
+    const located = ModernValidationEngine.getRuleCells(rule, sheetNames, templateSheets);
+    if (!located) {
+      const sheetName = rule.sheetId
+        ? `template sheet ${rule.sheetId}`
+        : `"${splitSheetAddress(rule.field).sheetName ?? rule.field}"`;
+      return { areas: [], problems: [`Sheet ${sheetName} is not in the template`] };
+    }
+
+    const areas: Area[] = [];
+    const problems: string[] = [];
+    // A field that is a column letter asks for the header first, then the letter
+    const letters = new Set(located.cells
+      .filter(({ requirement }) => requirement.startColumn && !requirement.header)
+      .map(({ requirement }) => requirement.startColumn!.toUpperCase()));
+
+    for (const { requirement, sheetName } of located.cells) {
+      if (!sheetName) {
+        problems.push(`Sheet "${requirement.sheet}" is not in the template`);
+        continue;
+      }
+      const layout = layouts.find(l => l.name === sheetName)!;
+      const area = this.toArea(requirement, layout);
+      if (area) {
+        if (layout.width > 0 && area.startColumn > layout.width) {
+          problems.push(`Rule reads ${this.describeArea(area)} on "${sheetName}", beyond the template's last column ${numberToColumn(layout.width)}`);
+        }
+        areas.push(area);
+      } else if (!letters.has(requirement.header!.toUpperCase()) && layout.headers.length > 0) {
+        problems.push(`Column "${requirement.header}" is not a header of "${sheetName}"`);
+      }
+    }
+    return { areas, problems };
+  }
+
+  /**
+   * The block of cells a requirement covers, or null for a header the sheet doesn't have
+   */
+  private static toArea(requirement: CellRequirement, layout: TemplateSheetLayout): Area | null {
+    const area: Area = {
+      sheetName: layout.name,
+      startColumn: 1,
+      endColumn: Infinity,
+      startRow: requirement.startRow ?? 1,
+      endRow: requirement.endRow ?? Infinity
+    };
+
+    if (requirement.header) {
+      const target = requirement.header.trim().toLowerCase();
+      const index = layout.headers.findIndex(header => header?.trim().toLowerCase() === target);
+      if (index < 0) return null;
+      if (!layout.headerPositions) return { ...area, startColumn: 0, endColumn: 0, header: layout.headers[index]! };
+      area.startColumn = area.endColumn = index + 1;
+    } else if (requirement.startColumn) {
+      const start = columnToNumber(requirement.startColumn);
+      const end = columnToNumber(requirement.endColumn || requirement.startColumn);
+      area.startColumn = Math.min(start, end);
+      area.endColumn = Math.max(start, end);
+    }
+    return area;
+  }
+
+  /**
+   * Cells of a schema field: its cell reference ("B5", "B2:B100", "Column C")
+   * or the template column headed with its name
+   */
+  private static locateField(field: CoverageSchemaField, layout: TemplateSheetLayout): Area | null {
+    const reference = splitSheetAddress(String(field.cell_reference || '').trim()).address;
+    const range = reference ? parseRangeAddress(reference.toUpperCase()) : null;
+    if (range) {
+      return this.toArea({
+        startColumn: range.startColumn,
+        endColumn: range.endColumn,
+        startRow: range.startRow,
+        endRow: range.endRow
+      }, layout);
+    }
+
+    const letter = reference.match(COLUMN_REFERENCE)?.[1];
+    if (letter) return this.toArea({ startColumn: letter.toUpperCase() }, layout);
+    return this.toArea({ header: field.field_name }, layout);
+  }
+
+  private static intersects(a: Area, b: Area): boolean {
+    if (a.sheetName.toLowerCase() !== b.sheetName.toLowerCase()) return false;
+    if (a.startRow > b.endRow || b.startRow > a.endRow) return false;
+    // Columns known only by header name match by name, or any rule covering every column
+    if (a.header || b.header) {
+      const all = (area: Area) => area.startColumn === 1 && area.endColumn === Infinity;
+      return a.header && b.header
+        ? a.header.toLowerCase() === b.header.toLowerCase()
+        : all(a) || all(b);
+    }
+    return a.startColumn <= b.endColumn && b.startColumn <= a.endColumn;
+  }
+
+  /**
+   * True when a rule without a usable location names the field outright
+   */
+  private static namesField(rule: ValidationRule, fieldName: string): boolean {
+    const name = fieldName.trim().toLowerCase();
+    return [rule.field, rule.cellRange].some(text =>
+      String(text || '').toLowerCase().split(/[,.!]/).some(part => part.trim() === name));
+  }
+
+  private static describeArea(area: Area): string {
+    if (area.header) return `column "${area.header}"`;
+    const start = numberToColumn(area.startColumn);
+    const end = area.endColumn === Infinity ? null : numberToColumn(area.endColumn);
+    if (area.startRow === area.endRow && start === end) return `${start}${area.startRow}`;
+    if (!end) return 'every column';
+    const columns = start === end ? `column ${start}` : `columns ${start}-${end}`;
+    if (area.startRow <= 2 && area.endRow === Infinity) return columns;
+    return `${columns}, rows ${area.startRow}-${area.endRow === Infinity ? '*' : area.endRow}`;
+  }
+
+  private static describeRule(rule: ValidationRule): RuleReference {
+    return {
+      id: rule.id,
+      ruleType: rule.ruleType,
+      field: rule.field,
+      condition: rule.condition,
+      severity: rule.severity
+    };
+  }
+
+  /**
+   * Overlapping and contradictory constraints on the same cells. A rule with
+   * a when clause may not apply alongside the other rule, so it is only
+   * compared with identical rules.
+   */
+  private static compareRules(ruleAreas: Array<{ rule: ValidationRule; areas: Area[] }>): CoverageIssue[] {
+    const issues: CoverageIssue[] = [];
+    for (let i = 0; i < ruleAreas.length; i++) {
+      for (let j = i + 1; j < ruleAreas.length; j++) {
+        const a = ruleAreas[i];
+        const b = ruleAreas[j];
+        const shared = a.areas.find(area => b.areas.some(other => this.intersects(area, other)));
+        if (!shared) continue;
+
+        const where = `${this.describeArea(shared)} on "${shared.sheetName}"`;
+        const rules = [this.describeRule(a.rule), this.describeRule(b.rule)];
+        const sameCondition = a.rule.condition.trim() === b.rule.condition.trim() && (a.rule.when || '') === (b.rule.when || '');
+        if (a.rule.ruleType === b.rule.ruleType && sameCondition) {
+          issues.push({ type: 'overlap', sheetName: shared.sheetName, message: `Two ${a.rule.ruleType} rules check ${where} with the same condition`, rules });
+          continue;
+        }
+        if (a.rule.when || b.rule.when) continue;
+
+        const conflict = this.findContradiction(a.rule, b.rule);
+        if (conflict) {
+          issues.push({ type: 'contradiction', sheetName: shared.sheetName, message: `${conflict} for ${where}`, rules });
+        } else if (a.rule.ruleType === b.rule.ruleType && a.rule.ruleType !== 'required') {
+          issues.push({ type: 'overlap', sheetName: shared.sheetName, message: `Two ${a.rule.ruleType} rules check ${where}`, rules });
+        }
+      }
+    }
+    return issues;
+  }
+
+  /**
+   * Why no value can satisfy both rules, or null when some value can
+   */
+  private static findContradiction(a: ValidationRule, b: ValidationRule): string | null {
+    const [lowA, highA] = this.numericBounds(a);
+    const [lowB, highB] = this.numericBounds(b);
+    if (Math.max(lowA, lowB) > Math.min(highA, highB)) {
+      return `No number is at least ${Math.max(lowA, lowB)} and at most ${Math.min(highA, highB)}`;
+    }
+
+    const [minA, maxA] = this.lengthBounds(a);
+    const [minB, maxB] = this.lengthBounds(b);
+    if (Math.max(minA, minB) > Math.min(maxA, maxB)) {
+      return `No text is at least ${Math.max(minA, minB)} and at most ${Math.min(maxA, maxB)} characters long`;
+    }
+
+    if (a.ruleType === 'dataType' && b.ruleType === 'dataType') {
+      const typeA = this.dataType(a);
+      const typeB = this.dataType(b);
+      const groupA = DATA_TYPE_GROUPS[typeA];
+      const groupB = DATA_TYPE_GROUPS[typeB];
+      if (groupA && groupB && groupA !== groupB) return `Values must be both ${typeA} and ${typeB}`;
+    }
+
+    if (a.ruleType === 'enum' && b.ruleType === 'enum') {
+      const allowed = this.enumValues(b);
+      if (!this.enumValues(a).some(value => allowed.includes(value))) return 'The allowed value lists have nothing in common';
+    }
+    return null;
+  }
+
+  private static numericBounds(rule: ValidationRule): [number, number] {
+    const limit = this.trailingNumber(rule.condition);
+    if (rule.ruleType === 'minimum' && !isNaN(limit)) return [limit, Infinity];
+    if (rule.ruleType === 'maximum' && !isNaN(limit)) return [-Infinity, limit];
+    if (rule.ruleType === 'range') {
+      const bounds: [number, number] = [-Infinity, Infinity];
+      rule.condition.split(',').forEach(part => {
+        const [type, value] = part.split(':').map(piece => piece.trim().toLowerCase());
+        if (type === 'min' && !isNaN(parseFloat(value))) bounds[0] = parseFloat(value);
+        if (type === 'max' && !isNaN(parseFloat(value))) bounds[1] = parseFloat(value);
+      });
+      return bounds;
+    }
+    return [-Infinity, Infinity];
+  }
+
+  private static lengthBounds(rule: ValidationRule): [number, number] {
+    const limit = this.trailingNumber(rule.condition);
+    if (rule.ruleType === 'minLength' && !isNaN(limit)) return [limit, Infinity];
+    if (rule.ruleType === 'maxLength' && !isNaN(limit)) return [0, limit];
+    return [0, Infinity];
+  }
+
+  private static trailingNumber(condition: string): number {
+    return parseFloat(condition.trim().match(/(-?\d+(?:\.\d+)?)\s*$/)?.[1] ?? '');
+  }
+
+  private static dataType(rule: ValidationRule): string {
+    return rule.condition.trim().replace(/^TYPE_IS_/i, '').toLowerCase();
+  }
+
+  private static enumValues(rule: ValidationRule): string[] {
+    const list = rule.condition.match(/\[(.*)\]/)?.[1] ?? '';
+    return (list.match(/"[^"]*"|'[^']*'|[^,\s]+/g) || [])
+      .map(item => item.replace(/^["']|["']$/g, '').trim().toLowerCase());
+  }
+}
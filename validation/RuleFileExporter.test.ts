@@ -0,0 +1,82 @@
+/**
+ * Exporting rules and reading the file back gives the same rules, in every format.
+ * Run with `npm test`.
+ */
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ModernValidationRulesParser } from './ModernValidationRulesParser';
+import { RULE_FILE_FORMATS, RuleFileExporter, RuleFileFormat } from './RuleFileExporter';
+import type { ValidationRule } from './ModernValidationEngine';
+
+const EXAMPLES_DIR = path.join(import.meta.dirname, 'examples');
+const EXAMPLE_FILES = fs.readdirSync(EXAMPLES_DIR).sort();
+
+let tmpDir: string;
+
+before(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rule-file-exporter-'));
+});
+
+after(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+async function parse(filePath: string): Promise<ValidationRule[]> {
+  const parsed = await ModernValidationRulesParser.parseValidationFile(filePath, 0);
+  const errors = parsed.diagnostics.filter(d => d.severity === 'error');
+  assert.deepEqual(errors, [], `${path.basename(filePath)} has errors`);
+  return parsed.rules;
+}
+
+// What a rule checks, in a stable order; ids and where the file put the rule don't matter
+function normalize(rules: ValidationRule[]): string[] {
+  return rules
+    .map(rule => JSON.stringify({
+      field: rule.field,
+      ruleType: rule.ruleType,
+      condition: rule.condition,
+      errorMessage: rule.errorMessage,
+      severity: rule.severity,
+      rowRange: rule.rowRange || null,
+      columnRange: rule.columnRange || null,
+      cellRange: rule.cellRange || null,
+      applyToAllRows: !!rule.applyToAllRows,
+      when: rule.when || null,
+      tolerance: rule.tolerance || null,
+      amountScale: rule.amountScale ?? null
+    }))
+    .sort();
+}
+
+async function roundTrip(exampleFile: string, format: RuleFileFormat): Promise<void> {
+  const rules = await parse(path.join(EXAMPLES_DIR, exampleFile));
+  assert.ok(rules.length > 0, `${exampleFile} has no rules`);
+
+  const content = await RuleFileExporter.export(
+    rules,
+    { templateName: path.parse(exampleFile).name, version: '1.0' },
+    format
+  );
+  const exportedPath = path.join(
+    tmpDir,
+    `${path.parse(exampleFile).name}-${path.extname(exampleFile).slice(1)}${RULE_FILE_FORMATS[format].extension}`
+  );
+  fs.writeFileSync(exportedPath, content);
+
+  assert.deepEqual(normalize(await parse(exportedPath)), normalize(rules));
+}
+
+describe('RuleFileExporter round trip', () => {
+  for (const format of Object.keys(RULE_FILE_FORMATS) as RuleFileFormat[]) {
+    test(`${format} export reads back as the same rules`, async () => {
+      assert.ok(EXAMPLE_FILES.length > 0, 'no example rule files');
+      for (const exampleFile of EXAMPLE_FILES) {
+        await roundTrip(exampleFile, format);
+      }
+    });
+  }
+});
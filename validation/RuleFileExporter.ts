@@ -0,0 +1,398 @@
+/**
+ * Write validation rules in any of the rules file formats.
+ *
+ * A rule goes in a format's business-friendly section when that section
+ * reads it back unchanged: a plain "field: condition" TXT line, or a row of
+ * the Excel Column Validations or Cross-Field Validations worksheet. Other
+ * rules are written out in full (see RULE_KEYS). Every export is read back
+ * with the parser and compared with the rules before it is returned, so a
+ * conversion never drops or changes a rule silently.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import ExcelJS from 'exceljs';
+import type { ValidationRule } from './ModernValidationEngine';
+import {
+  CSV_RULE_COLUMNS,
+  EXCEL_COLUMNS,
+  ModernValidationRulesParser,
+  RULE_KEYS,
+  RuleKey
+} from './ModernValidationRulesParser';
+import { toValidationSeverity } from '../shared/validationOutcome';
+
+export type RuleFileFormat = 'txt' | 'json' | 'yaml' | 'csv' | 'excel';
+
+export const RULE_FILE_FORMATS: Record<RuleFileFormat, { extension: string; contentType: string }> = {
+  txt: { extension: '.txt', contentType: 'text/plain' },
+  json: { extension: '.json', contentType: 'application/json' },
+  yaml: { extension: '.yaml', contentType: 'text/yaml' },
+  csv: { extension: '.csv', contentType: 'text/csv' },
+  excel: { extension: '.xlsx', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }
+};
+
+export function isRuleFileFormat(value: string): value is RuleFileFormat {
+  return Object.prototype.hasOwnProperty.call(RULE_FILE_FORMATS, value);
+}
+
+export type ExportedRule = Omit<ValidationRule, 'templateId'>;
+
+/**
+ * File metadata. Excel files are read with lower-cased keys ("templatename"), which are accepted too.
+ */
+export interface RuleFileMetadata {
+  templateName?: string;
+  version?: string;
+  createdBy?: string;
+  createdDate?: string;
+  description?: string;
+  amountScale?: string | number;
+  [key: string]: unknown;
+}
+
+/**
+ * Thrown when rules can't be written in a format without changing them
+ */
+export class RuleExportError extends Error {
+  constructor(message: string, public readonly differences: string[]) {
+    super(message);
+    this.name = 'RuleExportError';
+  }
+}
+
+// Metadata keys written by every format, with their Excel labels
+const METADATA_FIELDS: Array<[keyof RuleFileMetadata, string]> = [
+  ['templateName', 'Template Name'],
+  ['version', 'Version'],
+  ['createdBy', 'Created By'],
+  ['createdDate', 'Created Date'],
+  ['description', 'Description'],
+  ['amountScale', 'Amount Scale']
+];
+
+// Rule types a Column Validations row produces
+const COLUMN_VALIDATION_TYPES = ['required', 'dataType', 'format', 'decimals'];
+
+// Differences listed in an export error
+const MAX_REPORTED_DIFFERENCES = 5;
+
+type ColumnValidationRow = Parameters<typeof ModernValidationRulesParser.createColumnValidationRules>[1];
+
+export class RuleFileExporter {
+  /**
+   * The rules as a file in `format`. Throws a RuleExportError when the file
+   * would not read back as the same rules.
+   */
+  static async export(
+    rules: ExportedRule[],
+    metadata: RuleFileMetadata,
+    format: RuleFileFormat
+  ): Promise<Buffer> {
+    const fileMetadata = this.resolveMetadata(rules, metadata);
+    const content = await this.write(rules, fileMetadata, format);
+    await this.verify(rules, content, format);
+    return content;
+  }
+
+  /**
+   * Differences between two rule sets, ignoring order and where rules are written;
+   * empty when they are identical
+   */
+  static compareRuleSets(expected: ExportedRule[], actual: ExportedRule[]): string[] {
+    const remaining = new Map<string, number>();
+    actual.forEach(rule => {
+      const key = this.ruleKey(rule);
+      remaining.set(key, (remaining.get(key) || 0) + 1);
+    });
+
+    const differences: string[] = [];
+    expected.forEach(rule => {
+      const key = this.ruleKey(rule);
+      const count = remaining.get(key) || 0;
+      if (count === 0) {
+        differences.push(`Missing or changed: ${this.describeRule(rule)}`);
+      } else {
+        remaining.set(key, count - 1);
+      }
+    });
+    remaining.forEach((count, key) => {
+      for (let i = 0; i < count; i++) {
+        const rule = JSON.parse(key);
+        differences.push(`Unexpected: ${this.describeRule(rule)}`);
+      }
+    });
+    return differences;
+  }
+
+  private static async write(rules: ExportedRule[], metadata: RuleFileMetadata, format: RuleFileFormat): Promise<Buffer> {
+    switch (format) {
+      case 'txt':
+        return Buffer.from(this.writeTxt(rules, metadata));
+      case 'json':
+        return Buffer.from(JSON.stringify(this.toSchemaObject(rules, metadata), null, 2) + '\n');
+      case 'yaml':
+        return Buffer.from(yaml.dump(this.toSchemaObject(rules, metadata), { lineWidth: -1, noRefs: true }));
+      case 'csv':
+        return Buffer.from(this.writeCsv(rules, metadata));
+      case 'excel':
+        return this.writeExcel(rules, metadata);
+      default:
+        throw new Error(`Unsupported rules file format: ${format}`);
+    }
+  }
+
+  /**
+   * Read the file back and compare it with the rules
+   */
+  private static async verify(rules: ExportedRule[], content: Buffer, format: RuleFileFormat): Promise<void> {
+    const filePath = path.join(
+      os.tmpdir(),
+      `rules-export-${Date.now()}-${Math.random().toString(36).slice(2)}${RULE_FILE_FORMATS[format].extension}`
+    );
+    try {
+      fs.writeFileSync(filePath, content);
+      const parsed = await ModernValidationRulesParser.parseValidationFile(filePath, 0);
+      const differences = this.compareRuleSets(rules, parsed.rules);
+      if (differences.length > 0) {
+        const shown = differences.slice(0, MAX_REPORTED_DIFFERENCES).join('; ');
+        const more = differences.length > MAX_REPORTED_DIFFERENCES ? ` and ${differences.length - MAX_REPORTED_DIFFERENCES} more` : '';
+        throw new RuleExportError(`The rules can't be written as ${format.toUpperCase()} without changes: ${shown}${more}`, differences);
+      }
+    } finally {
+      if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+    }
+  }
+
+  /**
+   * Known metadata keys, with the amount scale the rules were read with when the metadata has none
+   */
+  private static resolveMetadata(rules: ExportedRule[], metadata: RuleFileMetadata): RuleFileMetadata {
+    const resolved: RuleFileMetadata = {};
+    for (const [key] of METADATA_FIELDS) {
+      const value = metadata[key] ?? metadata[String(key).toLowerCase()];
+      if (value !== undefined && value !== null && value !== '') resolved[key] = value as string;
+    }
+    if (resolved.amountScale === undefined) {
+      const scale = rules.find(rule => rule.amountScale)?.amountScale;
+      if (scale) resolved.amountScale = scale;
+    }
+    return resolved;
+  }
+
+  /**
+   * A rule's properties as text, as the parser reads them back
+   */
+  private static toValues(rule: ExportedRule): Record<RuleKey, string> {
+    const values = {} as Record<RuleKey, string>;
+    for (const key of RULE_KEYS) {
+      const value = rule[key];
+      values[key] = value === undefined || value === null ? '' : String(value).trim();
+    }
+    values.severity = toValidationSeverity(rule.severity);
+    values.applyToAllRows = rule.applyToAllRows ? 'true' : '';
+    return values;
+  }
+
+  private static ruleKey(rule: ExportedRule): string {
+    const values: Record<string, string> = this.toValues(rule);
+    values.amountScale = rule.amountScale ? String(rule.amountScale) : '';
+    return JSON.stringify(values);
+  }
+
+  private static describeRule(rule: Pick<ExportedRule, 'ruleType' | 'field' | 'condition'>): string {
+    return `${rule.ruleType} rule on "${rule.field}" (${rule.condition})`;
+  }
+
+  /**
+   * Whether the parser builds exactly this rule (the file's amount scale aside)
+   */
+  private static sameRule(rule: ExportedRule, built: ExportedRule[]): boolean {
+    return built.length === 1 &&
+      this.ruleKey({ ...built[0], amountScale: null }) === this.ruleKey({ ...rule, amountScale: null });
+  }
+
+  /**
+   * Properties of a rule written out in full, leaving out empty ones
+   */
+  private static toRuleObject(rule: ExportedRule): Record<string, string | boolean> {
+    const values = this.toValues(rule);
+    const item: Record<string, string | boolean> = {};
+    for (const key of RULE_KEYS) {
+      if (key === 'applyToAllRows') {
+        if (values.applyToAllRows) item.applyToAllRows = true;
+      } else if (values[key] || ['ruleType', 'field', 'condition', 'errorMessage', 'severity'].includes(key)) {
+        item[key] = values[key];
+      }
+    }
+    return item;
+  }
+
+  private static toSchemaObject(rules: ExportedRule[], metadata: RuleFileMetadata): object {
+    return {
+      metadata,
+      rules: rules.map(rule => this.toRuleObject(rule))
+    };
+  }
+
+  private static writeTxt(rules: ExportedRule[], metadata: RuleFileMetadata): string {
+    const lines: string[] = [];
+    for (const [key, label] of METADATA_FIELDS) {
+      if (key !== 'amountScale' && metadata[key]) lines.push(`# ${label}: ${metadata[key]}`);
+    }
+    if (metadata.amountScale) lines.push(`AMOUNT_SCALE: ${metadata.amountScale}`);
+
+    for (const rule of rules) {
+      const values = this.toValues(rule);
+      const plain = !values.field.includes(': ') && !/[\r\n]/.test(values.condition) && !/^".*"$/.test(values.condition) &&
+        this.sameRule(rule, ModernValidationRulesParser.createTxtLineRules(0, values.field, values.condition));
+      if (plain) {
+        lines.push(`${values.field}: ${values.condition}`);
+        continue;
+      }
+      lines.push(`${values.field}: ${this.toTxtValue(values.condition)}`);
+      for (const [key, value] of Object.entries(this.toRuleObject(rule))) {
+        if (key !== 'field' && key !== 'condition') lines.push(`  ${key}: ${this.toTxtValue(String(value))}`);
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Quote TXT values the parser would otherwise change (see readTxtValue)
+   */
+  private static toTxtValue(value: string): string {
+    return value === '' || /[\r\n]/.test(value) || /^".*"$/.test(value) ? JSON.stringify(value) : value;
+  }
+
+  private static writeCsv(rules: ExportedRule[], metadata: RuleFileMetadata): string {
+    const columns = RULE_KEYS.map(key => CSV_RULE_COLUMNS[key]);
+    const rows: string[][] = [['RuleType', ...columns]];
+    if (metadata.amountScale) {
+      rows.push(['amount_scale', ...RULE_KEYS.map(key => (key === 'condition' ? String(metadata.amountScale) : ''))]);
+    }
+    for (const rule of rules) {
+      const values = this.toValues(rule);
+      rows.push(['rule', ...RULE_KEYS.map(key => values[key])]);
+    }
+    return rows.map(row => row.map(value => this.toCsvValue(value)).join(',')).join('\n') + '\n';
+  }
+
+  private static toCsvValue(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+
+  private static async writeExcel(rules: ExportedRule[], metadata: RuleFileMetadata): Promise<Buffer> {
+    const columnRows: ColumnValidationRow[] = [];
+    const crossFieldRows: string[][] = [];
+    const ruleRows: string[][] = [];
+
+    for (const rule of rules) {
+      const values = this.toValues(rule);
+      const columnRow = this.toColumnValidationRow(rule);
+      const crossFieldRow = this.toCrossFieldRow(rule);
+      if (columnRow) {
+        this.mergeColumnValidationRow(columnRows, columnRow);
+      } else if (crossFieldRow) {
+        crossFieldRows.push(crossFieldRow);
+      } else {
+        ruleRows.push(RULE_KEYS.map(key => (key === 'applyToAllRows' ? (values.applyToAllRows ? 'TRUE' : '') : values[key])));
+      }
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    const metadataRows = METADATA_FIELDS
+      .filter(([key]) => metadata[key] !== undefined)
+      .map(([key, label]) => [label, String(metadata[key])]);
+    this.addWorksheet(workbook, 'Metadata', EXCEL_COLUMNS.metadata, metadataRows);
+    this.addWorksheet(workbook, 'Column Validations', EXCEL_COLUMNS.columnValidations, columnRows.map(row => [
+      row.sheetName, row.column, row.dataType || '', row.required ? 'TRUE' : 'FALSE',
+      '', '', '', '', '', '', row.codeList || '', row.when || '', row.decimals || ''
+    ]));
+    this.addWorksheet(workbook, 'Cross-Field Validations', EXCEL_COLUMNS.crossFieldValidations, crossFieldRows);
+    this.addWorksheet(workbook, 'Rules', EXCEL_COLUMNS.rules, ruleRows);
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  private static addWorksheet(workbook: ExcelJS.Workbook, name: string, headers: string[], rows: string[][]): void {
+    if (rows.length === 0) return;
+    const worksheet = workbook.addWorksheet(name);
+    worksheet.addRow(headers);
+    worksheet.getRow(1).font = { bold: true };
+    // Empty cells stay empty rather than holding ""
+    rows.forEach(row => worksheet.addRow(row.map(value => (value === '' ? null : value))));
+    worksheet.columns.forEach(column => { column.width = 20; });
+  }
+
+  /**
+   * The Column Validations row that reads back as this rule, if there is one.
+   * Fields are "Sheet.Column"; each "." is tried as the separator.
+   */
+  private static toColumnValidationRow(rule: ExportedRule): ColumnValidationRow | null {
+    if (!COLUMN_VALIDATION_TYPES.includes(rule.ruleType)) return null;
+    const values = this.toValues(rule);
+
+    for (let dot = values.field.indexOf('.'); dot > 0; dot = values.field.indexOf('.', dot + 1)) {
+      const sheetName = values.field.slice(0, dot);
+      const column = values.field.slice(dot + 1);
+      const row: ColumnValidationRow = { sheetName, column, when: values.when || undefined };
+      if (rule.ruleType === 'required') {
+        row.required = true;
+      } else if (rule.ruleType === 'dataType') {
+        // The error message keeps the type as written ("must be of type number")
+        const prefix = `${column} must be of type `;
+        row.dataType = values.errorMessage.startsWith(prefix) ? values.errorMessage.slice(prefix.length) : '';
+      } else if (rule.ruleType === 'format') {
+        row.codeList = values.condition.match(/^inList:(.+)$/)?.[1] || '';
+      } else {
+        row.decimals = values.condition.match(/^DECIMALS <= (\d+)$/)?.[1] || '';
+      }
+      if (this.sameRule(rule, ModernValidationRulesParser.createColumnValidationRules(0, row))) return row;
+    }
+    return null;
+  }
+
+  /**
+   * Put a column's checks on one row when they share its sheet, column and when clause
+   */
+  private static mergeColumnValidationRow(rows: ColumnValidationRow[], row: ColumnValidationRow): void {
+    const checks = ['required', 'dataType', 'codeList', 'decimals'] as const;
+    const target = rows.find(existing =>
+      existing.sheetName === row.sheetName &&
+      existing.column === row.column &&
+      existing.when === row.when &&
+      checks.every(check => !(existing[check] && row[check]))
+    );
+    if (target) {
+      checks.forEach(check => { if (row[check]) Object.assign(target, { [check]: row[check] }); });
+    } else {
+      rows.push(row);
+    }
+  }
+
+  /**
+   * The Cross-Field Validations row that reads back as this rule, if there is one
+   */
+  private static toCrossFieldRow(rule: ExportedRule): string[] | null {
+    if (rule.ruleType !== 'crossField') return null;
+    const values = this.toValues(rule);
+    if (!values.errorMessage || !values.condition) return null;
+
+    const row = {
+      name: values.errorMessage,
+      description: values.errorMessage,
+      expression: values.condition,
+      severity: values.severity,
+      applicableSheets: values.field === 'GLOBAL' ? '' : values.field,
+      when: values.when,
+      tolerance: values.tolerance
+    };
+    if (!this.sameRule(rule, [ModernValidationRulesParser.createCrossFieldRule(0, row)])) return null;
+    return [row.name, row.description, row.expression, row.severity, row.applicableSheets, row.when, row.tolerance];
+  }
+}
+
+export default RuleFileExporter;
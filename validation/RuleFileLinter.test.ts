@@ -0,0 +1,106 @@
+/**
+ * Linting rules files: parser problems and checks on the rules it built.
+ * Run with `npm test`.
+ */
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RuleFileLinter } from './RuleFileLinter';
+import type { ValidationRule } from './ModernValidationEngine';
+
+const EXAMPLES_DIR = path.join(import.meta.dirname, 'examples');
+
+let tmpDir: string;
+
+before(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rule-file-linter-'));
+});
+
+after(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function rule(overrides: Partial<ValidationRule>): ValidationRule {
+  return {
+    templateId: 0,
+    field: 'Amount',
+    ruleType: 'custom',
+    condition: 'B5 >= 0',
+    errorMessage: 'Amount must not be negative',
+    severity: 'error',
+    ...overrides
+  };
+}
+
+function codes(rules: ValidationRule[]): string[] {
+  return RuleFileLinter.lintRules(rules).map(d => d.code);
+}
+
+describe('RuleFileLinter.lint', () => {
+  test('the example rules files have no errors', async () => {
+    for (const file of fs.readdirSync(EXAMPLES_DIR)) {
+      const result = await RuleFileLinter.lint(path.join(EXAMPLES_DIR, file), 0);
+      assert.equal(result.errorCount, 0, `${file}: ${JSON.stringify(result.diagnostics)}`);
+      assert.ok(result.rules.length > 0, `${file} has no rules`);
+    }
+  });
+
+  test('locates parser and rule problems by line, in file order', async () => {
+    const filePath = path.join(tmpDir, 'rules.txt');
+    fs.writeFileSync(filePath, [
+      '# Balance sheet checks',
+      'Balance Sheet!B12: MAX_CHANGE 25%',
+      'Amount: required',
+      'Amount: required',
+      'Total: SUM(B2:B10 = 5',
+      'not a rule'
+    ].join('\n'));
+
+    const result = await RuleFileLinter.lint(filePath, 0);
+    assert.equal(result.valid, false);
+    assert.equal(result.errorCount, 2);
+    assert.equal(result.warningCount, 1);
+    assert.deepEqual(
+      result.diagnostics.map(d => [d.line, d.code]),
+      [[4, 'duplicate-rule'], [5, 'invalid-condition'], [6, 'unrecognized-line']]
+    );
+    assert.match(result.diagnostics[0].message, /repeats an earlier rule \(line 3\)/);
+  });
+
+  test('a file with only warnings is valid', async () => {
+    const filePath = path.join(tmpDir, 'warnings.txt');
+    fs.writeFileSync(filePath, 'Amount: required\nAmount: required\n');
+    const result = await RuleFileLinter.lint(filePath, 0);
+    assert.equal(result.valid, true);
+    assert.deepEqual(result.diagnostics.map(d => d.code), ['duplicate-rule']);
+  });
+});
+
+describe('RuleFileLinter.lintRules', () => {
+  test('suggests the closest rule type for an unknown one', () => {
+    const [diagnostic] = RuleFileLinter.lintRules([rule({ ruleType: 'requird', condition: 'required' })]);
+    assert.equal(diagnostic.code, 'unknown-rule-type');
+    assert.equal(diagnostic.suggestion, 'Did you mean "required"?');
+  });
+
+  test('reports conditions, when clauses and cell ranges that do not compile', () => {
+    assert.deepEqual(codes([rule({ condition: 'B5 +' })]), ['invalid-condition']);
+    assert.deepEqual(codes([rule({ when: 'D = ' })]), ['invalid-when']);
+    assert.deepEqual(codes([rule({ cellRange: 'Z!!' })]), ['invalid-cell-range']);
+  });
+
+  test('accepts cell references in lower case', () => {
+    assert.deepEqual(codes([rule({ condition: 'b5 + b6 = b7', when: 'sum(c2:c10) > 0' })]), []);
+  });
+
+  test('warns about repeated rules, ignoring case', () => {
+    assert.deepEqual(
+      codes([rule({ condition: 'SUM(B2:B9) = B10' }), rule({ condition: 'sum(b2:b9) = b10' })]),
+      ['duplicate-rule']
+    );
+    assert.deepEqual(codes([rule({}), rule({ when: 'D = "Secured"' })]), []);
+  });
+});
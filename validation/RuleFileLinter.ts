@@ -0,0 +1,161 @@
+/**
+ * Lint a validation rules file before it is used.
+ *
+ * The parser reports what it cannot read (syntax errors, unknown keys and
+ * columns, rows missing required values). The linter adds checks on the
+ * rules it produced: rule types no handler runs, conditions and "when"
+ * expressions that don't compile, unreadable cell ranges and repeated rules.
+ * Every diagnostic points at the line (or worksheet and row) of the rule.
+ */
+
+import { parseRangeAddress, splitSheetAddress } from './CellAddress';
+import { ExpressionEvaluator } from './ExpressionEvaluator';
+import { ModernValidationEngine, ValidationRule } from './ModernValidationEngine';
+import { ModernValidationRulesParser, RuleDiagnostic } from './ModernValidationRulesParser';
+
+type ParsedRules = Awaited<ReturnType<typeof ModernValidationRulesParser.parseValidationFile>>;
+
+export interface RuleFileLintResult {
+  /** False when any diagnostic is an error */
+  valid: boolean;
+  errorCount: number;
+  warningCount: number;
+  /** Ordered by position in the file */
+  diagnostics: RuleDiagnostic[];
+  /** The parsed rules, with where each is written */
+  rules: ParsedRules['rules'];
+  metadata: ParsedRules['metadata'];
+}
+
+// Condition examples shown when a condition doesn't compile
+const CONDITION_EXAMPLES: Record<string, string> = {
+  dataType: '"TYPE_IS_NUMBER"',
+  minLength: '"LENGTH >= 3"',
+  maxLength: '"LENGTH <= 50"',
+  minimum: '"VALUE >= 0"',
+  maximum: '"VALUE <= 100"',
+  pattern: '\'REGEX("^[A-Z]{5}[0-9]{4}[A-Z]$")\'',
+  enum: '\'VALUE IN ["Yes", "No"]\'',
+  decimals: '"DECIMALS <= 2"',
+  format: '"email", "lei" or "regex:^[0-9]{6}$"',
+  range: '"min:0,max:100"',
+  cell: '"NOT_EMPTY" or "B5 >= 0"',
+  custom: '"B5 + B6 = B7"',
+  crossField: '"B5 + B6 = B7"',
+  global: '"SUM(C2:C100) > 0"',
+  reconcile: '"SUM(B2:B10)" or "SUM(ABOVE)"',
+  sum: '"SUM(B2:B10)"',
+  variance: '"MAX_CHANGE 25%"',
+  referentialIntegrity: '"Master!A"'
+};
+
+export class RuleFileLinter {
+  /**
+   * Parse a rules file and check its rules. The file can be used when the
+   * result is valid; warnings don't stop it.
+   */
+  static async lint(filePath: string, templateId: number): Promise<RuleFileLintResult> {
+    const parsed = await ModernValidationRulesParser.parseValidationFile(filePath, templateId);
+    // Rules built from one line share its "when", so its errors are listed once
+    const diagnostics = Array.from(
+      new Map([...parsed.diagnostics, ...this.lintRules(parsed.rules)].map(d => [JSON.stringify(d), d])).values()
+    );
+    diagnostics.sort((a, b) =>
+      (a.sheet ?? '').localeCompare(b.sheet ?? '') ||
+      ((a.line ?? a.row ?? 0) - (b.line ?? b.row ?? 0))
+    );
+
+    const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+    return {
+      valid: errorCount === 0,
+      errorCount,
+      warningCount: diagnostics.length - errorCount,
+      diagnostics,
+      rules: parsed.rules,
+      metadata: parsed.metadata
+    };
+  }
+
+  /**
+   * Checks on parsed rules, located by each rule's source
+   */
+  static lintRules(rules: ParsedRules['rules']): RuleDiagnostic[] {
+    const diagnostics: RuleDiagnostic[] = [];
+    const seen = new Map<string, ParsedRules['rules'][number]>();
+    const ruleTypes = ModernValidationEngine.getRuleTypes();
+
+    for (const rule of rules) {
+      const source = rule.source ?? {};
+      const label = rule.field ? `${rule.ruleType} rule on "${rule.field}"` : `${rule.ruleType} rule`;
+
+      if (!ModernValidationEngine.getRuleHandler(rule.ruleType)) {
+        const closest = ModernValidationRulesParser.findClosestName(rule.ruleType, ruleTypes);
+        diagnostics.push({
+          severity: 'error',
+          code: 'unknown-rule-type',
+          message: `No check runs rules of type "${rule.ruleType}"`,
+          suggestion: closest ? `Did you mean "${closest}"?` : `Use one of: ${ruleTypes.join(', ')}`,
+          ...source
+        });
+        continue;
+      }
+
+      const conditionError = ModernValidationEngine.getConditionError(rule as ValidationRule);
+      if (conditionError) {
+        const example = CONDITION_EXAMPLES[rule.ruleType];
+        diagnostics.push({
+          severity: 'error',
+          code: 'invalid-condition',
+          message: `Invalid condition "${rule.condition}" in ${label}: ${conditionError}`,
+          suggestion: example ? `Write the condition like ${example}` : undefined,
+          ...source
+        });
+      }
+
+      const whenError = rule.when ? ExpressionEvaluator.validateSyntax(rule.when) : null;
+      if (whenError) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'invalid-when',
+          message: `Invalid "when" expression "${rule.when}": ${whenError}`,
+          suggestion: 'Write the precondition as an expression, e.g. C5 = "Yes"',
+          ...source
+        });
+      }
+
+      if (rule.cellRange && !parseRangeAddress(splitSheetAddress(rule.cellRange).address)) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'invalid-cell-range',
+          message: `Cell range "${rule.cellRange}" in ${label} is not a cell or range`,
+          suggestion: 'Use a cell such as "B5" or a range such as "A2:C50"',
+          ...source
+        });
+      }
+
+      const key = [rule.ruleType, rule.field, rule.condition, rule.cellRange ?? '', rule.rowRange ?? '', rule.when ?? '']
+        .join('\u0000').toLowerCase();
+      const first = seen.get(key);
+      if (first) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'duplicate-rule',
+          message: `The ${label} repeats an earlier rule${first.source ? ` (${this.describeSource(first.source)})` : ''}`,
+          suggestion: 'Remove one of the rules; failures would be reported twice',
+          ...source
+        });
+      } else {
+        seen.set(key, rule);
+      }
+    }
+
+    return diagnostics;
+  }
+
+  private static describeSource(source: Pick<RuleDiagnostic, 'line' | 'sheet' | 'row'>): string {
+    if (source.sheet) return `${source.sheet} row ${source.row}`;
+    return `line ${source.line}`;
+  }
+}
+
+export default RuleFileLinter;
@@ -0,0 +1,72 @@
+/**
+ * Comparing dry runs with a golden sample's expected outcomes.
+ * Run with `npm test`.
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ExpectedOutcome, RuleTestHarness } from './RuleTestHarness';
+import type { ValidationResult } from './ModernValidationEngine';
+
+function result(cellReference: string, isValid: boolean, ruleType = 'required'): ValidationResult {
+  return {
+    submissionId: 0,
+    field: 'Amount',
+    ruleType,
+    condition: 'required',
+    cellReference,
+    sheetName: 'Details',
+    severity: 'error',
+    isValid,
+    errorMessage: isValid ? '' : 'Amount is required'
+  };
+}
+
+const expected: ExpectedOutcome[] = RuleTestHarness.toExpectedOutcomes([result('C2', true), result('C3', false)]);
+
+describe('RuleTestHarness.compare', () => {
+  test('matches the same results', () => {
+    const comparison = RuleTestHarness.compare(expected, [result('C2', true), result('C3', false)]);
+    assert.deepEqual(comparison, { matches: true, regressions: 0, differences: [] });
+  });
+
+  test('still matches when a run only adds passing checks', () => {
+    const comparison = RuleTestHarness.compare(expected, [
+      result('C2', true),
+      result('C3', false),
+      result('C2', true, 'dataType')
+    ]);
+    assert.equal(comparison.matches, true);
+    assert.equal(comparison.regressions, 0);
+    assert.deepEqual(
+      comparison.differences.map(d => [d.cellReference, d.ruleType, d.expected, d.actual]),
+      [['C2', 'dataType', 'missing', 'pass']]
+    );
+  });
+
+  test('a new failing check is a regression', () => {
+    const comparison = RuleTestHarness.compare(expected, [
+      result('C2', true),
+      result('C3', false),
+      result('C2', false, 'dataType')
+    ]);
+    assert.equal(comparison.matches, false);
+    assert.equal(comparison.regressions, 1);
+  });
+
+  test('a check that used to pass and no longer runs is a regression', () => {
+    const comparison = RuleTestHarness.compare(expected, [result('C3', false)]);
+    assert.equal(comparison.matches, false);
+    assert.equal(comparison.regressions, 1);
+    assert.deepEqual(
+      comparison.differences.map(d => [d.cellReference, d.expected, d.actual]),
+      [['C2', 'pass', 'missing']]
+    );
+  });
+
+  test('an expected failure that now passes is a difference but not a regression', () => {
+    const comparison = RuleTestHarness.compare(expected, [result('C2', true), result('C3', true)]);
+    assert.equal(comparison.matches, false);
+    assert.equal(comparison.regressions, 0);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Dry runs of validation rules against sample workbooks.
+ *
+ * Template authors test a draft rules file before publishing it, and keep
+ * "golden" samples whose expected outcomes are compared on every run so a
+ * rule change that breaks a known-good file is caught.
+ */
+
+import * as fs from 'fs';
+import { ModernValidationEngine, ValidationResult, ValidationRule, ValidationSummary } from './ModernValidationEngine';
+import { ModernValidationRulesParser } from './ModernValidationRulesParser';
+import type { ValidationSeverity } from '../shared/schema';
+
+export interface DryRunResult extends ValidationSummary {
+  /** Problems found while parsing the rules file */
+  ruleErrors: string[];
+}
+
+/**
+ * One check a golden sample is expected to produce
+ */
+export interface ExpectedOutcome {
+  sheetName?: string;
+  cellReference?: string;
+  field: string;
+  ruleType: string;
+  condition: string;
+  severity: ValidationSeverity;
+  isValid: boolean;
+}
+
+export type OutcomeState = 'pass' | 'fail' | 'missing';
+
+export interface OutcomeDifference {
+  sheetName?: string;
+  cellReference?: string;
+  field: string;
+  ruleType: string;
+  condition: string;
+  expected: OutcomeState;
+  actual: OutcomeState;
+}
+
+export interface GoldenSampleComparison {
+  /** Every expected check has the same result; new checks that pass don't count */
+  matches: boolean;
+  /** Checks that were expected to pass and now fail or no longer run */
+  regressions: number;
+  differences: OutcomeDifference[];
+}
+
+// Submission id used for results that are never stored
+const DRY_RUN_SUBMISSION_ID = 0;
+
+export class RuleTestHarness {
+  /**
+   * Validate a sample file without creating a submission. Rules come from
+   * `rulesPath` when given, then `rules`, otherwise from the template's stored rules.
+   * Every check is reported, passes included.
+   */
+  static async dryRun({
+    filePath,
+    fileName,
+    templateId,
+    rulesPath,
+    rules: givenRules,
+    reportingPeriod,
+    frequency
+  }: {
+    filePath: string;
+    fileName: string;
+    templateId: number;
+    rulesPath?: string | null;
+    /** Already resolved rules, e.g. the rule set version in effect for the period */
+    rules?: ValidationRule[];
+    reportingPeriod?: string;
+    frequency?: string | null;
+  }): Promise<DryRunResult> {
+    let ruleErrors: string[] = [];
+    let rules = givenRules;
+
+    if (rulesPath && fs.existsSync(rulesPath)) {
+      const parsed = await ModernValidationRulesParser.parseValidationFile(rulesPath, templateId);
+      rules = parsed.rules;
+      ruleErrors = parsed.errors;
+    }
+
+    const summary = await ModernValidationEngine.validateSubmission({
+      filePath,
+      templateId,
+      submissionId: DRY_RUN_SUBMISSION_ID,
+      fileName,
+      reportingPeriod,
+      frequency,
+      // Row-by-row validation only keeps failures
+      streaming: false,
+      rules
+    });
+
+    return { ...summary, ruleErrors };
+  }
+
+  /**
+   * Outcomes to store with a golden sample
+   */
+  static toExpectedOutcomes(results: ValidationResult[]): ExpectedOutcome[] {
+    return results.map(result => ({
+      sheetName: result.sheetName,
+      cellReference: result.cellReference,
+      field: result.field,
+      ruleType: result.ruleType,
+      condition: result.condition,
+      severity: result.severity,
+      isValid: result.isValid
+    }));
+  }
+
+  /**
+   * Compare a dry run with a golden sample's expected outcomes. Every change is
+   * listed, but new passing checks (e.g. from an added rule) still match.
+   */
+  static compare(expected: ExpectedOutcome[], results: ValidationResult[]): GoldenSampleComparison {
+    const expectedByKey = this.indexOutcomes(expected);
+    const actualByKey = this.indexOutcomes(this.toExpectedOutcomes(results));
+    const differences: OutcomeDifference[] = [];
+
+    expectedByKey.forEach((outcome, key) => {
+      const actual = actualByKey.get(key);
+      const expectedState = this.getState(outcome);
+      const actualState = this.getState(actual);
+      if (expectedState !== actualState) {
+        differences.push({ ...this.describe(outcome), expected: expectedState, actual: actualState });
+      }
+    });
+
+    actualByKey.forEach((outcome, key) => {
+      // New failing checks break a known-good sample; new passing ones are only reported
+      if (!expectedByKey.has(key)) {
+        differences.push({ ...this.describe(outcome), expected: 'missing', actual: this.getState(outcome) });
+      }
+    });
+
+    const regressions = differences.filter(d =>
+      (d.expected === 'pass' && d.actual !== 'pass') ||
+      (d.expected === 'missing' && d.actual === 'fail')
+    ).length;
+
+    const matches = differences.every(d => d.expected === 'missing' && d.actual === 'pass');
+    return { matches, regressions, differences };
+  }
+
+  /**
+   * Key outcomes by rule and cell. A rule can check the same cell more than
+   * once (e.g. a workbook-level rule without a cell), so repeats are numbered.
+   */
+  private static indexOutcomes(outcomes: ExpectedOutcome[]): Map<string, ExpectedOutcome> {
+    const index = new Map<string, ExpectedOutcome>();
+    for (const outcome of outcomes) {
+      const base = [
+        outcome.sheetName || '',
+        outcome.cellReference || '',
+        outcome.ruleType,
+        outcome.field,
+        outcome.condition
+      ].join('|');
+      let key = base;
+      for (let n = 2; index.has(key); n++) key = `${base}#${n}`;
+      index.set(key, outcome);
+    }
+    return index;
+  }
+
+  private static getState(outcome: ExpectedOutcome | undefined): OutcomeState {
+    if (!outcome) return 'missing';
+    return outcome.isValid ? 'pass' : 'fail';
+  }
+
+  private static describe(outcome: ExpectedOutcome): Omit<OutcomeDifference, 'expected' | 'actual'> {
+    return {
+      sheetName: outcome.sheetName,
+      cellReference: outcome.cellReference,
+      field: outcome.field,
+      ruleType: outcome.ruleType,
+      condition: outcome.condition
+    };
+  }
+}
@@ -0,0 +1,505 @@
+/**
+ * Fillable submission workbooks: the template file with its rules built in.
+ *
+ * Rules Excel can check itself become data validation on the cells the
+ * engine would check - dropdowns for code lists and enums, number, date and
+ * length limits - and every rule adds its message to the cell's input
+ * prompt. Cells the template fills (headers, labels, formulas) are locked,
+ * and a hidden sheet records the template version and entity the workbook
+ * was made for. Workbooks can come pre-filled, e.g. with values carried
+ * forward from the last approved filing (see CarryForward). The validation
+ * engine still checks every rule on upload.
+ */
+
+import * as path from 'path';
+import ExcelJS from 'exceljs';
+import {
+  SheetData,
+  columnToNumber,
+  getFieldSheetName,
+  parseCellAddress,
+  resolveCells,
+  splitSheetAddress
+} from './CellAddress';
+import { CodeLists } from './CodeLists';
+import type { CarriedValue } from './CarryForward';
+import type { ValidationRule } from './ModernValidationEngine';
+
+/** Hidden sheet holding the template version and entity a workbook was made for */
+export const METADATA_SHEET = '_Metadata';
+/** Hidden sheet holding dropdown values too long to write into the validation */
+export const LISTS_SHEET = '_Lists';
+/** Sheets a fillable workbook adds to the template's own */
+export const SUBMISSION_WORKBOOK_SHEETS = [METADATA_SHEET, LISTS_SHEET];
+
+// Rows of each sheet open for input when the template has fewer
+const INPUT_ROWS = 1000;
+// Excel's limits on validation text
+const MAX_INLINE_LIST = 255;
+const MAX_PROMPT = 255;
+const MAX_ERROR = 225;
+// Number validation needs bounds; Excel holds 15 significant digits, and
+// larger limits would be written in exponent notation
+const NUMBER_LIMIT = 1e15;
+// FileProcessor's name for the single sheet of a CSV template
+const CSV_SHEET_NAME = 'CSV Data';
+
+export interface SubmissionWorkbookMetadata {
+  templateId: number;
+  templateName: string;
+  templateVersion: number;
+  ruleSetVersion: number | null;
+  entityId: number;
+  entityName: string;
+  reportingPeriod: string | null;
+  /** The filing values were carried forward from, e.g. "Q4 2024 (submission 12)" */
+  carriedForwardFrom?: string | null;
+}
+
+export interface SubmissionWorkbookInput {
+  /** The template file; CSV templates give a one-sheet workbook */
+  filePath: string;
+  rules: Array<Omit<ValidationRule, 'templateId'>>;
+  /** templateSheets id -> sheet name, for rules that target a sheet by id */
+  sheetNames: Map<number, string>;
+  /** Codes of the active versions of the code lists the rules reference */
+  codeLists: Map<string, string[]>;
+  metadata: SubmissionWorkbookMetadata;
+  /** Values to fill in; their cells stay open. Formula cells are not overwritten. */
+  values?: CarriedValue[];
+}
+
+/** What the rules on one cell allow */
+interface CellInput {
+  list?: string[];
+  number?: { whole: boolean; min?: number; max?: number };
+  date?: boolean;
+  length?: { min?: number; max?: number };
+  /** Messages of every rule on the cell, for the input prompt */
+  hints: string[];
+  /** Messages of the rules behind the validation, for the error alert */
+  errors: string[];
+  errorStyle: 'stop' | 'warning' | 'information';
+}
+
+type Constraint = Pick<CellInput, 'list' | 'number' | 'date' | 'length'>;
+
+export class SubmissionWorkbook {
+  /**
+   * Names of the code lists the rules' dropdowns need
+   */
+  static referencedCodeLists(rules: Array<Pick<ValidationRule, 'ruleType' | 'condition'>>): string[] {
+    const names = rules
+      .filter(rule => rule.ruleType === 'format')
+      .map(rule => CodeLists.getReferencedList(rule.condition))
+      .filter((name): name is string => name !== null);
+    return Array.from(new Set(names));
+  }
+
+  /**
+   * The fillable workbook as an .xlsx file
+   */
+  static async build(input: SubmissionWorkbookInput): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    const extension = path.extname(input.filePath).toLowerCase();
+    if (extension === '.csv') {
+      const worksheet = await workbook.csv.readFile(input.filePath);
+      worksheet.name = CSV_SHEET_NAME;
+    } else {
+      await workbook.xlsx.readFile(input.filePath);
+    }
+
+    const worksheets = workbook.worksheets.filter(ws => !SUBMISSION_WORKBOOK_SHEETS.includes(ws.name));
+    const filled = this.fill(worksheets, input.values || []);
+    const inputs = this.collectInputs(input, worksheets);
+    const lists = workbook.addWorksheet(LISTS_SHEET, { state: 'hidden' });
+
+    for (const worksheet of worksheets) {
+      const cells = inputs.get(worksheet.name) || new Map<string, CellInput>();
+      // Added as ranges: ExcelJS's merging of per-cell validations can write overlapping ones
+      const validations = (worksheet as unknown as {
+        dataValidations: { add(range: string, validation: ExcelJS.DataValidation): void };
+      }).dataValidations;
+      this.toRanges(cells).forEach(({ range, cellInput }) => {
+        validations.add(range, this.toDataValidation(cellInput, lists));
+      });
+      await this.lock(worksheet, cells, filled.get(worksheet) || new Set<string>());
+    }
+
+    const metadata = this.addMetadata(workbook, input.metadata);
+    await metadata.protect('', {});
+    if (lists.columnCount > 0) {
+      await lists.protect('', {});
+    } else {
+      workbook.removeWorksheet(lists.id);
+    }
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  /**
+   * Write values into the sheets, returning the addresses filled on each
+   */
+  private static fill(worksheets: ExcelJS.Worksheet[], values: CarriedValue[]): Map<ExcelJS.Worksheet, Set<string>> {
+    const filled = new Map<ExcelJS.Worksheet, Set<string>>();
+    for (const { sheetName, address, value } of values) {
+      const worksheet = sheetName
+        ? worksheets.find(ws => ws.name.toLowerCase() === sheetName.toLowerCase())
+        : worksheets[0];
+      if (!worksheet) continue;
+
+      const cell = worksheet.getCell(address);
+      if (cell.formula) continue;
+      cell.value = value;
+      const addresses = filled.get(worksheet) || new Set<string>();
+      addresses.add(cell.address);
+      filled.set(worksheet, addresses);
+    }
+    return filled;
+  }
+
+  /**
+   * What each rule allows in each of its cells, by sheet name and address.
+   * Conditional rules are left out, since they don't hold for every row.
+   */
+  private static collectInputs(
+    input: SubmissionWorkbookInput,
+    worksheets: ExcelJS.Worksheet[]
+  ): Map<string, Map<string, CellInput>> {
+    const inputs = new Map<string, Map<string, CellInput>>();
+    const sheets = worksheets.map(ws => this.toSheetData(ws));
+    const names = sheets.map(sheet => sheet.name);
+
+    for (const rule of input.rules) {
+      if (rule.isActive === false || rule.when) continue;
+      const constraint = this.toConstraint(rule, input.codeLists);
+      if (!constraint) continue;
+
+      const sheet = this.ruleSheet(rule, sheets, names, input.sheetNames);
+      if (!sheet) continue;
+
+      const sheetInputs = inputs.get(sheet.name) || new Map<string, CellInput>();
+      inputs.set(sheet.name, sheetInputs);
+      for (const cell of resolveCells(rule, sheet)) {
+        const cellInput = sheetInputs.get(cell.reference) || { hints: [], errors: [], errorStyle: 'information' };
+        sheetInputs.set(cell.reference, this.merge(cellInput, constraint, rule));
+      }
+    }
+    return inputs;
+  }
+
+  /**
+   * The template sheet padded to INPUT_ROWS, so ranges that run to the last
+   * row cover the rows entities fill in
+   */
+  private static toSheetData(worksheet: ExcelJS.Worksheet): SheetData {
+    const rowCount = Math.max(worksheet.rowCount, INPUT_ROWS);
+    const data: any[][] = Array.from({ length: rowCount }, () => []);
+    worksheet.eachRow((row, rowNumber) => {
+      row.eachCell((cell, colNumber) => {
+        data[rowNumber - 1][colNumber - 1] = cell.text;
+      });
+    });
+    return { name: worksheet.name, index: worksheet.id, data, rowCount, columnCount: worksheet.columnCount };
+  }
+
+  /**
+   * Sheet a rule applies to, as the validation engine picks it
+   */
+  private static ruleSheet(
+    rule: Omit<ValidationRule, 'templateId'>,
+    sheets: SheetData[],
+    names: string[],
+    sheetNames: Map<number, string>
+  ): SheetData | undefined {
+    const findByName = (name: string) => sheets.find(s => s.name.toLowerCase() === name.toLowerCase());
+    if (rule.sheetId) {
+      const name = sheetNames.get(rule.sheetId);
+      return name ? findByName(name) : undefined;
+    }
+    const sheetName = splitSheetAddress(rule.field || '').sheetName || getFieldSheetName(rule.field || '', names);
+    return sheetName ? findByName(sheetName) : sheets[0];
+  }
+
+  /**
+   * What a rule allows in a cell, as far as Excel can check it; an empty
+   * constraint for rules that only add a prompt, null for rules that don't
+   * concern single cells
+   */
+  private static toConstraint(
+    rule: Omit<ValidationRule, 'templateId'>,
+    codeLists: Map<string, string[]>
+  ): Constraint | null {
+    const condition = rule.condition.trim();
+    const limit = parseFloat(condition.match(/(-?\d+(?:\.\d+)?)\s*$/)?.[1] ?? '');
+
+    switch (rule.ruleType) {
+      case 'required':
+      case 'pattern':
+      case 'decimals':
+        return {};
+      case 'format': {
+        const listName = CodeLists.getReferencedList(condition);
+        if (listName) {
+          const codes = codeLists.get(listName);
+          return codes ? { list: codes } : {};
+        }
+        const formatType = condition.toLowerCase();
+        if (formatType === 'number') return { number: { whole: false } };
+        if (formatType === 'date') return { date: true };
+        if (formatType === 'lei') return { length: { min: 20, max: 20 } };
+        if (formatType === 'ifsc') return { length: { min: 11, max: 11 } };
+        return {};
+      }
+      case 'range': {
+        const number: CellInput['number'] = { whole: false };
+        condition.split(',').forEach(part => {
+          const [type, value] = part.split(':').map(p => p.trim().toLowerCase());
+          if (type === 'min' && !isNaN(parseFloat(value))) number.min = parseFloat(value);
+          if (type === 'max' && !isNaN(parseFloat(value))) number.max = parseFloat(value);
+        });
+        return { number };
+      }
+      case 'minimum':
+        return isNaN(limit) ? {} : { number: { whole: false, min: limit } };
+      case 'maximum':
+        return isNaN(limit) ? {} : { number: { whole: false, max: limit } };
+      case 'minLength':
+        return isNaN(limit) ? {} : { length: { min: limit } };
+      case 'maxLength':
+        return isNaN(limit) ? {} : { length: { max: limit } };
+      case 'enum': {
+        const list = condition.match(/\[(.*)\]/)?.[1];
+        if (list === undefined) return {};
+        return {
+          list: (list.match(/"[^"]*"|'[^']*'|[^,\s]+/g) || []).map(item => item.replace(/^["']|["']$/g, '').trim())
+        };
+      }
+      case 'dataType': {
+        const type = condition.replace(/^TYPE_IS_/i, '').toLowerCase();
+        if (type === 'number' || type === 'decimal' || type === 'currency') return { number: { whole: false } };
+        if (type === 'integer') return { number: { whole: true } };
+        if (type === 'date') return { date: true };
+        if (type === 'boolean') return { list: ['TRUE', 'FALSE'] };
+        return {};
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Add a rule's constraint to what a cell already allows. Limits narrow;
+   * a cell takes the first list it is given.
+   */
+  private static merge(cellInput: CellInput, constraint: Constraint, rule: Omit<ValidationRule, 'templateId'>): CellInput {
+    const merged: CellInput = { ...cellInput, hints: [...cellInput.hints], errors: [...cellInput.errors] };
+    if (rule.errorMessage && !merged.hints.includes(rule.errorMessage)) {
+      merged.hints.push(rule.errorMessage);
+    }
+
+    const checked = constraint.list || constraint.number || constraint.date || constraint.length;
+    if (!checked) return merged;
+
+    if (constraint.list && !merged.list) merged.list = constraint.list;
+    if (constraint.date) merged.date = true;
+    if (constraint.number) {
+      const current = merged.number || { whole: false };
+      merged.number = {
+        whole: current.whole || constraint.number.whole,
+        min: this.narrow(current.min, constraint.number.min, Math.max),
+        max: this.narrow(current.max, constraint.number.max, Math.min)
+      };
+    }
+    if (constraint.length) {
+      const current = merged.length || {};
+      merged.length = {
+        min: this.narrow(current.min, constraint.length.min, Math.max),
+        max: this.narrow(current.max, constraint.length.max, Math.min)
+      };
+    }
+
+    if (rule.errorMessage && !merged.errors.includes(rule.errorMessage)) {
+      merged.errors.push(rule.errorMessage);
+    }
+    const style = rule.severity === 'error' || rule.severity === 'blocking' ? 'stop' : rule.severity === 'warning' ? 'warning' : 'information';
+    const rank = { information: 0, warning: 1, stop: 2 };
+    if (rank[style] > rank[merged.errorStyle]) merged.errorStyle = style;
+    return merged;
+  }
+
+  private static narrow(a: number | undefined, b: number | undefined, pick: (x: number, y: number) => number): number | undefined {
+    if (a === undefined) return b;
+    if (b === undefined) return a;
+    return pick(a, b);
+  }
+
+  /**
+   * Runs of cells down a column that allow the same input
+   */
+  private static toRanges(cells: Map<string, CellInput>): Array<{ range: string; cellInput: CellInput }> {
+    const byColumn = new Map<string, Array<{ row: number; key: string; cellInput: CellInput }>>();
+    cells.forEach((cellInput, address) => {
+      const cell = parseCellAddress(address);
+      if (!cell) return;
+      const column = byColumn.get(cell.column) || [];
+      column.push({ row: cell.row, key: JSON.stringify(cellInput), cellInput });
+      byColumn.set(cell.column, column);
+    });
+
+    const ranges: Array<{ range: string; cellInput: CellInput }> = [];
+    byColumn.forEach((column, letter) => {
+      column.sort((a, b) => a.row - b.row);
+      let start = 0;
+      for (let i = 1; i <= column.length; i++) {
+        const next = column[i];
+        const last = column[i - 1];
+        if (next && next.row === last.row + 1 && next.key === last.key) continue;
+        const first = column[start];
+        ranges.push({
+          range: first.row === last.row ? `${letter}${first.row}` : `${letter}${first.row}:${letter}${last.row}`,
+          cellInput: first.cellInput
+        });
+        start = i;
+      }
+    });
+    return ranges;
+  }
+
+  /**
+   * One Excel data validation for a cell: a dropdown, date, number or length
+   * check in that order of preference, or just the prompt
+   */
+  private static toDataValidation(cellInput: CellInput, lists: ExcelJS.Worksheet): ExcelJS.DataValidation {
+    const prompt = {
+      showInputMessage: true,
+      promptTitle: 'Input rules',
+      prompt: this.truncate(cellInput.hints.join('\n'), MAX_PROMPT)
+    };
+    const alert = {
+      showErrorMessage: true,
+      errorStyle: cellInput.errorStyle,
+      errorTitle: 'Invalid value',
+      error: this.truncate(cellInput.errors.join('\n'), MAX_ERROR)
+    };
+
+    if (cellInput.list) {
+      return { type: 'list', allowBlank: true, formulae: [this.listSource(cellInput.list, lists)], ...prompt, ...alert };
+    }
+    if (cellInput.date) {
+      return { type: 'date', operator: 'greaterThanOrEqual', allowBlank: true, formulae: [new Date(Date.UTC(1900, 0, 1))], ...prompt, ...alert };
+    }
+    if (cellInput.number) {
+      const { whole, min, max } = cellInput.number;
+      const type = whole ? 'whole' : 'decimal';
+      const bounds = min !== undefined && max !== undefined
+        ? { operator: 'between' as const, formulae: [min, max] }
+        : min !== undefined
+          ? { operator: 'greaterThanOrEqual' as const, formulae: [min] }
+          : max !== undefined
+            ? { operator: 'lessThanOrEqual' as const, formulae: [max] }
+            : { operator: 'between' as const, formulae: [-NUMBER_LIMIT, NUMBER_LIMIT] };
+      return { type, allowBlank: true, ...bounds, ...prompt, ...alert };
+    }
+    if (cellInput.length) {
+      const { min = 0, max } = cellInput.length;
+      const bounds = max !== undefined
+        ? { operator: 'between' as const, formulae: [min, max] }
+        : { operator: 'greaterThanOrEqual' as const, formulae: [min] };
+      return { type: 'textLength', allowBlank: true, ...bounds, ...prompt, ...alert };
+    }
+    // Any value, with the prompt only; ExcelJS writes this type though its typings leave it out
+    return { type: 'any', allowBlank: true, formulae: [], ...prompt } as unknown as ExcelJS.DataValidation;
+  }
+
+  /**
+   * Dropdown values written into the validation when they fit, otherwise
+   * into a column of the lists sheet that the validation points at
+   */
+  private static listSource(values: string[], lists: ExcelJS.Worksheet): string {
+    const inline = values.join(',');
+    if (inline.length <= MAX_INLINE_LIST && !values.some(value => /[,"]/.test(value))) {
+      return `"${inline}"`;
+    }
+
+    // Cells sharing a list share its column
+    for (let col = 1; col <= lists.columnCount; col++) {
+      const column = lists.getColumn(col);
+      const existing = (column.values as any[]).slice(1);
+      if (existing.length === values.length && existing.every((value, i) => value === values[i])) {
+        return this.listRange(column.letter, values.length);
+      }
+    }
+    const column = lists.getColumn(lists.columnCount + 1);
+    values.forEach((value, i) => {
+      lists.getCell(i + 1, column.number).value = value;
+    });
+    return this.listRange(column.letter, values.length);
+  }
+
+  private static listRange(letter: string, count: number): string {
+    return `'${LISTS_SHEET}'!$${letter}$1:$${letter}$${Math.max(count, 1)}`;
+  }
+
+  /**
+   * Protect the sheet so only input cells can be changed. Columns up to the
+   * last one in use or checked are open; formulas stay locked, and so do
+   * labels and headers - the template's other filled cells - unless a rule
+   * checks them or they were filled in for the entity.
+   */
+  private static async lock(
+    worksheet: ExcelJS.Worksheet,
+    inputs: Map<string, CellInput>,
+    filled: Set<string>
+  ): Promise<void> {
+    let lastColumn = Math.max(worksheet.columnCount, 1);
+    inputs.forEach((_, address) => {
+      const cell = parseCellAddress(address);
+      if (cell) lastColumn = Math.max(lastColumn, columnToNumber(cell.column));
+    });
+    for (let col = 1; col <= lastColumn; col++) {
+      worksheet.getColumn(col).protection = { locked: false };
+    }
+
+    worksheet.eachRow(row => {
+      row.eachCell(cell => {
+        const isTemplateText = !inputs.has(cell.address) && !filled.has(cell.address) && String(cell.text ?? '').trim() !== '';
+        if (cell.formula || isTemplateText) {
+          cell.protection = { locked: true };
+        }
+      });
+    });
+
+    await worksheet.protect('', {
+      selectLockedCells: true,
+      selectUnlockedCells: true,
+      formatColumns: true,
+      formatRows: true,
+      autoFilter: true
+    });
+  }
+
+  /**
+   * The hidden sheet recording what the workbook was made for
+   */
+  private static addMetadata(workbook: ExcelJS.Workbook, metadata: SubmissionWorkbookMetadata): ExcelJS.Worksheet {
+    const sheet = workbook.addWorksheet(METADATA_SHEET, { state: 'hidden' });
+    sheet.addRow(['Field', 'Value']).font = { bold: true };
+    sheet.addRow(['Template ID', metadata.templateId]);
+    sheet.addRow(['Template', metadata.templateName]);
+    sheet.addRow(['Template Version', metadata.templateVersion]);
+    sheet.addRow(['Rule Set Version', metadata.ruleSetVersion ?? '']);
+    sheet.addRow(['Entity ID', metadata.entityId]);
+    sheet.addRow(['Entity', metadata.entityName]);
+    sheet.addRow(['Reporting Period', metadata.reportingPeriod ?? '']);
+    sheet.addRow(['Carried Forward From', metadata.carriedForwardFrom ?? '']);
+    sheet.addRow(['Generated At', new Date().toISOString()]);
+    sheet.getColumn(1).width = 20;
+    sheet.getColumn(2).width = 40;
+    return sheet;
+  }
+
+  private static truncate(text: string, max: number): string {
+    return text.length > max ? `${text.slice(0, max - 3)}...` : text;
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Changes between two templates: sheets, headers, tables, cells, formulas,
+ * schema fields and rules.
+ * Run with `npm test`.
+ */
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ExcelJS from 'exceljs';
+import { TEMPLATE_CHANGE_AREAS, TemplateCell, TemplateChange, TemplateDiff, TemplateDiffSide } from './TemplateDiff';
+import type { ExpectedTable } from './TemplateStructure';
+
+let tmpDir: string;
+
+before(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'template-diff-'));
+});
+
+after(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function side(overrides: Partial<TemplateDiffSide> = {}): TemplateDiffSide {
+  return { label: 'Template', sheets: [], schemas: [], cells: new Map(), rules: [], ...overrides };
+}
+
+function sheet(id: number, sheetName: string, headers: string[], tabularTemplates: ExpectedTable[] = []) {
+  return { id, sheetName, sheetIndex: id - 1, extractedData: { data: [], headers, tabularTemplates } };
+}
+
+function cells(sheetName: string, entries: Record<string, TemplateCell>) {
+  return new Map([[sheetName, new Map(Object.entries(entries))]]);
+}
+
+function table(startRow: number, startCol: number, headers: string[]): ExpectedTable {
+  return { startRow, startCol, endCol: startCol + headers.length - 1, headers, templateType: 'vertical' };
+}
+
+function summarize(changes: TemplateChange[]): string[] {
+  return changes.map(change => `${change.area} ${change.type} ${change.beforeLocation ?? '-'} ${change.afterLocation ?? '-'}`);
+}
+
+describe('TemplateDiff.compare', () => {
+  test('finds nothing between identical templates', () => {
+    const template = side({
+      sheets: [sheet(1, 'Data', ['Name', 'Amount'])],
+      cells: cells('Data', { A3: { text: 'Total' }, B3: { formula: 'SUM(B2:B2)' } }),
+      rules: [{ field: 'Amount', ruleType: 'required', condition: 'required', errorMessage: 'Required', severity: 'error' }]
+    });
+    const report = TemplateDiff.compare(template, template);
+    assert.deepEqual(report.changes, []);
+    assert.equal(report.summary.total, 0);
+  });
+
+  test('pairs a renamed sheet by its headers and reports added and removed sheets', () => {
+    const report = TemplateDiff.compare(
+      side({ sheets: [sheet(1, 'Loans', ['Borrower', 'Amount', 'Rate']), sheet(2, 'Notes', ['Note'])] }),
+      side({ sheets: [sheet(1, 'Loan Book', ['Borrower', 'Amount', 'Rate']), sheet(2, 'Contacts', ['Email'])] })
+    );
+    assert.deepEqual(
+      report.changes.map(change => [change.type, change.sheetName]),
+      [['removed', 'Notes'], ['added', 'Contacts'], ['renamed', 'Loan Book']]
+    );
+    assert.equal(report.summary.sheet, 3);
+  });
+
+  test('tells moved, renamed, added and removed headers apart', () => {
+    const report = TemplateDiff.compare(
+      side({ sheets: [sheet(1, 'Data', ['Name', 'Amount', 'Branch', 'Notes'])] }),
+      side({ sheets: [sheet(1, 'Data', ['Name', 'Branch', 'Amount', 'Region', 'Status'])] })
+    );
+    assert.deepEqual(summarize(report.changes), [
+      'header moved B1 C1',
+      'header moved C1 B1',
+      'header renamed D1 D1',
+      'header added - E1'
+    ]);
+  });
+
+  test('reports a table moved to another cell', () => {
+    const report = TemplateDiff.compare(
+      side({ sheets: [sheet(1, 'Data', ['Name'], [table(5, 1, ['Date', 'Amount'])])] }),
+      side({ sheets: [sheet(1, 'Data', ['Name'], [table(8, 2, ['Date', 'Amount'])])] })
+    );
+    assert.deepEqual(summarize(report.changes), ['table moved A5 B8']);
+  });
+
+  test('reports labels and formulas moved, changed, added and removed, but not row 1 labels', () => {
+    const report = TemplateDiff.compare(
+      side({
+        sheets: [sheet(1, 'Data', ['Name'])],
+        cells: cells('Data', {
+          A1: { text: 'Name' },
+          A10: { text: 'Total' },
+          A11: { text: 'Checked by' },
+          B10: { formula: 'SUM(B2:B9)' }
+        })
+      }),
+      side({
+        sheets: [sheet(1, 'Data', ['Name'])],
+        cells: cells('Data', {
+          A1: { text: 'Full name' },
+          A12: { text: 'Total' },
+          A11: { text: 'Prepared by' },
+          B12: { formula: 'SUM(B2:B11)' }
+        })
+      })
+    );
+    assert.deepEqual(summarize(report.changes), [
+      'cell moved A10 A12',
+      'cell changed A11 A11',
+      'formula removed B10 -',
+      'formula added - B12'
+    ]);
+    assert.equal(report.changes[2].before, '=SUM(B2:B9)');
+  });
+
+  test('compares schema fields of a renamed sheet under its new name', () => {
+    const schema = (location: string, dataType: string) => ({
+      sheetId: 1,
+      schemaData: JSON.stringify({ required_fields: [{ field_name: 'Total Assets', data_type: dataType, cell_reference: location }] })
+    });
+    const report = TemplateDiff.compare(
+      side({ sheets: [sheet(1, 'BS', ['Item', 'Value'])], schemas: [schema('B10', 'number')] }),
+      side({ sheets: [sheet(1, 'Balance Sheet', ['Item', 'Value'])], schemas: [schema('B12', 'number')] })
+    );
+    const fieldChanges = report.changes.filter(change => change.area === 'schema');
+    assert.deepEqual(summarize(fieldChanges), ['schema moved B10 B12']);
+    assert.equal(fieldChanges[0].sheetName, 'Balance Sheet');
+  });
+
+  test('matches rules by type and cells, and lists what changed', () => {
+    const base = { field: 'Amount', ruleType: 'custom', condition: 'B2 >= 0', errorMessage: 'Negative', severity: 'error' as const };
+    const report = TemplateDiff.compare(
+      side({ rules: [base, { ...base, ruleType: 'required', condition: 'required' }] }),
+      side({ rules: [{ ...base, severity: 'warning' }, { ...base, field: 'Rate', ruleType: 'range', condition: '0-100' }] })
+    );
+    assert.deepEqual(report.changes.map(change => `${change.area} ${change.type}`), ['rule changed', 'rule removed', 'rule added']);
+    assert.match(report.changes[0].description, /severity 'error' -> 'warning'/);
+  });
+
+  test('counts every change area in the summary', () => {
+    const report = TemplateDiff.compare(side(), side({ sheets: [sheet(1, 'Data', ['Name'])] }));
+    assert.deepEqual(Object.keys(report.summary).sort(), [...TEMPLATE_CHANGE_AREAS, 'total'].sort());
+    assert.equal(report.summary.sheet, 1);
+    assert.equal(report.summary.total, 1);
+  });
+});
+
+describe('TemplateDiff.readCells', () => {
+  test('reads labels and formulas and leaves out sample values', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet('Data');
+    worksheet.getCell('A1').value = ' Name ';
+    worksheet.getCell('A2').value = 'Alice';
+    worksheet.getCell('B2').value = 150;
+    worksheet.getCell('B3').value = { formula: 'SUM(B2:B2)', result: 150 } as ExcelJS.CellFormulaValue;
+    worksheet.getCell('A4').value = { richText: [{ text: 'Checked ' }, { text: 'by' }] };
+    const filePath = path.join(tmpDir, 'template.xlsx');
+    await workbook.xlsx.writeFile(filePath);
+
+    const read = await TemplateDiff.readCells(filePath);
+    assert.deepEqual(Object.fromEntries(read.get('Data')!), {
+      A1: { text: 'Name' },
+      A2: { text: 'Alice' },
+      B3: { formula: 'SUM(B2:B2)' },
+      A4: { text: 'Checked by' }
+    });
+  });
+
+  test('reads nothing from CSV templates and missing files', async () => {
+    assert.equal((await TemplateDiff.readCells(path.join(tmpDir, 'template.csv'))).size, 0);
+    assert.equal((await TemplateDiff.readCells(path.join(tmpDir, 'missing.xlsx'))).size, 0);
+  });
+});
+
+describe('TemplateDiff.toWorkbook', () => {
+  test('writes a summary and one row per change', async () => {
+    const report = TemplateDiff.compare(
+      side({ label: 'Return v1', sheets: [sheet(1, 'Data', ['Name'])] }),
+      side({ label: 'Return v2', sheets: [sheet(1, 'Data', ['Name', 'Amount'])] })
+    );
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await TemplateDiff.toWorkbook(report));
+
+    assert.equal(workbook.getWorksheet('Summary')!.getCell('B2').value, 'Return v2');
+    const changes = workbook.getWorksheet('Changes')!;
+    assert.equal(changes.rowCount, 1 + report.changes.length);
+    assert.deepEqual(changes.getRow(2).values, [, 'header', 'added', 'Data', '', '', 'B1', 'Amount', "Header 'Amount' was added in column B"]);
+  });
+});
@@ -0,0 +1,506 @@
+/**
+ * Template diff: what changed between two templates, or two versions of one?
+ *
+ * Compares the sheets, row 1 headers and tables FileProcessor extracted
+ * (templateSheets), the fields of the extracted schemas (templateSchemas),
+ * the labels and formulas in the template workbooks, and the validation
+ * rules. Each change says where it was and where it is now, so the two sides
+ * can be shown next to each other or written out as an Excel change log.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import ExcelJS from 'exceljs';
+import { numberToColumn, parseCellAddress } from './CellAddress';
+import type { ValidationRule } from './ModernValidationEngine';
+import { RULE_KEYS } from './ModernValidationRulesParser';
+import { ExpectedSheetStructure, ExpectedTable, TemplateStructure } from './TemplateStructure';
+
+/** A workbook cell holding a label or a formula */
+export interface TemplateCell {
+  text?: string;
+  formula?: string;
+}
+
+/** Label and formula cells by sheet name, then address */
+export type WorkbookCells = Map<string, Map<string, TemplateCell>>;
+
+/** One template or template version being compared */
+export interface TemplateDiffSide {
+  /** Shown in the report, e.g. "Monthly Return v2" */
+  label: string;
+  sheets: Array<{ id: number; sheetName: string; sheetIndex: number; extractedData: unknown }>;
+  schemas: Array<{ sheetId: number | null; schemaData: unknown }>;
+  /** Empty for CSV templates and missing files */
+  cells: WorkbookCells;
+  rules: Array<Omit<ValidationRule, 'templateId'>>;
+}
+
+export const TEMPLATE_CHANGE_AREAS = ['sheet', 'header', 'table', 'cell', 'formula', 'schema', 'rule'] as const;
+export type TemplateChangeArea = typeof TEMPLATE_CHANGE_AREAS[number];
+export type TemplateChangeType = 'added' | 'removed' | 'renamed' | 'moved' | 'changed';
+
+export interface TemplateChange {
+  area: TemplateChangeArea;
+  type: TemplateChangeType;
+  /** Sheet the change is on, named as in the newer template unless it was removed */
+  sheetName: string | null;
+  beforeLocation: string | null;
+  before: string | null;
+  afterLocation: string | null;
+  after: string | null;
+  description: string;
+}
+
+export interface TemplateDiffReport {
+  from: string;
+  to: string;
+  summary: Record<TemplateChangeArea, number> & { total: number };
+  changes: TemplateChange[];
+}
+
+interface SchemaField {
+  name: string;
+  dataType: string | null;
+  location: string | null;
+}
+
+type DiffRule = TemplateDiffSide['rules'][number];
+
+// Share of row 1 headers two differently named sheets need in common to count as one renamed sheet
+const MIN_SHARED_HEADERS = 0.6;
+// Rule properties that identify a rule; the other RULE_KEYS are compared
+const RULE_IDENTITY: Array<keyof DiffRule> = ['ruleType', 'field', 'cellRange', 'rowRange', 'columnRange'];
+
+export class TemplateDiff {
+  /**
+   * Changes from one template (or version) to another, sheet by sheet
+   */
+  static compare(from: TemplateDiffSide, to: TemplateDiffSide): TemplateDiffReport {
+    const changes: TemplateChange[] = [];
+    const fromSheets = TemplateStructure.fromTemplateSheets(from.sheets);
+    const toSheets = TemplateStructure.fromTemplateSheets(to.sheets);
+    const { pairs, removed, added } = this.pairSheets(fromSheets, toSheets);
+
+    for (const sheet of removed) {
+      changes.push(this.change('sheet', 'removed', sheet.name, [null, sheet.name], [null, null], `Sheet '${sheet.name}' was removed`));
+    }
+    for (const sheet of added) {
+      changes.push(this.change('sheet', 'added', sheet.name, [null, null], [null, sheet.name], `Sheet '${sheet.name}' was added`));
+    }
+
+    for (const [before, after] of pairs) {
+      if (before.name !== after.name) {
+        changes.push(this.change(
+          'sheet', 'renamed', after.name, [null, before.name], [null, after.name],
+          `Sheet '${before.name}' was renamed to '${after.name}'`
+        ));
+      }
+      changes.push(...this.compareHeaders(before, after));
+      changes.push(...this.compareTables(before, after));
+      changes.push(...this.compareCells(
+        from.cells.get(before.name) ?? new Map(),
+        to.cells.get(after.name) ?? new Map(),
+        after.name
+      ));
+    }
+
+    changes.push(...this.compareSchemas(from, to, new Map(pairs.map(([before, after]) => [before.name, after.name]))));
+    changes.push(...this.compareRules(from.rules, to.rules));
+
+    const summary = Object.fromEntries(TEMPLATE_CHANGE_AREAS.map(area => [area, 0])) as TemplateDiffReport['summary'];
+    changes.forEach(change => summary[change.area]++);
+    summary.total = changes.length;
+    return { from: from.label, to: to.label, summary, changes };
+  }
+
+  /**
+   * Label and formula cells of a template workbook. Other values are sample
+   * data, not structure, and are left out.
+   */
+  static async readCells(filePath: string): Promise<WorkbookCells> {
+    const cells: WorkbookCells = new Map();
+    const extension = path.extname(filePath).toLowerCase();
+    if ((extension !== '.xlsx' && extension !== '.xls') || !fs.existsSync(filePath)) return cells;
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(filePath);
+    workbook.worksheets.forEach(worksheet => {
+      const sheetCells = new Map<string, TemplateCell>();
+      worksheet.eachRow(row => {
+        row.eachCell(cell => {
+          if (cell.formula) {
+            sheetCells.set(cell.address, { formula: cell.formula });
+          } else if (typeof cell.value === 'string' && cell.value.trim()) {
+            sheetCells.set(cell.address, { text: cell.value.trim() });
+          } else if (cell.value && typeof cell.value === 'object' && 'richText' in cell.value) {
+            const text = cell.value.richText.map(part => part.text).join('').trim();
+            if (text) sheetCells.set(cell.address, { text });
+          }
+        });
+      });
+      cells.set(worksheet.name, sheetCells);
+    });
+    return cells;
+  }
+
+  /**
+   * The report as an Excel change log: a summary sheet and one row per change
+   */
+  static async toWorkbook(report: TemplateDiffReport): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+
+    const summary = workbook.addWorksheet('Summary');
+    summary.addRow(['From', report.from]);
+    summary.addRow(['To', report.to]);
+    summary.addRow(['Generated', new Date().toISOString()]);
+    summary.addRow([]);
+    summary.addRow(['Area', 'Changes']).font = { bold: true };
+    TEMPLATE_CHANGE_AREAS.forEach(area => summary.addRow([area, report.summary[area]]));
+    summary.addRow(['total', report.summary.total]).font = { bold: true };
+    summary.getColumn(1).width = 14;
+    summary.getColumn(2).width = 40;
+
+    const changes = workbook.addWorksheet('Changes');
+    const headers = ['Area', 'Change', 'Sheet', 'Before Location', 'Before', 'After Location', 'After', 'Description'];
+    changes.addRow(headers);
+    changes.getRow(1).font = { bold: true };
+    changes.getRow(1).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE0E0E0' } };
+    report.changes.forEach(change => changes.addRow([
+      change.area, change.type, change.sheetName ?? '', change.beforeLocation ?? '', change.before ?? '',
+      change.afterLocation ?? '', change.after ?? '', change.description
+    ]));
+    changes.views = [{ state: 'frozen', ySplit: 1 }];
+    changes.autoFilter = { from: 'A1', to: 'H1' };
+    [10, 10, 20, 16, 40, 16, 40, 70].forEach((width, i) => { changes.getColumn(i + 1).width = width; });
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  /**
+   * Sheets are the same sheet when their names match, or, failing that, when
+   * most of their headers do
+   */
+  private static pairSheets(fromSheets: ExpectedSheetStructure[], toSheets: ExpectedSheetStructure[]) {
+    const pairs: Array<[ExpectedSheetStructure, ExpectedSheetStructure]> = [];
+    const removed: ExpectedSheetStructure[] = [];
+    const unmatched = new Set(toSheets);
+
+    for (const sheet of fromSheets) {
+      const match = toSheets.find(s => unmatched.has(s) && this.normalize(s.name) === this.normalize(sheet.name));
+      if (match) {
+        unmatched.delete(match);
+        pairs.push([sheet, match]);
+      } else {
+        removed.push(sheet);
+      }
+    }
+
+    for (const sheet of [...removed]) {
+      const keys = this.headerKeys(sheet);
+      let best: ExpectedSheetStructure | undefined;
+      let bestScore = MIN_SHARED_HEADERS;
+      for (const candidate of Array.from(unmatched)) {
+        const candidateKeys = this.headerKeys(candidate);
+        const shared = keys.filter(key => candidateKeys.includes(key)).length;
+        const score = shared / Math.max(keys.length, candidateKeys.length, 1);
+        if (score >= bestScore) {
+          best = candidate;
+          bestScore = score;
+        }
+      }
+      if (best) {
+        unmatched.delete(best);
+        removed.splice(removed.indexOf(sheet), 1);
+        pairs.push([sheet, best]);
+      }
+    }
+
+    return { pairs, removed, added: toSheets.filter(sheet => unmatched.has(sheet)) };
+  }
+
+  /**
+   * Row 1 headers: moved to another column, renamed in place, added or removed
+   */
+  private static compareHeaders(before: ExpectedSheetStructure, after: ExpectedSheetStructure): TemplateChange[] {
+    const changes: TemplateChange[] = [];
+    const list = (sheet: ExpectedSheetStructure) => sheet.headers
+      .map((text, i) => text ? { column: i + 1, text, key: this.normalize(text) } : null)
+      .filter((header): header is { column: number; text: string; key: string } => header !== null);
+    const beforeHeaders = list(before);
+    const afterHeaders = list(after);
+    const located = before.headerPositions && after.headerPositions;
+    const where = (column: number) => located ? `${numberToColumn(column)}1` : null;
+
+    const used = new Set<typeof afterHeaders[number]>();
+    const unresolved: typeof beforeHeaders = [];
+    for (const header of beforeHeaders) {
+      const inPlace = afterHeaders.find(a => !used.has(a) && a.key === header.key && (!located || a.column === header.column));
+      if (inPlace) {
+        used.add(inPlace);
+        continue;
+      }
+      const moved = afterHeaders.find(a => !used.has(a) && a.key === header.key);
+      if (moved) {
+        used.add(moved);
+        changes.push(this.change(
+          'header', 'moved', after.name, [where(header.column), header.text], [where(moved.column), moved.text],
+          `Header '${header.text}' moved from column ${numberToColumn(header.column)} to ${numberToColumn(moved.column)}`
+        ));
+      } else {
+        unresolved.push(header);
+      }
+    }
+
+    for (const header of unresolved) {
+      const renamed = located
+        ? afterHeaders.find(a => !used.has(a) && a.column === header.column && !beforeHeaders.some(b => b.key === a.key))
+        : undefined;
+      if (renamed) {
+        used.add(renamed);
+        changes.push(this.change(
+          'header', 'renamed', after.name, [where(header.column), header.text], [where(renamed.column), renamed.text],
+          `Header in column ${numberToColumn(header.column)} was renamed from '${header.text}' to '${renamed.text}'`
+        ));
+      } else {
+        changes.push(this.change(
+          'header', 'removed', after.name, [where(header.column), header.text], [null, null],
+          `Header '${header.text}' was removed`
+        ));
+      }
+    }
+
+    for (const header of afterHeaders.filter(a => !used.has(a))) {
+      changes.push(this.change(
+        'header', 'added', after.name, [null, null], [where(header.column), header.text],
+        `Header '${header.text}' was added${located ? ` in column ${numberToColumn(header.column)}` : ''}`
+      ));
+    }
+    return changes;
+  }
+
+  /**
+   * Tables detected below row 1, matched by their headers
+   */
+  private static compareTables(before: ExpectedSheetStructure, after: ExpectedSheetStructure): TemplateChange[] {
+    const changes: TemplateChange[] = [];
+    const key = (table: ExpectedTable) => table.headers.map(header => this.normalize(String(header))).join('|');
+    const at = (table: ExpectedTable) => `${numberToColumn(table.startCol)}${table.startRow}`;
+    const title = (table: ExpectedTable) => table.headers.length > 3
+      ? `${table.headers.slice(0, 3).join(', ')}, ...`
+      : table.headers.join(', ');
+    const remaining = [...after.tables];
+
+    for (const table of before.tables) {
+      const index = remaining.findIndex(t => key(t) === key(table));
+      if (index === -1) {
+        changes.push(this.change('table', 'removed', after.name, [at(table), title(table)], [null, null], `Table '${title(table)}' was removed`));
+        continue;
+      }
+      const [match] = remaining.splice(index, 1);
+      if (at(match) !== at(table)) {
+        changes.push(this.change(
+          'table', 'moved', after.name, [at(table), title(table)], [at(match), title(match)],
+          `Table '${title(table)}' moved from ${at(table)} to ${at(match)}`
+        ));
+      }
+    }
+
+    for (const table of remaining) {
+      changes.push(this.change('table', 'added', after.name, [null, null], [at(table), title(table)], `Table '${title(table)}' was added at ${at(table)}`));
+    }
+    return changes;
+  }
+
+  /**
+   * Labels and formulas cell by cell. Row 1 labels are headers, compared
+   * separately. A label or formula found elsewhere on the sheet has moved.
+   */
+  private static compareCells(
+    before: Map<string, TemplateCell>,
+    after: Map<string, TemplateCell>,
+    sheetName: string
+  ): TemplateChange[] {
+    const changes: TemplateChange[] = [];
+
+    for (const kind of ['text', 'formula'] as const) {
+      const area: TemplateChangeArea = kind === 'text' ? 'cell' : 'formula';
+      const show = (value: string) => kind === 'formula' ? `=${value}` : value;
+      const collect = (cells: Map<string, TemplateCell>) => new Map(
+        Array.from(cells)
+          .filter(([address, cell]) => cell[kind] !== undefined && (kind === 'formula' || parseCellAddress(address)?.row !== 1))
+          .map(([address, cell]) => [address, cell[kind]!])
+      );
+      const beforeCells = collect(before);
+      const afterCells = collect(after);
+
+      // Unchanged cells first, so moves are only looked for among what is left
+      const unmatchedAfter = new Map(Array.from(afterCells).filter(([address, value]) => beforeCells.get(address) !== value));
+      const unmatchedBefore = Array.from(beforeCells).filter(([address, value]) => afterCells.get(address) !== value);
+      const changedAt = new Map<string, string>();
+
+      for (const [address, value] of unmatchedBefore) {
+        const moved = Array.from(unmatchedAfter).find(([, candidate]) => candidate === value);
+        if (moved) {
+          unmatchedAfter.delete(moved[0]);
+          changes.push(this.change(
+            area, 'moved', sheetName, [address, show(value)], [moved[0], show(value)],
+            `${kind === 'text' ? `'${value}'` : `Formula ${show(value)}`} moved from ${address} to ${moved[0]}`
+          ));
+        } else if (unmatchedAfter.has(address)) {
+          changedAt.set(address, value);
+        } else {
+          changes.push(this.change(
+            area, 'removed', sheetName, [address, show(value)], [null, null],
+            `${kind === 'text' ? `'${value}'` : `Formula ${show(value)}`} was removed from ${address}`
+          ));
+        }
+      }
+
+      // Cells whose content changed in place, unless a move took their new content
+      changedAt.forEach((value, address) => {
+        const now = unmatchedAfter.get(address);
+        if (now === undefined) {
+          changes.push(this.change(area, 'removed', sheetName, [address, show(value)], [null, null],
+            `${kind === 'text' ? `'${value}'` : `Formula ${show(value)}`} was removed from ${address}`));
+          return;
+        }
+        unmatchedAfter.delete(address);
+        changes.push(this.change(
+          area, 'changed', sheetName, [address, show(value)], [address, show(now)],
+          kind === 'text'
+            ? `${address} changed from '${value}' to '${now}'`
+            : `Formula in ${address} changed from ${show(value)} to ${show(now)}`
+        ));
+      });
+
+      unmatchedAfter.forEach((value, address) => {
+        changes.push(this.change(
+          area, 'added', sheetName, [null, null], [address, show(value)],
+          `${kind === 'text' ? `'${value}'` : `Formula ${show(value)}`} was added at ${address}`
+        ));
+      });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Fields of the extracted schemas, by sheet and field name
+   */
+  private static compareSchemas(from: TemplateDiffSide, to: TemplateDiffSide, sheetNames: Map<string, string>): TemplateChange[] {
+    const changes: TemplateChange[] = [];
+    const beforeFields = this.schemaFields(from, sheetNames);
+    const afterFields = this.schemaFields(to, new Map());
+
+    beforeFields.forEach((field, key) => {
+      const match = afterFields.get(key);
+      const sheetName = key.split('\u0000')[0];
+      const describe = (f: SchemaField) => [f.location, f.dataType].filter(Boolean).join(', ');
+      if (!match) {
+        changes.push(this.change('schema', 'removed', sheetName, [field.location, field.name], [null, null],
+          `Field '${field.name}' was removed${describe(field) ? ` (${describe(field)})` : ''}`));
+      } else if (match.location !== field.location) {
+        changes.push(this.change('schema', 'moved', sheetName, [field.location, field.name], [match.location, match.name],
+          `Field '${field.name}' moved from ${field.location ?? 'an unknown cell'} to ${match.location ?? 'an unknown cell'}`));
+      } else if (match.dataType !== field.dataType) {
+        changes.push(this.change('schema', 'changed', sheetName, [field.location, field.dataType], [match.location, match.dataType],
+          `Field '${field.name}' changed type from ${field.dataType ?? 'unknown'} to ${match.dataType ?? 'unknown'}`));
+      }
+    });
+
+    afterFields.forEach((field, key) => {
+      if (beforeFields.has(key)) return;
+      const describe = [field.location, field.dataType].filter(Boolean).join(', ');
+      changes.push(this.change('schema', 'added', key.split('\u0000')[0], [null, null], [field.location, field.name],
+        `Field '${field.name}' was added${describe ? ` (${describe})` : ''}`));
+    });
+    return changes;
+  }
+
+  /**
+   * Schema fields keyed by sheet and field name; sheets are named as in the newer template
+   */
+  private static schemaFields(side: TemplateDiffSide, sheetNames: Map<string, string>): Map<string, SchemaField> {
+    const fields = new Map<string, SchemaField>();
+    const sheetsById = new Map(side.sheets.map(sheet => [sheet.id, sheet.sheetName]));
+
+    for (const schema of side.schemas) {
+      let data: any = schema.schemaData;
+      if (typeof data === 'string') {
+        try {
+          data = JSON.parse(data);
+        } catch {
+          continue;
+        }
+      }
+      const sheet = (schema.sheetId !== null && sheetsById.get(schema.sheetId)) || data?.sheetName || side.sheets[0]?.sheetName || '';
+      const sheetName = sheetNames.get(sheet) ?? sheet;
+      for (const field of data?.required_fields || []) {
+        if (!field?.field_name) continue;
+        fields.set(`${sheetName}\u0000${this.normalize(field.field_name)}`, {
+          name: field.field_name,
+          dataType: field.data_type ?? null,
+          location: field.cell_reference ?? null
+        });
+      }
+    }
+    return fields;
+  }
+
+  /**
+   * Rules matched by type and the cells they apply to; a matched rule whose
+   * condition, message, severity or other settings differ has changed
+   */
+  private static compareRules(beforeRules: DiffRule[], afterRules: DiffRule[]): TemplateChange[] {
+    const changes: TemplateChange[] = [];
+    const identity = (rule: DiffRule) => RULE_IDENTITY.map(key => String(rule[key] ?? '').trim().toLowerCase()).join('\u0000');
+    const value = (rule: DiffRule, key: typeof RULE_KEYS[number]) => String(rule[key] ?? '').trim();
+    const describe = (rule: DiffRule) => `${rule.ruleType} rule on "${rule.field}"`;
+    const remaining = [...afterRules];
+
+    for (const rule of beforeRules) {
+      const sameRule = remaining.filter(candidate => identity(candidate) === identity(rule));
+      if (sameRule.length === 0) {
+        changes.push(this.change('rule', 'removed', null, [rule.field, rule.condition], [null, null], `${describe(rule)} was removed`));
+        continue;
+      }
+      const match = sameRule.find(candidate => RULE_KEYS.every(key => value(candidate, key) === value(rule, key))) ?? sameRule[0];
+      remaining.splice(remaining.indexOf(match), 1);
+
+      const differences = RULE_KEYS
+        .filter(key => value(match, key) !== value(rule, key))
+        .map(key => `${key} '${value(rule, key)}' -> '${value(match, key)}'`);
+      if (differences.length > 0) {
+        changes.push(this.change(
+          'rule', 'changed', null, [rule.field, rule.condition], [match.field, match.condition],
+          `${describe(rule)} changed: ${differences.join(', ')}`
+        ));
+      }
+    }
+
+    for (const rule of remaining) {
+      changes.push(this.change('rule', 'added', null, [null, null], [rule.field, rule.condition], `${describe(rule)} was added`));
+    }
+    return changes;
+  }
+
+  private static change(
+    area: TemplateChangeArea,
+    type: TemplateChangeType,
+    sheetName: string | null,
+    [beforeLocation, before]: [string | null, string | null],
+    [afterLocation, after]: [string | null, string | null],
+    description: string
+  ): TemplateChange {
+    return { area, type, sheetName, beforeLocation, before, afterLocation, after, description };
+  }
+
+  private static headerKeys(sheet: ExpectedSheetStructure): string[] {
+    return sheet.headers.filter((header): header is string => !!header).map(header => this.normalize(header));
+  }
+
+  private static normalize(text: string): string {
+    return String(text).trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+}
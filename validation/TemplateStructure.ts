@@ -0,0 +1,471 @@
+/**
+ * Structure conformance: does a submission still have the template's sheets,
+ * headers and tables where the template put them?
+ *
+ * Column-based rules silently check the wrong data once an entity inserts a
+ * column or renames a header, so drift is reported as structural errors with
+ * a suggested mapping back to the template layout.
+ */
+
+import { SheetData, numberToColumn } from './CellAddress';
+import type { SubmissionData, ValidationResult } from './ModernValidationEngine';
+import { SUBMISSION_WORKBOOK_SHEETS } from './SubmissionWorkbook';
+
+/** A table found in the template by FileProcessor.detectTabularTemplates */
+export interface ExpectedTable {
+  startRow: number;
+  startCol: number;
+  endCol: number;
+  headers: string[];
+  templateType: 'vertical' | 'horizontal' | 'matrix';
+}
+
+export interface ExpectedSheetStructure {
+  name: string;
+  index: number;
+  /** Row 1 headers indexed by column number - 1; null for blank or generated names */
+  headers: Array<string | null>;
+  /**
+   * False for templates extracted before header positions were stored: the
+   * headers are then known only by name
+   */
+  headerPositions: boolean;
+  tables: ExpectedTable[];
+}
+
+/** What FileProcessor stores in templateSheets.extractedData */
+export interface ExtractedSheetData {
+  data: Record<string, any>[];
+  headers?: string[];
+  tabularTemplates: ExpectedTable[];
+}
+
+// Table headers are searched for this far down, like detectTabularTemplates
+export const STRUCTURE_SCAN_ROWS = 1000;
+// How far right of its template position a table is looked for
+const MAX_COLUMN_SHIFT = 26;
+const MIN_HEADER_SIMILARITY = 0.6;
+const MIN_TABLE_MATCH = 0.8;
+// Names FileProcessor gives columns without a header
+const GENERATED_HEADER = /^Column_\d+$/;
+// FileProcessor's name for the single sheet of a CSV template
+const CSV_SHEET_NAME = 'CSV Data';
+
+/**
+ * Parse templateSheets.extractedData, which older rows hold as a bare array of rows
+ */
+export function parseExtractedData(extractedData: unknown): ExtractedSheetData | null {
+  let parsed = extractedData;
+  if (typeof parsed === 'string') {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      return null;
+    }
+  }
+  if (!parsed || typeof parsed !== 'object') return null;
+  if (Array.isArray(parsed)) return { data: parsed, tabularTemplates: [] };
+
+  const extracted = parsed as Partial<ExtractedSheetData>;
+  return {
+    data: extracted.data || [],
+    headers: extracted.headers,
+    tabularTemplates: extracted.tabularTemplates || []
+  };
+}
+
+interface HeaderCell {
+  column: number;
+  text: string;
+  key: string;
+}
+
+export class TemplateStructure {
+  /**
+   * Expected structure from a template's stored sheets
+   */
+  static fromTemplateSheets(
+    sheets: Array<{ sheetName: string; sheetIndex: number; extractedData: unknown }>
+  ): ExpectedSheetStructure[] {
+    return sheets.map(sheet => {
+      const extracted = parseExtractedData(sheet.extractedData);
+      const usable = (header: unknown) =>
+        header !== null && header !== undefined && String(header).trim() !== '' && !GENERATED_HEADER.test(String(header))
+          ? String(header)
+          : null;
+
+      let headers: Array<string | null> = [];
+      let headerPositions = false;
+      if (extracted?.headers) {
+        headers = Array.from(extracted.headers, usable);
+        headerPositions = true;
+      } else if (extracted) {
+        // Rows are keyed by header, so the names survive but not their columns
+        const names = new Set<string>();
+        extracted.data.slice(0, 200).forEach(row => Object.keys(row || {}).forEach(key => names.add(key)));
+        headers = Array.from(names, usable);
+      }
+
+      return {
+        name: sheet.sheetName,
+        index: sheet.sheetIndex,
+        headers,
+        headerPositions,
+        tables: (extracted?.tabularTemplates || []).filter(table => table.startRow > 0 && table.headers?.length > 0)
+      };
+    });
+  }
+
+  /**
+   * Compare a submission with the template structure. Every expected sheet,
+   * header and table gives one result, passing or failing; extra sheets and
+   * columns give failures. The hidden sheets of fillable workbooks are not
+   * counted as extra.
+   */
+  static check(expected: ExpectedSheetStructure[], submissionData: SubmissionData, submissionId: number): ValidationResult[] {
+    const results: ValidationResult[] = [];
+    const base = {
+      submissionId,
+      ruleType: 'structure',
+      severity: 'error' as const
+    };
+
+    const actualSheets = submissionData.sheets.filter(s => !SUBMISSION_WORKBOOK_SHEETS.includes(s.name));
+    const unmatched = new Set(actualSheets);
+    const pairs: Array<{ expected: ExpectedSheetStructure; actual: SheetData }> = [];
+    const missing: ExpectedSheetStructure[] = [];
+
+    for (const sheet of expected) {
+      const actual = actualSheets.find(s => unmatched.has(s) && this.normalize(s.name) === this.normalize(sheet.name));
+      if (actual) {
+        unmatched.delete(actual);
+        pairs.push({ expected: sheet, actual });
+      } else {
+        missing.push(sheet);
+      }
+    }
+
+    // A CSV file has one unnamed sheet; pair it with a single-sheet template
+    if (missing.length === 1 && unmatched.size === 1 &&
+        (submissionData.type === 'csv' || missing[0].name === CSV_SHEET_NAME)) {
+      const actual = Array.from(unmatched)[0];
+      unmatched.delete(actual);
+      pairs.push({ expected: missing.pop()!, actual });
+    }
+
+    for (const sheet of missing) {
+      const suggestion = this.suggestSheet(sheet, Array.from(unmatched));
+      if (suggestion) unmatched.delete(suggestion);
+      results.push({
+        ...base,
+        field: sheet.name,
+        condition: 'sheet_present',
+        isValid: false,
+        sheetName: sheet.name,
+        comparisonValue: suggestion?.name,
+        errorMessage: suggestion
+          ? `Sheet '${sheet.name}' is missing; sheet '${suggestion.name}' looks like it - rename it to '${sheet.name}'`
+          : `Sheet '${sheet.name}' is missing`
+      });
+    }
+
+    unmatched.forEach(sheet => results.push({
+      ...base,
+      field: sheet.name,
+      condition: 'no_extra_sheets',
+      isValid: false,
+      sheetName: sheet.name,
+      errorMessage: `Sheet '${sheet.name}' is not part of the template`
+    }));
+
+    for (const { expected: sheet, actual } of pairs) {
+      results.push({
+        ...base,
+        field: sheet.name,
+        condition: 'sheet_present',
+        isValid: true,
+        sheetName: actual.name,
+        errorMessage: `Sheet '${sheet.name}' is present`
+      });
+      results.push(...this.checkHeaders(sheet, actual, base));
+      results.push(...this.checkTables(sheet, actual, base));
+    }
+
+    return results;
+  }
+
+  /**
+   * Row 1 headers: matched in place, moved to another column, renamed,
+   * missing, or extra
+   */
+  private static checkHeaders(
+    sheet: ExpectedSheetStructure,
+    actual: SheetData,
+    base: Pick<ValidationResult, 'submissionId' | 'ruleType' | 'severity'>
+  ): ValidationResult[] {
+    const results: ValidationResult[] = [];
+    const expectedHeaders: HeaderCell[] = [];
+    sheet.headers.forEach((text, i) => {
+      if (text) expectedHeaders.push({ column: i + 1, text, key: this.normalize(text) });
+    });
+    if (expectedHeaders.length === 0) return results;
+
+    const actualHeaders: HeaderCell[] = [];
+    (actual.data[0] || []).forEach((value, i) => {
+      const text = this.cellText(value);
+      if (text) actualHeaders.push({ column: i + 1, text, key: this.normalize(text) });
+    });
+
+    const result = (header: HeaderCell, isValid: boolean, errorMessage: string, found?: HeaderCell, mapping?: string) => ({
+      ...base,
+      field: `${sheet.name}.${header.text}`,
+      condition: 'header_match',
+      isValid,
+      sheetName: actual.name,
+      cellReference: `${numberToColumn(found?.column ?? header.column)}1`,
+      columnName: numberToColumn(header.column),
+      cellValue: found?.text,
+      comparisonValue: mapping ?? header.text,
+      errorMessage
+    });
+
+    const used = new Set<HeaderCell>();
+    const unresolved: HeaderCell[] = [];
+
+    for (const header of expectedHeaders) {
+      const inPlace = sheet.headerPositions
+        ? actualHeaders.find(a => a.column === header.column && a.key === header.key)
+        : actualHeaders.find(a => !used.has(a) && a.key === header.key);
+      if (inPlace) {
+        used.add(inPlace);
+        results.push(result(header, true, `Header '${header.text}' matches`, inPlace));
+        continue;
+      }
+
+      const moved = actualHeaders.find(a => !used.has(a) && a.key === header.key);
+      if (moved) {
+        used.add(moved);
+        const from = numberToColumn(moved.column);
+        const to = numberToColumn(header.column);
+        results.push(result(
+          header,
+          false,
+          `Header '${header.text}' should be in column ${to} but is in column ${from} - move column ${from} to ${to}`,
+          moved,
+          `${from} -> ${to}`
+        ));
+        continue;
+      }
+
+      unresolved.push(header);
+    }
+
+    // Headers that vanished are paired with the closest unexplained header, preferring the same column
+    const leftovers = actualHeaders.filter(a => !used.has(a) && !expectedHeaders.some(e => e.key === a.key));
+    for (const header of unresolved) {
+      let best: HeaderCell | undefined;
+      let bestScore = MIN_HEADER_SIMILARITY;
+      for (const candidate of leftovers) {
+        if (used.has(candidate)) continue;
+        const score = this.similarity(header.key, candidate.key) + (candidate.column === header.column ? 0.05 : 0);
+        if (score >= bestScore) {
+          best = candidate;
+          bestScore = score;
+        }
+      }
+
+      if (best) {
+        used.add(best);
+        const from = numberToColumn(best.column);
+        const to = numberToColumn(header.column);
+        const where = sheet.headerPositions && best.column !== header.column ? ` and moved to column ${from}` : '';
+        results.push(result(
+          header,
+          false,
+          `Header '${header.text}' in column ${to} was renamed to '${best.text}'${where} - map '${best.text}' to '${header.text}'`,
+          best,
+          `${from} -> ${to}`
+        ));
+      } else {
+        results.push(result(header, false, `Header '${header.text}' (column ${numberToColumn(header.column)}) is missing`));
+      }
+    }
+
+    for (const extra of actualHeaders) {
+      if (used.has(extra)) continue;
+      const column = numberToColumn(extra.column);
+      results.push({
+        ...base,
+        field: `${sheet.name}.${extra.text}`,
+        condition: 'no_extra_columns',
+        isValid: false,
+        sheetName: actual.name,
+        cellReference: `${column}1`,
+        columnName: column,
+        cellValue: extra.text,
+        errorMessage: `Column ${column} ('${extra.text}') is not in the template - remove it or move it after the template columns`
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Tables below row 1 must start where the template has them. A table that
+   * moved is located by its headers so the shift can be reported.
+   */
+  private static checkTables(
+    sheet: ExpectedSheetStructure,
+    actual: SheetData,
+    base: Pick<ValidationResult, 'submissionId' | 'ruleType' | 'severity'>
+  ): ValidationResult[] {
+    const results: ValidationResult[] = [];
+    const lastRow = Math.min(actual.data.length, STRUCTURE_SCAN_ROWS);
+
+    for (const table of sheet.tables) {
+      // Row 1 tables are the header row, already checked column by column
+      if (table.startRow === 1 && sheet.headerPositions) continue;
+
+      // Matrix tables get a made-up "Row Label" header
+      const labels = (table.templateType === 'matrix' ? table.headers.slice(1) : table.headers)
+        .map(header => this.normalize(String(header)))
+        .filter(Boolean);
+      if (labels.length < 2) continue;
+
+      const width = table.endCol - table.startCol;
+      const matchAt = (row: number, startCol: number) => {
+        const cells = new Set<string>();
+        const values = actual.data[row - 1] || [];
+        for (let col = startCol; col <= startCol + width; col++) {
+          const text = this.cellText(values[col - 1]);
+          if (text) cells.add(this.normalize(text));
+        }
+        return labels.filter(label => cells.has(label)).length / labels.length;
+      };
+
+      const expectedAt = `${numberToColumn(table.startCol)}${table.startRow}`;
+      const title = labels.length > 3
+        ? `${table.headers.slice(0, 3).join(', ')}, ...`
+        : table.headers.join(', ');
+      const result = {
+        ...base,
+        field: `${sheet.name}!${expectedAt}`,
+        condition: 'table_position',
+        sheetName: actual.name,
+        comparisonValue: expectedAt
+      };
+
+      if (matchAt(table.startRow, table.startCol) >= MIN_TABLE_MATCH) {
+        results.push({ ...result, isValid: true, cellReference: expectedAt, errorMessage: `Table '${title}' is in place` });
+        continue;
+      }
+
+      let found: { row: number; col: number; score: number; distance: number } | null = null;
+      for (let row = 1; row <= lastRow; row++) {
+        for (let col = 1; col <= table.startCol + MAX_COLUMN_SHIFT; col++) {
+          const score = matchAt(row, col);
+          if (score < MIN_TABLE_MATCH) continue;
+          const distance = Math.abs(row - table.startRow) + Math.abs(col - table.startCol);
+          if (!found || score > found.score || (score === found.score && distance < found.distance)) {
+            found = { row, col, score, distance };
+          }
+        }
+      }
+
+      if (found) {
+        const foundAt = `${numberToColumn(found.col)}${found.row}`;
+        const shifts = [
+          found.row !== table.startRow ? `${this.signed(found.row - table.startRow)} rows` : '',
+          found.col !== table.startCol ? `${this.signed(found.col - table.startCol)} columns` : ''
+        ].filter(Boolean).join(', ');
+        results.push({
+          ...result,
+          isValid: false,
+          cellReference: foundAt,
+          errorMessage: `Table '${title}' should start at ${expectedAt} but starts at ${foundAt} (${shifts}) - move it back to ${expectedAt}`
+        });
+      } else {
+        results.push({
+          ...result,
+          isValid: false,
+          cellReference: expectedAt,
+          errorMessage: `Table '${title}' expected at ${expectedAt} was not found`
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Closest remaining sheet by name or by shared headers
+   */
+  private static suggestSheet(sheet: ExpectedSheetStructure, candidates: SheetData[]): SheetData | undefined {
+    const expectedKeys = new Set(sheet.headers.filter((h): h is string => !!h).map(h => this.normalize(h)));
+    let best: SheetData | undefined;
+    let bestScore = MIN_HEADER_SIMILARITY;
+
+    for (const candidate of candidates) {
+      const keys = (candidate.data[0] || []).map(value => this.normalize(this.cellText(value))).filter(Boolean);
+      const shared = expectedKeys.size > 0 ? keys.filter(key => expectedKeys.has(key)).length / expectedKeys.size : 0;
+      const score = Math.max(this.similarity(this.normalize(sheet.name), this.normalize(candidate.name)), shared);
+      if (score >= bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * 0-1 similarity of two normalized strings. One containing the other, or
+   * abbreviating it ("amt" for "amount"), counts as close.
+   */
+  private static similarity(a: string, b: string): number {
+    if (!a || !b) return 0;
+    if (a === b) return 1;
+    if (a.includes(b) || b.includes(a)) return Math.max(0.7, Math.min(a.length, b.length) / Math.max(a.length, b.length));
+    const [shorter, longer] = a.length < b.length ? [a, b] : [b, a];
+    if (shorter[0] === longer[0] && this.isSubsequence(shorter, longer)) return 0.7;
+
+    // Levenshtein distance over one row of the matrix
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      let previous = row[0];
+      row[0] = i;
+      for (let j = 1; j <= b.length; j++) {
+        const current = row[j];
+        row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+        previous = current;
+      }
+    }
+    return 1 - row[b.length] / Math.max(a.length, b.length);
+  }
+
+  private static isSubsequence(short: string, long: string): boolean {
+    let i = 0;
+    for (const char of long) {
+      if (char === short[i]) i++;
+    }
+    return i === short.length;
+  }
+
+  private static cellText(value: any): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'object') {
+      if (Array.isArray(value.richText)) return value.richText.map((part: any) => part.text).join('');
+      if ('result' in value) return String(value.result ?? '');
+      if ('text' in value) return String(value.text);
+    }
+    return String(value);
+  }
+
+  private static normalize(text: string): string {
+    return String(text).trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  private static signed(n: number): string {
+    return n > 0 ? `+${n}` : String(n);
+  }
+}
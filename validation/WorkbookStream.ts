@@ -0,0 +1,216 @@
+/**
+ * Row-by-row reading of submission files for streaming validation.
+ *
+ * Excel files are read with ExcelJS's streaming WorkbookReader and CSV files
+ * with csv-parser, so only the current row is in memory. Callers decide what
+ * to keep; RetainedCellStore keeps just the cells that rules asked for.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import ExcelJS from 'exceljs';
+import csv from 'csv-parser';
+import { SheetData, columnToNumber, findHeaderColumn } from './CellAddress';
+
+export interface StreamedSheet {
+  name: string;
+  index: number;
+}
+
+export interface StreamedRow {
+  sheet: StreamedSheet;
+  /** Names of all sheets in the file, in workbook order */
+  sheetNames: string[];
+  rowNumber: number;
+  /** Cell values indexed by column number - 1 */
+  values: any[];
+}
+
+/**
+ * Cells a rule needs kept in memory. Omitted bounds mean "all": a
+ * requirement without columns keeps whole rows, one without rows keeps
+ * whole columns, and one without an end row runs to the last row.
+ */
+export interface CellRequirement {
+  /** Sheet name or index; omitted means the sheet the rule targets */
+  sheet?: string | number;
+  startColumn?: string;
+  endColumn?: string;
+  /** Column found by header name in row 1 */
+  header?: string;
+  startRow?: number;
+  endRow?: number;
+}
+
+/**
+ * Read every row of an Excel or CSV file in order. Rows without values are
+ * skipped like ExcelJS's eachRow.
+ */
+export async function streamWorkbookRows(
+  filePath: string,
+  onRow: (row: StreamedRow) => void | Promise<void>
+): Promise<string[]> {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === '.csv') return streamCsvRows(filePath, onRow);
+  if (extension === '.xlsx' || extension === '.xls') return streamExcelRows(filePath, onRow);
+  throw new Error(`Unsupported file format: ${extension}`);
+}
+
+async function streamExcelRows(
+  filePath: string,
+  onRow: (row: StreamedRow) => void | Promise<void>
+): Promise<string[]> {
+  const reader = new ExcelJS.stream.xlsx.WorkbookReader(filePath, {
+    worksheets: 'emit',
+    sharedStrings: 'cache',
+    hyperlinks: 'ignore',
+    styles: 'cache', // Needed to tell dates from numbers
+    entries: 'ignore'
+  });
+
+  const seen: string[] = [];
+  let sheetNames: string[] = [];
+
+  for await (const worksheetReader of reader) {
+    const name: string = (worksheetReader as any).name;
+    // Sheet order comes from workbook.xml, which precedes the sheets in files Excel writes
+    sheetNames = ((reader as any).model?.sheets || []).map((s: any) => s.name);
+    seen.push(name);
+    const names = sheetNames.length > 0 ? sheetNames : seen;
+    const sheet = { name, index: Math.max(names.indexOf(name), 0) };
+
+    for await (const row of worksheetReader) {
+      const values: any[] = [];
+      row.eachCell((cell, colNumber) => {
+        values[colNumber - 1] = cell.value;
+      });
+      await onRow({ sheet, sheetNames: names, rowNumber: row.number, values });
+    }
+  }
+
+  return sheetNames.length > 0 ? sheetNames : seen;
+}
+
+async function streamCsvRows(
+  filePath: string,
+  onRow: (row: StreamedRow) => void | Promise<void>
+): Promise<string[]> {
+  const sheet = { name: 'Sheet1', index: 0 };
+  let rowNumber = 0;
+
+  const parser = fs.createReadStream(filePath).pipe(csv({ headers: false }));
+  for await (const record of parser) {
+    rowNumber++;
+    const values = Object.keys(record).map(key => record[key]);
+    await onRow({ sheet, sheetNames: [sheet.name], rowNumber, values });
+  }
+
+  return [sheet.name];
+}
+
+/**
+ * Keeps the cells covered by a set of requirements, per sheet, and turns
+ * them back into SheetData for the regular rule handlers
+ */
+export class RetainedCellStore {
+  private sheets = new Map<string, {
+    index: number;
+    data: any[][];
+    lastRow: number;
+    columnCount: number;
+    requirements: CellRequirement[];
+    keepAll: boolean;
+    columns: Set<number>;
+  }>();
+
+  /**
+   * @param requirementsFor requirements that apply to a sheet, resolved
+   *   against its name and index
+   */
+  constructor(private requirementsFor: (sheet: StreamedSheet) => CellRequirement[]) {}
+
+  add(row: StreamedRow): void {
+    let entry = this.sheets.get(row.sheet.name);
+    if (!entry) {
+      const requirements = this.requirementsFor(row.sheet);
+      entry = {
+        index: row.sheet.index,
+        data: [],
+        lastRow: 0,
+        columnCount: 0,
+        requirements,
+        keepAll: requirements.some(r => !r.startColumn && !r.header && r.startRow === undefined),
+        columns: new Set()
+      };
+      this.sheets.set(row.sheet.name, entry);
+    }
+
+    entry.lastRow = Math.max(entry.lastRow, row.rowNumber);
+    entry.columnCount = Math.max(entry.columnCount, row.values.length);
+
+    // The header row is always kept - selectors resolve header names against it
+    if (row.rowNumber === 1 || entry.keepAll) {
+      entry.data[row.rowNumber - 1] = row.values;
+      if (row.rowNumber === 1) this.resolveColumns(entry);
+      return;
+    }
+
+    let kept: any[] | undefined;
+    const keep = (col: number) => {
+      if (row.values[col - 1] === undefined) return;
+      kept = kept || [];
+      kept[col - 1] = row.values[col - 1];
+    };
+
+    entry.columns.forEach(keep);
+    for (const requirement of entry.requirements) {
+      if (requirement.startRow === undefined) continue;
+      if (row.rowNumber < requirement.startRow || row.rowNumber > (requirement.endRow ?? Infinity)) continue;
+      if (!requirement.startColumn) {
+        row.values.forEach((_, i) => keep(i + 1));
+        continue;
+      }
+      const start = columnToNumber(requirement.startColumn);
+      const end = columnToNumber(requirement.endColumn || requirement.startColumn);
+      for (let col = start; col <= end; col++) keep(col);
+    }
+
+    if (kept) entry.data[row.rowNumber - 1] = kept;
+  }
+
+  /**
+   * Sheets with only the retained cells; data.length still reflects the last row
+   */
+  toSheets(sheetNames: string[]): SheetData[] {
+    return sheetNames.map((name, index) => {
+      const entry = this.sheets.get(name);
+      const data = entry?.data || [];
+      data.length = entry?.lastRow || 0;
+      return {
+        name,
+        index: entry?.index ?? index,
+        data,
+        rowCount: entry?.lastRow || 0,
+        columnCount: entry?.columnCount || 0
+      };
+    });
+  }
+
+  /**
+   * Whole-column requirements, including columns named by header
+   */
+  private resolveColumns(entry: { data: any[][]; requirements: CellRequirement[]; columns: Set<number> }): void {
+    const headerSheet = { name: '', index: 0, data: entry.data, rowCount: 1, columnCount: 0 };
+    for (const requirement of entry.requirements) {
+      if (requirement.startRow !== undefined) continue;
+      if (requirement.header) {
+        const col = findHeaderColumn(headerSheet, requirement.header);
+        if (col) entry.columns.add(col);
+      } else if (requirement.startColumn) {
+        const start = columnToNumber(requirement.startColumn);
+        const end = columnToNumber(requirement.endColumn || requirement.startColumn);
+        for (let col = start; col <= end; col++) entry.columns.add(col);
+      }
+    }
+  }
+}